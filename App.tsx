@@ -2,8 +2,9 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import * as Y from 'yjs';
 import { WebrtcProvider } from 'y-webrtc';
+import { IndexeddbPersistence } from 'y-indexeddb';
 import { GoogleGenAI, Modality, LiveServerMessage, Blob } from '@google/genai';
-import { AppStage, CausalGraphData, Source, ChatMessage, SimulationResult, StructuredReport, VerificationCheck } from './types';
+import { AppStage, CausalGraphData, EdgeEstimate, Source, ChatMessage, SimulationResult, StructuredReport, VerificationCheck, GateOverride, RunKind, RunLock, NodePosition, LayoutSettings, PowerSettings, PlateLayout, PlateReads, Collaborator, PeerFocus, RevisionOrigin, ScaffoldBranch, ScaffoldRevision, Protocol, ProtocolCorrection, CorrectionDecision } from './types';
 import { 
   extractCausalScaffold, 
   runSynthesis, 
@@ -12,17 +13,45 @@ import {
   runVerificationGates, 
   chatWithNotebook, 
   generateNotebookSummary, 
+  extractFigureText,
+  extractProtocol,
   speakText, 
   editScientificImage 
 } from './services/gemini';
+import { ProviderConfig, ProviderId, PROVIDER_LABELS, getProviderConfig, localProviderConfig, saveProviderConnection, setProviderConfig, sharedProviderConfig } from './services/llm';
+import { validateCausalGraph, formatIssues, StructuredResponseError } from './services/validation';
+import { GraphFormatError, readGraphFile } from './services/graphFormats';
+import { runStructuralGates, failingChecks, isBlocked, SharedAudit, auditFor, scaffoldFingerprint } from './services/gates';
+import { applyScaffoldChange, migrateLegacyScaffold, observeScaffold, readScaffold, replaceScaffold } from './services/sharedScaffold';
+import { MAIN_BRANCH, createRevision, diffScaffolds, isEmptyDiff, lineage, summarizeDiff, uniqueBranchName } from './services/history';
+import { BUNDLE_EXTENSION, BundleError, bundleBlob, packBundle, readBundle, readNotebook, writeNotebook } from './services/bundle';
+import { retrieveEdgeEvidence, sourceText } from './services/retrieval';
+import { IngestError, createLocalFetcher, formatCitation, ingestFile, ingestUrl } from './services/ingest';
+import { activeFigure, addFigureVersion, selectFigureVersion } from './services/figures';
+import { mappedDatasets, observedDoseResponse } from './services/dataset';
+import { applyEstimates } from './services/estimation';
+import { RUN_HEARTBEAT_MS, RUN_LABELS, activeRuns, liveRun, releaseOwnRuns, runExclusive, waitForRun } from './services/runs';
+import { POWER_DEFAULTS, planPower, readPowerSettings } from './services/power';
+import { PlateError, PlateSpec, designPlate, parsePlateReads, suggestPlateSpec } from './services/plate';
+import { synthesizePlate } from './services/synthesis';
+import { applyCorrections, correctionKey, createProtocolVersion, currentProtocol, diffProtocols, protocolTargets, summarizeProtocolDiff } from './services/protocol';
+import { MergeDecision, extractAbbreviations, findDuplicateCandidates, mergeNodes, mergeScaffolds, pairKey, resolveEntities } from './services/entities';
 import CausalView from './components/CausalView';
 import SynthesisView from './components/SynthesisView';
 import ReportView from './components/ReportView';
+import GatesPanel from './components/GatesPanel';
+import EntityResolutionPanel from './components/EntityResolutionPanel';
+import HistoryPanel from './components/HistoryPanel';
+import SourceDrawer, { SourceHighlight } from './components/SourceDrawer';
+import FigurePanel from './components/FigurePanel';
+import DatasetPanel from './components/DatasetPanel';
+import ProtocolView from './components/ProtocolView';
+import PlatePanel from './components/PlatePanel';
 import { 
   Plus, BookOpen, FileText, Globe, Image as ImageIcon, Send, Mic, 
   Sparkles, BrainCircuit, Activity, Zap, Beaker, ChevronRight, Users, 
   Wifi, Share2, Loader2, Volume2, Info, X, Check, Search, Rocket, MessageSquare,
-  Circle, Terminal, FilePlus, Link, Type as TypeIcon, MicOff
+  Circle, Terminal, FilePlus, Link, Type as TypeIcon, MicOff, Paperclip, Table, Download, FolderOpen, ClipboardList
 } from 'lucide-react';
 
 const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#8b5cf6', '#06b6d4'];
@@ -51,8 +80,10 @@ export default function App() {
   const [sources, setSources] = useState<Source[]>([]);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [currentInput, setCurrentInput] = useState('');
+  // Our question while its answer is pending; it joins the shared log together with the answer.
+  const [pendingQuestion, setPendingQuestion] = useState<ChatMessage | null>(null);
   const [isThinking, setIsThinking] = useState(false);
-  const [loading, setLoading] = useState(false);
+  const [chatOpen, setChatOpen] = useState(true);
   const [toast, setToast] = useState<string | null>(null);
   
   // Voice Dictation State
@@ -61,23 +92,77 @@ export default function App() {
 
   // Modals
   const [isAddSourceOpen, setIsAddSourceOpen] = useState(false);
-  const [newSourceData, setNewSourceData] = useState({ title: '', content: '', type: 'text' as 'text' | 'url' });
+  const [newSourceData, setNewSourceData] = useState({ title: '', content: '', type: 'text' as 'text' | 'url' | 'file' });
+  const [savedCopy, setSavedCopy] = useState<File | null>(null);
+  const [ingesting, setIngesting] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [editingFigure, setEditingFigure] = useState(false);
+
+  const [openSource, setOpenSource] = useState<{ id: string; span?: [number, number] } | null>(null);
 
   // Collaborative State
-  const [activeUsers, setActiveUsers] = useState<any[]>([]);
+  const [activeUsers, setActiveUsers] = useState<Collaborator[]>([]);
+  const [presence, setPresence] = useState<Collaborator[]>([]);
+  const awarenessRef = useRef<WebrtcProvider['awareness'] | null>(null);
   const [roomID, setRoomID] = useState<string>('');
 
   // Mechanistic data
   const [scaffold, setScaffold] = useState<CausalGraphData | null>(null);
+  const [rawScaffold, setRawScaffold] = useState<CausalGraphData | null>(null);
   const [synthesis, setSynthesis] = useState<SimulationResult | null>(null);
   const [report, setReport] = useState<StructuredReport | null>(null);
   const [notebookSummary, setNotebookSummary] = useState('');
+  const [providerConfig, setProviderConfigState] = useState<ProviderConfig>(getProviderConfig());
+
+  // Verification gates
+  const [sharedAudit, setSharedAudit] = useState<SharedAudit | null>(null);
+  const [auditing, setAuditing] = useState(false);
+  const [gateOverride, setGateOverride] = useState<GateOverride | null>(null);
+
+  // Entity resolution
+  const [entityDecisions, setEntityDecisions] = useState<Record<string, MergeDecision>>({});
+  const scaffoldQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const [layout, setLayout] = useState<Record<string, NodePosition>>({});
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>({ mode: 'force' });
+
+  // Scaffold history
+  const [revisions, setRevisions] = useState<ScaffoldRevision[]>([]);
+  const [branches, setBranches] = useState<Record<string, ScaffoldBranch>>({});
+  const [branch, setBranch] = useState(MAIN_BRANCH);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  // Experimental protocol
+  const [protocols, setProtocols] = useState<Protocol[]>([]);
+  const [protocolReview, setProtocolReview] = useState<Record<string, CorrectionDecision>>({});
+  const [extractingProtocol, setExtractingProtocol] = useState(false);
+  const [powerSettings, setPowerSettings] = useState<PowerSettings>(POWER_DEFAULTS);
+
+  // Plate design
+  const [plate, setPlate] = useState<PlateLayout | null>(null);
+  const [plateReads, setPlateReads] = useState<PlateReads | null>(null);
+
+  // LLM runs in flight anywhere in the room
+  const [runs, setRuns] = useState<Partial<Record<RunKind, RunLock>>>({});
 
   // Yjs Setup
   const ydoc = useMemo(() => new Y.Doc(), []);
   const ySources = useMemo(() => ydoc.getArray<Source>('sources'), [ydoc]);
   const yScaffold = useMemo(() => ydoc.getMap('scaffold'), [ydoc]);
+  const ySettings = useMemo(() => ydoc.getMap('settings'), [ydoc]);
+  const yEntities = useMemo(() => ydoc.getMap<MergeDecision>('entities'), [ydoc]);
+  const yChat = useMemo(() => ydoc.getArray<ChatMessage>('chat'), [ydoc]);
+  const yNotebook = useMemo(() => ydoc.getMap('notebook'), [ydoc]);
+  const yRuns = useMemo(() => ydoc.getMap<RunLock>('runs'), [ydoc]);
+  const yLayout = useMemo(() => ydoc.getMap<NodePosition>('layout'), [ydoc]);
+  const yRevisions = useMemo(() => ydoc.getArray<ScaffoldRevision>('revisions'), [ydoc]);
+  const yBranches = useMemo(() => ydoc.getMap<ScaffoldBranch>('branches'), [ydoc]);
+  const yProtocols = useMemo(() => ydoc.getArray<Protocol>('protocols'), [ydoc]);
+  const yProtocolReview = useMemo(() => ydoc.getMap<CorrectionDecision>('protocolReview'), [ydoc]);
   const myID = useMemo(() => `scientist_${Math.floor(Math.random() * 10000)}`, []);
+  const myName = `Researcher ${myID.split('_')[1]}`;
 
   useEffect(() => {
     let hash = window.location.hash.substring(1);
@@ -88,37 +173,117 @@ export default function App() {
     setRoomID(hash);
 
     const provider = new WebrtcProvider(`proofsmith-notebook-${hash}`, ydoc);
+    // A local copy of the room, so a reload restores the notebook before any peer answers.
+    const persistence = new IndexeddbPersistence(`proofsmith-notebook-${hash}`, ydoc);
     const { awareness } = provider;
+    awarenessRef.current = awareness;
 
     awareness.setLocalStateField('user', {
       id: myID,
-      name: `Researcher ${myID.split('_')[1]}`,
+      name: myName,
       color: COLORS[Math.floor(Math.random() * COLORS.length)]
     });
 
     const syncSources = () => setSources(ySources.toArray());
+    // Peers may run older clients, so shared scaffolds are re-validated before they reach d3.
     const syncScaffold = () => {
-      const data = yScaffold.get('data') as CausalGraphData | null;
-      if (data) setScaffold(data);
+      // Whole-graph values from older clients are folded into the CRDT model, which calls back here.
+      if (migrateLegacyScaffold(ydoc)) return;
+      setBranch((yScaffold.get('branch') as string | undefined) || MAIN_BRANCH);
+      const data = readScaffold(ydoc);
+      if (!data) return;
+      // Gates inspect the scaffold as shared, before repairs; overrides were granted for the previous version.
+      setRawScaffold(data);
+      setGateOverride(null);
+      const checked = validateCausalGraph(data);
+      if (checked.repairs.length) console.warn(`Shared scaffold repaired: ${formatIssues(checked.repairs)}`);
+      if (checked.value) setScaffold(checked.value);
+    };
+    // The model backend is a notebook-level choice, so every collaborator runs the same provider;
+    // each reaches it through their own base URL and key, whatever older clients left in the room.
+    const syncSettings = () => {
+      const shared = ySettings.get('provider') as ProviderConfig | undefined;
+      if (shared) {
+        const cfg = localProviderConfig(shared);
+        setProviderConfig(cfg);
+        setProviderConfigState(cfg);
+      }
+      setLayoutSettings((ySettings.get('layout') as LayoutSettings | undefined) || { mode: 'force' });
+      setPowerSettings(readPowerSettings(ySettings.get('power')));
+    };
+    const syncEntities = () => setEntityDecisions(Object.fromEntries(yEntities.entries()));
+    const syncChat = () => {
+      setChatHistory(yChat.toArray());
+      setChatOpen(true);
+    };
+    const syncNotebook = () => {
+      setNotebookSummary((yNotebook.get('summary') as string | undefined) || '');
+      setSynthesis((yNotebook.get('synthesis') as SimulationResult | undefined) || null);
+      setReport((yNotebook.get('report') as StructuredReport | undefined) || null);
+      setSharedAudit((yNotebook.get('audit') as SharedAudit | undefined) || null);
+      setPlate((yNotebook.get('plate') as PlateLayout | undefined) || null);
+      setPlateReads((yNotebook.get('plateReads') as PlateReads | undefined) || null);
     };
+    const syncLayout = () => setLayout(yLayout.toJSON());
+    const syncHistory = () => {
+      setRevisions(yRevisions.toArray());
+      setBranches(yBranches.toJSON());
+    };
+    const syncProtocols = () => {
+      setProtocols(yProtocols.toArray());
+      setProtocolReview(yProtocolReview.toJSON());
+    };
+    const syncRuns = () => setRuns(activeRuns(yRuns));
 
     ySources.observe(syncSources);
-    yScaffold.observe(syncScaffold);
+    observeScaffold(ydoc, syncScaffold);
+    ySettings.observe(syncSettings);
+    yEntities.observe(syncEntities);
+    yChat.observe(syncChat);
+    yNotebook.observe(syncNotebook);
+    yRuns.observe(syncRuns);
+    yLayout.observe(syncLayout);
+    yRevisions.observe(syncHistory);
+    yBranches.observe(syncHistory);
+    yProtocols.observe(syncProtocols);
+    yProtocolReview.observe(syncProtocols);
     
     // Initial sync
     syncSources();
     syncScaffold();
+    syncSettings();
+    syncEntities();
+    syncChat();
+    syncNotebook();
+    syncRuns();
+    syncLayout();
+    syncHistory();
+    syncProtocols();
+
+    // Rechecked on a timer too, so a lock whose owner went quiet drops out; our own are released when the tab closes.
+    const runTimer = setInterval(syncRuns, RUN_HEARTBEAT_MS);
+    const releaseOwn = () => releaseOwnRuns(yRuns, myID);
+    window.addEventListener('beforeunload', releaseOwn);
 
     awareness.on('change', () => {
-      const states = Array.from(awareness.getStates().values());
-      setActiveUsers(states.map((s: any) => s.user).filter(Boolean));
+      const states = Array.from(awareness.getStates().entries()).filter(([, s]: [number, any]) => s.user);
+      setActiveUsers(states.map(([, s]: [number, any]) => s.user));
+      // Other tabs of the same researcher count as peers: their focus is not this tab's.
+      setPresence(states
+        .filter(([clientID]) => clientID !== awareness.clientID)
+        .map(([, s]: [number, any]) => ({ ...s.user, focus: s.focus || undefined })));
     });
 
     return () => {
+      awarenessRef.current = null;
+      clearInterval(runTimer);
+      window.removeEventListener('beforeunload', releaseOwn);
+      releaseOwn();
+      persistence.destroy();
       provider.destroy();
       ydoc.destroy();
     };
-  }, [ydoc, myID, ySources, yScaffold]);
+  }, [ydoc, myID, myName, ySources, yScaffold, ySettings, yEntities, yChat, yNotebook, yRuns, yLayout, yRevisions, yBranches, yProtocols, yProtocolReview]);
 
   const showToast = (m: string) => { setToast(m); setTimeout(() => setToast(null), 3000); };
 
@@ -176,31 +341,140 @@ export default function App() {
   };
 
   const handleCreateSource = async () => {
-    if (!newSourceData.title || !newSourceData.content) return;
+    const isUrl = newSourceData.type === 'url';
+    if ((!isUrl && !newSourceData.title) || !newSourceData.content) return;
     
     const newSource: Source = { 
       id: Math.random().toString(36).substring(7), 
       type: newSourceData.type, 
       title: newSourceData.title, 
-      content: newSourceData.content 
+      content: newSourceData.content.trim()
     };
+
+    if (isUrl) {
+      setIngesting(true);
+      try {
+        const doc = await ingestUrl(newSource.content, savedCopy ? createLocalFetcher(savedCopy) : undefined);
+        newSource.title ||= doc.title || new URL(newSource.content).hostname;
+        newSource.metadata = doc.metadata;
+      } catch (e) {
+        console.error(e);
+        showToast(e instanceof IngestError ? e.message : "Fetching the URL failed.");
+        return;
+      } finally { setIngesting(false); }
+    }
     
-    ySources.push([newSource]);
-    showToast(`Source added: ${newSource.title}`);
     setIsAddSourceOpen(false);
     setNewSourceData({ title: '', content: '', type: 'text' });
+    setSavedCopy(null);
+    addSource(newSource);
+  };
 
-    // If it's the first source, try to scaffold the model automatically
-    if (sources.length === 0) {
-      setLoading(true);
+  const addSource = (source: Source) => {
+    ySources.push([source]);
+    if (source.type === 'dataset') {
+      // Tables are not read for mechanisms; their columns are mapped onto the scaffold instead.
+      showToast(`Dataset added: ${source.title}. Map its columns to estimate edge weights.`);
+      setOpenSource({ id: source.id });
+      return;
+    }
+    showToast(`Source added: ${source.title}`);
+    // Extractions are queued so each source merges into the scaffold left by the previous one.
+    scaffoldQueue.current = scaffoldQueue.current.then(() => scaffoldSource(source));
+  };
+
+  const updateSource = (next: Source) => {
+    const index = ySources.toArray().findIndex(s => s.id === next.id);
+    if (index < 0) return;
+    ydoc.transact(() => {
+      ySources.delete(index, 1);
+      ySources.insert(index, [next]);
+    });
+  };
+
+  const handleUploadFiles = async (files: File[]) => {
+    setIsAddSourceOpen(false);
+    for (const file of files) {
+      setIngesting(true);
       try {
-        const s = await generateNotebookSummary([newSource]);
-        setNotebookSummary(s);
-        const sc = await extractCausalScaffold(newSource.content);
-        yScaffold.set('data', sc);
+        const source: Source = { id: Math.random().toString(36).substring(7), ...await ingestFile(file) };
+        if (source.type === 'image') {
+          showToast(`Reading figure: ${source.title}`);
+          const text = await extractFigureText(activeFigure(source), source.title);
+          source.metadata = { ...source.metadata, text };
+        }
+        addSource(source);
       } catch (e) {
-        showToast("Initial analysis failed.");
-      } finally { setLoading(false); }
+        console.error(e);
+        showToast(e instanceof IngestError ? e.message : `Could not read ${file.name}.`);
+      } finally { setIngesting(false); }
+    }
+  };
+
+  const handleDropFiles = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    const files: File[] = Array.from(e.dataTransfer.files);
+    if (files.length) handleUploadFiles(files);
+  };
+
+  const handleEditFigure = async (source: Source, prompt: string) => {
+    setEditingFigure(true);
+    try {
+      const base = activeFigure(source);
+      const edited = await editScientificImage(base.data, prompt, base.mimeType);
+      const [, mimeType, data] = edited.match(/^data:([^;]+);base64,(.*)$/s) || [];
+      const latest = ySources.toArray().find(s => s.id === source.id) || source;
+      updateSource(addFigureVersion(latest, {
+        id: Math.random().toString(36).substring(7),
+        data, mimeType, prompt, by: myName, at: new Date().toISOString()
+      }));
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof Error ? e.message : "Figure editing failed.");
+    } finally { setEditingFigure(false); }
+  };
+
+  const scaffoldSource = async (source: Source) => {
+    if (source.type !== 'text' && !sourceText(source)) {
+      showToast(`${source.title} has no text to scaffold.`);
+      return;
+    }
+    // Scaffolding merges into the shared graph, so runs from different collaborators take turns.
+    const held = liveRun(yRuns, 'scaffold');
+    if (held && held.owner !== myID) showToast(`Waiting for ${held.ownerName} to finish scaffolding…`);
+    await waitForRun(yRuns, 'scaffold');
+    try {
+      const heldBy = await runExclusive(yRuns, 'scaffold', { id: myID, name: myName }, async commit => {
+        const all = ySources.toArray();
+        const summary = await generateNotebookSummary(all);
+        const extracted = await extractCausalScaffold(source);
+        let notes: string[] = [];
+        const committed = commit(() => {
+          yNotebook.set('summary', summary);
+          const base = validateCausalGraph(readScaffold(ydoc)).value;
+          if (!base) {
+            commitScaffold(extracted, 'source', `Scaffolded ${source.title}`, null);
+            return;
+          }
+          const abbreviations = Object.assign({}, ...all.map(s => extractAbbreviations(sourceText(s))));
+          const { mapping, merged, candidates } = resolveEntities(base, extracted, { decisions: yEntities.toJSON(), abbreviations });
+          const { graph, conflicts } = mergeScaffolds(base, extracted, mapping);
+          commitScaffold(graph, 'source', `Merged ${source.title}`, base);
+          notes = [`${merged.length} entities merged`];
+          if (candidates.length) notes.push(`${candidates.length} possible duplicates to review`);
+          if (conflicts.length) notes.push(`${conflicts.length} conflicting links`);
+        });
+        if (!committed) {
+          showToast(`${source.title}: another collaborator took over scaffolding; retrying.`);
+          scaffoldQueue.current = scaffoldQueue.current.then(() => scaffoldSource(source));
+        } else if (notes.length) showToast(`${source.title}: ${notes.join(', ')}.`);
+      });
+      // Lost the race to claim between waiting and starting; go to the back of the line.
+      if (heldBy) scaffoldQueue.current = scaffoldQueue.current.then(() => scaffoldSource(source));
+    } catch (e) {
+      console.error(e);
+      showToast(`Scaffolding failed for ${source.title}.`);
     }
   };
 
@@ -210,19 +484,27 @@ export default function App() {
       return;
     }
 
-    const userMsg: ChatMessage = { role: 'user', text: currentInput };
-    setChatHistory(prev => [...prev, userMsg]);
-    setCurrentInput('');
-    setLoading(true);
-
+    const userMsg: ChatMessage = { role: 'user', text: currentInput, author: myName };
+    const history = yChat.toArray();
     try {
-      const response = await chatWithNotebook(userMsg.text, sources, chatHistory, isThinking);
-      setChatHistory(prev => [...prev, response]);
+      // One question at a time per notebook, so every answer sees the log it is appended to.
+      const heldBy = await runExclusive(yRuns, 'chat', { id: myID, name: myName }, async commit => {
+        // The question is shared with its answer, so a run that loses its lock leaves neither behind.
+        setPendingQuestion(userMsg);
+        setChatOpen(true);
+        setCurrentInput('');
+        const response = await chatWithNotebook(userMsg.text, sources, history, isThinking);
+        if (!commit(() => yChat.push([userMsg, response]))) {
+          setCurrentInput(userMsg.text);
+          showToast("Another collaborator took over the chat before the answer arrived. Ask again once it lands.");
+        }
+      });
+      if (heldBy) showToast(`${heldBy.ownerName} is ${RUN_LABELS.chat}. Ask again once it lands.`);
     } catch (e) {
       console.error(e);
       showToast("Model interaction failed.");
     } finally {
-      setLoading(false);
+      setPendingQuestion(null);
       setIsThinking(false);
     }
   };
@@ -241,21 +523,329 @@ export default function App() {
     } catch (e) { showToast("Audio playback failed."); }
   };
 
-  const handleRunSimulation = async () => {
+  const structuralChecks = useMemo(() => rawScaffold ? runStructuralGates(rawScaffold) : [], [rawScaffold]);
+  const auditChecks = useMemo(() => auditFor(sharedAudit, rawScaffold), [sharedAudit, rawScaffold]);
+  const gateChecks = useMemo(() => [...structuralChecks, ...auditChecks], [structuralChecks, auditChecks]);
+
+  const runAudit = async (): Promise<VerificationCheck[]> => {
+    if (!scaffold || !rawScaffold) return [];
+    // The audit is shared against the scaffold it was started on; edits made meanwhile void it.
+    const audited = scaffoldFingerprint(rawScaffold);
+    const share = (checks: VerificationCheck[]) => yNotebook.set('audit', { scaffold: audited, checks } as SharedAudit);
+    setAuditing(true);
+    try {
+      const checks = await runVerificationGates(scaffold);
+      share(checks);
+      return checks;
+    } catch (e) {
+      console.error(e);
+      const unavailable: VerificationCheck[] = [{ id: 'audit:unavailable', name: 'AI Audit', status: 'Warn', message: 'The model audit could not be completed; only rule-based gates were applied.', origin: 'audit' }];
+      share(unavailable);
+      return unavailable;
+    } finally { setAuditing(false); }
+  };
+
+  const handleRunSimulation = async (override: GateOverride | null = gateOverride) => {
     if (!scaffold) return;
-    setLoading(true);
     setStage(AppStage.VALIDATE);
+    const checks = auditChecks.length ? gateChecks : [...structuralChecks, ...await runAudit()];
+    if (isBlocked(checks, override)) {
+      showToast(`${failingChecks(checks).length} verification gate(s) failing. Resolve or override them to run synthesis.`);
+      return;
+    }
     try {
-      const res = await runSynthesis(scaffold);
-      setSynthesis(res);
-      const rep = await generateReviewerReport(scaffold, [], res);
-      setReport(rep);
-    } catch (e) { showToast("Synthesis chain failed."); }
-    finally { setLoading(false); }
+      const heldBy = await runExclusive(yRuns, 'synthesis', { id: myID, name: myName }, async commit => {
+        const protocol = currentProtocol(yProtocols.toArray());
+        const simulated = await runSynthesis(scaffold, roomID, protocolTargets(protocol, scaffold));
+        const observed = observedDoseResponse(sources, scaffold, simulated.treatmentId, simulated.outcomeId);
+        const res = { ...simulated, doseResponseData: [...observed, ...simulated.doseResponseData] };
+        // The simulation is shared as soon as it exists; the report follows when the reviewer returns.
+        commit(() => {
+          yNotebook.set('synthesis', res);
+          yNotebook.delete('report');
+        });
+        const rag = retrieveEdgeEvidence(sources, scaffold);
+        const power = planPower(res, readPowerSettings(ySettings.get('power')), protocol);
+        const rep = await generateReviewerReport(scaffold, rag, res, protocol, power);
+        commit(() => yNotebook.set('report', { ...rep, gates: checks, gateOverride: failingChecks(checks).length && override ? override : undefined }));
+      });
+      if (heldBy) showToast(`${heldBy.ownerName} is already ${RUN_LABELS.synthesis}; results will appear here.`);
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof StructuredResponseError ? `Model returned invalid ${e.task} data.` : "Synthesis chain failed.");
+    }
+  };
+
+  const handleOverrideGates = (reason: string) => {
+    const override: GateOverride = { by: myName, at: new Date().toISOString(), reason, failedChecks: failingChecks(gateChecks).map(c => c.id) };
+    setGateOverride(override);
+    handleRunSimulation(override);
+  };
+
+  const powerPlan = useMemo(() => synthesis ? planPower(synthesis, powerSettings, currentProtocol(protocols)) : null, [synthesis, powerSettings, protocols]);
+
+  // The report keeps the plan it was written with until someone replaces it with the current one.
+  const handleWritePowerToReport = () => {
+    const current = yNotebook.get('report') as StructuredReport | undefined;
+    if (!current || !powerPlan) return;
+    yNotebook.set('report', { ...current, power: powerPlan });
+    showToast(powerPlan.n ? `Report updated: n = ${powerPlan.n} per group.` : 'Report updated with the power analysis.');
   };
 
-  const updateScaffoldCollaboratively = (newData: CausalGraphData) => {
-    yScaffold.set('data', newData);
+  // The treatment or outcome a plate was designed for can leave the scaffold; the plate then has no prediction.
+  const predictedPlate = useMemo(() => {
+    if (!scaffold || !plate) return null;
+    try { return synthesizePlate(scaffold, plate, synthesis?.seed); } catch { return null; }
+  }, [scaffold, plate, synthesis?.seed]);
+
+  const plateSuggestion = useMemo(() => {
+    if (!scaffold || !synthesis) return null;
+    try { return suggestPlateSpec(scaffold, synthesis, currentProtocol(protocols), powerPlan?.n); } catch { return null; }
+  }, [scaffold, synthesis, protocols, powerPlan?.n]);
+
+  const handleDesignPlate = (spec: PlateSpec) => {
+    try {
+      const layout = designPlate(spec, myName);
+      // Reads belong to the plate they were measured on.
+      ydoc.transact(() => {
+        yNotebook.set('plate', layout);
+        yNotebook.delete('plateReads');
+      });
+    } catch (e) {
+      showToast(e instanceof PlateError ? e.message : 'Plate design failed.');
+    }
+  };
+
+  const handleImportPlateReads = async (file: File) => {
+    if (!plate) return;
+    try {
+      const reads = parsePlateReads(await file.text(), plate.format, file.name, myName);
+      yNotebook.set('plateReads', reads);
+      showToast(`Imported ${Object.keys(reads.values).length} well reads from ${file.name}.`);
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof PlateError ? e.message : `Could not read ${file.name}.`);
+    }
+  };
+
+  const sourceTitles = useMemo(() => Object.fromEntries(sources.map(s => [s.id, s.title])), [sources]);
+  const drawerSource = openSource ? sources.find(s => s.id === openSource.id) : undefined;
+
+  // Every passage the scaffold cites from the open source, labelled with what it supports.
+  const drawerHighlights = useMemo<SourceHighlight[]>(() => {
+    if (!openSource || !scaffold) return [];
+    const label = (id: string) => scaffold.nodes.find(n => n.id === id)?.label || id;
+    return [
+      ...scaffold.nodes.flatMap(n => (n.provenance || []).filter(p => p.sourceId === openSource.id).map(p => ({ start: p.start, end: p.end, label: n.label }))),
+      ...scaffold.edges.flatMap(e => (e.provenance || []).filter(p => p.sourceId === openSource.id).map(p => ({ start: p.start, end: p.end, label: `${label(e.source)} → ${label(e.target)}` })))
+    ];
+  }, [openSource, scaffold]);
+
+  /**
+   * Every scaffold change goes through here. The edit from `before` (default: the shared graph) to
+   * `graph` is merged field by field into the shared scaffold, and the result is recorded as a
+   * revision on the current branch, so any step (an over-eager expansion, say) can be undone.
+   */
+  const commitScaffold = (graph: CausalGraphData, origin: RevisionOrigin, note?: string, before?: CausalGraphData | null) => {
+    const previous = readScaffold(ydoc);
+    ydoc.transact(() => {
+      applyScaffoldChange(ydoc, before === undefined ? previous : before, graph);
+      const result = readScaffold(ydoc) || graph;
+      const diff = diffScaffolds(previous, result);
+      if (previous && isEmptyDiff(diff) && origin !== 'restore') return;
+      const current = (yScaffold.get('branch') as string | undefined) || MAIN_BRANCH;
+      const head = yBranches.get(current);
+      const revision = createRevision(result, { parent: head?.head, branch: current, origin, note: note || summarizeDiff(diff), by: myName });
+      // Rooms scaffolded before history existed get their previous graph recorded as the root.
+      const root = previous && !head ? createRevision(previous, { branch: current, origin: 'edit', note: 'Scaffold before history was recorded', by: myName }) : null;
+      if (root) {
+        revision.parent = root.id;
+        yRevisions.push([root]);
+      }
+      yRevisions.push([revision]);
+      yBranches.set(current, { name: current, createdBy: head?.createdBy || myName, createdAt: head?.createdAt || revision.at, head: revision.id });
+    });
+  };
+
+  // Edits are made against the scaffold on screen, so only what the edit changed is written.
+  const updateScaffoldCollaboratively = (newData: CausalGraphData, origin: RevisionOrigin = 'edit', note?: string, before: CausalGraphData | null = scaffold) => {
+    commitScaffold(newData, origin, note, before);
+  };
+
+  const handleRestoreRevision = (revision: ScaffoldRevision) => {
+    commitScaffold(revision.graph, 'restore', `Restored the ${new Date(revision.at).toLocaleString()} revision`);
+    setCompareId(null);
+  };
+
+  // Branches are shared: switching moves the whole room to that hypothesis.
+  const handleSwitchBranch = (name: string) => {
+    const target = yBranches.get(name);
+    const head = target && yRevisions.toArray().find(r => r.id === target.head);
+    if (!head) return;
+    setCompareId(null);
+    ydoc.transact(() => {
+      yScaffold.set('branch', name);
+      replaceScaffold(ydoc, head.graph);
+    });
+  };
+
+  const handleCreateBranch = (from: ScaffoldRevision, wanted: string) => {
+    const name = uniqueBranchName(yBranches.toJSON(), wanted);
+    ydoc.transact(() => {
+      yBranches.set(name, { name, head: from.id, createdBy: myName, createdAt: new Date().toISOString() });
+      yScaffold.set('branch', name);
+      replaceScaffold(ydoc, from.graph);
+    });
+    setCompareId(null);
+    showToast(`Now on branch ${name}.`);
+  };
+
+  const branchRevisions = useMemo(() => lineage(revisions, branches[branch]?.head), [revisions, branches, branch]);
+  const comparedRevision = compareId ? revisions.find(r => r.id === compareId) : undefined;
+  const scaffoldDiff = useMemo(() => comparedRevision && scaffold ? diffScaffolds(comparedRevision.graph, scaffold) : null, [comparedRevision, scaffold]);
+
+  // Settled positions are shared so reloads, late joiners and exported bundles keep the arrangement.
+  // Settling reports positions only, so a node keeps its pin until it is explicitly unpinned.
+  const handleLayoutChange = (positions: Record<string, NodePosition>) => {
+    const changed = Object.entries(positions).filter(([id, p]) => {
+      const prev = yLayout.get(id);
+      return !prev || Math.abs(prev.x - p.x) > 1 || Math.abs(prev.y - p.y) > 1 || (p.pinned !== undefined && !!prev.pinned !== p.pinned);
+    });
+    if (changed.length) ydoc.transact(() => changed.forEach(([id, p]) => {
+      const pinned = p.pinned ?? yLayout.get(id)?.pinned;
+      yLayout.set(id, pinned ? { x: p.x, y: p.y, pinned } : { x: p.x, y: p.y });
+    }));
+  };
+
+  const handleFocusChange = (focus: PeerFocus | null) => awarenessRef.current?.setLocalStateField('focus', focus);
+
+  const handleExportNotebook = async () => {
+    try {
+      const bundle = await packBundle(readNotebook(ydoc, gateChecks), { room: roomID, exportedBy: myName });
+      const url = URL.createObjectURL(bundleBlob(bundle));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `notebook-${roomID}-${new Date().toISOString().slice(0, 10)}${BUNDLE_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      showToast("Notebook export failed.");
+    }
+  };
+
+  // Imports open as a new room: the bundle is written to that room's local store, then the page reloads into it.
+  const handleImportNotebook = async (file: File) => {
+    setImporting(true);
+    try {
+      const { state, repairs } = readBundle(await file.text());
+      if (repairs.length) console.warn(`Bundle repaired on import: ${repairs.join('; ')}`);
+      const room = Math.random().toString(36).substring(7);
+      const doc = new Y.Doc();
+      writeNotebook(doc, state, myName);
+      const persistence = new IndexeddbPersistence(`proofsmith-notebook-${room}`, doc);
+      await persistence.whenSynced;
+      await persistence.destroy();
+      doc.destroy();
+      window.location.hash = room;
+      window.location.reload();
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof BundleError ? e.message : "Notebook import failed.");
+      setImporting(false);
+    }
+  };
+
+  // An imported graph replaces the scaffold as a new revision, so the previous one can be restored.
+  const handleImportGraph = async (file: File) => {
+    try {
+      const { graph, layout: positions } = readGraphFile(file.name, await file.text());
+      const checked = validateCausalGraph(graph);
+      if (!checked.value) throw new GraphFormatError(`The graph is not usable: ${formatIssues(checked.errors)}`);
+      if (checked.repairs.length) console.warn(`Imported graph repaired: ${formatIssues(checked.repairs)}`);
+      ydoc.transact(() => {
+        Object.entries(positions).forEach(([id, p]) => yLayout.set(id, p));
+        commitScaffold(checked.value!, 'import', `Imported ${file.name}`);
+      });
+      showToast(`Imported ${checked.value.nodes.length} nodes from ${file.name}.`);
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof GraphFormatError ? e.message : "Graph import failed.");
+    }
+  };
+
+  const handleApplyEstimates = (estimates: Record<string, EdgeEstimate>) => {
+    if (!scaffold) return;
+    updateScaffoldCollaboratively(applyEstimates(scaffold, estimates, mappedDatasets(sources, scaffold)), 'estimate', `Set ${Object.keys(estimates).length} edge weight(s) from data`);
+    showToast(`${Object.keys(estimates).length} edge weight(s) set from data.`);
+  };
+
+  const abbreviations = useMemo(() => Object.assign({}, ...sources.map(s => extractAbbreviations(sourceText(s)))), [sources]);
+  const duplicateCandidates = useMemo(
+    () => scaffold ? findDuplicateCandidates(scaffold, { decisions: entityDecisions, abbreviations }) : [],
+    [scaffold, entityDecisions, abbreviations]
+  );
+
+  // Decisions are keyed by label pair so they also apply when a later source reintroduces either entity.
+  const recordEntityDecision = (baseId: string, incomingId: string, decision: MergeDecision) => {
+    const label = (id: string) => scaffold?.nodes.find(n => n.id === id)?.label || id;
+    yEntities.set(pairKey(label(baseId), label(incomingId)), decision);
+  };
+
+  const handleMergeEntities = (keepId: string, dropId: string) => {
+    if (!scaffold) return;
+    recordEntityDecision(keepId, dropId, 'merge');
+    const label = (id: string) => scaffold.nodes.find(n => n.id === id)?.label || id;
+    updateScaffoldCollaboratively(mergeNodes(scaffold, keepId, dropId).graph, 'entity-merge', `Merged ${label(dropId)} into ${label(keepId)}`);
+  };
+
+  // Protocol versions are appended, never edited, so a reviewed version stays as it was reviewed.
+  const saveProtocol = (draft: Pick<Protocol, 'title' | 'steps'>, origin: Protocol['origin'], note?: string) => {
+    const versions = yProtocols.toArray();
+    const summary = summarizeProtocolDiff(diffProtocols(currentProtocol(versions), draft));
+    yProtocols.push([createProtocolVersion(versions, { ...draft, origin, note: note || summary, by: myName })]);
+  };
+
+  const handleExtractProtocol = async (sourceId: string) => {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) return;
+    setExtractingProtocol(true);
+    try {
+      const draft = await extractProtocol(source, scaffold);
+      saveProtocol(draft, 'extracted', `Extracted from ${source.title}`);
+      showToast(`Extracted ${draft.steps.length} protocol steps from ${source.title}.`);
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof StructuredResponseError ? `No usable protocol found in ${source.title}.` : "Protocol extraction failed.");
+    } finally { setExtractingProtocol(false); }
+  };
+
+  const handleRestoreProtocol = (version: Protocol) =>
+    saveProtocol({ title: version.title, steps: version.steps }, 'restore', `Restored v${version.version}`);
+
+  const handleDecideCorrection = (correction: ProtocolCorrection, decision: CorrectionDecision | null) => {
+    const key = correctionKey(correction);
+    if (decision) yProtocolReview.set(key, decision);
+    else yProtocolReview.delete(key);
+  };
+
+  const handleApplyCorrections = (corrections: ProtocolCorrection[]) => {
+    const base = currentProtocol(yProtocols.toArray());
+    const steps = applyCorrections(base?.steps || [], corrections);
+    saveProtocol({ title: base?.title || 'Reviewed protocol', steps }, 'correction', `Applied ${corrections.length} reviewer correction${corrections.length === 1 ? '' : 's'}`);
+    showToast(`Protocol v${yProtocols.toArray().slice(-1)[0]?.version} saved with ${corrections.length} correction(s).`);
+  };
+
+  const updateProviderConfig = (patch: Partial<ProviderConfig>) => {
+    const next = { ...providerConfig, ...patch };
+    if ('baseUrl' in patch || 'apiKey' in patch) {
+      saveProviderConnection(next);
+      setProviderConfig(next);
+      setProviderConfigState(next);
+    }
+    if (Object.keys(patch).some(k => k !== 'baseUrl' && k !== 'apiKey')) ySettings.set('provider', sharedProviderConfig(next));
   };
 
   return (
@@ -279,35 +869,95 @@ export default function App() {
                 <div className="flex gap-2 p-1 bg-slate-100 rounded-2xl">
                    <button onClick={() => setNewSourceData({...newSourceData, type: 'text'})} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${newSourceData.type === 'text' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500'}`}>Text Abstract</button>
                    <button onClick={() => setNewSourceData({...newSourceData, type: 'url'})} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${newSourceData.type === 'url' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500'}`}>External URL</button>
+                   <button onClick={() => setNewSourceData({...newSourceData, type: 'file'})} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${newSourceData.type === 'file' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500'}`}>Upload</button>
                 </div>
+                {newSourceData.type === 'file' ? (
+                  <label
+                    onDragOver={e => { e.preventDefault(); setIsDraggingFiles(true); }}
+                    onDragLeave={() => setIsDraggingFiles(false)}
+                    onDrop={handleDropFiles}
+                    className={`flex flex-col items-center justify-center gap-3 h-56 border-2 border-dashed rounded-[2rem] cursor-pointer transition-all ${isDraggingFiles ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 bg-slate-50 hover:border-indigo-300'}`}
+                  >
+                    <FilePlus size={28} className="text-slate-300" />
+                    <p className="text-xs font-bold text-slate-500">Drop PDFs, CSV datasets or figures here</p>
+                    <p className="text-[10px] text-slate-400">or click to choose files</p>
+                    <input type="file" multiple accept=".pdf,.csv,.tsv,.html,.htm,.txt,.md,image/png,image/jpeg,image/webp,image/gif" className="hidden" onChange={e => { const files: File[] = Array.from(e.target.files || []); e.target.value = ''; if (files.length) handleUploadFiles(files); }} />
+                  </label>
+                ) : (
                 <div className="space-y-4">
                    <input 
-                    placeholder="Source Title (e.g., Mechanism of Action: Compound X)" 
+                    placeholder={newSourceData.type === 'url' ? "Source Title (optional, read from the page)" : "Source Title (e.g., Mechanism of Action: Compound X)"}
                     className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all font-bold text-sm"
                     value={newSourceData.title}
                     onChange={e => setNewSourceData({...newSourceData, title: e.target.value})}
                    />
-                   <textarea 
-                    placeholder={newSourceData.type === 'text' ? "Paste the research text or abstract here..." : "Enter the source URL..."}
-                    className="w-full h-40 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm resize-none"
-                    value={newSourceData.content}
-                    onChange={e => setNewSourceData({...newSourceData, content: e.target.value})}
-                   />
+                   {newSourceData.type === 'text' ? (
+                     <textarea 
+                      placeholder="Paste the research text or abstract here..."
+                      className="w-full h-40 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm resize-none"
+                      value={newSourceData.content}
+                      onChange={e => setNewSourceData({...newSourceData, content: e.target.value})}
+                     />
+                   ) : (
+                     <>
+                       <input 
+                        type="url"
+                        placeholder="https://doi.org/10.…"
+                        className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                        value={newSourceData.content}
+                        onChange={e => setNewSourceData({...newSourceData, content: e.target.value})}
+                       />
+                       <label className="flex items-center gap-3 px-5 py-4 bg-slate-50 border border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-indigo-300 transition-all">
+                         <Paperclip size={14} className="text-slate-400 shrink-0"/>
+                         <span className="text-xs text-slate-500 font-medium truncate">{savedCopy ? savedCopy.name : 'Saved copy of the page or PDF (optional, used instead of fetching)'}</span>
+                         <input type="file" accept=".html,.htm,.pdf,text/html,application/pdf" className="hidden" onChange={e => setSavedCopy(e.target.files?.[0] || null)} />
+                       </label>
+                     </>
+                   )}
                 </div>
+                )}
              </div>
+             {newSourceData.type !== 'file' && (
              <div className="p-8 bg-slate-50 border-t border-slate-100 flex justify-end">
                 <button 
                   onClick={handleCreateSource}
-                  disabled={!newSourceData.title || !newSourceData.content}
+                  disabled={ingesting || (newSourceData.type === 'text' && !newSourceData.title) || !newSourceData.content}
                   className="px-8 py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-black text-xs uppercase tracking-widest shadow-lg shadow-indigo-200 transition-all disabled:opacity-50"
                 >
-                  Confirm & Scaffold
+                  {ingesting ? 'Fetching…' : 'Confirm & Scaffold'}
                 </button>
              </div>
+             )}
           </div>
         </div>
       )}
 
+      {drawerSource && (
+        <SourceDrawer
+          source={drawerSource}
+          highlights={drawerHighlights}
+          active={openSource?.span}
+          onClose={() => setOpenSource(null)}
+        >
+          {drawerSource.type === 'image' && (
+            <FigurePanel
+              source={drawerSource}
+              editing={editingFigure}
+              onEdit={prompt => handleEditFigure(drawerSource, prompt)}
+              onSelectVersion={id => updateSource(selectFigureVersion(drawerSource, id))}
+            />
+          )}
+          {drawerSource.type === 'dataset' && (
+            <DatasetPanel
+              source={drawerSource}
+              scaffold={scaffold}
+              onSaveColumnMap={columnMap => updateSource({ ...drawerSource, metadata: { ...drawerSource.metadata, columnMap } })}
+              onApply={handleApplyEstimates}
+            />
+          )}
+        </SourceDrawer>
+      )}
+
       {/* LEFT DRAWER: NOTEBOOK SOURCES */}
       <aside className="w-80 border-r border-slate-200 bg-white flex flex-col shrink-0">
         <div className="p-8 border-b border-slate-100 flex items-center gap-3">
@@ -320,7 +970,12 @@ export default function App() {
           </div>
         </div>
 
-        <div className="p-8 flex-1 overflow-y-auto space-y-8">
+        <div
+          className={`p-8 flex-1 overflow-y-auto space-y-8 transition-colors ${isDraggingFiles ? 'bg-indigo-50/60' : ''}`}
+          onDragOver={e => { e.preventDefault(); setIsDraggingFiles(true); }}
+          onDragLeave={e => { if (e.currentTarget === e.target) setIsDraggingFiles(false); }}
+          onDrop={handleDropFiles}
+        >
           <div className="flex items-center justify-between">
             <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Sources</h2>
             <button 
@@ -335,18 +990,19 @@ export default function App() {
             {sources.length === 0 ? (
               <div className="text-center py-16 px-6 bg-slate-50 border-2 border-dashed border-slate-200 rounded-[2rem]">
                 <BookOpen size={32} className="mx-auto text-slate-300 mb-4" />
-                <p className="text-xs text-slate-400 font-bold leading-relaxed">No sources yet. Add a research abstract to scaffold the mechanistic model.</p>
+                <p className="text-xs text-slate-400 font-bold leading-relaxed">No sources yet. Add a research abstract, or drop PDFs, datasets and figures here, to scaffold the mechanistic model.</p>
               </div>
             ) : (
               sources.map(s => (
-                <div key={s.id} className="p-4 bg-white border border-slate-200 rounded-[1.5rem] hover:border-indigo-300 hover:shadow-xl hover:shadow-indigo-500/5 transition-all cursor-pointer group relative">
+                <div key={s.id} onClick={() => setOpenSource({ id: s.id })} className="p-4 bg-white border border-slate-200 rounded-[1.5rem] hover:border-indigo-300 hover:shadow-xl hover:shadow-indigo-500/5 transition-all cursor-pointer group relative">
                   <div className="flex items-start gap-4">
                     <div className="mt-1 p-2 bg-slate-50 border border-slate-100 rounded-xl text-slate-400 group-hover:text-indigo-600 group-hover:bg-indigo-50 transition-all">
-                      {s.type === 'url' ? <Link size={14}/> : <FileText size={14}/>}
+                      {s.type === 'url' ? <Link size={14}/> : s.type === 'image' ? <ImageIcon size={14}/> : s.type === 'file' ? <FilePlus size={14}/> : s.type === 'dataset' ? <Table size={14}/> : <FileText size={14}/>}
                     </div>
                     <div className="overflow-hidden">
                       <p className="text-[11px] font-black text-slate-800 leading-tight mb-1 truncate">{s.title}</p>
-                      <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{s.type === 'url' ? 'External' : 'Abstract'}</p>
+                      <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{s.type === 'url' ? 'External' : s.type === 'image' ? 'Figure' : s.type === 'file' ? (s.metadata?.fileName?.split('.').pop() || 'File') : s.type === 'dataset' ? 'Dataset' : 'Abstract'}</p>
+                      {formatCitation(s.metadata) && <p className="text-[9px] text-slate-400 font-medium mt-1 truncate">{formatCitation(s.metadata)}</p>}
                     </div>
                   </div>
                 </div>
@@ -355,7 +1011,35 @@ export default function App() {
           </div>
         </div>
 
-        <div className="p-8 border-t border-slate-100 bg-slate-50/50">
+        <div className="p-8 border-t border-slate-100 bg-slate-50/50 space-y-4">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 block">Model Backend</label>
+            <select
+              value={providerConfig.id}
+              onChange={e => updateProviderConfig({ id: e.target.value as ProviderId })}
+              className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl text-[11px] font-bold text-slate-700 outline-none focus:border-indigo-500"
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+            {providerConfig.id === 'openai' && (
+              <div className="space-y-2">
+                <input
+                  placeholder="Base URL (e.g. http://localhost:11434/v1)"
+                  value={providerConfig.baseUrl || ''}
+                  onChange={e => updateProviderConfig({ baseUrl: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-[11px] font-medium outline-none focus:border-indigo-500"
+                />
+                <input
+                  placeholder="Model name"
+                  value={providerConfig.model || ''}
+                  onChange={e => updateProviderConfig({ model: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-[11px] font-medium outline-none focus:border-indigo-500"
+                />
+              </div>
+            )}
+          </div>
           <button 
             onClick={handleAudioBriefing}
             disabled={!notebookSummary}
@@ -374,6 +1058,7 @@ export default function App() {
             {[
               { id: AppStage.NOTEBOOK, label: 'Notebook Guide', icon: BookOpen },
               { id: AppStage.DESIGN, label: 'Causal Scaffold', icon: BrainCircuit },
+              { id: AppStage.PROTOCOL, label: 'Protocol', icon: ClipboardList },
               { id: AppStage.VALIDATE, label: 'Synthesis Lab', icon: Zap }
             ].map((t) => (
               <button 
@@ -404,6 +1089,11 @@ export default function App() {
                  <Circle size={8} className="text-indigo-500 fill-indigo-500 animate-pulse" />
                  <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500">Live Sync</span>
                </div>
+               {(Object.values(runs) as RunLock[]).map(run => (
+                 <span key={run.kind} className="flex items-center gap-1.5 ml-3 px-2.5 py-1 rounded-full bg-slate-50 text-[9px] font-black uppercase tracking-widest text-slate-500">
+                   <Loader2 size={10} className="animate-spin text-indigo-500" /> {run.owner === myID ? 'You' : run.ownerName}: {RUN_LABELS[run.kind]}
+                 </span>
+               ))}
             </div>
 
             <button 
@@ -415,6 +1105,25 @@ export default function App() {
             >
               <Share2 size={14}/> Share
             </button>
+            <div className="flex items-center gap-1">
+              <button onClick={handleExportNotebook} title="Export notebook bundle" className="p-2.5 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-all">
+                <Download size={16}/>
+              </button>
+              <button onClick={() => bundleInputRef.current?.click()} disabled={importing} title="Open notebook bundle as a new room" className="p-2.5 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-all disabled:opacity-50">
+                {importing ? <Loader2 size={16} className="animate-spin"/> : <FolderOpen size={16}/>}
+              </button>
+              <input
+                ref={bundleInputRef}
+                type="file"
+                accept={`${BUNDLE_EXTENSION},.json,application/json`}
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportNotebook(file);
+                }}
+              />
+            </div>
           </div>
         </header>
 
@@ -482,48 +1191,148 @@ export default function App() {
           {stage === AppStage.DESIGN && (
             <div className="flex-1 bg-white relative">
               {scaffold ? (
+                <>
                 <CausalView 
                   data={scaffold} 
-                  onUpdate={updateScaffoldCollaboratively} 
+                  onUpdate={g => updateScaffoldCollaboratively(g)} 
                   onExpandNode={async (id) => { 
                     const u = await expandCausalNode(id, scaffold); 
-                    updateScaffoldCollaboratively(u); 
+                    updateScaffoldCollaboratively(u, 'expansion', `Expanded ${scaffold.nodes.find(n => n.id === id)?.label || id}`); 
                   }}
+                  sourceTitles={sourceTitles}
+                  onOpenSource={(id, span) => setOpenSource({ id, span })}
+                  layout={layout}
+                  onLayoutChange={handleLayoutChange}
+                  layoutSettings={layoutSettings}
+                  onLayoutSettingsChange={settings => ySettings.set('layout', settings)}
+                  diff={scaffoldDiff}
+                  presence={presence}
+                  onFocusChange={handleFocusChange}
+                  onImportGraph={handleImportGraph}
                 />
+                <HistoryPanel
+                  current={scaffold}
+                  revisions={branchRevisions}
+                  branches={Object.values(branches)}
+                  branch={branch}
+                  compareId={compareId}
+                  onCompare={setCompareId}
+                  onRestore={handleRestoreRevision}
+                  onBranch={handleCreateBranch}
+                  onSwitchBranch={handleSwitchBranch}
+                />
+                <EntityResolutionPanel
+                  data={scaffold}
+                  candidates={duplicateCandidates}
+                  onMerge={m => handleMergeEntities(m.baseId, m.incomingId)}
+                  onSeparate={m => recordEntityDecision(m.baseId, m.incomingId, 'separate')}
+                />
+                </>
               ) : (
                 <div className="h-full flex flex-col items-center justify-center text-slate-300 gap-6">
                   <div className="w-20 h-20 bg-slate-50 rounded-[2.5rem] flex items-center justify-center">
                     <BrainCircuit size={40} className="opacity-40" />
                   </div>
                   <p className="font-black uppercase tracking-[0.3em] text-[10px]">No mechanistic model extracted yet.</p>
+                  <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 hover:bg-indigo-50 text-slate-400 hover:text-indigo-600 text-[9px] font-black uppercase tracking-widest cursor-pointer transition-colors">
+                    <FolderOpen size={12}/> Import DOT, GraphML, DAGitty or JSON-LD
+                    <input
+                      type="file"
+                      accept=".dot,.gv,.graphml,.xml,.dagitty,.txt,.jsonld,.json"
+                      className="hidden"
+                      onChange={e => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleImportGraph(file);
+                      }}
+                    />
+                  </label>
                 </div>
               )}
             </div>
           )}
 
+          {stage === AppStage.PROTOCOL && (
+            <div className="flex-1 overflow-y-auto p-12 bg-slate-50/30">
+              <ProtocolView
+                versions={protocols}
+                scaffold={scaffold}
+                sources={sources}
+                sourceTitles={sourceTitles}
+                extracting={extractingProtocol}
+                onExtract={handleExtractProtocol}
+                onSave={draft => saveProtocol(draft, 'authored')}
+                onRestore={handleRestoreProtocol}
+                onOpenSource={(id, span) => setOpenSource({ id, span })}
+              />
+            </div>
+          )}
+
           {stage === AppStage.VALIDATE && (
             <div className="flex-1 overflow-y-auto p-12 bg-slate-50/30">
+               <div className="max-w-5xl mx-auto space-y-10 mb-40">
+               {scaffold && (
+                 <GatesPanel
+                   checks={gateChecks}
+                   override={gateOverride}
+                   auditing={auditing}
+                   running={!!runs.synthesis}
+                   onRunAudit={runAudit}
+                   onRun={() => handleRunSimulation()}
+                   onOverride={handleOverrideGates}
+                 />
+               )}
                {synthesis ? (
-                 <div className="max-w-5xl mx-auto bg-white rounded-[3.5rem] border border-slate-100 shadow-2xl overflow-hidden mb-40">
-                   <SynthesisView data={synthesis} />
+                 <div className="bg-white rounded-[3.5rem] border border-slate-100 shadow-2xl overflow-hidden">
+                   <SynthesisView
+                     data={synthesis}
+                     protocol={currentProtocol(protocols)}
+                     powerSettings={powerSettings}
+                     powerPlan={powerPlan}
+                     reportPower={report ? report.power ?? null : undefined}
+                     onPowerSettingsChange={settings => ySettings.set('power', settings)}
+                     onWritePowerToReport={handleWritePowerToReport}
+                     plate={plate && predictedPlate ? { layout: plate, predicted: predictedPlate } : null}
+                   />
                  </div>
-               ) : (
+               ) : (runs.synthesis || auditing) && (
                  <div className="h-full flex flex-col items-center justify-center py-32 text-center space-y-8">
                     <div className="w-24 h-24 bg-indigo-50 rounded-[3rem] flex items-center justify-center">
                       <Zap size={40} className="text-indigo-500 animate-pulse" />
                     </div>
                     <div className="space-y-2">
-                      <h3 className="text-3xl font-black tracking-tight text-slate-900">Synthesizing Mechanistic Data</h3>
+                      <h3 className="text-3xl font-black tracking-tight text-slate-900">{runs.synthesis ? 'Synthesizing Mechanistic Data' : 'Auditing Causal Scaffold'}</h3>
                       <p className="text-slate-400 max-w-md mx-auto text-lg">Stress-testing the causal pathways detected in your notebook sources...</p>
+                      {runs.synthesis && runs.synthesis.owner !== myID && <p className="text-[10px] font-black uppercase tracking-widest text-indigo-500">Started by {runs.synthesis.ownerName}</p>}
                     </div>
                  </div>
                )}
+               {synthesis && (plate || plateSuggestion) && (
+                 <PlatePanel
+                   layout={plate}
+                   reads={plateReads}
+                   predicted={predictedPlate}
+                   suggested={plateSuggestion}
+                   treatmentLabel={scaffold?.nodes.find(n => n.id === (plate?.treatmentId ?? plateSuggestion?.treatmentId))?.label || 'Treatment'}
+                   outcomeLabel={scaffold?.nodes.find(n => n.id === (plate?.outcomeId ?? plateSuggestion?.outcomeId))?.label || 'Outcome'}
+                   onDesign={handleDesignPlate}
+                   onImportReads={handleImportPlateReads}
+                   onClearReads={() => yNotebook.delete('plateReads')}
+                 />
+               )}
+               </div>
             </div>
           )}
 
           {stage === AppStage.PROVE && report && (
             <div className="flex-1 overflow-y-auto bg-slate-100">
-              <ReportView report={report} />
+              <ReportView
+                report={report}
+                protocols={protocols}
+                decisions={protocolReview}
+                onDecide={handleDecideCorrection}
+                onApplyCorrections={handleApplyCorrections}
+              />
             </div>
           )}
         </div>
@@ -571,10 +1380,10 @@ export default function App() {
                </button>
                <button 
                 onClick={handleSendMessage}
-                disabled={loading || sources.length === 0 || !currentInput}
+                disabled={!!runs.chat || sources.length === 0 || !currentInput}
                 className="h-14 px-8 bg-indigo-600 text-white rounded-[2.5rem] hover:bg-indigo-500 disabled:opacity-30 transition-all shadow-xl shadow-indigo-100 active:scale-95 flex items-center gap-2"
                >
-                 {loading ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+                 {runs.chat ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
                  <span className="text-[10px] font-black uppercase tracking-widest hidden md:block">Send</span>
                </button>
             </div>
@@ -582,18 +1391,19 @@ export default function App() {
         </div>
 
         {/* CHAT LOG OVERLAY */}
-        {chatHistory.length > 0 && (
+        {(chatHistory.length > 0 || pendingQuestion) && chatOpen && (
           <div className="absolute bottom-32 right-10 w-96 max-h-[600px] bg-white/95 backdrop-blur-2xl border border-slate-200 rounded-[3rem] shadow-2xl flex flex-col overflow-hidden z-40 animate-in slide-in-from-bottom-8 duration-500">
             <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
                <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 flex items-center gap-3">
                  <MessageSquare size={14} className="text-indigo-500"/> Investigation Log
                </span>
-               <button onClick={() => setChatHistory([])} className="p-2 hover:bg-white rounded-full text-slate-400 transition-all"><X size={16}/></button>
+               <button onClick={() => setChatOpen(false)} className="p-2 hover:bg-white rounded-full text-slate-400 transition-all"><X size={16}/></button>
             </div>
             <div className="flex-1 overflow-y-auto p-8 space-y-8 scroll-smooth">
-              {chatHistory.map((m, i) => (
+              {(pendingQuestion ? [...chatHistory, pendingQuestion] : chatHistory).map((m, i) => (
                 <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-[90%] p-6 rounded-[2rem] text-sm leading-relaxed shadow-sm ${m.role === 'user' ? 'bg-indigo-600 text-white font-bold rounded-tr-none' : 'bg-white border border-slate-100 text-slate-800 rounded-tl-none'}`}>
+                    {m.role === 'user' && m.author && m.author !== myName && <span className="block text-[9px] font-black uppercase tracking-widest opacity-60 mb-1">{m.author}</span>}
                     {m.text}
                     {m.citations && m.citations.length > 0 && (
                       <div className="mt-4 pt-4 border-t border-slate-200/20 flex flex-wrap gap-2">
@@ -607,7 +1417,7 @@ export default function App() {
                   </div>
                 </div>
               ))}
-              {loading && (
+              {runs.chat && (
                 <div className="flex justify-start">
                    <div className="bg-slate-50 p-6 rounded-[2rem] rounded-tl-none flex items-center gap-4">
                       <div className="flex gap-1.5">
@@ -615,7 +1425,7 @@ export default function App() {
                         <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce [animation-delay:0.2s]"></div>
                         <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce [animation-delay:0.4s]"></div>
                       </div>
-                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Analysing context...</span>
+                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{runs.chat.owner === myID ? 'Analysing context...' : `${runs.chat.ownerName} asked...`}</span>
                    </div>
                 </div>
               )}
@@ -627,7 +1437,7 @@ export default function App() {
       {/* FLOATING ACTION: TRIGGER SYNTHESIS */}
       {scaffold && stage === AppStage.NOTEBOOK && (
         <button 
-          onClick={handleRunSimulation}
+          onClick={() => handleRunSimulation()}
           className="fixed bottom-36 right-10 w-24 h-24 bg-slate-900 text-white rounded-[3rem] shadow-2xl hover:bg-indigo-600 transition-all group flex flex-col items-center justify-center gap-2 z-20 active:scale-95"
         >
           <Rocket size={24} className="group-hover:-translate-y-1 transition-transform" />
@@ -1,269 +1,779 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { CausalGraphData, CausalNode, CausalEdge } from '../types';
-import { ZoomIn, ZoomOut, Maximize, Sparkles, X, PlayCircle, StopCircle, Info, Activity } from 'lucide-react';
+import { CausalGraphData, CausalNode, CausalEdge, Collaborator, LayoutMode, LayoutSettings, NodePosition, PeerFocus, Provenance } from '../types';
+import { baselineValue, compileSCM, effectiveWeight, nodeBounds } from '../services/scm';
+import { createRNG } from '../services/random';
+import { identifyEffect } from '../services/identification';
+import { descendantsOf, edgeKey } from '../services/graph';
+import { resolveEdgeConflict } from '../services/entities';
+import { ESTIMATION_METHODS } from '../services/estimation';
+import { DiffStatus, ScaffoldDiff, diffStatuses, overlayRemoved } from '../services/history';
+import { LAYOUT_MODES, defaultRadialFocus, layeredLayout, radialLayout } from '../services/layout';
+import { GRAPH_FORMATS, GraphFormat, writeGraph } from '../services/graphFormats';
+import { LABEL_ALWAYS, LegendItem, Scene, SceneLink, SceneNode, distanceToSegment, drawScene, sceneToSvg, svgToPng } from '../services/graphRender';
+import { RELATIONSHIPS, addNode, connectNodes, nextRelationship, removeElements, reverseEdge, setRelationship, updateEdge, updateNode } from '../services/editing';
+import { ZoomIn, ZoomOut, Maximize, Sparkles, X, PlayCircle, StopCircle, Info, Activity, Shuffle, AlertTriangle, Lock, Crosshair, Quote, ArrowRight, PenLine, Trash2, ArrowLeftRight, Pin, PinOff, Network, Workflow, Orbit, Download, Upload, Image as ImageIcon } from 'lucide-react';
 
 interface CausalViewProps {
   data: CausalGraphData;
   onUpdate: (newData: CausalGraphData) => void;
   onExpandNode: (nodeId: string) => Promise<void>;
   isExpanding?: boolean;
+  sourceTitles?: Record<string, string>;
+  onOpenSource?: (sourceId: string, span: [number, number]) => void;
+  layout?: Record<string, NodePosition>; // saved positions: pinned ones are fixed, the rest seed the simulation
+  onLayoutChange?: (positions: Record<string, NodePosition>) => void; // `pinned` is only set when it changes
+  layoutSettings?: LayoutSettings;
+  onLayoutSettingsChange?: (settings: LayoutSettings) => void;
+  diff?: ScaffoldDiff | null; // changes from an earlier revision; removed items are drawn faded
+  presence?: Collaborator[]; // other collaborators, ringed on the node they have selected or are dragging
+  onFocusChange?: (focus: PeerFocus | null) => void;
+  onImportGraph?: (file: File) => void;
 }
 
-const CausalView: React.FC<CausalViewProps> = ({ data, onUpdate, onExpandNode, isExpanding }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+type IdentificationRole = 'treatment' | 'outcome' | 'confounder' | 'mediator' | 'collider' | 'instrument';
+
+const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#10b981',
+  removed: '#ef4444',
+  changed: '#f59e0b'
+};
+
+const ROLE_COLORS: Record<IdentificationRole, string> = {
+  treatment: '#0ea5e9',
+  outcome: '#ef4444',
+  confounder: '#f59e0b',
+  mediator: '#10b981',
+  collider: '#a855f7',
+  instrument: '#06b6d4'
+};
+
+const formatSimValue = (v: number | undefined) => {
+  if (v === undefined || !Number.isFinite(v)) return '–';
+  const abs = Math.abs(v);
+  return abs !== 0 && (abs >= 1000 || abs < 0.01) ? v.toExponential(1) : v.toFixed(abs >= 100 ? 0 : 2);
+};
+
+type SimNode = CausalNode & d3.SimulationNodeDatum;
+// d3's force link replaces the endpoint ids with node objects once the simulation has run.
+type SimLink = CausalEdge & d3.SimulationLinkDatum<SimNode>;
+
+// Edges are indexed by points at least this far apart along them, so a pointer only tests the edges
+// passing near it; the spacing grows on sprawling layouts to keep the index to a few points per edge.
+const EDGE_SAMPLE = 40;
+const SAMPLES_PER_EDGE = 8;
+interface EdgeSample { x: number; y: number; link: SimLink }
+interface EdgeIndex { tree: d3.Quadtree<EdgeSample>; spacing: number }
+
+interface DragSubject { node: SimNode; x: number; y: number }
+type DragEvent = d3.D3DragEvent<HTMLCanvasElement, unknown, DragSubject>;
+
+interface CanvasHandlers {
+  dragSubject: (event: DragEvent) => DragSubject | undefined;
+  dragStart: (event: DragEvent) => void;
+  drag: (event: DragEvent) => void;
+  dragEnd: (event: DragEvent) => void;
+  click: (event: MouseEvent) => void;
+  hover: (event: MouseEvent | null) => void;
+  settled: () => void;
+}
+
+const ProvenanceList: React.FC<{ items?: Provenance[]; titles?: Record<string, string>; onOpen?: (sourceId: string, span: [number, number]) => void }> = ({ items, titles, onOpen }) => (
+  <div>
+    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Evidence</label>
+    {items && items.length > 0 ? (
+      <div className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
+        {items.map((p, i) => (
+          <button
+            key={i}
+            onClick={() => onOpen?.(p.sourceId, [p.start, p.end])}
+            className="w-full text-left p-3 rounded-xl bg-amber-50/60 border border-amber-100 hover:border-amber-300 transition-colors"
+          >
+            <p className="text-[11px] text-slate-700 italic leading-snug line-clamp-3 flex gap-1.5"><Quote size={10} className="text-amber-500 shrink-0 mt-0.5"/>{p.quote}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-amber-700 mt-1 truncate">{titles?.[p.sourceId] || 'Unknown source'} · chars {p.start}–{p.end}</p>
+          </button>
+        ))}
+      </div>
+    ) : (
+      <p className="text-[10px] text-slate-400 italic">No source passage recorded.</p>
+    )}
+  </div>
+);
+
+// A text or number input that commits on blur or Enter, so typing does not write a revision per keystroke.
+const DraftField: React.FC<{ value?: string | number; onCommit: (value: string) => void; type?: 'text' | 'number'; placeholder?: string; className?: string; autoFocus?: boolean }> = ({ value, onCommit, type = 'text', placeholder, className = '', autoFocus }) => {
+  const current = value === undefined ? '' : String(value);
+  const [draft, setDraft] = useState(current);
+  useEffect(() => setDraft(current), [current]);
+  return (
+    <input
+      type={type}
+      value={draft}
+      autoFocus={autoFocus}
+      placeholder={placeholder}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => { if (draft !== current) onCommit(draft); }}
+      onKeyDown={e => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') { setDraft(current); e.stopPropagation(); }
+      }}
+      className={`w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[11px] text-slate-800 outline-none focus:border-indigo-500 transition-colors ${className}`}
+    />
+  );
+};
+
+// Blank clears an optional number; anything unparseable is ignored.
+const parseOptional = (v: string, apply: (n: number | undefined) => void) => {
+  if (!v.trim()) return apply(undefined);
+  const n = Number(v);
+  if (Number.isFinite(n)) apply(n);
+};
+
+const NO_MARKS = { nodes: [] as string[], edges: [] as string[] };
+
+const LAYOUT_ICONS: Record<LayoutMode, typeof Network> = { force: Network, layered: Workflow, radial: Orbit };
+const FORCE_LAYOUT: LayoutSettings = { mode: 'force' };
+
+const CausalView: React.FC<CausalViewProps> = ({ data, onUpdate, onExpandNode, isExpanding, sourceTitles, onOpenSource, layout, onLayoutChange, layoutSettings = FORCE_LAYOUT, onLayoutSettingsChange, diff, presence, onFocusChange, onImportGraph }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const sizeRef = useRef({ width: 0, height: 0, ratio: 1 });
+  const transformRef = useRef(d3.zoomIdentity);
+  const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(null);
+  const frameRef = useRef(0);
+  const indexRef = useRef<d3.Quadtree<SimNode> | null>(null);
+  const edgeIndexRef = useRef<EdgeIndex | null>(null);
+  const hoveredRef = useRef<string | null>(null);
+  const connectorRef = useRef<{ from: string; x1: number; y1: number; x2: number; y2: number } | null>(null);
+  const gestureRef = useRef({ moved: false });
+  const handlersRef = useRef<CanvasHandlers | null>(null) as React.MutableRefObject<CanvasHandlers>;
   
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [selectedEdgeKey, setSelectedEdgeKey] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const draggingRef = useRef<string | null>(null);
+  const structureRef = useRef('');
+  // Shift+click adds to a multi-selection on top of the inspected node or link.
+  const [marked, setMarked] = useState(NO_MARKS);
+  const [editMode, setEditMode] = useState(false);
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const importRef = useRef<HTMLInputElement>(null);
   const [simulationMode, setSimulationMode] = useState(false);
-  const [nodeValues, setNodeValues] = useState<Record<string, number>>({});
-  const simulationRef = useRef<d3.Simulation<CausalNode & d3.SimulationNodeDatum, undefined> | null>(null);
+  const [interventions, setInterventions] = useState<Record<string, number>>({});
+  const [noiseEnabled, setNoiseEnabled] = useState(false);
+  const [noiseSeed, setNoiseSeed] = useState(1);
+  const simulationRef = useRef<d3.Simulation<SimNode, undefined> | null>(null);
+
+  const scm = useMemo(() => compileSCM(data || { nodes: [], edges: [] }), [data]);
+  const shown = useMemo(() => data && diff ? overlayRemoved(data, diff) : data, [data, diff]);
+  // Looked up for every node and link on every frame, so indexed once per diff and per presence change.
+  const statuses = useMemo(() => diff ? diffStatuses(diff) : null, [diff]);
+  const peersByNode = useMemo(() => {
+    const byNode = new Map<string, Collaborator[]>();
+    (presence || []).forEach(p => { if (p.focus?.nodeId) byNode.set(p.focus.nodeId, [...(byNode.get(p.focus.nodeId) || []), p]); });
+    return byNode;
+  }, [presence]);
+
+  // Layered and radial layouts fix every node; the force layout only fixes pinned ones.
+  const targets = useMemo(() => {
+    if (!shown || layoutSettings.mode === 'force') return null;
+    const center = { x: (containerRef.current?.clientWidth || 800) / 2, y: (containerRef.current?.clientHeight || 600) / 2 };
+    return layoutSettings.mode === 'layered' ? layeredLayout(shown, center) : radialLayout(shown, layoutSettings.focus, center);
+  }, [shown, layoutSettings.mode, layoutSettings.focus]);
+  // The d3 handlers outlive renders, so they read positions through refs.
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const targetsRef = useRef(targets);
+  targetsRef.current = targets;
+  const fixedAt = (id: string): NodePosition | null => {
+    const saved = layoutRef.current?.[id];
+    return saved?.pinned ? saved : targetsRef.current?.[id] || null;
+  };
+
+  // Intervention nodes are always under do(); other nodes only when explicitly clamped.
+  const activeInterventions = useMemo(() => {
+    const out: Record<string, number> = {};
+    (data?.nodes || []).forEach(n => {
+      if (n.type === 'intervention') out[n.id] = interventions[n.id] ?? baselineValue(n);
+      else if (n.id in interventions) out[n.id] = interventions[n.id];
+    });
+    return out;
+  }, [data?.nodes, interventions]);
+
+  const simResult = useMemo(() => {
+    if (!simulationMode) return null;
+    return scm.evaluate({ interventions: activeInterventions, rng: noiseEnabled ? createRNG(noiseSeed) : undefined });
+  }, [scm, simulationMode, activeInterventions, noiseEnabled, noiseSeed]);
+
+  const [identifyMode, setIdentifyMode] = useState(false);
+  const [idTreatment, setIdTreatment] = useState('');
+  const [idOutcome, setIdOutcome] = useState('');
+
+  // Default the query to the first intervention and an outcome it can reach.
+  const treatmentId = idTreatment && data?.nodes.some(n => n.id === idTreatment) ? idTreatment : (data?.nodes.find(n => n.type === 'intervention')?.id || '');
+  const outcomeId = useMemo(() => {
+    if (idOutcome && data?.nodes.some(n => n.id === idOutcome)) return idOutcome;
+    if (!treatmentId || !data) return '';
+    const reachable = descendantsOf(data, treatmentId);
+    return (data.nodes.find(n => n.type === 'outcome' && reachable.has(n.id)) || data.nodes.find(n => n.type === 'outcome'))?.id || '';
+  }, [data, idOutcome, treatmentId]);
+
+  const identification = useMemo(() => {
+    if (!identifyMode || !data || !treatmentId || !outcomeId || treatmentId === outcomeId) return null;
+    return identifyEffect(data, treatmentId, outcomeId);
+  }, [identifyMode, data, treatmentId, outcomeId]);
+
+  const roles = useMemo(() => {
+    const out: Record<string, IdentificationRole> = {};
+    if (!identification) return out;
+    identification.colliders.forEach(id => { out[id] = 'collider'; });
+    identification.instruments.forEach(id => { out[id] = 'instrument'; });
+    identification.mediators.forEach(id => { out[id] = 'mediator'; });
+    identification.confounders.forEach(id => { out[id] = 'confounder'; });
+    out[identification.treatment] = 'treatment';
+    out[identification.outcome] = 'outcome';
+    return out;
+  }, [identification]);
+  const adjustmentSet = new Set(identification?.backdoorSets[0] || identification?.frontdoorSet || []);
 
   useEffect(() => {
-    if (!simulationMode || !data?.nodes) return;
-    if (Object.keys(nodeValues).length === 0) {
-      const init: Record<string, number> = {};
-      data.nodes.forEach(n => { init[n.id] = n.currentValue || 0.5; });
-      setNodeValues(init);
-      return;
+    onFocusChange?.(draggingId ? { nodeId: draggingId, dragging: true } : selectedNodeId ? { nodeId: selectedNodeId } : null);
+  }, [selectedNodeId, draggingId]);
+
+  const hasSelection = !!(selectedNodeId || selectedEdgeKey || marked.nodes.length || marked.edges.length);
+  const clearSelection = () => {
+    setSelectedNodeId(null);
+    setSelectedEdgeKey(null);
+    setMarked(NO_MARKS);
+  };
+  const toggleMark = (kind: 'nodes' | 'edges', id: string) =>
+    setMarked(m => ({ ...m, [kind]: m[kind].includes(id) ? m[kind].filter(x => x !== id) : [...m[kind], id] }));
+
+  const addNodeAt = (x: number, y: number) => {
+    const { id, graph } = addNode(data, 'New variable');
+    onLayoutChange?.({ [id]: { x: Math.round(x), y: Math.round(y) } });
+    onUpdate(graph);
+    clearSelection();
+    setSelectedNodeId(id);
+    setCreatedId(id);
+  };
+  const connectTo = (source: string, target: string) => {
+    const next = connectNodes(data, source, target);
+    if (next !== data) onUpdate(next);
+    setMarked(NO_MARKS);
+    setSelectedNodeId(null);
+    setSelectedEdgeKey(edgeKey(source, target));
+  };
+  const pinnedIds = Object.keys(layout || {}).filter(id => layout![id].pinned && data?.nodes.some(n => n.id === id));
+  const setPinned = (ids: string[], pinned: boolean) => {
+    const nodes = simulationRef.current?.nodes() || [];
+    onLayoutChange?.(Object.fromEntries(ids.flatMap(id => {
+      const n = nodes.find(o => o.id === id);
+      return n && Number.isFinite(n.x) ? [[id, { x: Math.round(n.x!), y: Math.round(n.y!), pinned }]] : [];
+    })));
+  };
+
+  // Exports use the arrangement on screen, not the last one saved.
+  const currentLayout = (): Record<string, NodePosition> => Object.fromEntries((simulationRef.current?.nodes() || [])
+    .filter(n => data.nodes.some(d => d.id === n.id) && Number.isFinite(n.x) && Number.isFinite(n.y))
+    .map(n => [n.id, { x: Math.round(n.x!), y: Math.round(n.y!) }]));
+
+  const download = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `scaffold-${new Date().toISOString().slice(0, 10)}${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const exportGraph = (format: GraphFormat) => {
+    download(new Blob([writeGraph(format, data, currentLayout())], { type: GRAPH_FORMATS[format].mimeType }), GRAPH_FORMATS[format].extension);
+    setExportOpen(false);
+  };
+
+  // The legend explains whichever colouring is on screen.
+  const legendItems = (): LegendItem[] => {
+    const items: LegendItem[] = [
+      { label: 'Intervention', color: '#0ea5e9', shape: 'node' },
+      { label: 'Outcome', color: '#ef4444', shape: 'node' },
+      { label: 'Variable', color: simulationMode ? '#737373' : '#64748b', shape: 'node' }
+    ];
+    if (simulationMode) {
+      items.push({ label: 'Raises', color: '#10b981', shape: 'line', dashed: true }, { label: 'Lowers', color: '#ef4444', shape: 'line', dashed: true });
+    } else {
+      items.push({ label: 'Causal link', color: '#94a3b8', shape: 'line' });
+      if (data.edges.some(e => e.conflicts?.length)) items.push({ label: 'Conflicting evidence', color: '#f59e0b', shape: 'line', dashed: true });
+    }
+    if (diff) (Object.keys(DIFF_COLORS) as DiffStatus[]).forEach(status => items.push({ label: `${status[0].toUpperCase()}${status.slice(1)}`, color: DIFF_COLORS[status], shape: 'ring' }));
+    if (identification) {
+      (Object.keys(ROLE_COLORS) as IdentificationRole[]).filter(role => Object.values(roles).includes(role))
+        .forEach(role => items.push({ label: `${role[0].toUpperCase()}${role.slice(1)}`, color: ROLE_COLORS[role], shape: 'ring' }));
+      if (adjustmentSet.size) items.push({ label: 'Adjust for', color: '#94a3b8', shape: 'ring', dashed: true });
     }
-    const newValues = { ...nodeValues };
-    data.nodes.forEach(n => { if (n.type !== 'intervention') newValues[n.id] = 0; });
-    for(let i=0; i<3; i++) {
-        (data.edges || []).forEach(e => {
-            const sourceVal = newValues[e.source] ?? 0.5;
-            const weight = e.weight ?? (e.relationship === 'negative' ? -0.5 : 0.5);
-            newValues[e.target] = (newValues[e.target] || 0) + (sourceVal * weight);
-        });
-        data.nodes.forEach(n => {
-            if (n.type !== 'intervention') {
-                let v = newValues[n.id] + 0.5;
-                newValues[n.id] = Math.max(0, Math.min(1, v));
-            }
-        });
+    return items;
+  };
+
+  const exportFigure = async (kind: 'svg' | 'png') => {
+    setExportOpen(false);
+    try {
+      const figure = sceneToSvg(buildScene(true), legendItems());
+      download(kind === 'svg' ? new Blob([figure.svg], { type: 'image/svg+xml' }) : await svgToPng(figure.svg, figure.width, figure.height), `.${kind}`);
+    } catch (e) {
+      console.error('Figure export failed', e);
     }
-  }, [simulationMode, data?.edges, nodeValues, data?.nodes]); 
+  };
+
+  const reverseSelected = () => {
+    if (!selectedEdgeKey) return;
+    const next = reverseEdge(data, selectedEdgeKey);
+    if (next === data) return;
+    const [source, target] = selectedEdgeKey.split('->');
+    onUpdate(next);
+    setSelectedEdgeKey(edgeKey(target, source));
+  };
+  const deleteSelection = () => {
+    const nodeIds = [...marked.nodes, ...(selectedNodeId ? [selectedNodeId] : [])];
+    const edgeKeys = [...marked.edges, ...(selectedEdgeKey ? [selectedEdgeKey] : [])];
+    const next = removeElements(data, nodeIds, edgeKeys);
+    if (next !== data) onUpdate(next);
+    clearSelection();
+  };
 
   useEffect(() => {
-    if (!svgRef.current || !containerRef.current) return;
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
-    
-    // Improved marker for better visibility
-    svg.append("defs").selectAll("marker")
-      .data(["end"]).enter().append("marker")
-      .attr("id", "arrow").attr("viewBox", "0 -5 10 10").attr("refX", 25).attr("refY", 0)
-      .attr("markerWidth", 6).attr("markerHeight", 6).attr("orient", "auto")
-      .append("path").attr("d", "M0,-5L10,0L0,5").attr("fill", "#94a3b8");
-
-    // Shadow filter for dragging nodes
-    const defs = svg.select("defs");
-    const filter = defs.append("filter")
-      .attr("id", "drop-shadow")
-      .attr("height", "130%");
-    filter.append("feGaussianBlur")
-      .attr("in", "SourceAlpha")
-      .attr("stdDeviation", 3)
-      .attr("result", "blur");
-    filter.append("feOffset")
-      .attr("in", "blur")
-      .attr("dx", 2)
-      .attr("dy", 2)
-      .attr("result", "offsetBlur");
-    const feMerge = filter.append("feMerge");
-    feMerge.append("feMergeNode").attr("in", "offsetBlur");
-    feMerge.append("feMergeNode").attr("in", "SourceGraphic");
-
-    const g = svg.append("g").attr("class", "graph-container");
-    g.append("g").attr("class", "links");
-    g.append("g").attr("class", "nodes");
-    
-    const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.1, 4])
-      .on("zoom", (event) => {
-        g.attr("transform", event.transform);
-        setTransform(event.transform);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (simulationMode || (e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.key === 'Escape') {
+        clearSelection();
+      } else if (key === 'a' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setMarked({ nodes: data.nodes.map(n => n.id), edges: [] });
+      } else if (e.metaKey || e.ctrlKey || e.altKey) {
+        return;
+      } else if (key === 'e') {
+        setEditMode(m => !m);
+      } else if (key === 'n') {
+        const width = containerRef.current?.clientWidth || 800;
+        const height = containerRef.current?.clientHeight || 600;
+        const [x, y] = transformRef.current.invert([width / 2, height / 2]);
+        addNodeAt(x, y);
+      } else if (key === 'r' && selectedEdgeKey) {
+        const edge = data.edges.find(ed => edgeKey(ed.source, ed.target) === selectedEdgeKey);
+        if (edge) onUpdate(setRelationship(data, selectedEdgeKey, nextRelationship(edge.relationship)));
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [data, selectedNodeId, selectedEdgeKey, marked, simulationMode]);
+
+  const nodeValues: Record<string, number> = simResult?.normalized || {};
+  const rawValues: Record<string, number> = simResult?.values || {};
+
+  const degree = useMemo(() => {
+    const out: Record<string, number> = {};
+    (shown?.edges || []).forEach(e => {
+      out[e.source] = (out[e.source] || 0) + 1;
+      out[e.target] = (out[e.target] || 0) + 1;
+    });
+    return out;
+  }, [shown]);
+
+  const radiusOf = (id: string) => simulationMode ? 15 + ((nodeValues[id] ?? 0.5) * 15) : 18;
+
+  // The canvas at the simulation's current positions, styled from this render's state.
+  const buildScene = (forFigure = false): Scene => {
+    const sim = simulationRef.current;
+    const links = (sim?.force('link') as d3.ForceLink<SimNode, SimLink> | undefined)?.links() || [];
+    const hovered = forFigure ? null : hoveredRef.current;
+    const dragging = forFigure ? null : draggingRef.current;
+    const markedNodes = new Set(marked.nodes);
+    const markedEdges = new Set(marked.edges);
+    const peersOn = (id: string) => forFigure ? [] : peersByNode.get(id) || [];
+
+    const nodes = (sim?.nodes() || []).filter(n => Number.isFinite(n.x) && Number.isFinite(n.y)).map((n): SceneNode => {
+      const status = statuses?.nodes.get(n.id);
+      const selected = !forFigure && (n.id === selectedNodeId || markedNodes.has(n.id) || n.id === dragging);
+      const peers = peersOn(n.id);
+      const value = nodeValues[n.id] ?? 0.5;
+      return {
+        id: n.id,
+        x: n.x!,
+        y: n.y!,
+        r: radiusOf(n.id) * (n.id === dragging ? 1.25 : n.id === hovered ? 1.15 : 1),
+        fill: n.type === 'intervention' ? '#0ea5e9' : n.type === 'outcome' ? (simulationMode ? d3.interpolateReds(value) : '#ef4444') : (simulationMode ? d3.interpolateGreys(value) : '#64748b'),
+        stroke: selected ? '#6366f1' : status ? DIFF_COLORS[status] : roles[n.id] ? ROLE_COLORS[roles[n.id]] : '#fff',
+        strokeWidth: selected ? 3 : status || roles[n.id] ? 5 : n.id === hovered ? 4 : 2,
+        dashed: adjustmentSet.has(n.id),
+        opacity: status === 'removed' ? 0.35 : 1,
+        label: n.label,
+        bold: n.id === hovered,
+        value: simulationMode ? formatSimValue(rawValues[n.id]) : undefined,
+        // Zoomed out, the best-connected variables keep their labels.
+        priority: selected || n.id === hovered ? LABEL_ALWAYS + 1 : n.type !== 'variable' || roles[n.id] || status || peers.length ? LABEL_ALWAYS : 1 + Math.min(degree[n.id] || 0, 50) / 100,
+        ring: peers.length ? {
+          color: peers[0].color,
+          dashed: !peers.some(p => p.focus?.dragging),
+          caption: peers.map(p => p.focus?.dragging ? `${p.name} (moving)` : p.name).join(', ')
+        } : undefined
+      };
+    });
+
+    const radius = new Map<string, number>(nodes.map(n => [n.id, n.r]));
+    const sceneLinks = links.flatMap((l): SceneLink[] => {
+      const s = l.source as SimNode;
+      const t = l.target as SimNode;
+      if (!radius.has(s.id) || !radius.has(t.id)) return [];
+      const key = edgeKey(s.id, t.id);
+      const selected = !forFigure && (key === selectedEdgeKey || markedEdges.has(key));
+      const status = statuses?.edges.get(key);
+      const weight = effectiveWeight(l);
+      const conflicted = !!l.conflicts?.length;
+      return [{
+        x1: s.x!,
+        y1: s.y!,
+        x2: t.x!,
+        y2: t.y!,
+        targetRadius: radius.get(t.id)!,
+        stroke: simulationMode ? (weight > 0 ? '#10b981' : weight < 0 ? '#ef4444' : '#cbd5e1') : selected ? '#6366f1' : status ? DIFF_COLORS[status] : conflicted ? '#f59e0b' : '#94a3b8',
+        width: simulationMode ? 2 + Math.abs(weight) * 4 : selected || status ? 4 : 2,
+        opacity: status === 'removed' ? 0.35 : 0.6,
+        dashed: simulationMode || conflicted
+      }];
+    });
+    return { nodes, links: sceneLinks, connector: forFigure ? null : connectorRef.current };
+  };
+
+  // The draw loop and the d3 handlers outlive renders, so they reach the latest render through refs.
+  const sceneRef = useRef(buildScene);
+  sceneRef.current = buildScene;
+  const requestDraw = () => {
+    if (frameRef.current) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = 0;
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const { x, y, k } = transformRef.current;
+      const { width, height, ratio } = sizeRef.current;
+      drawScene(ctx, sceneRef.current(), { x, y, k, width, height }, ratio);
+    });
+  };
+
+  // Nodes and edges are indexed lazily: the simulation moves them every tick, but hit tests only happen on pointer events.
+  const nodeAt = (sx: number, sy: number) => {
+    const sim = simulationRef.current;
+    if (!sim) return undefined;
+    if (!indexRef.current) indexRef.current = d3.quadtree<SimNode>().x(n => n.x!).y(n => n.y!).addAll(sim.nodes().filter(n => Number.isFinite(n.x) && Number.isFinite(n.y)));
+    const t = transformRef.current;
+    const [x, y] = t.invert([sx, sy]);
+    const n = indexRef.current.find(x, y, 40 + 4 / t.k);
+    return n && Math.hypot(n.x! - x, n.y! - y) <= radiusOf(n.id) + 4 / t.k ? n : undefined;
+  };
+  const edgeAt = (sx: number, sy: number) => {
+    const sim = simulationRef.current;
+    const links = (sim?.force('link') as d3.ForceLink<SimNode, SimLink> | undefined)?.links() || [];
+    const t = transformRef.current;
+    const [x, y] = t.invert([sx, sy]);
+    let best: SimLink | undefined;
+    let bestDistance = 5 / t.k;
+    const test = (l: SimLink) => {
+      const s = l.source as SimNode;
+      const e = l.target as SimNode;
+      const d = distanceToSegment(x, y, s.x!, s.y!, e.x!, e.y!);
+      if (d < bestDistance) { best = l; bestDistance = d; }
+    };
+    // While the layout moves, an index would serve a single event and costs more to build than testing every edge.
+    if (sim && sim.alpha() >= sim.alphaMin()) {
+      links.forEach(test);
+      return best;
+    }
+    if (!edgeIndexRef.current) {
+      const placed = links.filter(l => [(l.source as SimNode).x, (l.source as SimNode).y, (l.target as SimNode).x, (l.target as SimNode).y].every(Number.isFinite));
+      const length = (l: SimLink) => Math.hypot((l.target as SimNode).x! - (l.source as SimNode).x!, (l.target as SimNode).y! - (l.source as SimNode).y!);
+      const spacing = Math.max(EDGE_SAMPLE, placed.reduce((sum, l) => sum + length(l), 0) / (SAMPLES_PER_EDGE * placed.length || 1));
+      const samples: EdgeSample[] = placed.flatMap(link => {
+        const s = link.source as SimNode;
+        const e = link.target as SimNode;
+        const steps = Math.max(1, Math.ceil(length(link) / spacing));
+        return Array.from({ length: steps + 1 }, (_, i) => ({ x: s.x! + (e.x! - s.x!) * i / steps, y: s.y! + (e.y! - s.y!) * i / steps, link }));
       });
-    svg.call(zoom);
-    return () => { simulationRef.current?.stop(); };
+      edgeIndexRef.current = { tree: d3.quadtree<EdgeSample>().x(p => p.x).y(p => p.y).addAll(samples), spacing };
+    }
+    // Any point of a segment is within half a spacing of one of its samples.
+    const reach = edgeIndexRef.current.spacing / 2 + bestDistance;
+    const tested = new Set<SimLink>();
+    edgeIndexRef.current.tree.visit((quad, x0, y0, x1, y1) => {
+      if (!quad.length) {
+        for (let leaf: d3.QuadtreeLeaf<EdgeSample> | undefined = quad as d3.QuadtreeLeaf<EdgeSample>; leaf; leaf = leaf.next) {
+          if (!tested.has(leaf.data.link)) {
+            tested.add(leaf.data.link);
+            test(leaf.data.link);
+          }
+        }
+      }
+      return x0 > x + reach || x1 < x - reach || y0 > y + reach || y1 < y - reach;
+    });
+    return best;
+  };
+  // Selecting the dragged node re-renders, and a collaborator's edit can rebuild the simulation's node objects mid-drag.
+  const live = (d: SimNode) => simulationRef.current?.nodes().find(n => n.id === d.id) || d;
+
+  handlersRef.current = {
+    dragSubject: event => {
+      const n = nodeAt(event.x, event.y);
+      return n && { node: n, x: transformRef.current.applyX(n.x!), y: transformRef.current.applyY(n.y!) };
+    },
+    dragStart: event => {
+      const d = event.subject.node;
+      gestureRef.current.moved = false;
+      // In edit mode dragging from a node draws a link to whichever node it is dropped on.
+      if (editMode && !simulationMode) {
+        connectorRef.current = { from: d.id, x1: d.x!, y1: d.y!, x2: d.x!, y2: d.y! };
+        requestDraw();
+        return;
+      }
+      if (!event.active) simulationRef.current?.alphaTarget(0.3).restart();
+      d.fx = d.x;
+      d.fy = d.y;
+      draggingRef.current = d.id;
+      setSelectedNodeId(d.id);
+      setDraggingId(d.id);
+    },
+    drag: event => {
+      const [x, y] = transformRef.current.invert([event.x, event.y]);
+      gestureRef.current.moved = true;
+      const connector = connectorRef.current;
+      if (connector) {
+        connector.x2 = x;
+        connector.y2 = y;
+        requestDraw();
+        return;
+      }
+      const n = live(event.subject.node);
+      n.fx = x;
+      n.fy = y;
+    },
+    dragEnd: event => {
+      const d = event.subject.node;
+      const connector = connectorRef.current;
+      if (connector) {
+        connectorRef.current = null;
+        requestDraw();
+        const target = nodeAt(event.x, event.y);
+        if (target && target.id !== connector.from) connectTo(connector.from, target.id);
+        return;
+      }
+      if (!event.active) simulationRef.current?.alphaTarget(0);
+      draggingRef.current = null;
+      setDraggingId(null);
+      // A dropped node stays where it was put; a plain click leaves it as it was.
+      const n = live(d);
+      if (gestureRef.current.moved) {
+        const [x, y] = transformRef.current.invert([event.x, event.y]);
+        n.fx = Math.round(x);
+        n.fy = Math.round(y);
+        onLayoutChange?.({ [d.id]: { x: n.fx, y: n.fy, pinned: true } });
+      } else {
+        const at = fixedAt(d.id);
+        n.fx = at ? at.x : null;
+        n.fy = at ? at.y : null;
+      }
+    },
+    click: event => {
+      const [sx, sy] = d3.pointer(event);
+      const n = nodeAt(sx, sy);
+      if (n) {
+        if (event.shiftKey) return toggleMark('nodes', n.id);
+        setMarked(NO_MARKS);
+        setSelectedEdgeKey(null);
+        setSelectedNodeId(n.id);
+        return;
+      }
+      const l = edgeAt(sx, sy);
+      if (l) {
+        const key = edgeKey((l.source as SimNode).id, (l.target as SimNode).id);
+        if (event.shiftKey) return toggleMark('edges', key);
+        setMarked(NO_MARKS);
+        setSelectedNodeId(null);
+        setSelectedEdgeKey(key);
+        return;
+      }
+      // In edit mode a click on empty canvas adds a node there, once any selection has been cleared.
+      if (editMode && !simulationMode && !hasSelection) {
+        const [x, y] = transformRef.current.invert([sx, sy]);
+        addNodeAt(x, y);
+      } else clearSelection();
+    },
+    hover: event => {
+      const [sx, sy] = event ? d3.pointer(event) : [NaN, NaN];
+      const n = event ? nodeAt(sx, sy) : undefined;
+      if (canvasRef.current) canvasRef.current.style.cursor = n || (event && edgeAt(sx, sy)) ? 'pointer' : '';
+      const over = n?.id ?? null;
+      if (over === hoveredRef.current) return;
+      hoveredRef.current = over;
+      requestDraw();
+    },
+    settled: () => {
+      const positions = Object.fromEntries((simulationRef.current?.nodes() || [])
+        .filter(n => Number.isFinite(n.x) && Number.isFinite(n.y))
+        .map(n => [n.id, { x: Math.round(n.x!), y: Math.round(n.y!) }]));
+      onLayoutChange?.(positions);
+    }
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      sizeRef.current = { width, height, ratio };
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      requestDraw();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+
+    // Registered before zoom so a press on a node drags it; anywhere else falls through to panning.
+    const drag = d3.drag<HTMLCanvasElement, unknown, DragSubject | undefined>()
+      .container(canvas)
+      .subject(event => handlersRef.current.dragSubject(event))
+      .on('start', event => handlersRef.current.dragStart(event))
+      .on('drag', event => handlersRef.current.drag(event))
+      .on('end', event => handlersRef.current.dragEnd(event));
+    const zoom = d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.05, 4])
+      .on('zoom', event => {
+        transformRef.current = event.transform;
+        requestDraw();
+      });
+    zoomRef.current = zoom;
+    const selection = d3.select(canvas)
+      .call(drag)
+      .call(zoom)
+      .on('click', event => handlersRef.current.click(event))
+      .on('mousemove', event => handlersRef.current.hover(event))
+      .on('mouseleave', () => handlersRef.current.hover(null));
+    return () => {
+      observer.disconnect();
+      selection.on('.drag', null).on('.zoom', null).on('click mousemove mouseleave', null);
+      simulationRef.current?.stop();
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = 0;
+    };
   }, []);
 
+  // Only a change to the graph itself touches the simulation; selection, values and presence just redraw.
   useEffect(() => {
-    if (!svgRef.current || !data?.nodes) return;
-    const width = containerRef.current?.clientWidth || 800;
-    const height = containerRef.current?.clientHeight || 600;
-    const nodes = (data.nodes || []).map(d => ({ ...d })) as (CausalNode & d3.SimulationNodeDatum)[];
-    const links = (data.edges || []).map(d => ({ ...d })) as (CausalEdge & d3.SimulationLinkDatum<CausalNode & d3.SimulationNodeDatum>)[];
-    const svg = d3.select(svgRef.current);
-    const g = svg.select(".graph-container");
-    const linkGroup = g.select(".links");
-    const nodeGroup = g.select(".nodes");
+    if (!shown?.nodes) return;
+    const width = sizeRef.current.width || 800;
+    const height = sizeRef.current.height || 600;
+    const nodes = (shown.nodes || []).map(d => ({ ...d })) as SimNode[];
+    const links = (shown.edges || []).map(d => ({ ...d })) as SimLink[];
+
+    nodes.forEach(n => {
+      const saved = layout?.[n.id];
+      if (saved) { n.x = saved.x; n.y = saved.y; }
+    });
+    const structure = `${nodes.map(n => n.id).join(',')}|${links.map(l => edgeKey(l.source as string, l.target as string)).join(',')}`;
+    const restructured = structure !== structureRef.current;
+    structureRef.current = structure;
 
     if (!simulationRef.current) {
       simulationRef.current = d3.forceSimulation(nodes)
-        .force("link", d3.forceLink(links).id((d: any) => d.id).distance(150))
+        .force("link", d3.forceLink<SimNode, SimLink>(links).id(d => d.id).distance(150))
         .force("charge", d3.forceManyBody().strength(-400))
         .force("center", d3.forceCenter(width / 2, height / 2))
         .force("collide", d3.forceCollide().radius(50));
+      // A fully saved layout only needs to settle, not be rediscovered.
+      if (nodes.length && nodes.every(n => layout?.[n.id] || targets?.[n.id])) simulationRef.current.alpha(0.05);
     } else {
-      const oldNodes = simulationRef.current.nodes();
+      const oldNodes = new Map<string, SimNode>(simulationRef.current.nodes().map(o => [o.id, o]));
       nodes.forEach(n => {
-        const old = oldNodes.find(o => o.id === n.id);
-        if (old) { n.x = old.x; n.y = old.y; n.vx = old.vx; n.vy = old.vy; }
+        const old = oldNodes.get(n.id);
+        if (old) { n.x = old.x; n.y = old.y; n.vx = old.vx; n.vy = old.vy; n.fx = old.fx; n.fy = old.fy; }
       });
       simulationRef.current.nodes(nodes);
-      (simulationRef.current.force("link") as d3.ForceLink<any, any>).links(links);
-      if(!simulationMode) simulationRef.current.alpha(0.3).restart();
+      (simulationRef.current.force("link") as d3.ForceLink<SimNode, SimLink>).links(links);
+      if (!simulationMode && restructured) simulationRef.current.alpha(0.3).restart();
     }
+    nodes.forEach(n => {
+      if (n.id === draggingRef.current) return;
+      const at = fixedAt(n.id);
+      n.fx = at ? at.x : null;
+      n.fy = at ? at.y : null;
+      if (at && n.x === undefined) { n.x = at.x; n.y = at.y; }
+    });
 
-    const link = linkGroup.selectAll<SVGLineElement, any>("line").data(links, (d) => `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}`);
-    const linkEnter = link.enter().append("line").attr("stroke", "#94a3b8").attr("stroke-opacity", 0.6).attr("marker-end", "url(#arrow)");
-    link.exit().remove();
-    const linkMerge = linkEnter.merge(link);
-    linkMerge.attr("stroke-width", (d) => simulationMode ? 2 + Math.abs(d.weight || 0.5) * 4 : 2)
-      .attr("stroke", (d) => !simulationMode ? "#94a3b8" : ((d.weight || 0) > 0 ? "#10b981" : "#ef4444"))
-      .attr("stroke-dasharray", simulationMode ? "4 2" : "none");
-
-    const node = nodeGroup.selectAll<SVGGElement, any>("g").data(nodes, (d) => d.id);
-    const nodeEnter = node.enter().append("g").attr("cursor", "pointer")
-      .call(d3.drag<SVGGElement, any>()
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended))
-      // Interactive Hover Effects
-      .on("mouseenter", function() {
-        d3.select(this).select("circle")
-          .transition()
-          .duration(200)
-          .attr("r", (d: any) => (simulationMode ? 15 + ((nodeValues[d.id] ?? 0.5) * 15) : 18) * 1.15)
-          .attr("stroke-width", 4);
-        
-        d3.select(this).select("text")
-          .transition()
-          .duration(200)
-          .attr("font-size", "13px")
-          .attr("font-weight", "800");
-      })
-      .on("mouseleave", function() {
-        const nodeData: any = d3.select(this).datum();
-        if (nodeData.id === selectedNodeId) return;
-        
-        d3.select(this).select("circle")
-          .transition()
-          .duration(200)
-          .attr("r", (d: any) => simulationMode ? 15 + ((nodeValues[d.id] ?? 0.5) * 15) : 18)
-          .attr("stroke-width", 2);
-          
-        d3.select(this).select("text")
-          .transition()
-          .duration(200)
-          .attr("font-size", "11px")
-          .attr("font-weight", "600");
-      });
-
-    nodeEnter.append("circle")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 2)
-      .style("transition", "fill 0.3s ease");
-
-    nodeEnter.append("text")
-      .attr("x", 25)
-      .attr("y", 5)
-      .attr("font-size", "11px")
-      .attr("font-weight", "600")
-      .attr("fill", "#334155")
-      .style("pointer-events", "none")
-      .style("text-shadow", "0px 1px 2px rgba(255,255,255,0.8)");
-
-    nodeEnter.append("text")
-      .attr("class", "sim-value")
-      .attr("x", 0)
-      .attr("y", 4)
-      .attr("text-anchor", "middle")
-      .attr("fill", "white")
-      .attr("font-size", "9px")
-      .attr("font-weight", "bold")
-      .style("pointer-events", "none");
-
-    node.exit().remove();
-    const nodeMerge = nodeEnter.merge(node);
-
-    nodeMerge.select("circle")
-      .attr("r", (d) => simulationMode ? 15 + ((nodeValues[d.id] ?? 0.5) * 15) : 18)
-      .attr("fill", (d) => {
-        if (d.type === 'intervention') return '#0ea5e9';
-        if (d.type === 'outcome') return simulationMode ? d3.interpolateReds(nodeValues[d.id] ?? 0.5) : '#ef4444';
-        return simulationMode ? d3.interpolateGreys(nodeValues[d.id] ?? 0.5) : '#64748b';
-      })
-      .attr("stroke", (d) => d.id === selectedNodeId ? "#6366f1" : "#fff")
-      .attr("stroke-width", (d) => d.id === selectedNodeId ? 3 : 2);
-
-    nodeMerge.select("text:not(.sim-value)").text((d) => d.label);
-    nodeMerge.select(".sim-value")
-      .style("opacity", simulationMode ? 1 : 0)
-      .text((d) => (nodeValues[d.id] ?? 0.5).toFixed(2));
-
-    nodeMerge.on("click", (event, d) => { event.stopPropagation(); setSelectedNodeId(d.id); });
-    svg.on("click", () => setSelectedNodeId(null));
-
+    indexRef.current = null;
+    edgeIndexRef.current = null;
     simulationRef.current.on("tick", () => {
-      linkMerge.attr("x1", (d: any) => d.source.x).attr("y1", (d: any) => d.source.y).attr("x2", (d: any) => d.target.x).attr("y2", (d: any) => d.target.y);
-      nodeMerge.attr("transform", (d: any) => `translate(${d.x},${d.y})`);
+      indexRef.current = null;
+      edgeIndexRef.current = null;
+      requestDraw();
     });
+    simulationRef.current.on("end", () => handlersRef.current.settled());
+  }, [shown]);
 
-    function dragstarted(event: any, d: any) { 
-      if (!event.active) simulationRef.current?.alphaTarget(0.3).restart(); 
-      d.fx = d.x; 
-      d.fy = d.y; 
-      setSelectedNodeId(d.id);
+  useEffect(() => { requestDraw(); });
 
-      // Visual feedback for dragging
-      d3.select(this).select("circle")
-        .transition()
-        .duration(150)
-        .attr("r", (simulationMode ? 15 + ((nodeValues[d.id] ?? 0.5) * 15) : 18) * 1.25)
-        .attr("stroke", "#6366f1")
-        .style("filter", "url(#drop-shadow)");
-    }
-
-    function dragged(event: any, d: any) { 
-      d.fx = event.x; 
-      d.fy = event.y; 
-    }
-
-    function dragended(event: any, d: any) { 
-      if (!event.active) simulationRef.current?.alphaTarget(0); 
-      d.fx = null; 
-      d.fy = null; 
-
-      // Revert visual feedback
-      d3.select(this).select("circle")
-        .transition()
-        .duration(300)
-        .attr("r", simulationMode ? 15 + ((nodeValues[d.id] ?? 0.5) * 15) : 18)
-        .attr("stroke", d.id === selectedNodeId ? "#6366f1" : "#fff")
-        .style("filter", "none");
-    }
-
-  }, [data, selectedNodeId, simulationMode, nodeValues]);
+  // Pins (ours or a collaborator's) and layout switches move nodes without rebuilding the view.
+  useEffect(() => {
+    const sim = simulationRef.current;
+    if (!sim) return;
+    let changed = false;
+    sim.nodes().forEach(n => {
+      if (n.id === draggingRef.current) return;
+      const at = fixedAt(n.id);
+      const fx = at ? at.x : null;
+      const fy = at ? at.y : null;
+      if (n.fx !== fx || n.fy !== fy) {
+        n.fx = fx;
+        n.fy = fy;
+        changed = true;
+      }
+    });
+    if (changed && !simulationMode) sim.alpha(0.3).restart();
+  }, [layout, targets]);
 
-  const handleSimValueChange = (id: string, newVal: number) => setNodeValues({ ...nodeValues, [id]: newVal });
+  const handleSimValueChange = (id: string, newVal: number) => setInterventions({ ...interventions, [id]: newVal });
+  const releaseIntervention = (id: string) => {
+    const next = { ...interventions };
+    delete next[id];
+    setInterventions(next);
+  };
   
   const handleZoom = (factor: number) => {
-    if (!svgRef.current) return;
-    const svg = d3.select(svgRef.current);
-    const newScale = transform.k * factor;
-    svg.transition().duration(400).ease(d3.easeCubicOut).call(d3.zoom().transform as any, d3.zoomIdentity.translate(transform.x, transform.y).scale(newScale));
+    if (!canvasRef.current || !zoomRef.current) return;
+    d3.select(canvasRef.current).transition().duration(400).ease(d3.easeCubicOut).call(zoomRef.current.scaleBy, factor);
+  };
+  const resetView = () => {
+    if (!canvasRef.current || !zoomRef.current) return;
+    d3.select(canvasRef.current).transition().duration(750).ease(d3.easeCubicInOut).call(zoomRef.current.transform, d3.zoomIdentity);
   };
 
   const selectedNode = (data?.nodes || []).find(n => n.id === selectedNodeId);
+  const selectedEdge = (data?.edges || []).find(e => edgeKey(e.source, e.target) === selectedEdgeKey);
+  const selectEdge = (e: CausalEdge) => { setSelectedNodeId(null); setSelectedEdgeKey(edgeKey(e.source, e.target)); };
+  const labelOf = (id: string) => data?.nodes.find(n => n.id === id)?.label || id;
 
   return (
     <div className="w-full h-full relative group bg-slate-50 overflow-hidden">
       <div ref={containerRef} className="w-full h-full cursor-grab active:cursor-grabbing transition-colors duration-500">
-        <svg ref={svgRef} className="w-full h-full"></svg>
+        <canvas ref={canvasRef} className="block" />
       </div>
 
       {/* COMPACT CONTROL STACK (BOTTOM LEFT) */}
@@ -271,18 +781,86 @@ const CausalView: React.FC<CausalViewProps> = ({ data, onUpdate, onExpandNode, i
         
         {/* Node Inspector (Contextual) */}
         {selectedNode && !simulationMode && (
-          <div className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-slate-200 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300">
+          <div key={selectedNode.id} className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-slate-200 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300 max-h-[60vh] overflow-y-auto custom-scrollbar">
              <div className="flex justify-between items-center mb-4">
                <h3 className="font-black text-slate-900 text-xs uppercase tracking-widest flex items-center gap-2">
                  <Info size={14} className="text-indigo-500" /> Inspector
                </h3>
-               <button onClick={() => setSelectedNodeId(null)} className="p-1 hover:bg-slate-100 rounded-lg text-slate-400 transition-colors"><X size={14}/></button>
+               <div className="flex items-center gap-1">
+                 <button
+                   onClick={() => setPinned([selectedNode.id], !layout?.[selectedNode.id]?.pinned)}
+                   className={`p-1 rounded-lg transition-colors ${layout?.[selectedNode.id]?.pinned ? 'text-indigo-600 hover:bg-indigo-50' : 'text-slate-400 hover:bg-slate-100 hover:text-indigo-600'}`}
+                   title={layout?.[selectedNode.id]?.pinned ? 'Unpin' : 'Pin in place'}
+                 >
+                   {layout?.[selectedNode.id]?.pinned ? <PinOff size={14}/> : <Pin size={14}/>}
+                 </button>
+                 <button onClick={deleteSelection} className="p-1 hover:bg-red-50 hover:text-red-500 rounded-lg text-slate-400 transition-colors" title="Delete node (Del)"><Trash2 size={14}/></button>
+                 <button onClick={() => setSelectedNodeId(null)} className="p-1 hover:bg-slate-100 rounded-lg text-slate-400 transition-colors"><X size={14}/></button>
+               </div>
              </div>
              <div className="space-y-4">
                <div className="group/item">
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1 group-hover/item:text-indigo-500 transition-colors">Variable</label>
-                  <div className="text-sm font-bold text-slate-800 bg-slate-50 p-3 rounded-xl border border-slate-100 group-hover/item:border-indigo-100 transition-all">{selectedNode.label}</div>
+                  <DraftField
+                    value={selectedNode.label}
+                    autoFocus={selectedNode.id === createdId}
+                    onCommit={v => v.trim() && onUpdate(updateNode(data, selectedNode.id, { label: v.trim() }))}
+                    className="text-sm font-bold"
+                  />
+                  {selectedNode.aliases?.length ? <p className="text-[9px] font-bold text-slate-400 mt-1">Also: {selectedNode.aliases.join(', ')}</p> : null}
+               </div>
+               <div className="grid grid-cols-3 gap-1.5">
+                 {(['variable', 'intervention', 'outcome'] as CausalNode['type'][]).map(t => (
+                   <button
+                     key={t}
+                     onClick={() => t !== selectedNode.type && onUpdate(updateNode(data, selectedNode.id, { type: t }))}
+                     className={`px-2 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${selectedNode.type === t ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:text-indigo-600'}`}
+                   >
+                     {t}
+                   </button>
+                 ))}
+               </div>
+               <div>
+                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Equation</label>
+                 <DraftField
+                   value={selectedNode.equation}
+                   placeholder="Linear in its causes"
+                   onCommit={v => onUpdate(updateNode(data, selectedNode.id, { equation: v.trim() || undefined }))}
+                   className="font-mono"
+                 />
+                 {scm.errors[selectedNode.id] && <p className="text-[9px] font-bold text-amber-600 mt-1">{scm.errors[selectedNode.id]}</p>}
+               </div>
+               <div className="grid grid-cols-3 gap-1.5">
+                 {([['min', 'Min'], ['max', 'Max'], ['noise', 'Noise SD']] as const).map(([field, label]) => (
+                   <div key={field}>
+                     <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">{label}</label>
+                     <DraftField type="number" value={selectedNode[field]} onCommit={v => parseOptional(v, n => onUpdate(updateNode(data, selectedNode.id, { [field]: n })))} />
+                   </div>
+                 ))}
+               </div>
+               <div className="flex items-end gap-3">
+                 <div className="flex-1">
+                   <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">Unit</label>
+                   <DraftField value={selectedNode.unit} onCommit={v => onUpdate(updateNode(data, selectedNode.id, { unit: v.trim() || undefined }))} />
+                 </div>
+                 <label className="flex items-center gap-1.5 pb-2 text-[9px] font-black uppercase tracking-widest text-slate-500 cursor-pointer" title="Unmeasured: cannot be adjusted for">
+                   <input type="checkbox" checked={!!selectedNode.latent} onChange={e => onUpdate(updateNode(data, selectedNode.id, { latent: e.target.checked || undefined }))} className="accent-indigo-600" />
+                   Latent
+                 </label>
                </div>
+               <ProvenanceList items={selectedNode.provenance} titles={sourceTitles} onOpen={onOpenSource} />
+               {data.edges.some(e => e.source === selectedNode.id || e.target === selectedNode.id) && (
+                 <div>
+                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Pathways</label>
+                   <div className="flex flex-wrap gap-1.5">
+                     {data.edges.filter(e => e.source === selectedNode.id || e.target === selectedNode.id).map(e => (
+                       <button key={edgeKey(e.source, e.target)} onClick={() => selectEdge(e)} className="px-2 py-1 rounded-lg bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600 text-[9px] font-bold text-slate-600 transition-colors">
+                         {labelOf(e.source)} → {labelOf(e.target)}{e.provenance?.length ? ` (${e.provenance.length})` : ''}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+               )}
                <button 
                   onClick={() => onExpandNode(selectedNode.id)} 
                   disabled={isExpanding} 
@@ -295,26 +873,224 @@ const CausalView: React.FC<CausalViewProps> = ({ data, onUpdate, onExpandNode, i
           </div>
         )}
 
+        {/* Edge Inspector (Contextual) */}
+        {selectedEdge && !simulationMode && (
+          <div key={selectedEdgeKey} className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-slate-200 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300 max-h-[60vh] overflow-y-auto custom-scrollbar">
+             <div className="flex justify-between items-center mb-4">
+               <h3 className="font-black text-slate-900 text-xs uppercase tracking-widest flex items-center gap-2">
+                 <Info size={14} className="text-indigo-500" /> Pathway
+               </h3>
+               <div className="flex items-center gap-1">
+                 <button onClick={reverseSelected} className="p-1 hover:bg-slate-100 hover:text-indigo-600 rounded-lg text-slate-400 transition-colors" title="Reverse direction"><ArrowLeftRight size={14}/></button>
+                 <button onClick={deleteSelection} className="p-1 hover:bg-red-50 hover:text-red-500 rounded-lg text-slate-400 transition-colors" title="Delete link (Del)"><Trash2 size={14}/></button>
+                 <button onClick={() => setSelectedEdgeKey(null)} className="p-1 hover:bg-slate-100 rounded-lg text-slate-400 transition-colors"><X size={14}/></button>
+               </div>
+             </div>
+             <div className="space-y-4">
+               <div className="text-sm font-bold text-slate-800 bg-slate-50 p-3 rounded-xl border border-slate-100 flex items-center gap-2 flex-wrap">
+                 {labelOf(selectedEdge.source)} <ArrowRight size={14} className="text-slate-400"/> {labelOf(selectedEdge.target)}
+               </div>
+               <div className="grid grid-cols-3 gap-1.5">
+                 {RELATIONSHIPS.map(r => (
+                   <button
+                     key={r}
+                     onClick={() => r !== selectedEdge.relationship && onUpdate(setRelationship(data, edgeKey(selectedEdge.source, selectedEdge.target), r))}
+                     className={`px-2 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${selectedEdge.relationship !== r ? 'bg-slate-100 text-slate-500 hover:text-indigo-600' : r === 'positive' ? 'bg-emerald-50 text-emerald-600' : r === 'negative' ? 'bg-red-50 text-red-600' : 'bg-slate-200 text-slate-600'}`}
+                   >
+                     {r}
+                   </button>
+                 ))}
+               </div>
+               <div className="grid grid-cols-2 gap-1.5">
+                 <div>
+                   <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">Weight</label>
+                   {/* A hand-set weight replaces any fitted one, so the estimate no longer describes it. */}
+                   <DraftField type="number" value={selectedEdge.weight} placeholder="From sign" onCommit={v => parseOptional(v, n => onUpdate(updateEdge(data, edgeKey(selectedEdge.source, selectedEdge.target), { weight: n, estimate: undefined })))} />
+                 </div>
+                 <div>
+                   <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">Strength</label>
+                   <DraftField type="number" value={selectedEdge.strength} placeholder="0–1" onCommit={v => parseOptional(v, n => onUpdate(updateEdge(data, edgeKey(selectedEdge.source, selectedEdge.target), { strength: n })))} />
+                 </div>
+               </div>
+               <label className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-500 cursor-pointer" title="Cycles through this link are intentional">
+                 <input type="checkbox" checked={!!selectedEdge.feedback} onChange={e => onUpdate(updateEdge(data, edgeKey(selectedEdge.source, selectedEdge.target), { feedback: e.target.checked || undefined }))} className="accent-indigo-600" />
+                 Feedback
+               </label>
+               {selectedEdge.estimate && (
+                 <div className="p-3 rounded-xl bg-slate-50 border border-slate-100">
+                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Estimated from data</label>
+                   <p className="text-[11px] font-mono text-slate-700">w = {selectedEdge.estimate.weight.toFixed(2)} [{selectedEdge.estimate.ci[0].toFixed(2)}, {selectedEdge.estimate.ci[1].toFixed(2)}] · n = {selectedEdge.estimate.n}</p>
+                   <p className="text-[9px] text-slate-500 mt-0.5">{ESTIMATION_METHODS[selectedEdge.estimate.method]} · {sourceTitles[selectedEdge.estimate.sourceId] || 'removed source'}</p>
+                   {selectedEdge.estimate.note && <p className="text-[9px] text-amber-600 mt-0.5">{selectedEdge.estimate.note}</p>}
+                 </div>
+               )}
+               <ProvenanceList items={selectedEdge.provenance} titles={sourceTitles} onOpen={onOpenSource} />
+               {selectedEdge.conflicts?.length ? (
+                 <div>
+                   <label className="text-[10px] font-black text-amber-600 uppercase tracking-widest flex items-center gap-1.5 mb-1"><AlertTriangle size={10}/> Conflicting readings</label>
+                   <div className="space-y-2">
+                     {selectedEdge.conflicts.map((c, i) => (
+                       <div key={i} className="p-3 rounded-xl border border-amber-200 bg-amber-50/40 space-y-2">
+                         <div className="flex items-center justify-between gap-2">
+                           <span className="text-[9px] font-black uppercase tracking-widest text-amber-700">{c.relationship}</span>
+                           <button onClick={() => onUpdate(resolveEdgeConflict(data, edgeKey(selectedEdge.source, selectedEdge.target), c.relationship))} className="px-2 py-1 rounded-lg bg-white border border-amber-200 hover:border-amber-400 text-[9px] font-black uppercase tracking-widest text-amber-700 transition-colors">Use this reading</button>
+                         </div>
+                         {c.provenance?.map((p, j) => (
+                           <button key={j} onClick={() => onOpenSource?.(p.sourceId, [p.start, p.end])} className="block w-full text-left text-[10px] text-slate-600 italic line-clamp-2 hover:text-slate-900">
+                             {sourceTitles?.[p.sourceId] || 'Unknown source'}: "{p.quote}"
+                           </button>
+                         ))}
+                       </div>
+                     ))}
+                   </div>
+                   <button onClick={() => onUpdate(resolveEdgeConflict(data, edgeKey(selectedEdge.source, selectedEdge.target), selectedEdge.relationship))} className="mt-2 w-full px-3 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 text-[9px] font-black uppercase tracking-widest text-slate-600 transition-colors">Keep {selectedEdge.relationship}</button>
+                 </div>
+               ) : null}
+             </div>
+          </div>
+        )}
+
+        {/* Editing (Contextual) */}
+        {editMode && !simulationMode && !selectedNode && !selectedEdge && (
+          <div className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-indigo-100 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300">
+            <h3 className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-3 flex items-center gap-2">
+              <PenLine size={14}/> Editing
+            </h3>
+            <ul className="space-y-1 text-[10px] text-slate-600">
+              <li>Click the canvas to add a node <span className="text-slate-400">(N)</span></li>
+              <li>Drag from one node to another to link them</li>
+              <li>Shift+click to select several <span className="text-slate-400">(Ctrl+A for all)</span></li>
+              <li>Delete removes the selection, R flips a link's sign, Esc clears</li>
+            </ul>
+            {(marked.nodes.length > 0 || marked.edges.length > 0) && (
+              <button onClick={deleteSelection} className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-red-50 hover:bg-red-100 text-red-600 text-[9px] font-black uppercase tracking-widest transition-colors">
+                <Trash2 size={10}/> Delete {marked.nodes.length + marked.edges.length} selected
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Simulation Sliders (Contextual) */}
         {simulationMode && data?.nodes && (
-          <div className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-indigo-100 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300 max-h-64 overflow-y-auto custom-scrollbar">
-              <h3 className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-4 flex items-center gap-2">
-                <Activity size={14}/> Live Interventions
-              </h3>
+          <div className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-indigo-100 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300 max-h-80 overflow-y-auto custom-scrollbar">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-2">
+                  <Activity size={14}/> Live Interventions
+                </h3>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setNoiseEnabled(!noiseEnabled)}
+                    className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${noiseEnabled ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:text-indigo-600'}`}
+                    title="Sample exogenous noise terms"
+                  >
+                    Noise
+                  </button>
+                  {noiseEnabled && (
+                    <button onClick={() => setNoiseSeed(noiseSeed + 1)} className="p-1 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 transition-colors" title="Resample noise">
+                      <Shuffle size={12}/>
+                    </button>
+                  )}
+                </div>
+              </div>
               <div className="space-y-4">
-                {data.nodes.filter(n => n.type === 'intervention').map(n => (
-                  <div key={n.id} className="bg-slate-50 p-3 rounded-xl border border-slate-100 hover:border-indigo-200 transition-colors">
-                      <div className="flex justify-between mb-2">
-                          <span className="text-[10px] font-bold text-slate-700 truncate mr-2">{n.label}</span>
-                          <span className="text-[10px] font-black text-indigo-600">{(nodeValues[n.id] ?? 0.5).toFixed(2)}</span>
-                      </div>
-                      <input type="range" min="0" max="1" step="0.01" value={nodeValues[n.id] ?? 0.5} onChange={(e) => handleSimValueChange(n.id, parseFloat(e.target.value))} className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                {data.nodes.filter(n => n.id in activeInterventions).map(n => {
+                  const { min, max } = nodeBounds(n);
+                  const value = activeInterventions[n.id];
+                  return (
+                    <div key={n.id} className="bg-slate-50 p-3 rounded-xl border border-slate-100 hover:border-indigo-200 transition-colors">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-[10px] font-bold text-slate-700 truncate mr-2">do({n.label})</span>
+                            <div className="flex items-center gap-1 shrink-0">
+                              <span className="text-[10px] font-black text-indigo-600">{formatSimValue(value)}{n.unit ? ` ${n.unit}` : ''}</span>
+                              {n.type !== 'intervention' && (
+                                <button onClick={() => releaseIntervention(n.id)} className="p-0.5 text-slate-400 hover:text-red-500" title="Release do()"><X size={10}/></button>
+                              )}
+                            </div>
+                        </div>
+                        <input type="range" min={min} max={max} step={(max - min) / 100} value={value} onChange={(e) => handleSimValueChange(n.id, parseFloat(e.target.value))} className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                    </div>
+                  );
+                })}
+                {selectedNode && !(selectedNode.id in activeInterventions) && (
+                  <button
+                    onClick={() => handleSimValueChange(selectedNode.id, rawValues[selectedNode.id] ?? baselineValue(selectedNode))}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-slate-100 hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 text-[9px] font-black uppercase tracking-widest transition-colors"
+                  >
+                    <Lock size={10}/> Clamp {selectedNode.label} with do()
+                  </button>
+                )}
+                {(scm.cycles.length > 0 || Object.keys(scm.errors).length > 0) && (
+                  <div className="space-y-1 pt-2 border-t border-slate-100">
+                    {scm.cycles.length > 0 && (
+                      <p className={`text-[9px] font-bold ${simResult?.converged ? 'text-slate-500' : 'text-amber-600'}`}>
+                        {scm.cycles.length} feedback loop{scm.cycles.length > 1 ? 's' : ''} {simResult?.converged ? `settled in ${simResult.iterations} iterations` : 'did not converge'}
+                      </p>
+                    )}
+                    {Object.entries(scm.errors).map(([id, msg]) => (
+                      <p key={id} className="text-[9px] font-bold text-amber-600 flex items-start gap-1">
+                        <AlertTriangle size={10} className="shrink-0 mt-0.5"/> {data.nodes.find(n => n.id === id)?.label}: {msg} (using linear default)
+                      </p>
+                    ))}
                   </div>
-                ))}
+                )}
               </div>
           </div>
         )}
 
+        {/* Identification (Contextual) */}
+        {identifyMode && !simulationMode && (
+          <div className="bg-white/95 backdrop-blur-md p-5 rounded-[2rem] shadow-2xl border border-amber-100 pointer-events-auto animate-in slide-in-from-bottom-4 fade-in duration-300 max-h-96 overflow-y-auto custom-scrollbar">
+            <h3 className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-4 flex items-center gap-2">
+              <Crosshair size={14}/> Identification
+            </h3>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              <select value={treatmentId} onChange={e => setIdTreatment(e.target.value)} className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-bold text-slate-700 outline-none">
+                {data.nodes.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+              </select>
+              <select value={outcomeId} onChange={e => setIdOutcome(e.target.value)} className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-bold text-slate-700 outline-none">
+                {data.nodes.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+              </select>
+            </div>
+            {identification ? (
+              <div className="space-y-3 text-[10px]">
+                <div className={`px-3 py-2 rounded-xl font-black uppercase tracking-widest ${identification.identifiable ? 'bg-emerald-50 text-emerald-700' : identification.strategy === 'instrument' ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700'}`}>
+                  {identification.identifiable ? `Identifiable (${identification.strategy})` : identification.strategy === 'instrument' ? 'Instrument only' : 'Not identifiable'}
+                </div>
+                {identification.backdoorSets.length > 0 && (
+                  <div>
+                    <span className="font-black text-slate-400 uppercase tracking-widest block mb-1">Minimal adjustment sets</span>
+                    {identification.backdoorSets.map((set, i) => (
+                      <div key={i} className="font-bold text-slate-700">{set.length ? `{${set.map(id => labelOf(id)).join(', ')}}` : '∅ (no adjustment needed)'}</div>
+                    ))}
+                  </div>
+                )}
+                {identification.frontdoorSet && (
+                  <div>
+                    <span className="font-black text-slate-400 uppercase tracking-widest block mb-1">Front-door mediators</span>
+                    <div className="font-bold text-slate-700">{`{${identification.frontdoorSet.map(id => labelOf(id)).join(', ')}}`}</div>
+                  </div>
+                )}
+                {identification.instruments.length > 0 && (
+                  <div>
+                    <span className="font-black text-slate-400 uppercase tracking-widest block mb-1">Instruments</span>
+                    <div className="font-bold text-slate-700">{identification.instruments.map(id => labelOf(id)).join(', ')}</div>
+                  </div>
+                )}
+                {identification.notes.map((note, i) => <p key={i} className="font-medium text-slate-500 italic">{note}</p>)}
+                <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-100">
+                  {(['confounder', 'mediator', 'collider', 'instrument'] as IdentificationRole[]).map(role => (
+                    <span key={role} className="flex items-center gap-1 font-bold text-slate-500 capitalize">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ROLE_COLORS[role] }}></span>{role}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-[10px] font-medium text-slate-400">Choose two different nodes to analyse.</p>
+            )}
+          </div>
+        )}
+
         {/* Legend + Mode Toggle (The Base) */}
         <div className="bg-white/90 backdrop-blur-md p-2 rounded-[2rem] shadow-xl border border-slate-200 pointer-events-auto flex items-center gap-2">
             <button 
@@ -324,6 +1100,21 @@ const CausalView: React.FC<CausalViewProps> = ({ data, onUpdate, onExpandNode, i
                {simulationMode ? <StopCircle size={14} /> : <PlayCircle size={14} />}
                {simulationMode ? 'Stop Sim' : 'Simulate'}
             </button>
+            <button
+               onClick={() => setEditMode(!editMode)}
+               disabled={simulationMode}
+               className={`p-4 rounded-[1.5rem] transition-all active:scale-95 disabled:opacity-40 ${editMode ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-500 hover:text-indigo-600'}`}
+               title="Edit graph (E)"
+            >
+               <PenLine size={14} />
+            </button>
+            <button
+               onClick={() => setIdentifyMode(!identifyMode)}
+               className={`p-4 rounded-[1.5rem] transition-all active:scale-95 ${identifyMode ? 'bg-amber-500 text-white shadow-lg' : 'bg-slate-100 text-slate-500 hover:text-amber-600'}`}
+               title="Causal identification"
+            >
+               <Crosshair size={14} />
+            </button>
             <div className="flex items-center gap-3 px-4 h-full border-l border-slate-200">
                <div className="w-3 h-3 rounded-full bg-sky-500 shadow-sm" title="Intervention"></div>
                <div className="w-3 h-3 rounded-full bg-red-500 shadow-sm" title="Outcome"></div>
@@ -332,14 +1123,89 @@ const CausalView: React.FC<CausalViewProps> = ({ data, onUpdate, onExpandNode, i
         </div>
       </div>
 
-      {/* Top Right Controls (Zoom) */}
-      <div className="absolute top-8 right-8 flex flex-col gap-3">
+      {/* Top Right Controls (Zoom, Layout) */}
+      <div className="absolute top-8 right-8 flex flex-col items-end gap-3">
         <div className="bg-white/90 backdrop-blur-md rounded-[1.5rem] shadow-xl border border-slate-200 p-2 flex flex-col gap-1">
           <button onClick={() => handleZoom(1.2)} className="p-3 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-slate-600 transition-all active:scale-90" title="Zoom In"><ZoomIn size={18} /></button>
           <button onClick={() => handleZoom(0.8)} className="p-3 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-slate-600 transition-all active:scale-90" title="Zoom Out"><ZoomOut size={18} /></button>
           <div className="h-px bg-slate-100 my-1"></div>
-          <button onClick={() => { if (svgRef.current) d3.select(svgRef.current).transition().duration(750).ease(d3.easeCubicInOut).call(d3.zoom().transform as any, d3.zoomIdentity.translate(0,0).scale(1)); }} className="p-3 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-slate-600 transition-all active:scale-90" title="Reset View"><Maximize size={18} /></button>
+          <button onClick={resetView} className="p-3 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-slate-600 transition-all active:scale-90" title="Reset View"><Maximize size={18} /></button>
+        </div>
+        <div className="bg-white/90 backdrop-blur-md rounded-[1.5rem] shadow-xl border border-slate-200 p-2 flex flex-col gap-1">
+          {(Object.keys(LAYOUT_MODES) as LayoutMode[]).map(mode => {
+            const Icon = LAYOUT_ICONS[mode];
+            return (
+              <button
+                key={mode}
+                onClick={() => onLayoutSettingsChange?.({ ...layoutSettings, mode })}
+                className={`p-3 rounded-xl transition-all active:scale-90 ${layoutSettings.mode === mode ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                title={`${LAYOUT_MODES[mode]} layout`}
+              >
+                <Icon size={18} />
+              </button>
+            );
+          })}
+          {pinnedIds.length > 0 && (
+            <>
+              <div className="h-px bg-slate-100 my-1"></div>
+              <button onClick={() => setPinned(pinnedIds, false)} className="p-3 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-slate-600 transition-all active:scale-90" title={`Unpin all (${pinnedIds.length})`}><PinOff size={18} /></button>
+            </>
+          )}
+        </div>
+        <div className="relative">
+          <button
+            onClick={() => setExportOpen(!exportOpen)}
+            className={`p-5 rounded-[1.5rem] shadow-xl border transition-all active:scale-90 ${exportOpen ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white/90 backdrop-blur-md border-slate-200 text-slate-600 hover:text-indigo-600'}`}
+            title="Export or import the graph"
+          >
+            <Download size={18} />
+          </button>
+          {exportOpen && (
+            <div className="absolute right-full top-0 mr-3 w-52 bg-white/95 backdrop-blur-md rounded-2xl shadow-2xl border border-slate-200 p-2 animate-in fade-in duration-200">
+              {(['svg', 'png'] as const).map(kind => (
+                <button key={kind} onClick={() => exportFigure(kind)} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-[11px] font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 transition-colors">
+                  <ImageIcon size={12}/> {kind.toUpperCase()} figure
+                </button>
+              ))}
+              <div className="h-px bg-slate-100 my-1"></div>
+              {(Object.keys(GRAPH_FORMATS) as GraphFormat[]).map(format => (
+                <button key={format} onClick={() => exportGraph(format)} className="w-full flex items-center justify-between px-3 py-2 rounded-xl text-left text-[11px] font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 transition-colors">
+                  {GRAPH_FORMATS[format].label} <span className="text-[9px] font-mono text-slate-400">{GRAPH_FORMATS[format].extension}</span>
+                </button>
+              ))}
+              {onImportGraph && (
+                <>
+                  <div className="h-px bg-slate-100 my-1"></div>
+                  <button onClick={() => importRef.current?.click()} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-[11px] font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 transition-colors">
+                    <Upload size={12}/> Import graph…
+                  </button>
+                  <input
+                    ref={importRef}
+                    type="file"
+                    accept=".dot,.gv,.graphml,.xml,.dagitty,.txt,.jsonld,.json"
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      setExportOpen(false);
+                      if (file) onImportGraph(file);
+                    }}
+                  />
+                </>
+              )}
+            </div>
+          )}
         </div>
+        {layoutSettings.mode === 'radial' && data?.nodes.length > 0 && (
+          <select
+            value={data.nodes.some(n => n.id === layoutSettings.focus) ? layoutSettings.focus : defaultRadialFocus(data)}
+            onChange={e => onLayoutSettingsChange?.({ ...layoutSettings, focus: e.target.value })}
+            className="w-44 px-3 py-2 bg-white/90 backdrop-blur-md border border-slate-200 rounded-xl shadow-xl text-[10px] font-bold text-slate-700 outline-none focus:border-indigo-500"
+            title="Centre of the radial layout"
+          >
+            {[...data.nodes].sort((a, b) => Number(b.type === 'outcome') - Number(a.type === 'outcome')).map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+          </select>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { CausalGraphData, EdgeEstimate, EstimationMethod, Source } from '../types';
+import { columnMapOf, datasetTable, mapDataset, numericColumn, suggestColumnMap } from '../services/dataset';
+import { ESTIMATION_METHODS, estimateScaffold } from '../services/estimation';
+import { Calculator, Check, Wand2 } from 'lucide-react';
+
+interface DatasetPanelProps {
+  source: Source;
+  scaffold: CausalGraphData | null;
+  onSaveColumnMap: (columnMap: Record<string, string>) => void;
+  onApply: (estimates: Record<string, EdgeEstimate>) => void;
+}
+
+const fmt = (v: number) => (Math.abs(v) >= 100 ? v.toFixed(0) : v.toFixed(2));
+
+const DatasetPanel: React.FC<DatasetPanelProps> = ({ source, scaffold, onSaveColumnMap, onApply }) => {
+  const table = useMemo(() => datasetTable(source), [source.content]);
+  const [method, setMethod] = useState<EstimationMethod>('regression');
+  const [estimates, setEstimates] = useState<Record<string, EdgeEstimate> | null>(null);
+
+  if (!scaffold) {
+    return <p className="text-xs text-slate-400 italic">Scaffold a mechanism first; dataset columns are mapped onto its variables.</p>;
+  }
+
+  const columnMap = columnMapOf(source, scaffold, table);
+  const labelOf = (id: string) => scaffold.nodes.find(n => n.id === id)?.label || id;
+  const setColumn = (column: string, nodeId: string) => {
+    const next = Object.fromEntries(Object.entries(columnMap).filter(([c, id]) => c !== column && id !== nodeId));
+    if (nodeId) next[column] = nodeId;
+    onSaveColumnMap(next);
+    setEstimates(null);
+  };
+
+  const run = () => setEstimates(estimateScaffold(scaffold, [mapDataset(source, scaffold)], method));
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Columns → Variables</label>
+          <button
+            onClick={() => { onSaveColumnMap({ ...suggestColumnMap(table.columns.filter(c => !columnMap[c]), { ...scaffold, nodes: scaffold.nodes.filter(n => !Object.values(columnMap).includes(n.id)) }), ...columnMap }); setEstimates(null); }}
+            className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+          >
+            <Wand2 size={10}/> Suggest
+          </button>
+        </div>
+        <div className="space-y-1.5">
+          {table.columns.map(column => {
+            const numeric = numericColumn(table, column).some(v => v !== null);
+            return (
+              <div key={column} className="flex items-center gap-2">
+                <span className={`flex-1 text-[11px] font-mono truncate ${numeric ? 'text-slate-700' : 'text-slate-300'}`} title={numeric ? column : `${column} (not numeric)`}>{column}</span>
+                <select
+                  value={columnMap[column] || ''}
+                  disabled={!numeric}
+                  onChange={e => setColumn(column, e.target.value)}
+                  className="w-40 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-[11px] outline-none focus:border-indigo-500 disabled:opacity-40"
+                >
+                  <option value="">—</option>
+                  {scaffold.nodes.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-[9px] text-slate-400 mt-2">{table.rows.length} rows · {Object.keys(columnMap).length} of {table.columns.length} columns mapped</p>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={method}
+          onChange={e => { setMethod(e.target.value as EstimationMethod); setEstimates(null); }}
+          className="flex-1 px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-[11px] font-bold outline-none focus:border-indigo-500"
+        >
+          {(Object.keys(ESTIMATION_METHODS) as EstimationMethod[]).map(m => <option key={m} value={m}>{ESTIMATION_METHODS[m]}</option>)}
+        </select>
+        <button
+          onClick={run}
+          disabled={Object.keys(columnMap).length < 2}
+          className="px-4 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50 flex items-center gap-1.5"
+        >
+          <Calculator size={12}/> Estimate
+        </button>
+      </div>
+
+      {estimates && (
+        Object.keys(estimates).length === 0 ? (
+          <p className="text-xs text-slate-400 italic">No edge has both ends mapped with enough complete rows.</p>
+        ) : (
+          <div className="space-y-2">
+            {(Object.entries(estimates) as [string, EdgeEstimate][]).map(([key, est]) => {
+              const [s, t] = key.split('->');
+              const excludesZero = est.ci[0] > 0 || est.ci[1] < 0;
+              return (
+                <div key={key} className="p-3 rounded-xl border border-slate-100 bg-slate-50/60">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[11px] font-bold text-slate-800 truncate">{labelOf(s)} → {labelOf(t)}</span>
+                    <span className={`text-[11px] font-black font-mono ${excludesZero ? (est.weight > 0 ? 'text-emerald-600' : 'text-red-600') : 'text-slate-400'}`}>{fmt(est.weight)}</span>
+                  </div>
+                  <p className="text-[9px] text-slate-500 font-mono mt-0.5">95% CI [{fmt(est.ci[0])}, {fmt(est.ci[1])}] · n = {est.n}{est.adjustedFor.length ? ` · adj. ${est.adjustedFor.map(labelOf).join(', ')}` : ''}</p>
+                  {est.note && <p className="text-[9px] text-amber-600 mt-0.5">{est.note}</p>}
+                </div>
+              );
+            })}
+            <button
+              onClick={() => onApply(estimates)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-slate-900 hover:bg-slate-800 text-white text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+              <Check size={12}/> Use as edge weights
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default DatasetPanel;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { CausalGraphData } from '../types';
+import { EntityMatch } from '../services/entities';
+import { GitMerge, Split, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+
+interface EntityResolutionPanelProps {
+  data: CausalGraphData;
+  candidates: EntityMatch[];
+  onMerge: (match: EntityMatch) => void;
+  onSeparate: (match: EntityMatch) => void;
+}
+
+const EntityResolutionPanel: React.FC<EntityResolutionPanelProps> = ({ data, candidates, onMerge, onSeparate }) => {
+  const [open, setOpen] = useState(true);
+  const conflicted = data.edges.filter(e => e.conflicts?.length);
+  const labelOf = (id: string) => data.nodes.find(n => n.id === id)?.label || id;
+
+  if (!candidates.length && !conflicted.length) return null;
+
+  return (
+    <div className="absolute top-8 left-8 z-50 w-80 bg-white/95 backdrop-blur-md rounded-[2rem] shadow-2xl border border-slate-200 p-5 animate-in slide-in-from-top-4 fade-in duration-300">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between">
+        <h3 className="font-black text-slate-900 text-xs uppercase tracking-widest flex items-center gap-2">
+          <GitMerge size={14} className="text-indigo-500" /> Entity Resolution
+        </h3>
+        <span className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+          {candidates.length} to review
+          {open ? <ChevronUp size={14}/> : <ChevronDown size={14}/>}
+        </span>
+      </button>
+      {open && (
+        <div className="mt-4 space-y-3 max-h-[50vh] overflow-y-auto custom-scrollbar">
+          {candidates.map(m => (
+            <div key={`${m.baseId}|${m.incomingId}`} className="p-3 rounded-xl border border-slate-100 bg-slate-50/60 space-y-2">
+              <div className="text-[11px] font-bold text-slate-800 leading-snug">
+                {labelOf(m.baseId)} <span className="text-slate-400 font-medium">≈</span> {labelOf(m.incomingId)}
+              </div>
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{m.reason} · {Math.round(m.score * 100)}%</p>
+              <div className="flex gap-2">
+                <button onClick={() => onMerge(m)} className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-[9px] font-black uppercase tracking-widest transition-colors">
+                  <GitMerge size={10}/> Merge
+                </button>
+                <button onClick={() => onSeparate(m)} className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-white border border-slate-200 hover:border-slate-300 text-slate-600 text-[9px] font-black uppercase tracking-widest transition-colors">
+                  <Split size={10}/> Keep separate
+                </button>
+              </div>
+            </div>
+          ))}
+          {conflicted.length > 0 && (
+            <div className="p-3 rounded-xl border border-amber-200 bg-amber-50/40">
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-700 flex items-center gap-1.5 mb-1"><AlertTriangle size={10}/> Conflicting links</p>
+              {conflicted.map(e => (
+                <p key={`${e.source}->${e.target}`} className="text-[10px] text-slate-600">
+                  {labelOf(e.source)} → {labelOf(e.target)}: {[e.relationship, ...e.conflicts!.map(c => c.relationship)].join(' vs ')}
+                </p>
+              ))}
+              <p className="text-[9px] text-slate-400 mt-1">Select the link on the canvas to choose a reading.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntityResolutionPanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Source } from '../types';
+import { activeFigure, figureDataUrl, figureVersions } from '../services/figures';
+import { Wand2, Loader2, History } from 'lucide-react';
+
+interface FigurePanelProps {
+  source: Source;
+  editing: boolean;
+  onEdit: (prompt: string) => void;
+  onSelectVersion: (id: string) => void;
+}
+
+const FigurePanel: React.FC<FigurePanelProps> = ({ source, editing, onEdit, onSelectVersion }) => {
+  const [prompt, setPrompt] = useState('');
+  const versions = figureVersions(source);
+  const active = activeFigure(source);
+
+  const submit = () => {
+    if (!prompt.trim() || editing) return;
+    onEdit(prompt.trim());
+    setPrompt('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative rounded-2xl border border-slate-200 bg-slate-50 overflow-hidden">
+        <img src={figureDataUrl(active)} alt={source.title} className="w-full max-h-80 object-contain" />
+        {editing && (
+          <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
+            <Loader2 size={24} className="animate-spin text-indigo-600" />
+          </div>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-500 italic">{active.prompt}{active.by ? ` · ${active.by}` : ''}</p>
+
+      <div className="flex gap-2">
+        <input
+          value={prompt}
+          onChange={e => setPrompt(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && submit()}
+          placeholder="Annotate or edit, e.g. circle the 10 mg/kg group"
+          className="flex-1 px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-xs"
+        />
+        <button
+          onClick={submit}
+          disabled={editing || !prompt.trim()}
+          className="px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50 flex items-center gap-1.5"
+        >
+          <Wand2 size={12}/> Edit
+        </button>
+      </div>
+
+      {versions.length > 1 && (
+        <div>
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5 mb-2"><History size={10}/> Versions</label>
+          <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar">
+            {versions.map((v, i) => (
+              <button
+                key={v.id}
+                onClick={() => onSelectVersion(v.id)}
+                title={`${v.prompt}${v.by ? `\n${v.by}, ${new Date(v.at).toLocaleString()}` : ''}`}
+                className={`shrink-0 w-16 rounded-xl border-2 overflow-hidden transition-all ${v.id === active.id ? 'border-indigo-500' : 'border-slate-100 hover:border-slate-300'}`}
+              >
+                <img src={figureDataUrl(v)} alt={v.prompt} className="w-full h-12 object-cover" />
+                <span className="block text-[8px] font-black uppercase tracking-widest text-slate-500 py-0.5">{i === 0 ? 'orig' : `v${i}`}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FigurePanel;
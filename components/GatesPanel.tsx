@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { GateOverride, VerificationCheck } from '../types';
+import { failingChecks, isBlocked } from '../services/gates';
+import { ShieldCheck, ShieldAlert, CheckCircle2, AlertTriangle, XCircle, Sparkles, Loader2, Rocket } from 'lucide-react';
+
+interface GatesPanelProps {
+  checks: VerificationCheck[];
+  override: GateOverride | null;
+  auditing: boolean;
+  running: boolean;
+  onRunAudit: () => void;
+  onRun: () => void;
+  onOverride: (reason: string) => void;
+}
+
+const GROUPS: { origin: NonNullable<VerificationCheck['origin']>; label: string }[] = [
+  { origin: 'structural', label: 'Structural Rules' },
+  { origin: 'identification', label: 'Identification' },
+  { origin: 'audit', label: 'AI Audit' }
+];
+
+const StatusIcon = ({ status }: { status: VerificationCheck['status'] }) =>
+  status === 'Pass' ? <CheckCircle2 size={16} className="text-emerald-500 shrink-0" />
+    : status === 'Warn' ? <AlertTriangle size={16} className="text-amber-500 shrink-0" />
+    : <XCircle size={16} className="text-red-500 shrink-0" />;
+
+const GatesPanel: React.FC<GatesPanelProps> = ({ checks, override, auditing, running, onRunAudit, onRun, onOverride }) => {
+  const [reason, setReason] = useState('');
+  const failing = failingChecks(checks);
+  const count = (status: VerificationCheck['status']) => checks.filter(c => c.status === status).length;
+  const hasAudit = checks.some(c => c.origin === 'audit');
+  const blocked = isBlocked(checks, override);
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-100 shadow-sm p-10 space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className={`w-12 h-12 rounded-2xl flex items-center justify-center ${blocked ? 'bg-red-50 text-red-600' : 'bg-emerald-50 text-emerald-600'}`}>
+            {blocked ? <ShieldAlert size={24} /> : <ShieldCheck size={24} />}
+          </div>
+          <div>
+            <h3 className="text-xl font-black tracking-tight text-slate-900">Verification Gates</h3>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {count('Pass')} pass • {count('Warn')} warn • {count('Fail')} fail
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onRunAudit}
+            disabled={auditing}
+            className="flex items-center gap-2 px-5 py-3 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50"
+          >
+            {auditing ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} {hasAudit ? 'Re-run AI Audit' : 'Run AI Audit'}
+          </button>
+          {!blocked && (
+            <button
+              onClick={onRun}
+              disabled={running}
+              className="flex items-center gap-2 px-5 py-3 bg-slate-900 hover:bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50"
+            >
+              {running ? <Loader2 size={14} className="animate-spin" /> : <Rocket size={14} />} Run Synthesis
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {GROUPS.map(g => {
+          const items = checks.filter(c => c.origin === g.origin);
+          return (
+            <div key={g.origin} className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">{g.label}</h4>
+              {items.length === 0 ? (
+                <p className="text-xs text-slate-400 italic">
+                  {g.origin === 'audit' ? 'Not run yet.' : g.origin === 'identification' ? 'No intervention reaches an outcome.' : 'No checks.'}
+                </p>
+              ) : items.map(c => (
+                <div key={c.id} className={`flex gap-3 p-3 rounded-xl border ${c.status === 'Fail' ? 'border-red-100 bg-red-50/40' : c.status === 'Warn' ? 'border-amber-100 bg-amber-50/40' : 'border-slate-100'}`}>
+                  <StatusIcon status={c.status} />
+                  <div className="min-w-0">
+                    <p className="text-[11px] font-black text-slate-800 leading-tight">{c.name}</p>
+                    <p className="text-[11px] text-slate-500 leading-snug mt-1">{c.message}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {blocked && (
+        <div className="p-6 rounded-[2rem] border border-red-200 bg-red-50/50 space-y-4">
+          <p className="text-sm font-black text-red-700">
+            Synthesis is blocked by {failing.length} failing gate{failing.length > 1 ? 's' : ''}. Fix the scaffold, or record why it is safe to proceed.
+          </p>
+          <textarea
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Justification for overriding (recorded in the report)..."
+            className="w-full h-20 px-4 py-3 bg-white border border-red-100 rounded-xl text-sm outline-none focus:border-red-400 resize-none"
+          />
+          <button
+            onClick={() => { onOverride(reason.trim()); setReason(''); }}
+            disabled={!reason.trim() || running}
+            className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+          >
+            Override & Run Synthesis
+          </button>
+        </div>
+      )}
+
+      {override && !blocked && failing.length > 0 && (
+        <div className="p-4 rounded-2xl border border-amber-200 bg-amber-50/60 text-xs text-amber-800">
+          <span className="font-black">Overridden by {override.by}:</span> <span className="italic">"{override.reason}"</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GatesPanel;
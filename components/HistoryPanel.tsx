@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { CausalGraphData, ScaffoldBranch, ScaffoldRevision } from '../types';
+import { REVISION_ORIGINS, diffScaffolds, summarizeDiff } from '../services/history';
+import { History, GitBranch, RotateCcw, Eye, EyeOff, ChevronDown, ChevronUp, Plus } from 'lucide-react';
+
+interface HistoryPanelProps {
+  current: CausalGraphData;
+  revisions: ScaffoldRevision[]; // current branch, newest first
+  branches: ScaffoldBranch[];
+  branch: string;
+  compareId: string | null;
+  onCompare: (id: string | null) => void;
+  onRestore: (revision: ScaffoldRevision) => void;
+  onBranch: (revision: ScaffoldRevision, name: string) => void;
+  onSwitchBranch: (name: string) => void;
+}
+
+const DIFF_LEGEND = [['added', 'bg-emerald-500'], ['removed', 'bg-red-500'], ['changed', 'bg-amber-500']];
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ current, revisions, branches, branch, compareId, onCompare, onRestore, onBranch, onSwitchBranch }) => {
+  const [open, setOpen] = useState(false);
+  const [branchingFrom, setBranchingFrom] = useState<string | null>(null);
+  const [branchName, setBranchName] = useState('');
+
+  // Each revision is summarised against the one before it on this branch.
+  const summaries = useMemo(
+    () => Object.fromEntries(revisions.map((r, i) => [r.id, summarizeDiff(diffScaffolds(revisions[i + 1]?.graph, r.graph))])),
+    [revisions]
+  );
+  const compared = revisions.find(r => r.id === compareId);
+  const comparison = useMemo(() => compared ? summarizeDiff(diffScaffolds(compared.graph, current)) : '', [compared, current]);
+
+  const submitBranch = (revision: ScaffoldRevision) => {
+    if (!branchName.trim()) return;
+    onBranch(revision, branchName.trim());
+    setBranchingFrom(null);
+    setBranchName('');
+  };
+
+  return (
+    <div className="absolute top-8 right-28 z-50 w-80 bg-white/95 backdrop-blur-md rounded-[2rem] shadow-2xl border border-slate-200 p-5 animate-in slide-in-from-top-4 fade-in duration-300">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between">
+        <h3 className="font-black text-slate-900 text-xs uppercase tracking-widest flex items-center gap-2">
+          <History size={14} className="text-indigo-500" /> History
+        </h3>
+        <span className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+          <GitBranch size={10}/> {branch} · {revisions.length}
+          {open ? <ChevronUp size={14}/> : <ChevronDown size={14}/>}
+        </span>
+      </button>
+
+      {compared && (
+        <div className="mt-4 p-3 rounded-xl bg-indigo-50/60 border border-indigo-100 space-y-2">
+          <p className="text-[10px] text-slate-700">Since {new Date(compared.at).toLocaleString()}: <span className="font-bold">{comparison}</span></p>
+          <div className="flex items-center justify-between">
+            <div className="flex gap-3">
+              {DIFF_LEGEND.map(([label, color]) => (
+                <span key={label} className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-slate-500"><span className={`w-2 h-2 rounded-full ${color}`}/>{label}</span>
+              ))}
+            </div>
+            <button onClick={() => onCompare(null)} className="text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">Done</button>
+          </div>
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          {branches.length > 1 && (
+            <select
+              value={branch}
+              onChange={e => onSwitchBranch(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[11px] font-bold outline-none focus:border-indigo-500"
+            >
+              {branches.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+            </select>
+          )}
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar">
+            {revisions.map((r, i) => (
+              <div key={r.id} className={`p-3 rounded-xl border space-y-1.5 ${r.id === compareId ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-100 bg-slate-50/60'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600">{REVISION_ORIGINS[r.origin]}</span>
+                  <span className="text-[9px] text-slate-400">{i === 0 ? 'current' : new Date(r.at).toLocaleTimeString()}</span>
+                </div>
+                <p className="text-[11px] font-bold text-slate-800 leading-snug">{r.note}</p>
+                <p className="text-[9px] text-slate-500">{summaries[r.id]} · {r.by}</p>
+                {i > 0 && (
+                  <div className="flex gap-2 pt-1">
+                    <button onClick={() => onCompare(r.id === compareId ? null : r.id)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                      {r.id === compareId ? <EyeOff size={10}/> : <Eye size={10}/>} Compare
+                    </button>
+                    <button onClick={() => onRestore(r)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                      <RotateCcw size={10}/> Restore
+                    </button>
+                    <button onClick={() => setBranchingFrom(branchingFrom === r.id ? null : r.id)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                      <GitBranch size={10}/> Branch
+                    </button>
+                  </div>
+                )}
+                {i === 0 && (
+                  <button onClick={() => setBranchingFrom(branchingFrom === r.id ? null : r.id)} className="flex items-center gap-1 pt-1 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                    <GitBranch size={10}/> New branch from here
+                  </button>
+                )}
+                {branchingFrom === r.id && (
+                  <div className="flex gap-2 pt-1">
+                    <input
+                      autoFocus
+                      value={branchName}
+                      onChange={e => setBranchName(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && submitBranch(r)}
+                      placeholder="Alternative hypothesis"
+                      className="flex-1 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] outline-none focus:border-indigo-500"
+                    />
+                    <button onClick={() => submitBranch(r)} disabled={!branchName.trim()} className="px-2 rounded-lg bg-indigo-600 text-white disabled:opacity-50"><Plus size={12}/></button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {!revisions.length && <p className="text-[10px] text-slate-400 italic">No revisions recorded yet.</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
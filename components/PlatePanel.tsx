@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PlateFormat, PlateLayout, PlateReads, PlateWell } from '../types';
+import { PLATE_FORMATS, PlateSpec, WELL_ROLES, comparePlate, plateMapCsv, rowLabel, usableWells, wellsPerBlock } from '../services/plate';
+import { formatNumberList, parseNumberList } from '../services/protocol';
+import { Grid, Shuffle, Download, Upload, X } from 'lucide-react';
+
+type PlateView = 'layout' | 'predicted' | 'measured' | 'residual';
+
+interface PlateGridProps {
+  format: PlateFormat;
+  cell: (well: string) => { color: string; title: string; dashed?: boolean };
+}
+
+const CELL_SIZE: Record<PlateFormat, string> = { 24: 'w-9 h-9', 96: 'w-6 h-6', 384: 'w-3.5 h-3.5' };
+
+/** Any plate format as a grid of wells; the caller colours each well. */
+export const PlateGrid: React.FC<PlateGridProps> = ({ format, cell }) => {
+  const { rows, cols } = PLATE_FORMATS[format];
+  const label = format === 384 ? 'text-[7px]' : 'text-[10px]';
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex mb-1">
+        <div className="w-6"></div>
+        {Array.from({ length: cols }, (_, c) => <div key={c} className={`${CELL_SIZE[format].split(' ')[0]} ${label} text-center text-slate-400 font-mono`}>{c + 1}</div>)}
+      </div>
+      {Array.from({ length: rows }, (_, r) => (
+        <div key={r} className="flex mb-0.5">
+          <div className={`w-6 ${label} text-right pr-2 text-slate-400 font-mono flex items-center justify-end`}>{rowLabel(r)}</div>
+          {Array.from({ length: cols }, (_, c) => {
+            const well = `${rowLabel(r)}${c + 1}`;
+            const { color, title, dashed } = cell(well);
+            return <div key={well} title={title} className={`${CELL_SIZE[format]} mr-0.5 rounded-full border ${dashed ? 'border-dashed border-slate-300' : 'border-white/50'}`} style={{ backgroundColor: color }} />;
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface PlatePanelProps {
+  layout: PlateLayout | null;
+  reads: PlateReads | null;
+  predicted: Record<string, number> | null;
+  suggested: PlateSpec | null;
+  treatmentLabel: string;
+  outcomeLabel: string;
+  onDesign: (spec: PlateSpec) => void;
+  onImportReads: (file: File) => void;
+  onClearReads: () => void;
+}
+
+const FORMATS: PlateFormat[] = [24, 96, 384];
+
+const specOf = (layout: PlateLayout): PlateSpec => {
+  const { wells, by, at, ...spec } = layout;
+  return spec;
+};
+
+const describeWell = (w: PlateWell, unit = '') =>
+  `${w.well} · ${WELL_ROLES[w.role]}${w.dose !== undefined ? ` ${w.dose}${unit ? ` ${unit}` : ''}` : ''}${w.block ? ` · block ${w.block}` : ''}`;
+
+const shade = (t: number) => `rgba(79, 70, 229, ${Math.max(0.05, Math.min(1, t))})`;
+
+const PlatePanel: React.FC<PlatePanelProps> = ({ layout, reads, predicted, suggested, treatmentLabel, outcomeLabel, onDesign, onImportReads, onClearReads }) => {
+  const [spec, setSpec] = useState<PlateSpec | null>(layout ? specOf(layout) : suggested);
+  const [dosesText, setDosesText] = useState(formatNumberList(spec?.doses));
+  const [view, setView] = useState<PlateView>('layout');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Follow designs made elsewhere in the room; the form otherwise keeps what is being typed.
+  useEffect(() => {
+    const next = layout ? specOf(layout) : suggested;
+    setSpec(next);
+    setDosesText(formatNumberList(next?.doses));
+  }, [layout?.seed, layout?.at, !!suggested]);
+
+  const comparison = useMemo(() => layout && predicted && reads ? comparePlate(layout, predicted, reads) : null, [layout, predicted, reads]);
+  const byWell = useMemo(() => new Map((layout?.wells || []).map(w => [w.well, w])), [layout]);
+
+  if (!spec) return null;
+  const set = (patch: Partial<PlateSpec>) => setSpec({ ...spec, ...patch });
+  const capacity = usableWells(spec.format, spec.excludeEdges).length;
+  const needed = wellsPerBlock(spec) * spec.replicates;
+  const fits = needed <= capacity && (spec.doses.length > 0 || spec.controls > 0);
+
+  const exportCsv = () => {
+    if (!layout) return;
+    const url = URL.createObjectURL(new Blob([plateMapCsv(layout, treatmentLabel)], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `plate-map-${layout.format}-${layout.seed}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const doseRank = (dose: number) => layout ? (layout.doses.indexOf(dose) + 1) / layout.doses.length : 0;
+  const range = (values: number[]) => { const lo = Math.min(...values), hi = Math.max(...values); return (v: number) => hi > lo ? (v - lo) / (hi - lo) : 0.5; };
+  const predictedScale = predicted ? range(Object.values(predicted)) : null;
+  const measuredScale = reads ? range(Object.values(reads.values)) : null;
+
+  const cell = (well: string) => {
+    const w = byWell.get(well);
+    const title = w ? describeWell(w, layout?.doseUnit) : well;
+    if (!w || w.role === 'empty') return { color: 'transparent', title, dashed: true };
+    if (w.role === 'edge') return { color: '#f1f5f9', title };
+    if (view === 'layout') {
+      return w.role === 'treatment' ? { color: shade(doseRank(w.dose!)), title }
+        : w.role === 'control' ? { color: '#94a3b8', title }
+        : { color: '#ffffff', title, dashed: true };
+    }
+    if (view === 'predicted') {
+      const v = predicted?.[well];
+      return v === undefined || !predictedScale ? { color: '#ffffff', title, dashed: true } : { color: shade(predictedScale(v)), title: `${title} · predicted ${v}` };
+    }
+    if (view === 'measured') {
+      const v = reads?.values[well];
+      return v === undefined || !measuredScale ? { color: '#ffffff', title, dashed: true } : { color: shade(measuredScale(v)), title: `${title} · read ${v}` };
+    }
+    const z = comparison?.residuals[well];
+    if (z === undefined) return { color: '#ffffff', title, dashed: true };
+    const a = Math.min(1, Math.abs(z) / 3);
+    return { color: z > 0 ? `rgba(239, 68, 68, ${a})` : `rgba(59, 130, 246, ${a})`, title: `${title} · residual ${z.toFixed(2)} SD` };
+  };
+
+  const views: { id: PlateView; label: string; enabled: boolean }[] = [
+    { id: 'layout', label: 'Layout', enabled: true },
+    { id: 'predicted', label: 'Synthesized', enabled: !!predicted },
+    { id: 'measured', label: 'Measured', enabled: !!reads },
+    { id: 'residual', label: 'Residual', enabled: !!comparison }
+  ];
+  const input = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs outline-none focus:border-indigo-500";
+  const chip = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-tight transition-all ${active ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20' : 'bg-slate-50 text-slate-500 hover:text-slate-800'}`;
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-100 shadow-sm p-10 space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-2xl flex items-center justify-center bg-indigo-50 text-indigo-600"><Grid size={24} /></div>
+          <div>
+            <h3 className="text-xl font-black tracking-tight text-slate-900">Plate Design</h3>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {treatmentLabel} → {outcomeLabel}{layout ? ` • ${layout.format}-well • seed ${layout.seed}` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {layout && (
+            <>
+              <button onClick={exportCsv} className="flex items-center gap-2 px-5 py-3 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">
+                <Download size={14} /> Plate map CSV
+              </button>
+              <button onClick={() => fileRef.current?.click()} className="flex items-center gap-2 px-5 py-3 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">
+                <Upload size={14} /> Import reads
+              </button>
+              <input ref={fileRef} type="file" accept=".csv,.tsv,.txt" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) onImportReads(f); e.target.value = ''; }} />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <label className="space-y-2">
+          <span className="block">Format</span>
+          <div className="flex gap-1">{FORMATS.map(f => <button key={f} onClick={() => set({ format: f })} className={chip(spec.format === f)}>{f}</button>)}</div>
+        </label>
+        <label className="space-y-2 md:col-span-2">
+          <span className="block">Doses ({treatmentLabel})</span>
+          <div className="flex gap-2">
+            <input value={dosesText} onChange={e => setDosesText(e.target.value)} onBlur={() => set({ doses: parseNumberList(dosesText) })} placeholder="0.1, 1, 10" className={input} />
+            <input value={spec.doseUnit || ''} onChange={e => set({ doseUnit: e.target.value || undefined })} placeholder="unit" className={`${input} w-24`} />
+          </div>
+        </label>
+        <label className="space-y-2">
+          <span className="block">Replicates</span>
+          <input type="number" min={1} value={spec.replicates} onChange={e => set({ replicates: Math.max(1, Math.round(Number(e.target.value)) || 1) })} className={input} />
+        </label>
+        <label className="space-y-2">
+          <span className="block">Controls per block</span>
+          <input type="number" min={0} value={spec.controls} onChange={e => set({ controls: Math.max(0, Math.round(Number(e.target.value)) || 0) })} className={input} />
+        </label>
+        <label className="space-y-2">
+          <span className="block">Blanks per block</span>
+          <input type="number" min={0} value={spec.blanks} onChange={e => set({ blanks: Math.max(0, Math.round(Number(e.target.value)) || 0) })} className={input} />
+        </label>
+        <label className="flex items-center gap-2 pt-6 cursor-pointer">
+          <input type="checkbox" checked={spec.excludeEdges} onChange={e => set({ excludeEdges: e.target.checked })} className="accent-indigo-600" />
+          <span>Leave edge wells empty</span>
+        </label>
+        <div className="pt-4 space-y-2">
+          <span className={`block ${fits ? 'text-slate-500' : 'text-red-600'}`}>{needed} of {capacity} wells</span>
+          <button
+            onClick={() => onDesign({ ...spec, doses: parseNumberList(dosesText), seed: Math.random().toString(36).substring(2, 10) })}
+            disabled={!fits}
+            className="flex items-center gap-2 px-5 py-3 bg-slate-900 hover:bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50"
+          >
+            <Shuffle size={14} /> {layout ? 'Re-randomize' : 'Randomize'}
+          </button>
+        </div>
+      </div>
+
+      {layout && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-start">
+          <div className="md:col-span-2 space-y-4">
+            <div className="flex gap-2">
+              {views.map(v => <button key={v.id} disabled={!v.enabled} onClick={() => setView(v.id)} className={`${chip(view === v.id)} disabled:opacity-40`}>{v.label}</button>)}
+            </div>
+            <div className="overflow-x-auto py-2"><PlateGrid format={layout.format} cell={cell} /></div>
+            <div className="flex flex-wrap gap-4 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+              {view === 'residual'
+                ? <><span className="text-blue-600">Reads below model</span><span className="text-red-600">Reads above model</span></>
+                : view === 'layout'
+                  ? <><span className="text-indigo-600">Dose (darker is higher)</span><span className="text-slate-400">Control</span><span>Blank (dashed)</span></>
+                  : <span>Low → High {outcomeLabel}</span>}
+            </div>
+          </div>
+
+          <div className="bg-slate-50 p-6 rounded-2xl space-y-4 text-xs text-slate-600">
+            {reads ? (
+              <>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Measured plate</span>
+                    <span className="font-bold text-slate-800 break-all">{reads.name}</span>
+                    <span className="block text-[10px] text-slate-400">{Object.keys(reads.values).length} wells • {reads.by}</span>
+                  </div>
+                  <button onClick={onClearReads} title="Remove reads" className="text-slate-400 hover:text-red-500"><X size={14} /></button>
+                </div>
+                {comparison ? (
+                  <>
+                    <p>
+                      {comparison.matched} wells compared{comparison.background ? ` after subtracting the blank mean ${comparison.background.toPrecision(3)}` : ''}.
+                      Reads track the synthesized plate with R² = {comparison.r2.toFixed(2)} (slope {comparison.slope.toPrecision(3)}).
+                    </p>
+                    {comparison.edgeEffect && (
+                      <p className={comparison.edgeEffect.pValue < 0.05 ? 'font-bold text-red-600' : ''}>
+                        Edge wells read {Math.abs(comparison.edgeEffect.difference).toFixed(2)} SD {comparison.edgeEffect.difference > 0 ? 'above' : 'below'} interior wells relative to the model (p = {comparison.edgeEffect.pValue.toPrecision(2)}).
+                      </p>
+                    )}
+                    <table className="w-full text-[10px]">
+                      <thead><tr className="text-slate-400 uppercase tracking-wider"><th className="text-left">Dose</th><th className="text-right">Model</th><th className="text-right">Read</th><th className="text-right">Wells</th></tr></thead>
+                      <tbody>
+                        {comparison.byDose.map(d => (
+                          <tr key={String(d.dose)} className="font-mono">
+                            <td>{d.dose === null ? 'control' : d.dose}</td>
+                            <td className="text-right">{d.predicted.toPrecision(3)}</td>
+                            <td className="text-right">{d.measured.toPrecision(3)}</td>
+                            <td className="text-right">{d.wells}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                ) : <p className="italic text-slate-400">Fewer than three treatment or control wells have both a read and a prediction.</p>}
+              </>
+            ) : (
+              <p className="italic text-slate-400">Export the plate map for the liquid handler, then import the reader's CSV (a well/value list or the plate grid) to compare it with the synthesized plate.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlatePanel;
@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CausalGraphData, Protocol, ProtocolStep, ProtocolStepKind, Source } from '../types';
+import {
+  BINDABLE_TYPES, PROTOCOL_ORIGINS, PROTOCOL_STEP_KINDS, diffProtocols, formatNumberList, isEmptyProtocolDiff, newStep,
+  parseList, parseNumberList, protocolIssues, stepDiffStatus, suggestBinding, summarizeProtocolDiff, tidyStep
+} from '../services/protocol';
+import { ClipboardList, Plus, Trash2, ArrowUp, ArrowDown, Save, Undo2, Eye, EyeOff, RotateCcw, Wand2, Loader2, AlertTriangle, Link2, Quote } from 'lucide-react';
+
+interface ProtocolViewProps {
+  versions: Protocol[]; // oldest first
+  scaffold: CausalGraphData | null;
+  sources: Source[];
+  sourceTitles: Record<string, string>;
+  extracting: boolean;
+  onExtract: (sourceId: string) => void;
+  onSave: (draft: Pick<Protocol, 'title' | 'steps'>) => void;
+  onRestore: (version: Protocol) => void;
+  onOpenSource: (id: string, span: [number, number]) => void;
+}
+
+type Draft = Pick<Protocol, 'title' | 'steps'>;
+
+const STATUS_STYLES = { added: 'border-emerald-300 bg-emerald-50/40', removed: 'border-red-200 bg-red-50/40 opacity-60', changed: 'border-amber-300 bg-amber-50/40' };
+
+// Lists are typed as text and parsed when the field is left, so "0.5," is not reformatted mid-keystroke.
+const ListInput: React.FC<{ value: string; placeholder: string; onCommit: (text: string) => void; className?: string }> = ({ value, placeholder, onCommit, className = '' }) => {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+  return (
+    <input
+      value={text}
+      placeholder={placeholder}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => text !== value && onCommit(text)}
+      onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+      className={`px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] font-mono outline-none focus:border-indigo-500 ${className}`}
+    />
+  );
+};
+
+const ProtocolView: React.FC<ProtocolViewProps> = ({ versions, scaffold, sources, sourceTitles, extracting, onExtract, onSave, onRestore, onOpenSource }) => {
+  const current = versions[versions.length - 1] || null;
+  // Edits stay local until saved as a version; a version saved meanwhile by someone else does not discard them.
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftBase, setDraftBase] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [extractFrom, setExtractFrom] = useState('');
+
+  const shown: Draft = useMemo(() => draft || current || { title: '', steps: [] }, [draft, current]);
+  const compared = versions.find(v => v.id === compareId);
+  const unsaved = useMemo(() => draft ? diffProtocols(current, draft) : null, [draft, current]);
+  const comparison = useMemo(() => compared ? diffProtocols(compared, shown) : null, [compared, shown]);
+  const issues = useMemo(() => shown.steps.length ? protocolIssues(shown, scaffold) : [], [shown, scaffold]);
+  const readable = sources.filter(s => s.type !== 'dataset');
+
+  const edit = (next: Draft) => {
+    if (!draft) setDraftBase(current?.id || null);
+    setDraft(next);
+  };
+  const updateStep = (id: string, patch: Partial<ProtocolStep>) =>
+    edit({ ...shown, steps: shown.steps.map(s => s.id === id ? tidyStep({ ...s, ...patch }) : s) });
+  const moveStep = (index: number, by: number) => {
+    const steps = [...shown.steps];
+    [steps[index], steps[index + by]] = [steps[index + by], steps[index]];
+    edit({ ...shown, steps });
+  };
+  const save = () => {
+    if (!draft) return;
+    onSave(draft);
+    setDraft(null);
+  };
+
+  const labelOf = (id: string) => scaffold?.nodes.find(n => n.id === id)?.label || id;
+  const nodeOptions = (kind: ProtocolStepKind) => {
+    const types = BINDABLE_TYPES[kind] || [];
+    const nodes = scaffold?.nodes || [];
+    // Nodes of the kinds this step can bind to come first.
+    return [...nodes.filter(n => types.includes(n.type)), ...nodes.filter(n => !types.includes(n.type))];
+  };
+
+  const renderStep = (step: ProtocolStep, index: number, removed = false) => {
+    const status = comparison ? stepDiffStatus(comparison, step.id) : undefined;
+    const suggestion = !step.nodeId && scaffold ? suggestBinding(step, scaffold) : undefined;
+    const stepIssues = issues.filter(i => i.stepId === step.id);
+    return (
+      <div key={`${removed ? 'removed-' : ''}${step.id}`} className={`p-5 rounded-2xl border space-y-3 ${status ? STATUS_STYLES[status] : 'border-slate-200 bg-white'}`}>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-black font-mono text-slate-400 w-8">{step.id}</span>
+          <select
+            value={step.kind}
+            disabled={removed}
+            onChange={e => updateStep(step.id, { kind: e.target.value as ProtocolStepKind })}
+            className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-[10px] font-black uppercase tracking-widest outline-none focus:border-indigo-500"
+          >
+            {(Object.keys(PROTOCOL_STEP_KINDS) as ProtocolStepKind[]).map(k => <option key={k} value={k}>{PROTOCOL_STEP_KINDS[k]}</option>)}
+          </select>
+          {status && <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">{status}{status === 'changed' && comparison ? `: ${comparison.changed[step.id].join(', ')}` : ''}</span>}
+          {!removed && (
+            <div className="ml-auto flex items-center gap-1">
+              <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move up"><ArrowUp size={12}/></button>
+              <button onClick={() => moveStep(index, 1)} disabled={index === shown.steps.length - 1} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move down"><ArrowDown size={12}/></button>
+              <button onClick={() => edit({ ...shown, steps: shown.steps.filter(s => s.id !== step.id) })} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600" title="Delete step"><Trash2 size={12}/></button>
+            </div>
+          )}
+        </div>
+        <textarea
+          value={step.text}
+          disabled={removed}
+          onChange={e => updateStep(step.id, { text: e.target.value })}
+          placeholder="What is done in this step"
+          rows={2}
+          className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:border-indigo-500 resize-none"
+        />
+        {!removed && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex gap-2">
+              <ListInput value={formatNumberList(step.doses)} placeholder="Doses, e.g. 0.5, 4, 16" onCommit={t => updateStep(step.id, { doses: parseNumberList(t) })} className="flex-1 min-w-0" />
+              <input value={step.doseUnit || ''} placeholder="unit" onChange={e => updateStep(step.id, { doseUnit: e.target.value || undefined })} className="w-20 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] outline-none focus:border-indigo-500" />
+            </div>
+            <ListInput value={formatNumberList(step.timepoints)} placeholder="Timepoints (h), e.g. 6, 24" onCommit={t => updateStep(step.id, { timepoints: parseNumberList(t) })} />
+            <ListInput value={(step.controls || []).join(', ')} placeholder="Controls, e.g. vehicle" onCommit={t => updateStep(step.id, { controls: parseList(t) })} />
+            <ListInput value={(step.reagents || []).join(', ')} placeholder="Reagents" onCommit={t => updateStep(step.id, { reagents: parseList(t) })} />
+            <div className="flex items-center gap-2">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">n</label>
+              <input
+                type="number"
+                min={1}
+                value={step.n ?? ''}
+                onChange={e => updateStep(step.id, { n: Math.round(Number(e.target.value)) || undefined })}
+                className="w-20 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] font-mono outline-none focus:border-indigo-500"
+              />
+              <span className="text-[9px] text-slate-400">per condition</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Link2 size={12} className="text-slate-400 shrink-0"/>
+              <select
+                value={step.nodeId || ''}
+                onChange={e => updateStep(step.id, { nodeId: e.target.value || undefined })}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] outline-none focus:border-indigo-500"
+              >
+                <option value="">Not bound to the scaffold</option>
+                {step.nodeId && !scaffold?.nodes.some(n => n.id === step.nodeId) && <option value={step.nodeId}>{step.nodeId} (missing)</option>}
+                {nodeOptions(step.kind).map(n => <option key={n.id} value={n.id}>{n.label} · {n.type}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+        {suggestion && !removed && (
+          <button onClick={() => updateStep(step.id, { nodeId: suggestion })} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+            <Wand2 size={10}/> Bind to {labelOf(suggestion)}
+          </button>
+        )}
+        {step.provenance?.map((p, i) => (
+          <button key={i} onClick={() => onOpenSource(p.sourceId, [p.start, p.end])} className="flex items-start gap-1.5 text-left text-[10px] text-slate-500 hover:text-indigo-600">
+            <Quote size={10} className="mt-0.5 shrink-0"/> <span className="italic line-clamp-2">{p.quote}</span> <span className="shrink-0 font-bold">· {sourceTitles[p.sourceId] || 'source'}</span>
+          </button>
+        ))}
+        {stepIssues.map((issue, i) => (
+          <p key={i} className="flex items-center gap-1.5 text-[10px] text-amber-700"><AlertTriangle size={10}/> {issue.message}</p>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto grid grid-cols-3 gap-8 pb-40">
+      <div className="col-span-2 space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div className="flex-1 space-y-1">
+            <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 flex items-center gap-2">
+              <ClipboardList size={12} className="text-indigo-500"/> Protocol {current ? `v${current.version}` : ''}{draft ? ' · unsaved changes' : ''}
+            </span>
+            <input
+              value={shown.title}
+              onChange={e => edit({ ...shown, title: e.target.value })}
+              placeholder="Untitled protocol"
+              className="w-full bg-transparent text-3xl font-black tracking-tight text-slate-900 outline-none placeholder:text-slate-300"
+            />
+          </div>
+          {draft && (
+            <div className="flex gap-2">
+              <button onClick={() => setDraft(null)} className="flex items-center gap-1.5 px-4 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-[10px] font-black uppercase tracking-widest transition-all">
+                <Undo2 size={12}/> Discard
+              </button>
+              <button onClick={save} disabled={!unsaved || isEmptyProtocolDiff(unsaved)} className="flex items-center gap-1.5 px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50">
+                <Save size={12}/> Save v{versions.reduce((max, v) => Math.max(max, v.version), 0) + 1}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {draft && current && draftBase !== current.id && (
+          <p className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-[11px] text-amber-800">
+            {current.by} saved v{current.version} while you were editing. Saving keeps your edits as the next version; discard to load theirs.
+          </p>
+        )}
+        {comparison && compared && (
+          <div className="p-3 rounded-xl bg-indigo-50/60 border border-indigo-100 flex items-center justify-between">
+            <p className="text-[11px] text-slate-700">Since v{compared.version}: <span className="font-bold">{summarizeProtocolDiff(comparison)}</span></p>
+            <button onClick={() => setCompareId(null)} className="text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">Done</button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {shown.steps.map((s, i) => renderStep(s, i))}
+          {comparison?.removed.map((s, i) => renderStep(s, i, true))}
+          {!shown.steps.length && (
+            <div className="text-center py-16 px-6 bg-slate-50 border-2 border-dashed border-slate-200 rounded-[2rem]">
+              <ClipboardList size={32} className="mx-auto text-slate-300 mb-4" />
+              <p className="text-xs text-slate-400 font-bold leading-relaxed">No protocol yet. Extract one from a source, or add steps by hand.</p>
+            </div>
+          )}
+          <div className="flex gap-2">
+            {(Object.keys(PROTOCOL_STEP_KINDS) as ProtocolStepKind[]).map(k => (
+              <button key={k} onClick={() => edit({ ...shown, steps: [...shown.steps, newStep(shown.steps, k)] })} className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-50 hover:bg-indigo-50 text-slate-500 hover:text-indigo-600 text-[9px] font-black uppercase tracking-widest transition-all">
+                <Plus size={10}/> {PROTOCOL_STEP_KINDS[k]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="p-5 rounded-[2rem] bg-white border border-slate-200 space-y-3">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Extract from a source</h3>
+          <select
+            value={extractFrom}
+            onChange={e => setExtractFrom(e.target.value)}
+            className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-[11px] font-bold outline-none focus:border-indigo-500"
+          >
+            <option value="">Choose a source…</option>
+            {readable.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+          </select>
+          <button
+            onClick={() => onExtract(extractFrom)}
+            disabled={!extractFrom || extracting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-slate-900 hover:bg-slate-800 text-white text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50"
+          >
+            {extracting ? <Loader2 size={12} className="animate-spin"/> : <Wand2 size={12}/>} Extract as new version
+          </button>
+        </div>
+
+        {issues.some(i => !i.stepId) && (
+          <div className="p-5 rounded-[2rem] bg-amber-50/60 border border-amber-200 space-y-2">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-amber-700">Binding to the scaffold</h3>
+            {issues.filter(i => !i.stepId).map((issue, i) => (
+              <p key={i} className="flex items-center gap-1.5 text-[11px] text-amber-800"><AlertTriangle size={11}/> {issue.message}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="p-5 rounded-[2rem] bg-white border border-slate-200 space-y-3">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Versions · {versions.length}</h3>
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar">
+            {[...versions].reverse().map((v, i) => (
+              <div key={v.id} className={`p-3 rounded-xl border space-y-1.5 ${v.id === compareId ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-100 bg-slate-50/60'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600">v{v.version} · {PROTOCOL_ORIGINS[v.origin]}</span>
+                  <span className="text-[9px] text-slate-400">{i === 0 ? 'current' : new Date(v.at).toLocaleString()}</span>
+                </div>
+                <p className="text-[11px] font-bold text-slate-800 leading-snug">{v.note}</p>
+                <p className="text-[9px] text-slate-500">{v.steps.length} steps · {v.by}</p>
+                {i > 0 && (
+                  <div className="flex gap-2 pt-1">
+                    <button onClick={() => setCompareId(v.id === compareId ? null : v.id)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                      {v.id === compareId ? <EyeOff size={10}/> : <Eye size={10}/>} Compare
+                    </button>
+                    <button onClick={() => onRestore(v)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                      <RotateCcw size={10}/> Restore
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {!versions.length && <p className="text-[10px] text-slate-400 italic">No versions saved yet.</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProtocolView;
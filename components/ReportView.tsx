@@ -1,27 +1,44 @@
 import React, { useRef } from 'react';
-import { StructuredReport, ClaimCard, Artifact } from '../types';
-import { CheckCircle2, AlertTriangle, XCircle, FileCode, Database, FileJson, ArrowRight, Download, Code, Copy, X, Printer, Share2 } from 'lucide-react';
+import { StructuredReport, ClaimCard, Artifact, CorrectionDecision, Protocol, ProtocolCorrection } from '../types';
+import { artifactMimeType, evidenceZip, formatBytes } from '../services/artifacts';
+import { describePowerPlan } from '../services/power';
+import { describeSensitivity, relativeChange } from '../services/sensitivity';
+import { PROTOCOL_STEP_KINDS, correctionKey, correctionSummary, currentProtocol, isCorrectionApplied } from '../services/protocol';
+import { CheckCircle2, AlertTriangle, XCircle, FileCode, Database, FileJson, ArrowRight, Download, Code, Copy, X, Printer, Share2, Check, GitCommit } from 'lucide-react';
 
 interface ReportViewProps {
   report: StructuredReport;
+  protocols?: Protocol[];
+  decisions?: Record<string, CorrectionDecision>;
+  onDecide?: (correction: ProtocolCorrection, decision: CorrectionDecision | null) => void;
+  onApplyCorrections?: (corrections: ProtocolCorrection[]) => void;
 }
 
-const ReportView: React.FC<ReportViewProps> = ({ report }) => {
+const ReportView: React.FC<ReportViewProps> = ({ report, protocols = [], decisions = {}, onDecide, onApplyCorrections }) => {
   const [selectedArtifact, setSelectedArtifact] = React.useState<Artifact | null>(null);
-  
-  const handleExport = () => {
-    const dataStr = JSON.stringify(report, null, 2);
-    const blob = new Blob([dataStr], { type: 'application/json' });
+  const protocol = currentProtocol(protocols);
+  const reviewed = protocols.find(v => v.id === report.protocolVersion);
+  const corrections = report.protocolDiffs || [];
+  const statusOf = (c: ProtocolCorrection) => isCorrectionApplied(protocol, c) ? 'applied' : decisions[correctionKey(c)] || 'pending';
+  const accepted = corrections.filter(c => statusOf(c) === 'accept');
+  // Reports from before artifacts were generated list file names only.
+  const bundle = React.useMemo(() => report.artifacts?.some(a => a.content !== undefined) ? evidenceZip(report) : null, [report]);
+
+  const download = (blob: Blob, name: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `proof-bundle-${new Date().toISOString().slice(0,10)}.json`;
+    a.download = name;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const handleExport = () => download(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `proof-report-${new Date().toISOString().slice(0,10)}.json`);
+  const downloadArtifact = (file: Artifact) => download(new Blob([file.content || ''], { type: artifactMimeType(file.name) }), file.name);
+  const downloadBundle = () => bundle && download(new Blob([bundle], { type: 'application/zip' }), `proof-evidence-${new Date().toISOString().slice(0,10)}.zip`);
+
   // A4 Layout container style
   return (
     <div className="w-full bg-slate-100 min-h-full py-8 overflow-y-auto print:bg-white print:p-0">
@@ -34,7 +51,7 @@ const ReportView: React.FC<ReportViewProps> = ({ report }) => {
                <Printer size={16}/> Print / PDF
             </button>
             <button onClick={handleExport} className="flex items-center gap-2 px-3 py-2 bg-indigo-600 border border-indigo-600 rounded-lg text-white text-sm hover:bg-indigo-700 font-medium transition-colors shadow-sm">
-               <Download size={16}/> Export Bundle
+               <Download size={16}/> Export Report
             </button>
          </div>
       </div>
@@ -67,7 +84,7 @@ const ReportView: React.FC<ReportViewProps> = ({ report }) => {
                </div>
                <div>
                   <div className="text-3xl font-bold font-sans">{report.scores?.robustness}%</div>
-                  <div className="text-xs uppercase tracking-wider text-slate-400 print:text-slate-600 mt-1">Robustness</div>
+                  <div className="text-xs uppercase tracking-wider text-slate-400 print:text-slate-600 mt-1">Robustness{report.sensitivity ? ' · computed' : ''}</div>
                </div>
             </div>
          </div>
@@ -82,6 +99,31 @@ const ReportView: React.FC<ReportViewProps> = ({ report }) => {
                </p>
             </section>
 
+            {/* Verification Gates */}
+            {(report.gates?.length || report.gateOverride) && (
+               <section>
+                  <h2 className="text-lg font-bold font-sans text-slate-900 uppercase tracking-wider border-b border-slate-200 pb-2 mb-4">Verification Gates</h2>
+                  {report.gateOverride && (
+                     <div className="mb-4 p-4 border border-amber-300 bg-amber-50 rounded-lg font-sans text-sm">
+                        <p className="font-bold text-amber-800 flex items-center gap-2"><AlertTriangle size={16}/> Synthesis ran with {report.gateOverride.failedChecks.length} failing gate(s) overridden</p>
+                        <p className="text-amber-900 mt-1 italic font-serif">"{report.gateOverride.reason}"</p>
+                        <p className="text-[10px] text-amber-700 mt-2 uppercase tracking-wider">{report.gateOverride.by} • {new Date(report.gateOverride.at).toLocaleString()}</p>
+                     </div>
+                  )}
+                  <div className="grid grid-cols-1 gap-2">
+                     {(report.gates || []).filter(g => g.status !== 'Pass').map(g => (
+                        <div key={g.id} className="flex gap-3 items-start text-sm">
+                           <div className="mt-0.5">
+                              {g.status === 'Fail' ? <XCircle className="text-red-600" size={16} /> : <AlertTriangle className="text-amber-600" size={16} />}
+                           </div>
+                           <p className="text-slate-800"><span className="font-sans font-bold">{g.name}:</span> {g.message}</p>
+                        </div>
+                     ))}
+                     <p className="text-xs text-slate-500 font-sans">{(report.gates || []).filter(g => g.status === 'Pass').length} of {(report.gates || []).length} gates passed.</p>
+                  </div>
+               </section>
+            )}
+
             {/* Evidence & Claims */}
             <section>
                <h2 className="text-lg font-bold font-sans text-slate-900 uppercase tracking-wider border-b border-slate-200 pb-2 mb-4">Verified Scientific Claims</h2>
@@ -93,60 +135,168 @@ const ReportView: React.FC<ReportViewProps> = ({ report }) => {
                            {c.verdict === 'Disputed' && <XCircle className="text-red-600" size={18} />}
                            {c.verdict === 'Pending' && <AlertTriangle className="text-amber-600" size={18} />}
                         </div>
-                        <div>
+                        <div className="flex-1 min-w-0">
                            <p className="font-medium text-slate-900 leading-snug">{c.claim}</p>
                            <p className="text-xs text-slate-500 mt-1 italic font-serif">Source: {c.citation}</p>
+                           {c.evidence && c.evidence.length > 0 && (
+                              <div className="mt-3 space-y-2 font-sans">
+                                 {c.evidence.map((e, j) => (
+                                    <div key={j} className={`border-l-2 pl-3 py-1 ${e.stance === 'supporting' ? 'border-emerald-400' : e.stance === 'contradicting' ? 'border-red-400' : 'border-slate-300'}`}>
+                                       <p className="text-xs text-slate-700 font-serif leading-relaxed line-clamp-3">"{e.snippet}"</p>
+                                       <div className="flex flex-wrap items-center gap-2 mt-1 text-[10px] text-slate-500" title={e.confidenceReason}>
+                                          <span className={`font-bold uppercase tracking-wider ${e.stance === 'supporting' ? 'text-emerald-700' : e.stance === 'contradicting' ? 'text-red-700' : 'text-slate-500'}`}>{e.stance || 'evidence'}</span>
+                                          <span>•</span>
+                                          {e.url ? <a href={e.url} target="_blank" className="underline hover:text-indigo-600">{e.title}</a> : <span>{e.title}</span>}
+                                          <span>•</span>
+                                          <span>{Math.round(e.confidenceScore * 100)}% confidence</span>
+                                          <span className="px-1.5 py-0.5 bg-slate-100 rounded">{e.methodQuality} quality</span>
+                                       </div>
+                                    </div>
+                                 ))}
+                              </div>
+                           )}
                         </div>
                      </div>
                   ))}
                </div>
             </section>
 
+            {/* Sensitivity */}
+            {report.sensitivity && (
+               <section>
+                  <h2 className="text-lg font-bold font-sans text-slate-900 uppercase tracking-wider border-b border-slate-200 pb-2 mb-4">Sensitivity Analysis</h2>
+                  <p className="text-base leading-relaxed text-slate-800 font-serif">{describeSensitivity(report.sensitivity)}</p>
+                  <p className="mt-2 text-xs text-slate-500 font-sans">
+                     The robustness score of {report.sensitivity.score}% combines these with the bootstrap and weight-shift checks; {report.sensitivity.sweepStable}% of edges halved or raised by half keep the effect within half of its size.
+                  </p>
+                  <div className="mt-4 border border-slate-200 rounded-lg overflow-hidden text-sm font-sans">
+                     <div className="grid grid-cols-12 bg-slate-50 border-b border-slate-200 font-bold py-2 px-4 text-slate-700">
+                        <div className="col-span-6">Edge</div>
+                        <div className="col-span-2 text-right">×0.5</div>
+                        <div className="col-span-2 text-right">×1.5</div>
+                        <div className="col-span-2 text-right">Removed</div>
+                     </div>
+                     {report.sensitivity.edges.filter(e => !e.fixedByEquation).slice(0, 5).map(e => {
+                        const { baseEffect, scales } = report.sensitivity!;
+                        const change = (scale: number) => `${Math.round(100 * relativeChange(e.sweep[scales.indexOf(scale)], baseEffect))}%`;
+                        return (
+                           <div key={e.edge} className="grid grid-cols-12 py-2 px-4 border-b border-slate-100 last:border-0 text-slate-800">
+                              <div className="col-span-6">{e.label}</div>
+                              <div className="col-span-2 text-right">{change(0.5)}</div>
+                              <div className="col-span-2 text-right">{change(1.5)}</div>
+                              <div className="col-span-2 text-right">{change(0)}</div>
+                           </div>
+                        );
+                     })}
+                  </div>
+               </section>
+            )}
+
             {/* Protocol Diffs */}
             <section>
                <h2 className="text-lg font-bold font-sans text-slate-900 uppercase tracking-wider border-b border-slate-200 pb-2 mb-4">Protocol Specification Corrections</h2>
+               {reviewed && (
+                  <p className="mb-3 text-xs text-slate-500 font-sans">
+                     Reviewed against {reviewed.title || 'the protocol'} v{reviewed.version}.{protocol && protocol.id !== reviewed.id ? ` The current version is v${protocol.version}.` : ''}
+                  </p>
+               )}
+               {report.power && (
+                  <div className="mb-4 p-4 border border-indigo-100 bg-indigo-50/40 rounded-lg font-sans text-sm">
+                     <p className="text-[10px] font-bold uppercase tracking-wider text-indigo-700 mb-1">Sample size</p>
+                     <p className="text-slate-800 font-serif">
+                        {describePowerPlan(report.power)}
+                        {report.power.n && ` Achieved power ${Math.round(report.power.achieved * 100)}%; within-group SD ${report.power.sd} from the synthesized data.`}
+                     </p>
+                     {report.power.protocolN !== undefined && report.power.protocolPower !== undefined && (
+                        <p className={`mt-2 text-xs font-bold ${report.power.protocolPower >= report.power.target ? 'text-emerald-700' : 'text-red-700'}`}>
+                           The protocol's n = {report.power.protocolN} per group gives {Math.round(report.power.protocolPower * 100)}% power{report.power.protocolPower < report.power.target && report.power.n ? `; raise it to ${report.power.n}.` : '.'}
+                        </p>
+                     )}
+                  </div>
+               )}
                <div className="border border-slate-200 rounded-lg overflow-hidden text-sm">
                   <div className="grid grid-cols-12 bg-slate-50 border-b border-slate-200 font-sans font-bold py-2 px-4 text-slate-700">
                      <div className="col-span-5">Original Method</div>
                      <div className="col-span-2 text-center text-slate-400"><ArrowRight size={16} className="inline"/></div>
                      <div className="col-span-5">Corrected Protocol</div>
                   </div>
-                  {(report.protocolDiffs || []).map((diff, i) => (
-                     <div key={i} className="grid grid-cols-12 border-b border-slate-100 last:border-0 p-4 items-center">
-                        <div className="col-span-5 text-slate-600 font-mono text-xs leading-relaxed">{diff.original}</div>
-                        <div className="col-span-2 flex justify-center text-slate-300"><ArrowRight size={14}/></div>
-                        <div className="col-span-5 text-slate-900 font-mono text-xs leading-relaxed bg-emerald-50/50 p-2 rounded -my-2 border border-emerald-100/50">
-                           {diff.corrected}
-                           {diff.rationale && <div className="mt-2 text-[10px] text-emerald-700 font-sans italic border-t border-emerald-100 pt-1">{diff.rationale}</div>}
+                  {corrections.map((diff, i) => {
+                     const status = statusOf(diff);
+                     const step = protocol?.steps.find(s => s.id === diff.stepId);
+                     const change = correctionSummary(diff.change);
+                     return (
+                        <div key={i} className={`border-b border-slate-100 last:border-0 p-4 space-y-3 ${status === 'reject' ? 'opacity-50' : ''}`}>
+                           <div className="flex items-center justify-between font-sans">
+                              <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                                 {step ? `Step ${step.id} · ${PROTOCOL_STEP_KINDS[step.kind]}` : 'New step'}
+                              </span>
+                              <div className="flex items-center gap-2">
+                                 {status === 'applied' && <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-emerald-700"><Check size={12}/> In protocol v{protocol?.version}</span>}
+                                 {status !== 'applied' && onDecide && (
+                                    <div className="flex gap-1 print:hidden">
+                                       <button onClick={() => onDecide(diff, status === 'accept' ? null : 'accept')} className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${status === 'accept' ? 'bg-emerald-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-emerald-50 hover:text-emerald-700'}`}>Accept</button>
+                                       <button onClick={() => onDecide(diff, status === 'reject' ? null : 'reject')} className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${status === 'reject' ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Reject</button>
+                                    </div>
+                                 )}
+                                 {status !== 'applied' && status !== 'pending' && <span className="hidden print:inline text-[10px] font-bold uppercase tracking-wider text-slate-500">{status === 'accept' ? 'Accepted' : 'Rejected'}</span>}
+                              </div>
+                           </div>
+                           <div className="grid grid-cols-12 items-center">
+                              <div className="col-span-5 text-slate-600 font-mono text-xs leading-relaxed">{diff.original || <span className="italic text-slate-400">Not in the protocol</span>}</div>
+                              <div className="col-span-2 flex justify-center text-slate-300"><ArrowRight size={14}/></div>
+                              <div className="col-span-5 text-slate-900 font-mono text-xs leading-relaxed bg-emerald-50/50 p-2 rounded -my-2 border border-emerald-100/50">
+                                 {diff.corrected}
+                                 {change && <div className="mt-1 text-[10px] text-emerald-800">{change}</div>}
+                                 {diff.rationale && <div className="mt-2 text-[10px] text-emerald-700 font-sans italic border-t border-emerald-100 pt-1">{diff.rationale}</div>}
+                              </div>
+                           </div>
                         </div>
-                     </div>
-                  ))}
-                  {(!report.protocolDiffs || report.protocolDiffs.length === 0) && (
+                     );
+                  })}
+                  {corrections.length === 0 && (
                      <div className="p-4 text-center text-slate-400 italic">No protocol changes required.</div>
                   )}
                </div>
+               {onApplyCorrections && accepted.length > 0 && (
+                  <button onClick={() => onApplyCorrections(accepted)} className="mt-3 flex items-center gap-2 px-3 py-1.5 bg-emerald-600 rounded-lg text-white text-xs font-sans font-medium hover:bg-emerald-700 transition-colors print:hidden">
+                     <GitCommit size={14}/> Apply {accepted.length} accepted correction{accepted.length === 1 ? '' : 's'} as protocol v{protocols.reduce((max, v) => Math.max(max, v.version), 0) + 1}
+                  </button>
+               )}
             </section>
 
             {/* Artifacts - Footer */}
             <section className="print:hidden">
-               <h2 className="text-lg font-bold font-sans text-slate-900 uppercase tracking-wider border-b border-slate-200 pb-2 mb-4">Digital Artifacts</h2>
+               <div className="flex items-end justify-between border-b border-slate-200 pb-2 mb-4">
+                  <h2 className="text-lg font-bold font-sans text-slate-900 uppercase tracking-wider">Digital Artifacts</h2>
+                  {bundle && (
+                     <button onClick={downloadBundle} className="flex items-center gap-2 px-3 py-1.5 bg-slate-900 rounded-lg text-white text-xs font-sans font-medium hover:bg-slate-700 transition-colors">
+                        <Download size={14}/> Download bundle (.zip, {formatBytes(bundle.length)})
+                     </button>
+                  )}
+               </div>
                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
                   {(report.artifacts || []).map((file, i) => (
                      <div 
                         key={i} 
-                        onClick={() => file.type === 'code' && file.content ? setSelectedArtifact(file) : null}
-                        className={`border border-slate-200 rounded-lg p-3 flex items-center gap-3 ${file.type === 'code' ? 'cursor-pointer hover:border-indigo-300 hover:bg-indigo-50 transition-colors' : 'opacity-70'}`}
+                        onClick={() => file.content !== undefined ? setSelectedArtifact(file) : null}
+                        className={`border border-slate-200 rounded-lg p-3 flex items-center gap-3 ${file.content !== undefined ? 'cursor-pointer hover:border-indigo-300 hover:bg-indigo-50 transition-colors' : 'opacity-70'}`}
                      >
                         <div className="p-2 bg-slate-100 rounded text-slate-500">
                            {file.type === 'code' ? <Code size={18}/> : file.type === 'dataset' ? <Database size={18}/> : <FileJson size={18}/>}
                         </div>
-                        <div className="overflow-hidden">
+                        <div className="overflow-hidden flex-1">
                            <div className="font-mono text-xs font-bold text-slate-700 truncate">{file.name}</div>
                            <div className="text-[10px] text-slate-400">{file.size} • {file.type.toUpperCase()}</div>
                         </div>
+                        {file.content !== undefined && (
+                           <button onClick={e => { e.stopPropagation(); downloadArtifact(file); }} className="p-1.5 rounded text-slate-400 hover:text-indigo-600 hover:bg-white transition-colors" title={`Download ${file.name}`}>
+                              <Download size={14}/>
+                           </button>
+                        )}
                      </div>
                   ))}
                </div>
+               {bundle && <p className="mt-3 text-xs text-slate-500 font-sans">Run <span className="font-mono">python3 reproduce.py</span> in the unzipped bundle to regenerate every simulated number from the scaffold and seed and check it against <span className="font-mono">simulation.json</span>.</p>}
             </section>
 
          </div>
@@ -167,11 +317,20 @@ const ReportView: React.FC<ReportViewProps> = ({ report }) => {
                     <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400"><Code size={20}/></div>
                     <div>
                       <h3 className="font-mono text-white font-bold text-sm">{selectedArtifact.name}</h3>
+                      <p className="text-[10px] text-slate-500 font-sans">{selectedArtifact.size} • {selectedArtifact.type.toUpperCase()}</p>
                     </div>
                  </div>
-                 <button onClick={() => setSelectedArtifact(null)} className="p-2 hover:bg-red-500/20 rounded-lg text-slate-400 hover:text-red-400 transition-colors">
-                    <X size={18} />
-                 </button>
+                 <div className="flex items-center gap-1">
+                    <button onClick={() => navigator.clipboard?.writeText(selectedArtifact.content || '')} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors" title="Copy">
+                       <Copy size={18} />
+                    </button>
+                    <button onClick={() => downloadArtifact(selectedArtifact)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors" title="Download">
+                       <Download size={18} />
+                    </button>
+                    <button onClick={() => setSelectedArtifact(null)} className="p-2 hover:bg-red-500/20 rounded-lg text-slate-400 hover:text-red-400 transition-colors">
+                       <X size={18} />
+                    </button>
+                 </div>
               </div>
               <div className="flex-1 overflow-auto p-6 bg-[#0d1117]">
                  <pre className="font-mono text-xs text-slate-300 leading-relaxed whitespace-pre-wrap">
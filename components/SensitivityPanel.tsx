@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { SensitivityAnalysis } from '../types';
+import { relativeChange } from '../services/sensitivity';
+import { Scale, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface SensitivityPanelProps {
+  analysis: SensitivityAnalysis;
+}
+
+const TORNADO_EDGES = 8;
+const SWEEP_EDGES = 4;
+const SWEEP_COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ec4899'];
+const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+
+const percent = (v: number) => `${v > 0 ? '+' : ''}${Math.round(v)}%`;
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ analysis }) => {
+  const { baseEffect, scales } = analysis;
+  const at = (scale: number) => scales.indexOf(scale);
+  const perturbed = analysis.edges.filter(e => !e.fixedByEquation);
+  const fixed = analysis.edges.length - perturbed.length;
+
+  // Bars run from the base effect to the effect with the edge halved, and to it at 1.5x.
+  const tornado = useMemo(() => perturbed.slice(0, TORNADO_EDGES).map(e => ({
+    label: e.label,
+    low: [0, 100 * relativeChange(e.sweep[at(0.5)], baseEffect)],
+    high: [0, 100 * relativeChange(e.sweep[at(1.5)], baseEffect)]
+  })), [analysis]);
+
+  const sweepEdges = perturbed.slice(0, SWEEP_EDGES);
+  const sweeps = useMemo(() => scales.map((scale, i) => ({
+    scale,
+    ...Object.fromEntries(sweepEdges.map(e => [e.edge, e.sweep[i]]))
+  })), [analysis]);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 p-8 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Scale size={14} className="text-indigo-600"/> Sensitivity Analysis
+        </h4>
+        <span className="text-[10px] font-black uppercase tracking-tight text-slate-500">Robustness score <span className="text-slate-800 text-sm">{analysis.score}</span>/100</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-slate-50 p-4 rounded-2xl">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">E-value</span>
+          <span className="text-lg font-black text-slate-800">{analysis.eValue.toFixed(2)}</span>
+        </div>
+        <div className="bg-slate-50 p-4 rounded-2xl">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">E-value · CI limit</span>
+          <span className="text-lg font-black text-slate-800">{analysis.eValueCI.toFixed(2)}</span>
+        </div>
+        <div className="bg-slate-50 p-4 rounded-2xl">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Sign kept · edge removed</span>
+          <span className="text-lg font-black text-slate-800">{analysis.signStable}%</span>
+        </div>
+        <div className="bg-slate-50 p-4 rounded-2xl">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Within ±50% · ×0.5 / ×1.5</span>
+          <span className="text-lg font-black text-slate-800">{analysis.sweepStable}%</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">Change in effect · edge weight ×0.5 and ×1.5</span>
+          <div style={{ height: Math.max(160, 36 * tornado.length + 40) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={tornado} layout="vertical" margin={{ top: 0, right: 10, bottom: 0, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f8fafc" horizontal={false} />
+                <XAxis type="number" stroke="#cbd5e1" fontSize={10} tickLine={false} axisLine={false} tickFormatter={percent} />
+                <YAxis type="category" dataKey="label" width={140} stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} />
+                <Tooltip formatter={(v: number[], name: string) => [percent(v[1]), name]} contentStyle={tooltipStyle} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: '10px', fontWeight: 800, textTransform: 'uppercase' }} />
+                <ReferenceLine x={0} stroke="#94a3b8" />
+                <Bar dataKey="low" name="×0.5" fill="#a5b4fc" radius={4} isAnimationActive={false} />
+                <Bar dataKey="high" name="×1.5" fill="#4f46e5" radius={4} isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          {fixed > 0 && <p className="text-[10px] text-slate-400">{fixed} edge{fixed === 1 ? '' : 's'} into nodes with their own equation cannot be reweighted and are left out.</p>}
+        </div>
+
+        <div className="space-y-2">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">Effect against edge weight · most influential edges</span>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={sweeps} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f8fafc" vertical={false} />
+                <XAxis dataKey="scale" type="number" domain={[scales[0], scales[scales.length - 1]]} stroke="#cbd5e1" fontSize={10} tickLine={false} axisLine={false} tickFormatter={s => `×${s}`} />
+                <YAxis stroke="#cbd5e1" fontSize={10} tickLine={false} axisLine={false} />
+                <Tooltip labelFormatter={s => `weight ×${s}`} formatter={(v: number, edge: string) => [v, perturbed.find(e => e.edge === edge)?.label ?? edge]} contentStyle={tooltipStyle} />
+                <ReferenceLine y={0} stroke="#94a3b8" />
+                <ReferenceLine x={1} stroke="#94a3b8" strokeDasharray="4 4" />
+                {sweepEdges.map((e, i) => (
+                  <Line key={e.edge} type="monotone" dataKey={e.edge} name={e.edge} stroke={SWEEP_COLORS[i]} strokeWidth={2} dot={false} isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">Leave one edge out</span>
+          <div className="divide-y divide-slate-50 max-h-56 overflow-y-auto">
+            {perturbed.map(e => {
+              const removed = e.sweep[at(0)];
+              const kept = baseEffect !== 0 && Math.sign(removed) === Math.sign(baseEffect);
+              return (
+                <div key={e.edge} className="flex items-center justify-between py-2 text-xs">
+                  <span className="text-slate-700 font-medium">{e.label}</span>
+                  <span className={`flex items-center gap-1.5 font-bold ${kept ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {kept ? <CheckCircle2 size={12}/> : <AlertTriangle size={12}/>} {removed.toPrecision(3)} ({percent(100 * relativeChange(removed, baseEffect))})
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-slate-400">Effect of the full scaffold: {baseEffect.toPrecision(3)}.</p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">Tipping points · unmeasured confounder</span>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400 text-left">
+                <th className="py-1">Imbalance</th><th className="py-1">Erases effect</th><th className="py-1">Erases significance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {analysis.tipping.filter((_, i) => i % 2 === 1).map(t => (
+                <tr key={t.imbalance} className="text-slate-700">
+                  <td className="py-1.5 font-bold">{Math.round(t.imbalance * 100)}%</td>
+                  <td className="py-1.5">{t.nullifying.toFixed(2)} SD</td>
+                  <td className="py-1.5">{t.insignificant.toFixed(2)} SD</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400">How far a confounder must shift the outcome, in outcome SDs, when its prevalence differs by this much between treated and control units.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Source } from '../types';
+import { sourceText } from '../services/retrieval';
+import { formatCitation } from '../services/ingest';
+import { FileText, Image as ImageIcon, Link, Table, X } from 'lucide-react';
+
+export interface SourceHighlight {
+  start: number;
+  end: number;
+  label: string;
+}
+
+interface SourceDrawerProps {
+  source: Source;
+  highlights: SourceHighlight[];
+  active?: [number, number];
+  onClose: () => void;
+  children?: React.ReactNode; // type-specific tools (figure editor, dataset mapping) shown above the text
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  labels: string[];
+  active: boolean;
+}
+
+// Splits the text at every highlight boundary so overlapping passages render as nested marks.
+const segmentText = (length: number, highlights: SourceHighlight[], active?: [number, number]): Segment[] => {
+  const cuts = new Set([0, length]);
+  [...highlights, ...(active ? [{ start: active[0], end: active[1], label: '' }] : [])].forEach(h => {
+    cuts.add(Math.max(0, Math.min(length, h.start)));
+    cuts.add(Math.max(0, Math.min(length, h.end)));
+  });
+  const points = [...cuts].sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    return {
+      start,
+      end,
+      labels: highlights.filter(h => h.start <= start && h.end >= end).map(h => h.label),
+      active: !!active && active[0] <= start && active[1] >= end
+    };
+  });
+};
+
+const SourceDrawer: React.FC<SourceDrawerProps> = ({ source, highlights, active, onClose, children }) => {
+  const activeRef = useRef<HTMLElement | null>(null);
+  const isFigure = source.type === 'image';
+  const text = sourceText(source) || (isFigure ? '' : source.content);
+  const segments = useMemo(() => segmentText(text.length, highlights, active), [text, highlights, active]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [source.id, active?.[0], active?.[1]]);
+
+  let firstActive = true;
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[480px] z-[105] bg-white border-l border-slate-200 shadow-2xl flex flex-col animate-in slide-in-from-right-8 duration-300">
+      <div className="p-8 border-b border-slate-100 flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <div className="mt-1 p-2 bg-indigo-50 rounded-xl text-indigo-600">
+            {source.type === 'url' ? <Link size={14}/> : isFigure ? <ImageIcon size={14}/> : source.type === 'dataset' ? <Table size={14}/> : <FileText size={14}/>}
+          </div>
+          <div className="min-w-0">
+            <h3 className="text-lg font-black tracking-tight text-slate-900 leading-tight">{source.title}</h3>
+            {formatCitation(source.metadata) && <p className="text-xs text-slate-500 mt-1">{formatCitation(source.metadata)}</p>}
+            {source.metadata?.doi && <a href={`https://doi.org/${source.metadata.doi}`} target="_blank" rel="noreferrer" className="text-[10px] font-bold text-indigo-600 hover:underline">doi:{source.metadata.doi}</a>}
+            {source.metadata?.snapshot && (
+              <p className="text-[9px] text-slate-400 font-mono mt-1" title={source.metadata.snapshot.sha256}>
+                snapshot {new Date(source.metadata.snapshot.fetchedAt).toLocaleDateString()} · sha256 {source.metadata.snapshot.sha256.slice(0, 12)}
+              </p>
+            )}
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">
+              {highlights.length} linked passage{highlights.length === 1 ? '' : 's'}
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors shrink-0"><X size={18}/></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-8 space-y-6">
+        {children}
+        {isFigure && text && <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Figure reading</label>}
+        {text ? (
+          <p className="text-sm leading-7 text-slate-700 whitespace-pre-wrap font-serif">
+            {segments.map(seg => {
+              const chunk = text.slice(seg.start, seg.end);
+              if (seg.active) {
+                const ref = firstActive ? (el: HTMLElement | null) => { activeRef.current = el; } : undefined;
+                firstActive = false;
+                return <mark key={seg.start} ref={ref} title={seg.labels.join('\n')} className="bg-amber-300 text-slate-900 rounded px-0.5">{chunk}</mark>;
+              }
+              if (seg.labels.length) {
+                return <mark key={seg.start} title={seg.labels.join('\n')} className="bg-amber-100/70 text-slate-800 rounded px-0.5">{chunk}</mark>;
+              }
+              return <React.Fragment key={seg.start}>{chunk}</React.Fragment>;
+            })}
+          </p>
+        ) : (
+          <p className="text-xs text-slate-400 italic">No text has been extracted from this source yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceDrawer;
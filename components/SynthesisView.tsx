@@ -1,14 +1,119 @@
 
-import React, { useState } from 'react';
-import { ComposedChart, Area, Scatter, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { SimulationResult, HeatmapCell } from '../types';
-import { ShieldCheck, Activity, GitBranch, Lock, Sparkles, Grid, Clock, BarChart2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Area, Scatter, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { SimulationResult, HeatmapCell, PlateLayout, PowerDesign, PowerPlan, PowerSettings, Protocol } from '../types';
+import { POWER_DEFAULTS, POWER_DESIGNS, describePowerPlan, powerCurves, powerInputs, protocolSampling } from '../services/power';
+import { PlateGrid } from './PlatePanel';
+import SensitivityPanel from './SensitivityPanel';
+import { ShieldCheck, Activity, GitBranch, Lock, Sparkles, Grid, Clock, BarChart2, Users, FileText } from 'lucide-react';
 
 interface SynthesisViewProps {
   data: SimulationResult | null;
+  protocol?: Protocol | null;
+  powerSettings?: PowerSettings;
+  powerPlan?: PowerPlan | null;
+  reportPower?: PowerPlan | null; // undefined when there is no report to write to
+  onPowerSettingsChange?: (settings: PowerSettings) => void;
+  onWritePowerToReport?: () => void;
+  plate?: { layout: PlateLayout; predicted: Record<string, number> } | null;
 }
 
-const SynthesisView: React.FC<SynthesisViewProps> = ({ data }) => {
+const DESIGN_COLORS: Record<PowerDesign, string> = { ttest: '#4f46e5', anova: '#10b981', trend: '#f59e0b', timecourse: '#ec4899' };
+const ALPHAS = [0.05, 0.01, 0.001];
+const TARGETS = [0.8, 0.9, 0.95];
+
+const samePlan = (a: PowerPlan | null | undefined, b: PowerPlan | null | undefined) =>
+  !!a && !!b && (['design', 'alpha', 'target', 'effectScale', 'correlation', 'n', 'protocolN'] as const).every(k => a[k] === b[k]);
+
+type PowerPanelProps = Omit<SynthesisViewProps, 'data' | 'powerSettings' | 'plate'> & { data: SimulationResult; powerSettings: PowerSettings };
+
+const PowerPanel: React.FC<PowerPanelProps> = ({
+  data, protocol = null, powerSettings: settings, powerPlan: plan = null, reportPower, onPowerSettingsChange, onWritePowerToReport
+}) => {
+  const sampling = useMemo(() => protocolSampling(protocol, data), [protocol, data]);
+  const inputs = useMemo(() => powerInputs(data, sampling.timepoints), [data, sampling]);
+  const maxN = Math.min(200, Math.max(20, Math.ceil(1.5 * Math.max(plan?.n ?? 200, sampling.n ?? 0))));
+  const curves = useMemo(() => inputs ? powerCurves(inputs, settings, maxN) : [], [inputs, settings, maxN]);
+  const designs = (Object.keys(POWER_DESIGNS) as PowerDesign[]).filter(d => curves.some(p => p[d] !== undefined));
+  const set = (patch: Partial<PowerSettings>) => onPowerSettingsChange?.({ ...settings, ...patch });
+  const chip = (active: boolean) => `px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-tight transition-all ${active ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20' : 'bg-slate-50 text-slate-500 hover:text-slate-800'}`;
+
+  if (!inputs) return null;
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 p-8 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Users size={14} className="text-indigo-600"/> Power &amp; Sample Size
+        </h4>
+        {reportPower !== undefined && plan && onWritePowerToReport && !samePlan(plan, reportPower) && (
+          <button onClick={onWritePowerToReport} className="px-3 py-1.5 rounded-full bg-slate-900 text-white text-[10px] font-black uppercase tracking-tight flex items-center gap-2 hover:bg-slate-700 transition-colors">
+            <FileText size={12}/> {reportPower ? 'Update report' : 'Add to report'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {designs.map(d => <button key={d} onClick={() => set({ design: d })} className={chip(settings.design === d)}>{POWER_DESIGNS[d]}</button>)}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <label className="space-y-2">
+          <span className="block">α</span>
+          <div className="flex gap-1">{ALPHAS.map(a => <button key={a} onClick={() => set({ alpha: a })} className={chip(settings.alpha === a)}>{a}</button>)}</div>
+        </label>
+        <label className="space-y-2">
+          <span className="block">Target power</span>
+          <div className="flex gap-1">{TARGETS.map(t => <button key={t} onClick={() => set({ target: t })} className={chip(settings.target === t)}>{Math.round(t * 100)}%</button>)}</div>
+        </label>
+        <label className="space-y-2">
+          <span className="block">Effect · {Math.round(settings.effectScale * 100)}% of simulated</span>
+          <input type="range" min={0.1} max={2} step={0.05} value={settings.effectScale} onChange={e => set({ effectScale: Number(e.target.value) })} className="w-full accent-indigo-600" />
+        </label>
+        {settings.design === 'timecourse' && (
+          <label className="space-y-2">
+            <span className="block">Within-unit correlation · {settings.correlation.toFixed(2)}</span>
+            <input type="range" min={0} max={0.95} step={0.05} value={settings.correlation} onChange={e => set({ correlation: Number(e.target.value) })} className="w-full accent-indigo-600" />
+          </label>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-stretch">
+        <div className="md:col-span-2 h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curves} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f8fafc" vertical={false} />
+              <XAxis dataKey="n" type="number" domain={[2, maxN]} stroke="#cbd5e1" fontSize={10} tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 1]} stroke="#cbd5e1" fontSize={10} tickLine={false} axisLine={false} tickFormatter={v => `${Math.round(v * 100)}%`} />
+              <Tooltip formatter={(v: number, name: string) => [`${(v * 100).toFixed(1)}%`, POWER_DESIGNS[name as PowerDesign] || name]} labelFormatter={n => `n = ${n} per group`} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+              <ReferenceLine y={settings.target} stroke="#94a3b8" strokeDasharray="4 4" />
+              {plan?.n && <ReferenceLine x={plan.n} stroke="#4f46e5" strokeDasharray="4 4" />}
+              {sampling.n && <ReferenceLine x={sampling.n} stroke="#ef4444" strokeDasharray="2 4" label={{ value: 'protocol', fontSize: 9, fill: '#ef4444', position: 'insideTopRight' }} />}
+              {designs.map(d => (
+                <Line key={d} type="monotone" dataKey={d} stroke={DESIGN_COLORS[d]} strokeWidth={settings.design === d ? 4 : 1.5} strokeOpacity={settings.design === d ? 1 : 0.4} dot={false} isAnimationActive={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="bg-slate-50 p-6 rounded-2xl flex flex-col justify-between gap-4">
+          <div>
+            <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Recommended n</span>
+            <span className="text-3xl font-black text-slate-800">{plan?.n ?? '—'}</span>
+            <span className="text-xs font-bold text-slate-500"> per group{plan?.n ? ` · ${plan.n * plan.groups} total` : ''}</span>
+          </div>
+          {plan && <p className="text-xs text-slate-600 leading-relaxed">{describePowerPlan(plan)} Within-group SD {plan.sd}.</p>}
+          {plan?.protocolN !== undefined && plan.protocolPower !== undefined && (
+            <p className={`text-xs font-bold ${plan.protocolPower >= settings.target ? 'text-emerald-600' : 'text-red-600'}`}>
+              Protocol v{protocol?.version} uses n = {plan.protocolN}: {Math.round(plan.protocolPower * 100)}% power.
+            </p>
+          )}
+          {!plan && <p className="text-xs text-slate-500">This design needs measurement timepoints; the simulation has no time course.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SynthesisView: React.FC<SynthesisViewProps> = ({ data, plate = null, powerSettings = POWER_DEFAULTS, ...power }) => {
   const [activeTab, setActiveTab] = useState<'dose' | 'time' | 'heatmap'>('dose');
 
   if (!data) return <div className="flex items-center justify-center h-full text-slate-400 font-black uppercase tracking-widest text-xs">Sim pending...</div>;
@@ -18,28 +123,21 @@ const SynthesisView: React.FC<SynthesisViewProps> = ({ data }) => {
   const synthetic = doseData.filter(d => d.type === 'Synthetic');
   const counterfactual = doseData.filter(d => d.type === 'Counterfactual');
 
+  // A designed plate shows its own wells; otherwise the synthesis' dose-gradient plate.
   const HeatmapPlate = ({ cells }: { cells: HeatmapCell[] }) => {
-     const rows = ['A','B','C','D','E','F','G','H'];
-     const cols = Array.from({length: 12}, (_, i) => i + 1);
-     const safeCells = cells || [];
+     const values = new Map((cells || []).map(c => [`${c.row}${c.col}`, c.value]));
+     const designed: number[] = plate ? Object.values(plate.predicted) : [];
+     const lo = Math.min(...designed), hi = Math.max(...designed);
+     const cell = (well: string) => {
+       if (plate) {
+         const v = plate.predicted[well];
+         return v === undefined ? { color: 'transparent', title: well, dashed: true } : { color: `rgba(79, 70, 229, ${hi > lo ? Math.max(0.05, (v - lo) / (hi - lo)) : 0.5})`, title: `${well} · ${v}` };
+       }
+       return { color: `rgba(79, 70, 229, ${values.get(well) ?? 0})`, title: well };
+     };
      return (
        <div className="flex flex-col items-center">
-         <div className="flex mb-1">
-           <div className="w-6"></div>
-           {cols.map(c => <div key={c} className="w-6 text-[10px] text-center text-slate-400 font-mono">{c}</div>)}
-         </div>
-         {rows.map(r => (
-           <div key={r} className="flex mb-1">
-             <div className="w-6 text-[10px] text-right pr-2 text-slate-400 font-mono flex items-center justify-end">{r}</div>
-             {cols.map(c => {
-               const cell = safeCells.find(x => x.row === r && x.col === c);
-               const val = cell ? cell.value : 0;
-               return (
-                 <div key={`${r}${c}`} className="w-6 h-6 border border-white/50" style={{ backgroundColor: `rgba(79, 70, 229, ${val})` }} />
-               );
-             })}
-           </div>
-         ))}
+         <PlateGrid format={plate?.layout.format ?? 96} cell={cell} />
          <div className="mt-4 flex items-center gap-2 text-[10px] text-slate-500 font-bold uppercase tracking-widest">
             <span>Low</span>
             <div className="w-24 h-1.5 bg-gradient-to-r from-slate-100 to-indigo-600 rounded-full"></div>
@@ -126,6 +224,18 @@ const SynthesisView: React.FC<SynthesisViewProps> = ({ data }) => {
                <ShieldCheck size={14} className="text-emerald-600"/> Robustness Metrics
              </h4>
              <div className="grid grid-cols-2 gap-4">
+                {data.sensitivity && (
+                  <>
+                    <div className="bg-slate-50 p-4 rounded-2xl">
+                       <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Robustness</span>
+                       <span className="text-lg font-black text-slate-800">{data.sensitivity.score}%</span>
+                    </div>
+                    <div className="bg-slate-50 p-4 rounded-2xl">
+                       <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">E-value</span>
+                       <span className="text-lg font-black text-slate-800">{data.sensitivity.eValue.toFixed(2)}</span>
+                    </div>
+                  </>
+                )}
                 <div className="bg-slate-50 p-4 rounded-2xl">
                    <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Bootstrap</span>
                    <span className="text-lg font-black text-slate-800">{data.robustness?.bootstrapStability ?? 0}%</span>
@@ -137,6 +247,10 @@ const SynthesisView: React.FC<SynthesisViewProps> = ({ data }) => {
              </div>
            </div>
         </div>
+
+        {data.sensitivity && <SensitivityPanel analysis={data.sensitivity} />}
+
+        <PowerPanel data={data} powerSettings={powerSettings} {...power} />
       </div>
     </div>
   );
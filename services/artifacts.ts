@@ -0,0 +1,759 @@
+import { Artifact, CausalGraphData, SimulationResult, StructuredReport } from "../types";
+import { compileSCM } from "./scm";
+import { Expr, collectVariables, parseExpression } from "./expression";
+import { SYNTHESIS_DEFAULTS } from "./synthesis";
+import { writeGraph } from "./graphFormats";
+import { createZip } from "./zip";
+
+// The evidence bundle: files a reviewer can rerun, generated from the scaffold and the synthesis result.
+
+const MIME_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  py: 'text/x-python',
+  r: 'text/plain',
+  json: 'application/json',
+  dagitty: 'text/plain'
+};
+
+export const artifactMimeType = (name: string) => MIME_TYPES[name.split('.').pop()!.toLowerCase()] || 'text/plain';
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const artifact = (name: string, type: Artifact['type'], content: string): Artifact =>
+  ({ name, type, size: formatBytes(new TextEncoder().encode(content).length), content });
+
+interface DosePoint { x: number; y: number; type: string }
+
+/**
+ * One row per simulated unit: its dose, the outcome it showed and the outcome it would have shown at
+ * control. Observed rows from mapped datasets are left out; they are the notebook's own data.
+ */
+export const syntheticDataCsv = (sim: SimulationResult) => {
+  const points = sim.doseResponseData as DosePoint[];
+  const factual = points.filter(p => p.type === 'Synthetic');
+  const counterfactual = points.filter(p => p.type === 'Counterfactual');
+  const levels = [...new Set(factual.map(p => p.x))];
+  const seen: Record<number, number> = {};
+  const rows = factual.map((p, i) => {
+    const level = levels.indexOf(p.x);
+    const replicate = seen[level] = (seen[level] ?? -1) + 1;
+    return [i + 1, level, replicate, p.x, p.y, counterfactual[i]?.y ?? ''].join(',');
+  });
+  return ['unit,dose_level,replicate,dose,outcome,counterfactual', ...rows].join('\n') + '\n';
+};
+
+// Only what the structural equations read, so the script shows the model rather than its evidence.
+const simulationInputs = (graph: CausalGraphData) => ({
+  nodes: graph.nodes.map(({ id, label, type, min, max, value, currentValue, noise, equation }) => ({ id, label, type, min, max, value, currentValue, noise, equation })),
+  edges: graph.edges.map(({ source, target, relationship, weight }) => ({ source, target, relationship, weight }))
+});
+
+const PY_FUNCTIONS: Record<string, string> = {
+  min: '_min', max: '_max', abs: 'abs', exp: '_exp', log: '_log', sqrt: '_sqrt', tanh: 'math.tanh',
+  sigmoid: '_sigmoid', clamp: '_clamp', hill: '_hill', inhibit: '_inhibit'
+};
+
+const pyNumber = (v: number) => {
+  if (Number.isNaN(v)) return 'math.nan';
+  if (!Number.isFinite(v)) return v > 0 ? 'math.inf' : '-math.inf';
+  const s = String(v);
+  return /^-?\d+$/.test(s) ? `${s}.0` : s;
+};
+
+/** The same arithmetic as `evaluateExpression`, as Python source over an `env` dict. */
+export const expressionToPython = (expr: Expr): string => {
+  switch (expr.kind) {
+    case 'num': return pyNumber(expr.value);
+    case 'var': return `env[${JSON.stringify(expr.name)}]`;
+    case 'unary': return `(${expr.op}${expressionToPython(expr.arg)})`;
+    case 'binary': {
+      const left = expressionToPython(expr.left);
+      const right = expressionToPython(expr.right);
+      if (expr.op === '/') return `_div(${left}, ${right})`;
+      if (expr.op === '^') return `_pow(${left}, ${right})`;
+      return `(${left} ${expr.op} ${right})`;
+    }
+    case 'call': return `${PY_FUNCTIONS[expr.fn]}(${expr.args.map(expressionToPython).join(', ')})`;
+  }
+};
+
+const pyString = (s: string) => `"""${s.replace(/\\/g, '\\\\')}"""`;
+
+/**
+ * A standard-library Python script that rebuilds the synthesis from the scaffold and seed: the same
+ * random streams, structural equations, fits and resamples, so its output matches simulation.json.
+ */
+export const reproductionScript = (scaffold: CausalGraphData, sim: SimulationResult) => {
+  const { errors } = compileSCM(scaffold);
+  const equations = scaffold.nodes.filter(n => n.equation?.trim() && !errors[n.id]).map(n => {
+    const expr = parseExpression(n.equation!);
+    return `    ${JSON.stringify(n.id)}: (lambda env: ${expressionToPython(expr)}, ${JSON.stringify([...collectVariables(expr)])}),`;
+  });
+  const outcome = scaffold.nodes.find(n => n.id === sim.outcomeId);
+  const treatment = scaffold.nodes.find(n => n.id === sim.treatmentId);
+
+  return `#!/usr/bin/env python3
+"""Reproduces the ProofSmith-R synthesis of ${(outcome?.label || sim.variableName).replace(/"/g, "'")} under ${(treatment?.label || sim.treatmentId || 'the intervention').replace(/"/g, "'")}.
+
+Standard library only. Every number comes from the scaffold and seed below: the random streams,
+structural equations, dose-response fits, bootstrap and weight shifts follow the notebook step for step.
+
+    python3 reproduce.py
+
+writes simulation_reproduced.json and, when simulation.json from the same bundle sits next to it,
+reports the largest difference from the published numbers.
+"""
+import json
+import math
+import os
+import sys
+from decimal import Decimal, ROUND_HALF_UP
+
+sys.setrecursionlimit(100000)
+
+SEED = ${JSON.stringify(sim.seed ?? SYNTHESIS_DEFAULTS.seed)}
+TREATMENT = ${JSON.stringify(sim.treatmentId ?? '')}
+OUTCOME = ${JSON.stringify(sim.outcomeId ?? '')}
+DOSE_LEVELS = ${SYNTHESIS_DEFAULTS.doseLevels}
+REPLICATES = ${SYNTHESIS_DEFAULTS.replicates}
+BOOTSTRAP_SAMPLES = ${SYNTHESIS_DEFAULTS.bootstrapSamples}
+SHIFT_SAMPLES = ${SYNTHESIS_DEFAULTS.shiftSamples}
+
+SCAFFOLD = json.loads(${pyString(JSON.stringify(simulationInputs(scaffold), null, 2))})
+
+# Node equations, translated from the notebook's expression language. Each entry is the equation and
+# the names it reads. Equations the notebook could not compile are left out, as they are there.
+EQUATIONS = {
+${equations.join('\n')}
+}
+
+M32 = 0xFFFFFFFF
+DEFAULT_NOISE_SD = 0.05
+PLATE_ROWS = "ABCDEFGH"
+PLATE_COLS = 12
+HOURS_PER_STEP = 2
+HILL_GRID = [0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3, 4]
+
+# Evaluations whose feedback loop had not settled after max_iterations.
+unsettled = 0
+
+
+# --- JavaScript arithmetic -------------------------------------------------------------------------
+
+def js_round(v, digits=4):
+    """Number(v.toFixed(digits)): ties round away from zero on the exact binary value."""
+    if not math.isfinite(v):
+        return v
+    return float(Decimal(v).quantize(Decimal(1).scaleb(-digits), rounding=ROUND_HALF_UP))
+
+
+def js_math_round(v):
+    return math.floor(v + 0.5)
+
+
+def total(xs):
+    # Left to right, as Array.reduce does; Python's sum() compensates and would differ in the last bits.
+    s = 0.0
+    for x in xs:
+        s = s + x
+    return s
+
+
+def sign(x):
+    return math.nan if x != x else float((x > 0) - (x < 0))
+
+
+def _min(*xs):
+    return math.nan if any(x != x for x in xs) else min(xs)
+
+
+def _max(*xs):
+    return math.nan if any(x != x for x in xs) else max(xs)
+
+
+def _div(a, b):
+    if b == 0:
+        return math.nan if a == 0 or a != a else math.copysign(math.inf, a) * math.copysign(1.0, b)
+    return a / b
+
+
+def _pow(a, b):
+    if b == 0:
+        return 1.0
+    if a != a or b != b:
+        return math.nan
+    if a == 0 and b < 0:
+        return math.inf
+    if a < 0 and not float(b).is_integer():
+        return math.nan
+    try:
+        return math.pow(a, b)
+    except OverflowError:
+        return -math.inf if a < 0 and float(b) % 2 == 1 else math.inf
+
+
+def _exp(x):
+    try:
+        return math.exp(x)
+    except OverflowError:
+        return math.inf
+
+
+def _log(x):
+    if x != x or x < 0:
+        return math.nan
+    return -math.inf if x == 0 else math.log(x)
+
+
+def _sqrt(x):
+    return math.nan if x != x or x < 0 else math.sqrt(x)
+
+
+def _sigmoid(x):
+    return 1 / (1 + _exp(-x))
+
+
+def _clamp(x, lo, hi):
+    return _max(lo, _min(hi, x))
+
+
+def _hill(x, ec50, n=1.0):
+    xn = _pow(_max(x, 0.0), n)
+    return _div(xn, _pow(ec50, n) + xn)
+
+
+def _inhibit(x, ic50, n=1.0):
+    xn = _pow(_max(x, 0.0), n)
+    return _div(_pow(ic50, n), _pow(ic50, n) + xn)
+
+
+# --- Seeded random numbers: mulberry32 with Box-Muller normals --------------------------------------
+
+def imul(a, b):
+    return (a * b) & M32
+
+
+def hash_seed(seed):
+    """FNV-1a over the seed's UTF-16 code units."""
+    h = 2166136261
+    units = str(seed).encode("utf-16-le")
+    for i in range(0, len(units), 2):
+        h ^= units[i] | (units[i + 1] << 8)
+        h = imul(h, 16777619)
+    return h
+
+
+class RNG:
+    def __init__(self, seed):
+        self.state = hash_seed(seed)
+        self.spare = None
+
+    def next(self):
+        self.state = (self.state + 0x6D2B79F5) & M32
+        t = self.state
+        t = imul(t ^ (t >> 15), t | 1)
+        t ^= (t + imul(t ^ (t >> 7), t | 61)) & M32
+        return ((t ^ (t >> 14)) & M32) / 4294967296
+
+    def normal(self, mean=0.0, sd=1.0):
+        if self.spare is not None:
+            v = self.spare
+            self.spare = None
+            return mean + sd * v
+        u = 0.0
+        while u == 0:
+            u = self.next()
+        v = self.next()
+        r = math.sqrt(-2 * math.log(u))
+        self.spare = r * math.sin(2 * math.pi * v)
+        return mean + sd * r * math.cos(2 * math.pi * v)
+
+    def int(self, max_exclusive):
+        return math.floor(self.next() * max_exclusive)
+
+
+# --- Structural causal model ------------------------------------------------------------------------
+
+def opt(item, key):
+    return item.get(key)
+
+
+def bounds(node):
+    lo = opt(node, "min") if opt(node, "min") is not None else 0.0
+    hi = opt(node, "max") if opt(node, "max") is not None else (lo + 1 if opt(node, "min") is not None else 1.0)
+    return lo, (hi if hi > lo else lo + 1)
+
+
+def normalize(node, value):
+    lo, hi = bounds(node)
+    return (value - lo) / (hi - lo)
+
+
+def denormalize(node, norm):
+    lo, hi = bounds(node)
+    return lo + norm * (hi - lo)
+
+
+def effective_weight(edge):
+    if opt(edge, "weight") is not None:
+        return edge["weight"]
+    return {"positive": 0.5, "negative": -0.5}.get(edge.get("relationship"), 0.0)
+
+
+def baseline(node):
+    for key in ("value", "currentValue"):
+        if opt(node, key) is not None:
+            return node[key]
+    lo, hi = bounds(node)
+    return (lo + hi) / 2
+
+
+def strongly_connected(ids, deps):
+    """Tarjan's algorithm; components come out in reverse topological order."""
+    children = {i: [] for i in ids}
+    for i in ids:
+        for p in deps[i]:
+            if p in children:
+                children[p].append(i)
+    counter = [0]
+    idx, low, on_stack, stack, out = {}, {}, set(), [], []
+
+    def connect(v):
+        idx[v] = low[v] = counter[0]
+        counter[0] += 1
+        stack.append(v)
+        on_stack.add(v)
+        for w in children[v]:
+            if w not in idx:
+                connect(w)
+                low[v] = min(low[v], low[w])
+            elif w in on_stack:
+                low[v] = min(low[v], idx[w])
+        if low[v] == idx[v]:
+            comp = []
+            while True:
+                w = stack.pop()
+                on_stack.discard(w)
+                comp.append(w)
+                if w == v:
+                    break
+            out.append(comp)
+
+    for i in ids:
+        if i not in idx:
+            connect(i)
+    return out
+
+
+class SCM:
+    def __init__(self, graph):
+        self.ids = [n["id"] for n in graph["nodes"]]
+        known = set(self.ids)
+        self.nodes = {n["id"]: n for n in graph["nodes"]}
+        self.parents, deps, self.equation, self.uses_noise, self.bounded = {}, {}, {}, {}, {}
+        for n in graph["nodes"]:
+            i = n["id"]
+            self.parents[i] = [(e["source"], effective_weight(e)) for e in graph["edges"] if e["target"] == i and e["source"] in known]
+            fn, names = EQUATIONS.get(i, (None, []))
+            deps[i] = list(dict.fromkeys([p for p, _ in self.parents[i]] + [v for v in names if v in known]))
+            self.equation[i] = fn
+            self.uses_noise[i] = "U" in names
+            self.bounded[i] = fn is None or opt(n, "min") is not None or opt(n, "max") is not None
+        self.order = list(reversed(strongly_connected(self.ids, deps)))
+        self.cycle = [len(c) > 1 or c[0] in deps[c[0]] for c in self.order]
+
+    def clamp(self, i, v):
+        finite = math.isfinite(v)
+        if not self.bounded[i] or not finite:
+            return v if finite else baseline(self.nodes[i])
+        lo, hi = bounds(self.nodes[i])
+        return max(lo, min(hi, v))
+
+    def evaluate(self, interventions, rng=None, max_iterations=500, tolerance=1e-6, damping=0.5):
+        global unsettled
+        values, noise = {}, {}
+        for i in self.ids:
+            node = self.nodes[i]
+            values[i] = interventions[i] if i in interventions else baseline(node)
+            sd = opt(node, "noise") if opt(node, "noise") is not None else DEFAULT_NOISE_SD
+            noise[i] = rng.normal(0, sd) if rng else 0.0
+
+        def structural(i):
+            node = self.nodes[i]
+            lo, hi = bounds(node)
+            if self.equation[i]:
+                env = dict(values)
+                env["U"] = noise[i]
+                env["base"] = baseline(node)
+                raw = self.equation[i](env)
+                return self.clamp(i, raw if self.uses_noise[i] else raw + noise[i] * (hi - lo))
+            if not self.parents[i]:
+                return self.clamp(i, baseline(node) + noise[i] * (hi - lo))
+            # Default mechanism: linear in each parent's distance from its own baseline.
+            norm = normalize(node, node["value"]) if opt(node, "value") is not None else 0.5
+            for p, w in self.parents[i]:
+                norm = norm + w * (normalize(self.nodes[p], values[p]) - normalize(self.nodes[p], baseline(self.nodes[p])))
+            return self.clamp(i, denormalize(node, norm + noise[i]))
+
+        for comp, is_cycle in zip(self.order, self.cycle):
+            free = [i for i in comp if i not in interventions]
+            if not free:
+                continue
+            if not is_cycle:
+                values[free[0]] = structural(free[0])
+                continue
+            # Feedback loop: damped fixed-point iteration until the loop settles.
+            for _ in range(max_iterations):
+                delta = 0.0
+                for i in free:
+                    blended = (1 - damping) * values[i] + damping * structural(i)
+                    lo, hi = bounds(self.nodes[i])
+                    delta = _max(delta, abs(blended - values[i]) / (hi - lo))
+                    values[i] = blended
+                if delta < tolerance:
+                    break
+            else:
+                unsettled += 1
+        return values
+
+
+# --- Statistics -------------------------------------------------------------------------------------
+
+def mean(xs):
+    return total(xs) / len(xs) if xs else math.nan
+
+
+def variance(xs):
+    if len(xs) < 2:
+        return 0.0
+    m = mean(xs)
+    return total([(x - m) ** 2 for x in xs]) / (len(xs) - 1)
+
+
+def quantile(xs, q):
+    s = sorted(xs)
+    pos = (len(s) - 1) * q
+    lo, hi = math.floor(pos), math.ceil(pos)
+    return s[lo] + (s[hi] - s[lo]) * (pos - lo)
+
+
+def linspace(start, end, n):
+    return [start] if n <= 1 else [start + (end - start) * i / (n - 1) for i in range(n)]
+
+
+def log_gamma(x):
+    c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+         -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7]
+    if x < 0.5:
+        return math.log(math.pi / math.sin(math.pi * x)) - log_gamma(1 - x)
+    x -= 1
+    a = c[0]
+    t = x + 7.5
+    for i in range(1, 9):
+        a += c[i] / (x + i)
+    return 0.5 * math.log(2 * math.pi) + (x + 0.5) * math.log(t) - t + math.log(a)
+
+
+def beta_continued_fraction(a, b, x):
+    eps, fpmin = 1e-12, 1e-300
+    c = 1.0
+    d = 1 - (a + b) * x / (a + 1)
+    d = 1 / (fpmin if abs(d) < fpmin else d)
+    h = d
+    for m in range(1, 301):
+        m2 = 2 * m
+        aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+        d = 1 + aa * d
+        d = fpmin if abs(d) < fpmin else d
+        c = 1 + aa / c
+        c = fpmin if abs(c) < fpmin else c
+        d = 1 / d
+        h *= d * c
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+        d = 1 + aa * d
+        d = fpmin if abs(d) < fpmin else d
+        c = 1 + aa / c
+        c = fpmin if abs(c) < fpmin else c
+        d = 1 / d
+        delta = d * c
+        h *= delta
+        if abs(delta - 1) < eps:
+            break
+    return h
+
+
+def incomplete_beta(x, a, b):
+    if x <= 0:
+        return 0.0
+    if x >= 1:
+        return 1.0
+    front = log_gamma(a + b) - log_gamma(a) - log_gamma(b) + a * math.log(x) + b * math.log(1 - x)
+    if x < (a + 1) / (a + b + 2):
+        return math.exp(front) * beta_continued_fraction(a, b, x) / a
+    return 1 - math.exp(front) * beta_continued_fraction(b, a, 1 - x) / b
+
+
+def student_t_cdf(t, df):
+    tail = 0.5 * incomplete_beta(df / (df + t * t), df / 2, 0.5)
+    return 1 - tail if t >= 0 else tail
+
+
+def welch_t_test(a, b):
+    va, vb = variance(a), variance(b)
+    se2 = va / len(a) + vb / len(b)
+    diff = mean(b) - mean(a)
+    pooled = math.sqrt(((len(a) - 1) * va + (len(b) - 1) * vb) / max(1, len(a) + len(b) - 2))
+    d = diff / pooled if pooled > 0 else 0.0
+    if se2 == 0:
+        return (1.0 if diff == 0 else 0.0), d
+    t = diff / math.sqrt(se2)
+    df = se2 ** 2 / ((va / len(a)) ** 2 / max(1, len(a) - 1) + (vb / len(b)) ** 2 / max(1, len(b) - 1))
+    return 2 * (1 - student_t_cdf(abs(t), df)), d
+
+
+def hill_response(fit, dose):
+    x = max(0.0, dose - fit["xOffset"])
+    xn = x ** fit["hill"]
+    return fit["bottom"] + (fit["top"] - fit["bottom"]) * xn / (fit["ec50"] ** fit["hill"] + xn)
+
+
+def fit_dose_response(xs, ys):
+    """Four-parameter logistic: bottom and top solved exactly, EC50 and Hill slope grid-searched."""
+    x_offset = min(xs)
+    shifted = [x - x_offset for x in xs]
+    span = max(shifted) or 1
+    ec50_grid = [math.exp(v) for v in linspace(math.log(span / 50), math.log(span * 4), 40)]
+    my = mean(ys)
+    tss = total([(y - my) ** 2 for y in ys])
+    best = {"bottom": my, "top": my, "ec50": span / 2, "hill": 1, "xOffset": x_offset, "r2": 0}
+    best_rss = math.inf
+    for ec50 in ec50_grid:
+        for hill in HILL_GRID:
+            h = [x ** hill / (ec50 ** hill + x ** hill) for x in shifted]
+            mh = mean(h)
+            shh = total([(v - mh) ** 2 for v in h])
+            beta = total([(v - mh) * (ys[i] - my) for i, v in enumerate(h)]) / shh if shh > 0 else 0.0
+            alpha = my - beta * mh
+            rss = total([(y - alpha - beta * h[i]) ** 2 for i, y in enumerate(ys)])
+            if rss < best_rss:
+                best_rss = rss
+                best = {"bottom": alpha, "top": alpha + beta, "ec50": ec50, "hill": hill, "xOffset": x_offset, "r2": 1 - rss / tss if tss > 0 else 1}
+    return best
+
+
+def path_length(graph, start, goal):
+    dist = {start: 0}
+    queue = [start]
+    while queue:
+        i = queue.pop(0)
+        if i == goal:
+            return dist[i]
+        for e in graph["edges"]:
+            if e["source"] == i and e["target"] not in dist:
+                dist[e["target"]] = dist[i] + 1
+                queue.append(e["target"])
+    return math.inf
+
+
+# --- Synthesis --------------------------------------------------------------------------------------
+
+def synthesize(graph):
+    nodes = {n["id"]: n for n in graph["nodes"]}
+    treatment, outcome = nodes[TREATMENT], nodes[OUTCOME]
+    model = SCM(graph)
+    lo, hi = bounds(treatment)
+    control = lo
+    doses = linspace(lo, hi, DOSE_LEVELS)
+
+    def draw(dose, unit_seed, counterfactual=True):
+        # Each unit has its own noise stream; the counterfactual replays it with the treatment at control.
+        factual = model.evaluate({TREATMENT: dose}, RNG(unit_seed))[OUTCOME]
+        cf = model.evaluate({TREATMENT: control}, RNG(unit_seed))[OUTCOME] if counterfactual else None
+        return {"dose": dose, "factual": factual, "counterfactual": cf}
+
+    draws = [[draw(dose, f"{SEED}:dose:{i}:{r}") for r in range(REPLICATES)] for i, dose in enumerate(doses)]
+    flat = [d for level in draws for d in level]
+    fit = fit_dose_response([d["dose"] for d in flat], [d["factual"] for d in flat])
+
+    rng = RNG(f"{SEED}:bootstrap")
+    band_xs = linspace(lo, hi, 25)
+    curves = [[] for _ in band_xs]
+    full_effect = mean([d["factual"] for d in draws[-1]]) - mean([d["factual"] for d in draws[0]])
+    same_sign = 0
+    for _ in range(BOOTSTRAP_SAMPLES):
+        sample = [[level[rng.int(len(level))] for _ in level] for level in draws]
+        flat_sample = [d for level in sample for d in level]
+        boot = fit_dose_response([d["dose"] for d in flat_sample], [d["factual"] for d in flat_sample])
+        for i, x in enumerate(band_xs):
+            curves[i].append(hill_response(boot, x))
+        effect = mean([d["factual"] for d in sample[-1]]) - mean([d["factual"] for d in sample[0]])
+        if full_effect != 0 and sign(effect) == sign(full_effect):
+            same_sign += 1
+
+    def deterministic_effect(g):
+        m = SCM(g)
+        return m.evaluate({TREATMENT: hi})[OUTCOME] - m.evaluate({TREATMENT: control})[OUTCOME]
+
+    # Domain shift: every mechanism weight rescaled by a random factor in [0.5, 1.5].
+    shift_rng = RNG(f"{SEED}:shift")
+    base_effect = deterministic_effect(graph)
+    resilient = 0
+    for _ in range(SHIFT_SAMPLES):
+        shifted = dict(graph, edges=[dict(e, weight=effective_weight(e) * (0.5 + shift_rng.next())) for e in graph["edges"]])
+        effect = deterministic_effect(shifted)
+        if base_effect != 0 and sign(effect) == sign(base_effect) and abs(effect - base_effect) <= 0.5 * abs(base_effect):
+            resilient += 1
+
+    p_value, cohens_d = welch_t_test([d["factual"] for d in draws[0]], [d["factual"] for d in draws[-1]])
+
+    tau = HOURS_PER_STEP * max(1, min(path_length(graph, TREATMENT, OUTCOME), len(graph["nodes"])))
+    top = draws[-1]
+    time_course = [{
+        "t": t,
+        "control": js_round(mean([d["counterfactual"] for d in top])),
+        "treatment": js_round(mean([d["counterfactual"] + (d["factual"] - d["counterfactual"]) * (1 - math.exp(-t / tau)) for d in top]))
+    } for t in linspace(0, 24, 9)]
+
+    heatmap = [{
+        "row": row,
+        "col": c + 1,
+        "value": js_round(max(0.0, min(1.0, normalize(outcome, draw(dose, f"{SEED}:plate:{row}:{c}", False)["factual"]))), 3)
+    } for row in PLATE_ROWS for c, dose in enumerate(linspace(lo, hi, PLATE_COLS))]
+
+    return {
+        "variableName": outcome["label"],
+        "doseResponseData":
+            [{"x": js_round(d["dose"]), "y": js_round(d["factual"]), "type": "Synthetic"} for d in flat] +
+            [{"x": js_round(d["dose"]), "y": js_round(d["counterfactual"]), "type": "Counterfactual"} for d in flat],
+        "bands": [{"x": js_round(x), "lower": js_round(quantile(curves[i], 0.025)), "upper": js_round(quantile(curves[i], 0.975))} for i, x in enumerate(band_xs)],
+        "timeCourseData": time_course,
+        "heatmapData": heatmap,
+        "statistics": {"pValue": p_value, "effectSize": js_round(cohens_d, 3), "sampleSize": len(flat)},
+        "robustness": {
+            "bootstrapStability": js_math_round(100 * same_sign / BOOTSTRAP_SAMPLES),
+            "domainShiftResilience": js_math_round(100 * resilient / SHIFT_SAMPLES)
+        },
+        "seed": SEED,
+        "treatmentId": TREATMENT,
+        "outcomeId": OUTCOME,
+        "fit": fit
+    }
+
+
+def leaves(value, path="$"):
+    if isinstance(value, dict):
+        for k, v in value.items():
+            yield from leaves(v, f"{path}.{k}")
+    elif isinstance(value, list):
+        for i, v in enumerate(value):
+            yield from leaves(v, f"{path}[{i}]")
+    else:
+        yield path, value
+
+
+def compare(ours, published):
+    # Observed rows from mapped datasets are plotted with the synthesis but are not part of it.
+    published = dict(published, doseResponseData=[p for p in published.get("doseResponseData", []) if p.get("type") != "Observed"])
+    theirs = dict(leaves({k: published.get(k) for k in ours}))
+    worst, mismatches = 0.0, []
+    for path, v in leaves(ours):
+        w = theirs.get(path)
+        if isinstance(v, (int, float)) and isinstance(w, (int, float)):
+            diff = abs(v - w)
+            if diff == diff:
+                worst = max(worst, diff)
+            if not diff <= 1e-6 * max(1.0, abs(w)):
+                mismatches.append((path, v, w))
+        elif v != w:
+            mismatches.append((path, v, w))
+    return worst, mismatches
+
+
+def main():
+    result = synthesize(SCAFFOLD)
+    here = os.path.dirname(os.path.abspath(__file__))
+    with open(os.path.join(here, "simulation_reproduced.json"), "w") as f:
+        json.dump(result, f, indent=2)
+    stats = result["statistics"]
+    print(f"{result['variableName']}: Cohen's d = {stats['effectSize']}, p = {stats['pValue']:.3g}, n = {stats['sampleSize']}")
+    print(f"Bootstrap stability {result['robustness']['bootstrapStability']}%, domain-shift resilience {result['robustness']['domainShiftResilience']}%")
+    published_path = os.path.join(here, "simulation.json")
+    if not os.path.exists(published_path):
+        return 0
+    with open(published_path) as f:
+        worst, mismatches = compare(result, json.load(f))
+    if not mismatches:
+        print(f"Matches simulation.json (largest difference {worst:.2g}).")
+        return 0
+    print(f"{len(mismatches)} value(s) differ from simulation.json:")
+    for path, v, w in mismatches[:20]:
+        print(f"  {path}: reproduced {v!r}, published {w!r}")
+    if unsettled:
+        print(f"{unsettled} evaluation(s) met a feedback loop that had not settled after 500 iterations. Such values")
+        print("depend on the last bits of the platform's math library, so small differences there are expected.")
+    return 1
+
+
+if __name__ == "__main__":
+    sys.exit(main())
+`;
+};
+
+const rNumber = (v: number) => Number.isNaN(v) ? 'NaN' : Number.isFinite(v) ? String(v) : v > 0 ? 'Inf' : '-Inf';
+
+/** A base-R reanalysis of synthetic_data.csv, for reviewers who want the tests from a standard toolkit. */
+export const analysisScriptR = (sim: SimulationResult) => `# Reanalysis of synthetic_data.csv in base R.
+# Values in the CSV are rounded to 4 decimals, so results agree with the report to about that precision.
+#
+#   Rscript analysis.R
+
+data <- read.csv("synthetic_data.csv")
+low <- data$outcome[data$dose_level == min(data$dose_level)]
+high <- data$outcome[data$dose_level == max(data$dose_level)]
+
+# Welch's t-test between the lowest and highest dose, and Cohen's d with a pooled SD.
+test <- t.test(high, low, var.equal = FALSE)
+pooled <- sqrt(((length(low) - 1) * var(low) + (length(high) - 1) * var(high)) / (length(low) + length(high) - 2))
+cat(sprintf("Welch t = %.4f, df = %.2f, p = %.3g (report: p = %.3g)\\n", test$statistic, test$parameter, test$p.value, ${rNumber(sim.statistics.pValue)}))
+cat(sprintf("Cohen's d = %.3f (report: %.3f)\\n", (mean(high) - mean(low)) / pooled, ${rNumber(sim.statistics.effectSize)}))
+
+# Four-parameter logistic fit: for fixed EC50 and Hill slope the model is linear in bottom and top,
+# so those are solved exactly and EC50 and slope are grid-searched, as in the notebook.
+x <- data$dose - min(data$dose)
+y <- data$outcome
+span <- max(x)
+if (span == 0) span <- 1
+best <- list(rss = Inf)
+for (ec50 in exp(seq(log(span / 50), log(span * 4), length.out = 40))) {
+  for (hill in c(0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3, 4)) {
+    h <- x^hill / (ec50^hill + x^hill)
+    beta <- if (var(h) > 0) cov(h, y) / var(h) else 0
+    alpha <- mean(y) - beta * mean(h)
+    rss <- sum((y - alpha - beta * h)^2)
+    if (rss < best$rss) best <- list(rss = rss, bottom = alpha, top = alpha + beta, ec50 = ec50, hill = hill)
+  }
+}
+r2 <- 1 - best$rss / sum((y - mean(y))^2)
+cat(sprintf("4PL: bottom = %.4f, top = %.4f, EC50 = %.4g above dose %.4g, Hill = %.2f, R^2 = %.3f\\n",
+            best$bottom, best$top, best$ec50, min(data$dose), best$hill, r2))
+${sim.fit ? `cat("Report: bottom = ${sim.fit.bottom.toFixed(4)}, top = ${sim.fit.top.toFixed(4)}, EC50 = ${sim.fit.ec50.toPrecision(4)}, Hill = ${sim.fit.hill}, R^2 = ${sim.fit.r2.toFixed(3)}\\n")\n` : ''}`;
+
+/** Every file of the evidence bundle, with its real size. */
+export const buildArtifacts = (scaffold: CausalGraphData, sim: SimulationResult): Artifact[] => {
+  const { robustnessNarrative, ...numbers } = sim;
+  return [
+    artifact('synthetic_data.csv', 'dataset', syntheticDataCsv(sim)),
+    artifact('reproduce.py', 'code', reproductionScript(scaffold, sim)),
+    artifact('analysis.R', 'code', analysisScriptR(sim)),
+    artifact('simulation.json', 'dataset', JSON.stringify(numbers, null, 2)),
+    artifact('scaffold.json', 'dataset', JSON.stringify(scaffold, null, 2)),
+    artifact('scaffold.dagitty', 'code', writeGraph('dagitty', scaffold))
+  ];
+};
+
+/** The artifacts and the report itself as one zip; the report lists the artifacts without their contents. */
+export const evidenceZip = (report: StructuredReport) => createZip([
+  ...(report.artifacts || []).filter(a => a.content !== undefined).map(a => ({ name: a.name, content: a.content! })),
+  { name: 'report.json', content: JSON.stringify({ ...report, artifacts: (report.artifacts || []).map(({ content, ...a }) => a) }, null, 2) }
+]);
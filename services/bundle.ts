@@ -0,0 +1,305 @@
+import * as Y from "yjs";
+import {
+  CausalGraphData, ChatMessage, CorrectionDecision, LayoutSettings, NodePosition, PlateLayout, PlateReads, PowerSettings, Protocol, ScaffoldBranch, ScaffoldRevision,
+  SimulationResult, Source, StructuredReport, VerificationCheck
+} from "../types";
+import { MergeDecision } from "./entities";
+import { SharedAudit, scaffoldFingerprint } from "./gates";
+import { MAIN_BRANCH, createRevision } from "./history";
+import { LAYOUT_MODES } from "./layout";
+import { readPowerSettings } from "./power";
+import { readScaffold, replaceScaffold } from "./sharedScaffold";
+import { sha256 } from "./ingest";
+import { PROVIDER_LABELS, ProviderConfig, sharedProviderConfig } from "./llm";
+import {
+  ValidationIssue, Validator, arrayOf, formatIssues, validateCausalGraph, validateChatMessage,
+  validatePlateLayout, validatePlateReads, validateProtocol, validateSimulationResult, validateSource, validateStructuredReport, validateVerificationChecks
+} from "./validation";
+
+/**
+ * `.proofsmith` notebook bundles: a whole room as one JSON file, for archiving an investigation
+ * next to its paper or handing it to a reviewer. Binary payloads (figures, figure edits, fetched
+ * snapshots) are moved out of the sources into `attachments`, keyed by the SHA-256 of their bytes,
+ * so identical files are stored once and can be checked against the hashes recorded at ingest.
+ */
+
+export const BUNDLE_FORMAT = 'proofsmith-notebook';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.proofsmith';
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+export interface BundleAttachment {
+  mimeType: string;
+  bytes: number;
+  data: string; // base64
+}
+
+// Everything a room holds, as plain data.
+export interface NotebookState {
+  sources: Source[];
+  scaffold: CausalGraphData | null;
+  revisions: ScaffoldRevision[];
+  branches: Record<string, ScaffoldBranch>;
+  branch: string;
+  entityDecisions: Record<string, MergeDecision>;
+  layout: Record<string, NodePosition>;
+  chat: ChatMessage[];
+  summary: string;
+  synthesis: SimulationResult | null;
+  gates: VerificationCheck[];
+  report: StructuredReport | null;
+  protocols: Protocol[]; // versions, oldest first
+  protocolReview: Record<string, CorrectionDecision>; // correction key -> decision
+  plate: PlateLayout | null;
+  plateReads: PlateReads | null;
+  settings: { provider?: ProviderConfig; layout?: LayoutSettings; power?: PowerSettings };
+}
+
+export interface NotebookBundle extends NotebookState {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: string;
+  room: string;
+  attachments: Record<string, BundleAttachment>;
+}
+
+const ATTACHMENT_REF = 'attachment:';
+
+const base64ToBytes = (data: string) => Uint8Array.from(atob(data), ch => ch.charCodeAt(0));
+
+/** Reads a room's shared state. Gate results are not stored in the room whole, so callers pass them in. */
+export const readNotebook = (doc: Y.Doc, gates: VerificationCheck[] = []): NotebookState => {
+  const notebook = doc.getMap('notebook');
+  const provider = doc.getMap('settings').get('provider') as ProviderConfig | undefined;
+  const layoutSettings = doc.getMap('settings').get('layout') as LayoutSettings | undefined;
+  const powerSettings = doc.getMap('settings').get('power') as PowerSettings | undefined;
+  return {
+    sources: doc.getArray<Source>('sources').toArray(),
+    scaffold: readScaffold(doc),
+    revisions: doc.getArray<ScaffoldRevision>('revisions').toArray(),
+    branches: doc.getMap<ScaffoldBranch>('branches').toJSON(),
+    branch: (doc.getMap('scaffold').get('branch') as string | undefined) || MAIN_BRANCH,
+    entityDecisions: doc.getMap<MergeDecision>('entities').toJSON(),
+    layout: doc.getMap<NodePosition>('layout').toJSON(),
+    chat: doc.getArray<ChatMessage>('chat').toArray(),
+    summary: (notebook.get('summary') as string | undefined) || '',
+    synthesis: (notebook.get('synthesis') as SimulationResult | undefined) || null,
+    gates,
+    report: (notebook.get('report') as StructuredReport | undefined) || null,
+    protocols: doc.getArray<Protocol>('protocols').toArray(),
+    protocolReview: doc.getMap<CorrectionDecision>('protocolReview').toJSON(),
+    plate: (notebook.get('plate') as PlateLayout | undefined) || null,
+    plateReads: (notebook.get('plateReads') as PlateReads | undefined) || null,
+    // Keys and base URLs belong to whoever configured them; an archive handed to reviewers must not carry them.
+    settings: {
+      ...(provider ? { provider: sharedProviderConfig(provider) } : {}),
+      ...(layoutSettings ? { layout: layoutSettings } : {}),
+      ...(powerSettings ? { power: powerSettings } : {})
+    }
+  };
+};
+
+/**
+ * Seeds an empty room with a notebook. Model audits are kept only while the scaffold is unchanged;
+ * a scaffold that arrives without history starts one with an import revision.
+ */
+export const writeNotebook = (doc: Y.Doc, state: NotebookState, by = '') => {
+  doc.transact(() => {
+    doc.getArray<Source>('sources').push(state.sources);
+    const scaffold = doc.getMap('scaffold');
+    if (state.scaffold) replaceScaffold(doc, state.scaffold);
+    scaffold.set('branch', state.branch);
+    const revisions = state.revisions.length || !state.scaffold ? state.revisions
+      : [createRevision(state.scaffold, { branch: state.branch, origin: 'import', note: 'Imported from a notebook bundle', by })];
+    doc.getArray<ScaffoldRevision>('revisions').push(revisions);
+    const branches = doc.getMap<ScaffoldBranch>('branches');
+    Object.values(state.branches).forEach(b => branches.set(b.name, b));
+    if (!state.revisions.length && revisions.length) {
+      branches.set(state.branch, { name: state.branch, head: revisions[0].id, createdBy: by, createdAt: revisions[0].at });
+    }
+    const entities = doc.getMap<MergeDecision>('entities');
+    Object.entries(state.entityDecisions).forEach(([key, decision]) => entities.set(key, decision));
+    const layout = doc.getMap<NodePosition>('layout');
+    Object.entries(state.layout).forEach(([id, position]) => layout.set(id, position));
+    doc.getArray<ChatMessage>('chat').push(state.chat);
+    const notebook = doc.getMap('notebook');
+    if (state.summary) notebook.set('summary', state.summary);
+    if (state.synthesis) notebook.set('synthesis', state.synthesis);
+    if (state.report) notebook.set('report', state.report);
+    doc.getArray<Protocol>('protocols').push(state.protocols);
+    const review = doc.getMap<CorrectionDecision>('protocolReview');
+    Object.entries(state.protocolReview).forEach(([key, decision]) => review.set(key, decision));
+    if (state.plate) notebook.set('plate', state.plate);
+    if (state.plateReads) notebook.set('plateReads', state.plateReads);
+    const audit = state.gates.filter(c => c.origin === 'audit');
+    if (state.scaffold && audit.length) notebook.set('audit', { scaffold: scaffoldFingerprint(state.scaffold), checks: audit } as SharedAudit);
+    if (state.settings.provider) doc.getMap('settings').set('provider', state.settings.provider);
+    if (state.settings.layout) doc.getMap('settings').set('layout', state.settings.layout);
+    if (state.settings.power) doc.getMap('settings').set('power', state.settings.power);
+  });
+};
+
+export const packBundle = async (state: NotebookState, meta: { room: string; exportedBy: string }): Promise<NotebookBundle> => {
+  const attachments: Record<string, BundleAttachment> = {};
+  const attach = async (data: string, mimeType: string) => {
+    const bytes = base64ToBytes(data);
+    const hash = await sha256(bytes);
+    attachments[hash] = { mimeType, bytes: bytes.length, data };
+    return `${ATTACHMENT_REF}${hash}`;
+  };
+
+  const sources: Source[] = [];
+  for (const source of state.sources) {
+    const metadata = source.metadata ? { ...source.metadata } : undefined;
+    if (metadata?.snapshot?.data) metadata.snapshot = { ...metadata.snapshot, data: await attach(metadata.snapshot.data, metadata.snapshot.contentType) };
+    if (metadata?.figureVersions) {
+      const versions = [];
+      for (const v of metadata.figureVersions) versions.push({ ...v, data: await attach(v.data, v.mimeType) });
+      metadata.figureVersions = versions;
+    }
+    const content = source.type === 'image' ? await attach(source.content, source.mimeType || 'image/png') : source.content;
+    sources.push({ ...source, content, metadata });
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...meta,
+    ...state,
+    sources,
+    attachments
+  };
+};
+
+export const bundleBlob = (bundle: NotebookBundle) => new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+
+const resolveAttachment = (ref: string, attachments: Record<string, BundleAttachment>, where: string) => {
+  if (!ref.startsWith(ATTACHMENT_REF)) return ref;
+  const found = attachments[ref.slice(ATTACHMENT_REF.length)];
+  if (!found) throw new BundleError(`${where} refers to an attachment missing from the bundle.`);
+  return found.data;
+};
+
+const unpackSource = (source: Source, attachments: Record<string, BundleAttachment>): Source => {
+  const where = `Source "${source.title}"`;
+  const metadata = source.metadata ? { ...source.metadata } : undefined;
+  if (metadata?.snapshot?.data) metadata.snapshot = { ...metadata.snapshot, data: resolveAttachment(metadata.snapshot.data, attachments, where) };
+  if (metadata?.figureVersions) metadata.figureVersions = metadata.figureVersions.map(v => ({ ...v, data: resolveAttachment(v.data, attachments, where) }));
+  return { ...source, content: resolveAttachment(source.content, attachments, where), metadata };
+};
+
+const emptyNotebook = (): NotebookState => ({
+  sources: [], scaffold: null, revisions: [], branches: {}, branch: MAIN_BRANCH, entityDecisions: {}, layout: {}, chat: [], summary: '',
+  synthesis: null, gates: [], report: null, protocols: [], protocolReview: {}, plate: null, plateReads: null, settings: {}
+});
+
+// Each entry upgrades a bundle from version `v` to `v + 1`.
+const MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // Version 0 is the report-only JSON that "Export Bundle" wrote before whole notebooks could be saved.
+  0: report => ({
+    format: BUNDLE_FORMAT, version: 1, exportedAt: '', exportedBy: '', room: '', attachments: {},
+    ...emptyNotebook(), report, gates: Array.isArray(report.gates) ? report.gates : []
+  })
+};
+
+const versionOf = (raw: any): number => {
+  if (raw?.format === BUNDLE_FORMAT && Number.isInteger(raw.version)) return raw.version;
+  if (raw && typeof raw === 'object' && 'scores' in raw && Array.isArray(raw.claims)) return 0;
+  throw new BundleError('Not a ProofSmith notebook bundle.');
+};
+
+export const migrateBundle = (raw: unknown): unknown => {
+  let bundle: any = raw;
+  let version = versionOf(bundle);
+  if (version > BUNDLE_VERSION) throw new BundleError(`Bundle version ${version} was written by a newer ProofSmith; this one reads up to version ${BUNDLE_VERSION}.`);
+  while (version < BUNDLE_VERSION) {
+    bundle = MIGRATIONS[version](bundle);
+    version++;
+  }
+  return bundle;
+};
+
+/**
+ * Parses, migrates and validates a bundle, returning the notebook it holds. Malformed items are
+ * dropped and reported in `repairs`; a bundle whose scaffold or attachments are unusable is rejected.
+ */
+export const readBundle = (text: string): { bundle: NotebookBundle; state: NotebookState; repairs: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError('The file is not valid JSON.');
+  }
+  const bundle = migrateBundle(raw) as NotebookBundle;
+  const repairs: ValidationIssue[] = [];
+  const check = <T>(validate: Validator<T>, input: unknown, path: string, fallback: T): T => {
+    if (input === undefined || input === null) return fallback;
+    const result = validate(input, path);
+    repairs.push(...result.repairs);
+    if (result.value === null) repairs.push(...result.errors);
+    return result.value ?? fallback;
+  };
+
+  const attachments = bundle.attachments && typeof bundle.attachments === 'object' ? bundle.attachments : {};
+  const sources = check(arrayOf(validateSource), bundle.sources, '$.sources', []).map(s => unpackSource(s, attachments));
+  let scaffold: CausalGraphData | null = null;
+  if (bundle.scaffold) {
+    const checked = validateCausalGraph(bundle.scaffold, '$.scaffold');
+    if (!checked.value) throw new BundleError(`The bundle's scaffold is unusable: ${formatIssues(checked.errors)}`);
+    repairs.push(...checked.repairs);
+    scaffold = checked.value;
+  }
+  const plainObject = <T>(input: unknown): Record<string, T> => (input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, T> : {});
+
+  // History is kept only where it is whole: revisions need a usable graph, branches an existing head.
+  const revisions = (Array.isArray(bundle.revisions) ? bundle.revisions : []).flatMap((r: any, i: number): ScaffoldRevision[] => {
+    if (typeof r?.id !== 'string' || typeof r.branch !== 'string') return [];
+    const graph = validateCausalGraph(r.graph, `$.revisions[${i}].graph`);
+    if (!graph.value) {
+      repairs.push({ path: `$.revisions[${i}]`, message: 'dropped: unusable graph' });
+      return [];
+    }
+    return [{ ...r, graph: graph.value }];
+  });
+  const revisionIds = new Set(revisions.map(r => r.id));
+  const branches = Object.fromEntries(Object.entries(plainObject<ScaffoldBranch>(bundle.branches)).filter(([name, b]) => b?.name === name && revisionIds.has(b.head)));
+
+  const branch = typeof bundle.branch === 'string' && branches[bundle.branch] ? bundle.branch : MAIN_BRANCH;
+  const state: NotebookState = {
+    sources,
+    scaffold,
+    revisions: Object.keys(branches).length ? revisions : [],
+    branches,
+    branch,
+    entityDecisions: Object.fromEntries(Object.entries(plainObject<MergeDecision>(bundle.entityDecisions)).filter(([, d]) => d === 'merge' || d === 'separate')),
+    layout: Object.fromEntries(Object.entries(plainObject<NodePosition>(bundle.layout))
+      .filter(([, p]) => Number.isFinite(p?.x) && Number.isFinite(p?.y))
+      .map(([id, p]) => [id, p.pinned === true ? { x: p.x, y: p.y, pinned: true } : { x: p.x, y: p.y }])),
+    chat: check(arrayOf(validateChatMessage), bundle.chat, '$.chat', []),
+    summary: typeof bundle.summary === 'string' ? bundle.summary : '',
+    synthesis: check<SimulationResult | null>(validateSimulationResult, bundle.synthesis, '$.synthesis', null),
+    gates: check(validateVerificationChecks, bundle.gates, '$.gates', []),
+    report: check<StructuredReport | null>(validateStructuredReport, bundle.report, '$.report', null),
+    protocols: check(arrayOf(validateProtocol), bundle.protocols, '$.protocols', []),
+    protocolReview: Object.fromEntries(Object.entries(plainObject<CorrectionDecision>(bundle.protocolReview)).filter(([, d]) => d === 'accept' || d === 'reject')),
+    plate: check<PlateLayout | null>(validatePlateLayout, bundle.plate, '$.plate', null),
+    plateReads: check<PlateReads | null>(validatePlateReads, bundle.plateReads, '$.plateReads', null),
+    settings: {
+      // Only the choice of backend and model; a base URL or key in the file would redirect the importer's traffic.
+      ...(bundle.settings?.provider?.id in PROVIDER_LABELS ? { provider: sharedProviderConfig(bundle.settings.provider) } : {}),
+      ...(bundle.settings?.layout?.mode in LAYOUT_MODES ? {
+        layout: { mode: bundle.settings.layout.mode, ...(typeof bundle.settings.layout.focus === 'string' ? { focus: bundle.settings.layout.focus } : {}) }
+      } : {}),
+      ...(bundle.settings?.power ? { power: readPowerSettings(bundle.settings.power) } : {})
+    }
+  };
+  return { bundle, state, repairs: repairs.map(i => `${i.path || '$'}: ${i.message}`) };
+};
@@ -0,0 +1,125 @@
+import { CausalGraphData, CausalNode, Source } from "../types";
+import { CANDIDATE, matchNodes } from "./entities";
+import { mean, sd } from "./stats";
+
+export interface DataTable {
+  columns: string[];
+  rows: string[][];
+}
+
+// Values a two-level column uses for its reference (0) arm.
+const REFERENCE_LEVELS = new Set(['0', 'false', 'no', 'n', 'control', 'placebo', 'vehicle', 'untreated', 'sham', 'wt', 'wildtype', 'wild-type', 'off', 'low']);
+
+/** RFC 4180 CSV with the delimiter (comma, tab or semicolon) guessed from the header line. */
+export const parseCsv = (text: string): DataTable => {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', '\t', ';'].sort((a, b) => header.split(b).length - header.split(a).length)[0];
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === delimiter) { record.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      if (record.some(f => f.trim())) records.push(record);
+      record = [];
+      field = '';
+    } else field += ch;
+  }
+  record.push(field);
+  if (record.some(f => f.trim())) records.push(record);
+  const [columns = [], ...rows] = records;
+  return { columns: columns.map(c => c.trim()), rows };
+};
+
+/**
+ * Numeric view of a column. Numbers parse as numbers; a column with exactly two text levels is
+ * coded 0/1 with the control-like level as 0; anything else is missing.
+ */
+export const numericColumn = (table: DataTable, column: string): (number | null)[] => {
+  const idx = table.columns.indexOf(column);
+  if (idx < 0) return [];
+  const raw = table.rows.map(r => (r[idx] ?? '').trim());
+  const present = raw.filter(v => v !== '' && !/^(na|nan|null|-)$/i.test(v));
+  if (present.every(v => Number.isFinite(Number(v)))) return raw.map(v => (v === '' || !Number.isFinite(Number(v)) ? null : Number(v)));
+  const levels = [...new Set(present.map(v => v.toLowerCase()))];
+  if (levels.length !== 2) return raw.map(() => null);
+  const reference = levels.find(l => REFERENCE_LEVELS.has(l)) ?? levels.sort()[0];
+  return raw.map(v => (present.includes(v) ? (v.toLowerCase() === reference ? 0 : 1) : null));
+};
+
+export const datasetTable = (source: Source): DataTable => parseCsv(source.content);
+
+/** Best node for each column by the same label matching used to merge scaffolds. */
+export const suggestColumnMap = (columns: string[], graph: CausalGraphData): Record<string, string> => {
+  const out: Record<string, string> = {};
+  const taken = new Set<string>();
+  columns.forEach(column => {
+    const pseudo: CausalNode = { id: column, label: column.replace(/[_.]+/g, ' '), type: 'variable' };
+    let best: { id: string; score: number } | null = null;
+    for (const node of graph.nodes) {
+      if (taken.has(node.id)) continue;
+      const { score } = matchNodes(node, pseudo);
+      if (score >= CANDIDATE && (!best || score > best.score)) best = { id: node.id, score };
+    }
+    if (best) {
+      out[column] = best.id;
+      taken.add(best.id);
+    }
+  });
+  return out;
+};
+
+/** Saved column mapping, minus columns and nodes that no longer exist. */
+export const columnMapOf = (source: Source, graph: CausalGraphData, table = datasetTable(source)): Record<string, string> => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  return Object.fromEntries(Object.entries(source.metadata?.columnMap || {}).filter(([col, id]) => table.columns.includes(col) && ids.has(id)));
+};
+
+export interface MappedDataset {
+  sourceId: string;
+  title: string;
+  rows: number;
+  byNode: Record<string, (number | null)[]>;
+}
+
+export const mapDataset = (source: Source, graph: CausalGraphData): MappedDataset => {
+  const table = datasetTable(source);
+  const byNode: Record<string, (number | null)[]> = {};
+  Object.entries(columnMapOf(source, graph, table)).forEach(([column, nodeId]) => { byNode[nodeId] = numericColumn(table, column); });
+  return { sourceId: source.id, title: source.title, rows: table.rows.length, byNode };
+};
+
+export const mappedDatasets = (sources: Source[], graph: CausalGraphData) =>
+  sources.filter(s => s.type === 'dataset').map(s => mapDataset(s, graph)).filter(d => Object.keys(d.byNode).length > 0);
+
+/** Rows where every listed node has a value. */
+export const completeRows = (data: MappedDataset, nodeIds: string[]) =>
+  Array.from({ length: data.rows }, (_, i) => i).filter(i => nodeIds.every(id => {
+    const v = data.byNode[id]?.[i];
+    return v !== null && v !== undefined;
+  }));
+
+/** Plain-language header so chat and retrieval know what a table holds before it is mapped. */
+export const describeDataset = (name: string, table: DataTable) => {
+  const stats = table.columns.map(c => {
+    const xs = numericColumn(table, c).filter((v): v is number => v !== null);
+    return xs.length ? `${c} (mean ${mean(xs).toPrecision(3)}, SD ${sd(xs).toPrecision(3)})` : c;
+  });
+  return `Dataset ${name} with ${table.rows.length} rows. Columns: ${stats.join(', ')}.`;
+};
+
+/** Raw (treatment, outcome) pairs from every dataset mapping both, for plotting against the model. */
+export const observedDoseResponse = (sources: Source[], graph: CausalGraphData, treatmentId?: string, outcomeId?: string) => {
+  if (!treatmentId || !outcomeId) return [];
+  return mappedDatasets(sources, graph).flatMap(d =>
+    completeRows(d, [treatmentId, outcomeId]).map(i => ({ x: d.byNode[treatmentId][i] as number, y: d.byNode[outcomeId][i] as number, type: 'Observed' })));
+};
@@ -0,0 +1,75 @@
+import { CausalEdge, CausalGraphData, CausalNode } from "../types";
+import { edgeKey } from "./graph";
+
+// Manual corrections to a scaffold. Each returns a new graph, or the same one when the edit does not apply.
+
+export const RELATIONSHIPS: CausalEdge['relationship'][] = ['positive', 'negative', 'correlative'];
+
+export const nextRelationship = (r: CausalEdge['relationship']) => RELATIONSHIPS[(RELATIONSHIPS.indexOf(r) + 1) % RELATIONSHIPS.length];
+
+// Cleared fields are dropped rather than stored as undefined.
+const withPatch = <T extends object>(item: T, patch: Partial<T>): T => {
+  const out: any = { ...item, ...patch };
+  Object.keys(patch).forEach(k => { if (out[k] === undefined) delete out[k]; });
+  return out;
+};
+
+/** An id derived from `label` that `graph` does not use yet. */
+export const newNodeId = (graph: CausalGraphData, label: string) => {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'node';
+  const taken = new Set(graph.nodes.map(n => n.id));
+  let id = base;
+  for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+  return id;
+};
+
+export const addNode = (graph: CausalGraphData, label: string, type: CausalNode['type'] = 'variable') => {
+  const id = newNodeId(graph, label);
+  return { id, graph: { ...graph, nodes: [...graph.nodes, { id, label, type }] } };
+};
+
+export const updateNode = (graph: CausalGraphData, id: string, patch: Partial<Omit<CausalNode, 'id'>>): CausalGraphData =>
+  ({ ...graph, nodes: graph.nodes.map(n => n.id === id ? withPatch<CausalNode>(n, patch) : n) });
+
+/** Removes the nodes (with every link touching them) and the links given by edge key. */
+export const removeElements = (graph: CausalGraphData, nodeIds: string[], edgeKeys: string[] = []): CausalGraphData => {
+  const nodes = new Set(nodeIds);
+  const edges = new Set(edgeKeys);
+  if (!nodes.size && !edges.size) return graph;
+  return {
+    nodes: graph.nodes.filter(n => !nodes.has(n.id)),
+    edges: graph.edges.filter(e => !nodes.has(e.source) && !nodes.has(e.target) && !edges.has(edgeKey(e.source, e.target)))
+  };
+};
+
+export const connectNodes = (graph: CausalGraphData, source: string, target: string, relationship: CausalEdge['relationship'] = 'positive'): CausalGraphData => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  if (source === target || !ids.has(source) || !ids.has(target)) return graph;
+  if (graph.edges.some(e => e.source === source && e.target === target)) return graph;
+  return { ...graph, edges: [...graph.edges, { source, target, relationship }] };
+};
+
+export const updateEdge = (graph: CausalGraphData, key: string, patch: Partial<Omit<CausalEdge, 'source' | 'target'>>): CausalGraphData =>
+  ({ ...graph, edges: graph.edges.map(e => edgeKey(e.source, e.target) === key ? withPatch<CausalEdge>(e, patch) : e) });
+
+/**
+ * The link with another sign. A fitted estimate no longer describes it, so it goes with the weight it set;
+ * a weight set by hand keeps its size under the new sign, and a correlative link carries none.
+ */
+export const withRelationship = (edge: CausalEdge, relationship: CausalEdge['relationship']): CausalEdge => {
+  if (edge.relationship === relationship) return edge;
+  const { estimate, weight, ...rest } = edge;
+  if (estimate || weight === undefined || relationship === 'correlative') return { ...rest, relationship };
+  return { ...rest, relationship, weight: relationship === 'negative' ? -Math.abs(weight) : Math.abs(weight) };
+};
+
+export const setRelationship = (graph: CausalGraphData, key: string, relationship: CausalEdge['relationship']): CausalGraphData =>
+  ({ ...graph, edges: graph.edges.map(e => edgeKey(e.source, e.target) === key ? withRelationship(e, relationship) : e) });
+
+/** Points the link the other way. Its weight, fitted or set by hand, was for the old direction, so it is dropped with any estimate. */
+export const reverseEdge = (graph: CausalGraphData, key: string): CausalGraphData => {
+  const edge = graph.edges.find(e => edgeKey(e.source, e.target) === key);
+  if (!edge || graph.edges.some(e => e.source === edge.target && e.target === edge.source)) return graph;
+  const { estimate, weight, ...rest } = edge;
+  return { ...graph, edges: graph.edges.map(e => e === edge ? { ...rest, source: edge.target, target: edge.source } : e) };
+};
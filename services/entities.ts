@@ -0,0 +1,375 @@
+import { CausalEdge, CausalGraphData, CausalNode } from "../types";
+import { edgeKey } from "./graph";
+import { withRelationship } from "./editing";
+import { mergeProvenance } from "./provenance";
+
+export type MergeDecision = 'merge' | 'separate';
+
+export interface EntityMatch {
+  incomingId: string;
+  baseId: string;
+  score: number;
+  reason: string;
+}
+
+export interface ResolveOptions {
+  decisions?: Record<string, MergeDecision>; // keyed by pairKey
+  abbreviations?: Record<string, string>; // compact abbreviation -> long form
+}
+
+export const AUTO_MERGE = 0.95;
+export const CANDIDATE = 0.7;
+
+const GREEK: Record<string, string> = { 'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ε': 'epsilon', 'κ': 'kappa', 'λ': 'lambda', 'μ': 'mu', 'σ': 'sigma', 'τ': 'tau', 'ω': 'omega' };
+
+// Measurement qualifiers: "COX-2 activity" and "COX-2 expression" name the same entity but not the same variable.
+const QUALIFIERS = new Set(['level', 'levels', 'activity', 'expression', 'concentration', 'concentrations', 'signaling', 'signalling', 'pathway', 'production', 'release', 'amount', 'dose', 'dosage', 'administration', 'treatment', 'content', 'abundance']);
+
+const SYNONYMS: string[][] = [
+  ['cox-2', 'cyclooxygenase-2', 'ptgs2'],
+  ['cox-1', 'cyclooxygenase-1', 'ptgs1'],
+  ['pge2', 'prostaglandin e2'],
+  ['nf-kb', 'nf-kappab', 'nuclear factor kappa b'],
+  ['tnf-alpha', 'tnf', 'tumor necrosis factor alpha', 'tumour necrosis factor alpha'],
+  ['il-6', 'interleukin-6'],
+  ['il-1beta', 'il-1b', 'interleukin-1 beta'],
+  ['ros', 'reactive oxygen species'],
+  ['nitric oxide', 'no'],
+  ['camp', 'cyclic amp', 'cyclic adenosine monophosphate'],
+  ['mapk', 'mitogen-activated protein kinase'],
+  ['akt', 'pkb', 'protein kinase b'],
+  ['mtor', 'mechanistic target of rapamycin', 'mammalian target of rapamycin'],
+  ['egfr', 'epidermal growth factor receptor'],
+  ['vegf', 'vascular endothelial growth factor'],
+  ['hif-1alpha', 'hif1a', 'hypoxia-inducible factor 1-alpha'],
+  ['bp', 'blood pressure'],
+  ['ldl', 'ldl cholesterol', 'low-density lipoprotein']
+];
+
+export const normalizeLabel = (label: string) =>
+  label.toLowerCase()
+    .replace(/[α-ω]/g, ch => GREEK[ch] ? ` ${GREEK[ch]}` : ch)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const compact = (label: string) => normalizeLabel(label).replace(/ /g, '');
+
+const coreWords = (label: string) => normalizeLabel(label).split(' ').filter(w => w && !QUALIFIERS.has(w));
+
+const SYNONYM_GROUP: Record<string, number> = {};
+SYNONYMS.forEach((group, i) => group.forEach(s => { SYNONYM_GROUP[compact(s)] = i; }));
+
+/** Order-independent key for remembering a collaborator's merge decision between two labels. */
+export const pairKey = (a: string, b: string) => [compact(a), compact(b)].sort().join('|');
+
+const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string) => a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+const initials = (words: string[]) => words.map(w => w[0]).join('');
+
+const inOrder = (needle: string, hay: string) => {
+  let i = 0;
+  for (const ch of hay) if (ch === needle[i]) i++;
+  return i === needle.length;
+};
+
+/**
+ * "Long form (ABBR)" definitions in the text, Schwartz–Hearst style: the shortest run of preceding
+ * words that starts with the abbreviation's first letter and contains its characters in order.
+ */
+export const extractAbbreviations = (text: string): Record<string, string> => {
+  const out: Record<string, string> = {};
+  const re = /((?:[\wα-ω][\w\-α-ω]*\s+){1,10})\(([A-Za-z][\w\-α-ω]{1,9})\)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const abbr = m[2];
+    const chars = abbr.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const words = m[1].trim().split(/\s+/);
+    for (let k = 1; k <= Math.min(words.length, chars.length + 2); k++) {
+      const candidate = words.slice(words.length - k).join(' ');
+      if (candidate[0].toLowerCase() === chars[0] && inOrder(chars, candidate.toLowerCase()) && compact(candidate) !== compact(abbr)) {
+        out[compact(abbr)] = candidate;
+        break;
+      }
+    }
+  }
+  return out;
+};
+
+const labelsOf = (node: CausalNode) => [node.label, ...(node.aliases || [])];
+
+// Everything matching needs from one label, worked out once per label rather than once per pair.
+interface LabelForms {
+  label: string;
+  key: string;
+  expanded: string[]; // the key and, where a source defines it as an abbreviation, its long form
+  core: string[];
+  coreKey: string;
+}
+
+const labelForms = (label: string, options: ResolveOptions): LabelForms => {
+  const key = compact(label);
+  const long = options.abbreviations?.[key];
+  const core = coreWords(label);
+  return { label, key, expanded: long ? [key, compact(long)] : [key], core, coreKey: core.join('') };
+};
+
+const nodeForms = (node: CausalNode, options: ResolveOptions) => labelsOf(node).map(l => labelForms(l, options));
+
+// Spelling similarity of at least 0.8 allows at most a fifth of the longer key to differ.
+const SPELLING = 0.8;
+const maxEdits = (length: number) => Math.floor((1 - SPELLING) * length + 1e-9);
+
+const matchForms = (a: CausalNode, formsA: LabelForms[], b: CausalNode, formsB: LabelForms[], options: ResolveOptions): { score: number; reason: string } => {
+  const decision = options.decisions?.[pairKey(a.label, b.label)];
+  if (decision === 'separate') return { score: 0, reason: 'kept separate by a collaborator' };
+  if (decision === 'merge') return { score: 1, reason: 'merge confirmed by a collaborator' };
+  if (a.id === b.id) return { score: 1, reason: 'same identifier' };
+
+  let best = { score: 0, reason: '' };
+  const consider = (score: number, reason: string) => { if (score > best.score) best = { score, reason }; };
+
+  for (const fa of formsA) {
+    for (const fb of formsB) {
+      const { label: la, key: ka, core: ca, coreKey: coreA } = fa;
+      const { label: lb, key: kb, core: cb, coreKey: coreB } = fb;
+      if (ka === kb) consider(1, 'identical label');
+      if (SYNONYM_GROUP[ka] !== undefined && SYNONYM_GROUP[ka] === SYNONYM_GROUP[kb]) consider(0.97, 'known synonym');
+      if (fa.expanded.some(x => fb.expanded.includes(x))) consider(0.97, 'abbreviation defined in a source');
+
+      if (coreA && coreA === coreB) consider(0.9, 'same entity, different measurement qualifier');
+      if (coreA && coreB && SYNONYM_GROUP[coreA] !== undefined && SYNONYM_GROUP[coreA] === SYNONYM_GROUP[coreB]) consider(0.88, 'synonymous entity, different qualifier');
+      if (ca.length > 1 && initials(ca) === coreB) consider(0.85, `"${lb}" looks like an acronym of "${la}"`);
+      if (cb.length > 1 && initials(cb) === coreA) consider(0.85, `"${la}" looks like an acronym of "${lb}"`);
+
+      // Keys whose lengths differ by more than the allowed edits cannot be similar enough to be worth the edit distance.
+      if (Math.abs(ka.length - kb.length) <= maxEdits(Math.max(ka.length, kb.length))) {
+        const sim = similarity(ka, kb);
+        if (sim >= SPELLING) consider(0.9 * sim, `similar spelling (${Math.round(sim * 100)}%)`);
+      }
+      const sa = new Set(ca);
+      const jaccard = ca.length && cb.length ? cb.filter(w => sa.has(w)).length / new Set([...ca, ...cb]).size : 0;
+      if (jaccard >= 0.6) consider(0.85 * jaccard, 'shared words');
+    }
+  }
+  // An intervention is never silently folded into an outcome, however similar the names.
+  if (a.type !== b.type && best.score >= AUTO_MERGE) best = { score: 0.9, reason: `${best.reason}; node types differ` };
+  return best;
+};
+
+/** Similarity of two nodes in [0, 1] with a human-readable reason; ≥ AUTO_MERGE is safe to merge unattended. */
+export const matchNodes = (a: CausalNode, b: CausalNode, options: ResolveOptions = {}): { score: number; reason: string } =>
+  matchForms(a, nodeForms(a, options), b, nodeForms(b, options), options);
+
+// Exact keys two labels must share for any rule but spelling to fire (besides a repeated id): the key and its long form, a
+// synonym group, the core words joined (which an acronym's initials can equal) and single core words.
+const blockingKeys = (f: LabelForms) => [
+  ...f.expanded.map(k => `k:${k}`),
+  ...[f.key, f.coreKey].filter(k => SYNONYM_GROUP[k] !== undefined).map(k => `s:${SYNONYM_GROUP[k]}`),
+  ...(f.coreKey ? [`c:${f.coreKey}`] : []),
+  ...(f.core.length > 1 ? [`c:${initials(f.core)}`] : []),
+  ...f.core.map(w => `w:${w}`)
+];
+
+// Bigrams numbered by occurrence, so counting shared ones counts the multiset intersection.
+const bigrams = (key: string) => {
+  const seen: Record<string, number> = {};
+  return Array.from({ length: Math.max(0, key.length - 1) }, (_, i) => {
+    const g = key.slice(i, i + 2);
+    seen[g] = (seen[g] || 0) + 1;
+    return `${g}#${seen[g]}`;
+  });
+};
+
+/**
+ * Pairs of nodes (i < j) that could score as candidates. Pairs that share no blocking key and have no
+ * collaborator decision can only match on spelling, and strings within k edits share at least
+ * max length - 1 - 2k bigrams, so only pairs meeting that count are kept; the rest are skipped without
+ * changing the result. With `split`, only pairs with one node on each side of it are returned.
+ */
+const candidatePairs = (nodes: CausalNode[], forms: LabelForms[][], options: ResolveOptions, split?: number) => {
+  const flat = forms.flatMap((fs, node) => fs.map(f => ({ node, f })));
+  const pairs = new Set<number>();
+  const add = (x: number, y: number) => {
+    if (x !== y && (split === undefined || (x < split) !== (y < split))) pairs.add(Math.min(x, y) * forms.length + Math.max(x, y));
+  };
+
+  const byKey = new Map<string, number[]>();
+  nodes.forEach((n, node) => byKey.set(compact(n.label), [...(byKey.get(compact(n.label)) || []), node]));
+  Object.keys(options.decisions || {}).forEach(decided => {
+    const [x, y] = decided.split('|');
+    byKey.get(x)?.forEach(i => byKey.get(y)?.forEach(j => add(i, j)));
+  });
+
+  const blocks = new Map<string, Set<number>>();
+  nodes.forEach((n, node) => {
+    if (!blocks.has(`id:${n.id}`)) blocks.set(`id:${n.id}`, new Set());
+    blocks.get(`id:${n.id}`)!.add(node);
+  });
+  flat.forEach(({ node, f }) => blockingKeys(f).forEach(k => {
+    if (!blocks.has(k)) blocks.set(k, new Set());
+    blocks.get(k)!.add(node);
+  }));
+  blocks.forEach(members => {
+    const list = [...members];
+    for (let i = 0; i < list.length; i++) for (let j = i + 1; j < list.length; j++) add(list[i], list[j]);
+  });
+
+  const postings = new Map<string, number[]>();
+  flat.forEach(({ f }, p) => bigrams(f.key).forEach(g => {
+    if (!postings.has(g)) postings.set(g, []);
+    postings.get(g)!.push(p);
+  }));
+  flat.forEach(({ node, f }, p) => {
+    const shared = new Map<number, number>();
+    bigrams(f.key).forEach(g => postings.get(g)!.forEach(q => { if (q > p) shared.set(q, (shared.get(q) || 0) + 1); }));
+    shared.forEach((count, q) => {
+      const other = flat[q].f.key;
+      const longest = Math.max(f.key.length, other.length);
+      const edits = maxEdits(longest);
+      if (edits > 0 && Math.abs(f.key.length - other.length) <= edits && count >= longest - 1 - 2 * edits) add(node, flat[q].node);
+    });
+  });
+  return [...pairs].sort((x, y) => x - y).map(code => [Math.floor(code / forms.length), code % forms.length] as const);
+};
+
+/** Maps incoming node ids onto base nodes that are the same entity. Only confident matches are mapped. */
+export const resolveEntities = (base: CausalGraphData, incoming: CausalGraphData, options: ResolveOptions = {}) => {
+  const mapping: Record<string, string> = {};
+  const merged: EntityMatch[] = [];
+  const candidates: EntityMatch[] = [];
+  // Incoming nodes first, so each pair comes out as (incoming, base) with base nodes in their own order.
+  const nodes = [...incoming.nodes, ...base.nodes];
+  const forms = nodes.map(n => nodeForms(n, options));
+  const split = incoming.nodes.length;
+  const scored: EntityMatch[][] = incoming.nodes.map(() => []);
+  candidatePairs(nodes, forms, options, split).forEach(([i, j]) => {
+    const m = matchForms(nodes[i], forms[i], nodes[j], forms[j], options);
+    if (m.score >= CANDIDATE) scored[i].push({ incomingId: nodes[i].id, baseId: nodes[j].id, ...m });
+  });
+  incoming.nodes.forEach((n, i) => {
+    const top = scored[i].sort((x, y) => y.score - x.score)[0];
+    if (top && top.score >= AUTO_MERGE) {
+      mapping[n.id] = top.baseId;
+      merged.push(top);
+    } else if (top) {
+      candidates.push(top);
+    }
+  });
+  // Unrelated nodes that happen to reuse a base id are renamed rather than merged by accident.
+  const baseIds = new Set(base.nodes.map(n => n.id));
+  const taken = new Set([...baseIds, ...incoming.nodes.map(n => n.id)]);
+  incoming.nodes.forEach(n => {
+    if (mapping[n.id] || !baseIds.has(n.id)) return;
+    let k = 2;
+    while (taken.has(`${n.id}_${k}`)) k++;
+    mapping[n.id] = `${n.id}_${k}`;
+    taken.add(mapping[n.id]);
+  });
+  return { mapping, merged, candidates };
+};
+
+const addAlias = (node: CausalNode, label: string): CausalNode => {
+  if (compact(label) === compact(node.label) || (node.aliases || []).some(a => compact(a) === compact(label))) return node;
+  return { ...node, aliases: [...(node.aliases || []), label] };
+};
+
+// The base keeps its own quantitative definitions; the incoming node only fills gaps.
+const mergeNode = (base: CausalNode, incoming: CausalNode): CausalNode => {
+  const merged: CausalNode = { ...incoming, ...base };
+  const provenance = mergeProvenance(base.provenance, incoming.provenance);
+  if (provenance.length) merged.provenance = provenance;
+  return labelsOf(incoming).reduce(addAlias, merged);
+};
+
+const addReading = (edge: CausalEdge, reading: CausalEdge): CausalEdge => {
+  if (reading.relationship === edge.relationship) {
+    const provenance = mergeProvenance(edge.provenance, reading.provenance);
+    return provenance.length ? { ...edge, provenance } : edge;
+  }
+  const conflicts = [...(edge.conflicts || [])];
+  const i = conflicts.findIndex(c => c.relationship === reading.relationship);
+  if (i >= 0) conflicts[i] = { ...conflicts[i], provenance: mergeProvenance(conflicts[i].provenance, reading.provenance) };
+  else conflicts.push({ relationship: reading.relationship, ...(reading.provenance?.length ? { provenance: reading.provenance } : {}) });
+  return { ...edge, conflicts };
+};
+
+/**
+ * Merges `incoming` into `base` after renaming its nodes through `mapping`. Edges that disagree
+ * on direction of effect are kept as one edge with the alternative readings in `conflicts`.
+ */
+export const mergeScaffolds = (base: CausalGraphData, incoming: CausalGraphData, mapping: Record<string, string> = {}) => {
+  const id = (x: string) => mapping[x] ?? x;
+  const nodes = [...base.nodes];
+  incoming.nodes.forEach(n => {
+    const target = id(n.id);
+    const i = nodes.findIndex(b => b.id === target);
+    if (i >= 0) nodes[i] = mergeNode(nodes[i], n);
+    else nodes.push({ ...n, id: target });
+  });
+
+  const edges = [...base.edges];
+  const conflicted = new Set<string>();
+  incoming.edges.forEach(e => {
+    const source = id(e.source);
+    const target = id(e.target);
+    // Merging two endpoints into one entity turns the edge between them into an artefact.
+    if (source === target && e.source !== e.target) return;
+    const reading = { ...e, source, target };
+    const i = edges.findIndex(b => b.source === source && b.target === target);
+    if (i < 0) {
+      edges.push(reading);
+      return;
+    }
+    const before = edges[i].conflicts?.length || 0;
+    edges[i] = addReading(edges[i], reading);
+    if ((edges[i].conflicts?.length || 0) > before) conflicted.add(edgeKey(source, target));
+  });
+  return { graph: { ...base, nodes, edges } as CausalGraphData, conflicts: [...conflicted] };
+};
+
+/** Folds `dropId` into `keepId`, e.g. after a collaborator confirms two nodes are the same entity. */
+export const mergeNodes = (graph: CausalGraphData, keepId: string, dropId: string) => {
+  const touches = (e: CausalEdge) => e.source === dropId || e.target === dropId;
+  return mergeScaffolds(
+    { nodes: graph.nodes.filter(n => n.id !== dropId), edges: graph.edges.filter(e => !touches(e)) },
+    { nodes: graph.nodes.filter(n => n.id === dropId), edges: graph.edges.filter(touches) },
+    { [dropId]: keepId }
+  );
+};
+
+/** Pairs of nodes in one scaffold that may be the same entity and have not been decided yet. */
+export const findDuplicateCandidates = (graph: CausalGraphData, options: ResolveOptions = {}): EntityMatch[] => {
+  const forms = graph.nodes.map(n => nodeForms(n, options));
+  const out: EntityMatch[] = [];
+  candidatePairs(graph.nodes, forms, options).forEach(([i, j]) => {
+    const a = graph.nodes[i];
+    const b = graph.nodes[j];
+    if (options.decisions?.[pairKey(a.label, b.label)]) return;
+    const m = matchForms(b, forms[j], a, forms[i], options);
+    if (m.score >= CANDIDATE) out.push({ incomingId: b.id, baseId: a.id, ...m });
+  });
+  return out.sort((x, y) => y.score - x.score);
+};
+
+/** Settles a conflicted edge on one reading; the chosen reading's evidence becomes the edge's. */
+export const resolveEdgeConflict = (graph: CausalGraphData, key: string, relationship: CausalEdge['relationship']): CausalGraphData => ({
+  ...graph,
+  edges: graph.edges.map(e => {
+    if (edgeKey(e.source, e.target) !== key) return e;
+    const { conflicts, ...rest } = e;
+    if (relationship === e.relationship) return rest;
+    const chosen = conflicts?.find(c => c.relationship === relationship);
+    const { provenance, ...withoutProvenance } = rest;
+    return chosen?.provenance?.length ? { ...withRelationship(withoutProvenance, relationship), provenance: chosen.provenance } : withRelationship(withoutProvenance, relationship);
+  })
+});
@@ -0,0 +1,192 @@
+import { CausalEdge, CausalGraphData, CausalNode, EdgeEstimate, EstimationMethod } from "../types";
+import { MappedDataset, completeRows } from "./dataset";
+import { descendantsOf, edgeKey, parentsOf } from "./graph";
+import { createRNG } from "./random";
+import { linearRegression, logisticFit, mean, olsFit, quantile, studentTQuantile, sum } from "./stats";
+
+export const ESTIMATION_METHODS: Record<EstimationMethod, string> = {
+  regression: 'Regression adjustment',
+  ipw: 'Inverse probability weighting',
+  stratification: 'Stratification'
+};
+
+const MIN_ROWS = 8;
+const BOOTSTRAP = 200;
+const STRATA = 5;
+
+/** Bounds the SCM should use for a node: declared bounds, else the observed range of its column. */
+export const dataBounds = (node: CausalNode, values: number[]) => {
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const min = node.min ?? lo;
+  const max = node.max ?? (hi > min ? hi : min + 1);
+  return { min, max: max > min ? max : min + 1 };
+};
+
+/**
+ * Covariates for estimating `edge` as an SCM weight. Regression adjusts for the target's other
+ * parents, which recovers the direct (structural) coefficient of a linear mechanism. Weighting and
+ * stratification cannot condition on mediators, so they use the confounders only and estimate the
+ * total effect when the source also reaches the target indirectly.
+ */
+export const adjustmentFor = (graph: CausalGraphData, edge: CausalEdge, method: EstimationMethod, observed: Set<string>) => {
+  const otherParents = parentsOf(graph, edge.target).filter(p => p !== edge.source);
+  const mediators = descendantsOf(graph, edge.source);
+  const candidates = method === 'regression'
+    ? otherParents
+    : [...new Set([...parentsOf(graph, edge.source), ...otherParents])].filter(id => !mediators.has(id) && id !== edge.target);
+  return {
+    adjust: candidates.filter(id => observed.has(id)),
+    unadjusted: otherParents.filter(id => !observed.has(id)),
+    skippedMediators: method === 'regression' ? [] : otherParents.filter(id => mediators.has(id))
+  };
+};
+
+interface Prepared {
+  x: number[];
+  y: number[];
+  z: number[][];
+}
+
+// Hajek-normalised IPW contrast between the high and low arms, per unit of the source's scale.
+const ipwEffect = ({ x, y, z }: Prepared) => {
+  const cut = quantile(x, 0.5);
+  const binary = x.every(v => v === 0 || v === 1);
+  const t = x.map(v => (binary ? v : v > cut ? 1 : 0));
+  const treated = sum(t);
+  if (treated === 0 || treated === t.length) return null;
+  const design = z.map(row => [1, ...row]);
+  const coef = design[0].length > 1 ? logisticFit(design, t) : null;
+  const share = treated / t.length;
+  const e = design.map(row => coef ? 1 / (1 + Math.exp(-sum(row.map((v, a) => v * coef[a])))) : share).map(p => Math.min(0.99, Math.max(0.01, p)));
+  const w1 = t.map((ti, i) => ti / e[i]);
+  const w0 = t.map((ti, i) => (1 - ti) / (1 - e[i]));
+  const mu1 = sum(y.map((v, i) => v * w1[i])) / sum(w1);
+  const mu0 = sum(y.map((v, i) => v * w0[i])) / sum(w0);
+  const dx = mean(x.filter((_, i) => t[i] === 1)) - mean(x.filter((_, i) => t[i] === 0));
+  return dx > 0 ? (mu1 - mu0) / dx : null;
+};
+
+// Within-stratum slopes, pooled by stratum size. Strata are quintiles of the covariates' linear
+// prediction of the source (a continuous-treatment propensity score).
+const stratifiedEffect = ({ x, y, z }: Prepared) => {
+  let score = x.map(() => 0);
+  if (z[0]?.length) {
+    const fit = olsFit(z.map(row => [1, ...row]), x);
+    if (fit) score = z.map(row => fit.coef[0] + sum(row.map((v, a) => v * fit.coef[a + 1])));
+  }
+  const cuts = Array.from({ length: STRATA - 1 }, (_, k) => quantile(score, (k + 1) / STRATA));
+  const strata = new Map<number, number[]>();
+  score.forEach((s, i) => {
+    const k = z[0]?.length ? cuts.filter(c => s > c).length : 0;
+    strata.set(k, [...(strata.get(k) || []), i]);
+  });
+  let total = 0, weighted = 0;
+  strata.forEach(rows => {
+    const xs = rows.map(i => x[i]);
+    if (rows.length < 3 || Math.max(...xs) === Math.min(...xs)) return;
+    weighted += rows.length * linearRegression(xs, rows.map(i => y[i])).slope;
+    total += rows.length;
+  });
+  return total ? weighted / total : null;
+};
+
+const bootstrapCI = (data: Prepared, estimator: (d: Prepared) => number | null, seed: string): [number, number] | null => {
+  const rng = createRNG(seed);
+  const n = data.x.length;
+  const draws: number[] = [];
+  for (let b = 0; b < BOOTSTRAP; b++) {
+    const idx = Array.from({ length: n }, () => rng.int(n));
+    const v = estimator({ x: idx.map(i => data.x[i]), y: idx.map(i => data.y[i]), z: idx.map(i => data.z[i]) });
+    if (v !== null && Number.isFinite(v)) draws.push(v);
+  }
+  return draws.length >= BOOTSTRAP / 2 ? [quantile(draws, 0.025), quantile(draws, 0.975)] : null;
+};
+
+/** Estimates one edge's SCM weight from a dataset; null when either end is unmapped or data are too thin. */
+export const estimateEdge = (graph: CausalGraphData, edge: CausalEdge, data: MappedDataset, method: EstimationMethod): EdgeEstimate | null => {
+  const observed = new Set(Object.keys(data.byNode));
+  if (!observed.has(edge.source) || !observed.has(edge.target)) return null;
+  const { adjust, unadjusted, skippedMediators } = adjustmentFor(graph, edge, method, observed);
+  const rows = completeRows(data, [edge.source, edge.target, ...adjust]);
+  if (rows.length < MIN_ROWS + adjust.length) return null;
+
+  const node = (id: string) => graph.nodes.find(n => n.id === id)!;
+  // Every column is put on the scale the SCM normalises that node to.
+  const scaled = (id: string) => {
+    const values = rows.map(i => data.byNode[id][i] as number);
+    const { min, max } = dataBounds(node(id), data.byNode[id].filter((v): v is number => v !== null));
+    return values.map(v => (v - min) / (max - min));
+  };
+  const prepared: Prepared = {
+    x: scaled(edge.source),
+    y: scaled(edge.target),
+    z: rows.map(() => [] as number[])
+  };
+  adjust.forEach(id => scaled(id).forEach((v, r) => prepared.z[r].push(v)));
+  if (Math.max(...prepared.x) === Math.min(...prepared.x)) return null;
+
+  let weight: number | null;
+  let ci: [number, number] | null;
+  if (method === 'regression') {
+    const fit = olsFit(prepared.x.map((v, r) => [1, v, ...prepared.z[r]]), prepared.y);
+    if (!fit) return null;
+    weight = fit.coef[1];
+    const half = studentTQuantile(0.975, fit.df) * fit.se[1];
+    ci = [weight - half, weight + half];
+  } else {
+    const estimator = method === 'ipw' ? ipwEffect : stratifiedEffect;
+    weight = estimator(prepared);
+    ci = weight === null ? null : bootstrapCI(prepared, estimator, `${data.sourceId}:${edgeKey(edge.source, edge.target)}:${method}`);
+  }
+  if (weight === null || !Number.isFinite(weight) || !ci) return null;
+
+  const label = (id: string) => node(id)?.label || id;
+  const notes = [
+    unadjusted.length ? `not adjusted for unmeasured ${unadjusted.map(label).join(', ')}` : '',
+    skippedMediators.length ? `total effect: includes the path through ${skippedMediators.map(label).join(', ')}` : ''
+  ].filter(Boolean);
+  const round = (v: number) => Number(v.toFixed(4));
+  return {
+    method,
+    weight: round(weight),
+    ci: [round(ci[0]), round(ci[1])],
+    n: rows.length,
+    sourceId: data.sourceId,
+    adjustedFor: adjust,
+    unadjusted: unadjusted.length ? unadjusted : undefined,
+    note: notes.length ? notes.join('; ') : undefined
+  };
+};
+
+/** Estimates every edge some dataset covers, preferring the dataset with the most usable rows. */
+export const estimateScaffold = (graph: CausalGraphData, datasets: MappedDataset[], method: EstimationMethod): Record<string, EdgeEstimate> => {
+  const out: Record<string, EdgeEstimate> = {};
+  graph.edges.forEach(edge => {
+    datasets.forEach(data => {
+      const est = estimateEdge(graph, edge, data, method);
+      const key = edgeKey(edge.source, edge.target);
+      if (est && (!out[key] || est.n > out[key].n)) out[key] = est;
+    });
+  });
+  return out;
+};
+
+/**
+ * Writes estimates into the scaffold: each edge's `weight` becomes its point estimate, and mapped
+ * nodes without declared bounds take their observed range so simulations run in data units.
+ */
+export const applyEstimates = (graph: CausalGraphData, estimates: Record<string, EdgeEstimate>, datasets: MappedDataset[]): CausalGraphData => {
+  const used = new Set(Object.values(estimates).flatMap(e => [e.sourceId]));
+  const nodes = graph.nodes.map(n => {
+    if (n.min !== undefined && n.max !== undefined) return n;
+    const values = datasets.filter(d => used.has(d.sourceId)).flatMap(d => (d.byNode[n.id] || []).filter((v): v is number => v !== null));
+    if (!values.length || !Object.keys(estimates).some(k => k.startsWith(`${n.id}->`) || k.endsWith(`->${n.id}`))) return n;
+    return { ...n, ...dataBounds(n, values) };
+  });
+  const edges = graph.edges.map(e => {
+    const est = estimates[edgeKey(e.source, e.target)];
+    return est ? { ...e, weight: est.weight, estimate: est } : e;
+  });
+  return { ...graph, nodes, edges };
+};
@@ -0,0 +1,195 @@
+// A small arithmetic language for node equations. Parsed into an AST and interpreted,
+// so scaffold content shared by collaborators or models is never handed to eval().
+
+export type Expr =
+  | { kind: 'num'; value: number }
+  | { kind: 'var'; name: string }
+  | { kind: 'unary'; op: '-' | '+'; arg: Expr }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: Expr; right: Expr }
+  | { kind: 'call'; fn: string; args: Expr[] };
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...a: number[]) => number }> = {
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  abs: { arity: [1, 1], fn: Math.abs },
+  exp: { arity: [1, 1], fn: Math.exp },
+  log: { arity: [1, 1], fn: Math.log },
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  tanh: { arity: [1, 1], fn: Math.tanh },
+  sigmoid: { arity: [1, 1], fn: (x) => 1 / (1 + Math.exp(-x)) },
+  clamp: { arity: [3, 3], fn: (x, lo, hi) => Math.max(lo, Math.min(hi, x)) },
+  // Hill activation: x^n / (ec50^n + x^n)
+  hill: { arity: [2, 3], fn: (x, ec50, n = 1) => { const xn = Math.pow(Math.max(x, 0), n); return xn / (Math.pow(ec50, n) + xn); } },
+  // Hill repression: ic50^n / (ic50^n + x^n)
+  inhibit: { arity: [2, 3], fn: (x, ic50, n = 1) => { const xn = Math.pow(Math.max(x, 0), n); return Math.pow(ic50, n) / (Math.pow(ic50, n) + xn); } }
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+type Token = { type: 'num' | 'id' | 'op' | 'lparen' | 'rparen' | 'comma'; text: string; pos: number };
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (/[0-9.]/.test(ch)) {
+      const m = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(src.slice(i));
+      if (!m) throw new ExpressionError(`Malformed number`, i);
+      tokens.push({ type: 'num', text: m[0], pos: i });
+      i += m[0].length;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(src.slice(i))!;
+      tokens.push({ type: 'id', text: m[0], pos: i });
+      i += m[0].length;
+      continue;
+    }
+    if (ch === '`') {
+      // Back-quoted identifiers allow node ids with dashes or spaces.
+      const end = src.indexOf('`', i + 1);
+      if (end < 0) throw new ExpressionError('Unterminated quoted identifier', i);
+      tokens.push({ type: 'id', text: src.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    if ('+-*/^'.includes(ch)) { tokens.push({ type: 'op', text: ch, pos: i++ }); continue; }
+    if (ch === '(') { tokens.push({ type: 'lparen', text: ch, pos: i++ }); continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen', text: ch, pos: i++ }); continue; }
+    if (ch === ',') { tokens.push({ type: 'comma', text: ch, pos: i++ }); continue; }
+    throw new ExpressionError(`Unexpected character "${ch}"`, i);
+  }
+  return tokens;
+};
+
+export const parseExpression = (src: string): Expr => {
+  // Accept "target = rhs" as written by models and authors; only the right-hand side matters.
+  const assignment = /^\s*`?[A-Za-z_][\w. -]*`?\s*=(?!=)/.exec(src);
+  const offset = assignment ? assignment[0].length : 0;
+  const tokens = tokenize(src.slice(offset)).map(t => ({ ...t, pos: t.pos + offset }));
+  let p = 0;
+  const peek = () => tokens[p];
+  const expect = (type: Token['type']) => {
+    const t = tokens[p];
+    if (!t || t.type !== type) throw new ExpressionError(`Expected ${type}`, t?.pos ?? src.length);
+    p++;
+    return t;
+  };
+
+  // additive := multiplicative (('+' | '-') multiplicative)*
+  const additive = (): Expr => {
+    let left = multiplicative();
+    while (peek()?.type === 'op' && (peek().text === '+' || peek().text === '-')) {
+      const op = tokens[p++].text as '+' | '-';
+      left = { kind: 'binary', op, left, right: multiplicative() };
+    }
+    return left;
+  };
+  const multiplicative = (): Expr => {
+    let left = unary();
+    while (peek()?.type === 'op' && (peek().text === '*' || peek().text === '/')) {
+      const op = tokens[p++].text as '*' | '/';
+      left = { kind: 'binary', op, left, right: unary() };
+    }
+    return left;
+  };
+  const unary = (): Expr => {
+    const t = peek();
+    if (t?.type === 'op' && (t.text === '-' || t.text === '+')) {
+      p++;
+      return { kind: 'unary', op: t.text as '-' | '+', arg: unary() };
+    }
+    return power();
+  };
+  // Exponentiation is right-associative and binds tighter than unary minus on its left.
+  const power = (): Expr => {
+    const base = primary();
+    if (peek()?.type === 'op' && peek().text === '^') {
+      p++;
+      return { kind: 'binary', op: '^', left: base, right: unary() };
+    }
+    return base;
+  };
+  const primary = (): Expr => {
+    const t = peek();
+    if (!t) throw new ExpressionError('Unexpected end of expression', src.length);
+    if (t.type === 'num') { p++; return { kind: 'num', value: parseFloat(t.text) }; }
+    if (t.type === 'lparen') {
+      p++;
+      const inner = additive();
+      expect('rparen');
+      return inner;
+    }
+    if (t.type === 'id') {
+      p++;
+      if (peek()?.type === 'lparen') {
+        const spec = Object.hasOwn(FUNCTIONS, t.text) ? FUNCTIONS[t.text] : undefined;
+        if (!spec) throw new ExpressionError(`Unknown function "${t.text}"`, t.pos);
+        p++;
+        const args: Expr[] = [];
+        if (peek()?.type !== 'rparen') {
+          args.push(additive());
+          while (peek()?.type === 'comma') { p++; args.push(additive()); }
+        }
+        expect('rparen');
+        if (args.length < spec.arity[0] || args.length > spec.arity[1]) {
+          throw new ExpressionError(`${t.text}() takes ${spec.arity[0]}${spec.arity[1] !== spec.arity[0] ? '+' : ''} argument(s), got ${args.length}`, t.pos);
+        }
+        return { kind: 'call', fn: t.text, args };
+      }
+      if (t.text in CONSTANTS) return { kind: 'num', value: CONSTANTS[t.text] };
+      return { kind: 'var', name: t.text };
+    }
+    throw new ExpressionError(`Unexpected "${t.text}"`, t.pos);
+  };
+
+  const ast = additive();
+  if (p < tokens.length) throw new ExpressionError(`Unexpected "${tokens[p].text}"`, tokens[p].pos);
+  return ast;
+};
+
+export const collectVariables = (expr: Expr, out: Set<string> = new Set()): Set<string> => {
+  switch (expr.kind) {
+    case 'var': out.add(expr.name); break;
+    case 'unary': collectVariables(expr.arg, out); break;
+    case 'binary': collectVariables(expr.left, out); collectVariables(expr.right, out); break;
+    case 'call': expr.args.forEach(a => collectVariables(a, out)); break;
+  }
+  return out;
+};
+
+export const evaluateExpression = (expr: Expr, env: Record<string, number>): number => {
+  switch (expr.kind) {
+    case 'num': return expr.value;
+    case 'var': {
+      const v = env[expr.name];
+      if (v === undefined) throw new ExpressionError(`Unknown variable "${expr.name}"`, 0);
+      return v;
+    }
+    case 'unary': {
+      const v = evaluateExpression(expr.arg, env);
+      return expr.op === '-' ? -v : v;
+    }
+    case 'binary': {
+      const a = evaluateExpression(expr.left, env);
+      const b = evaluateExpression(expr.right, env);
+      switch (expr.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return Math.pow(a, b);
+      }
+    }
+    case 'call': return FUNCTIONS[expr.fn].fn(...expr.args.map(a => evaluateExpression(a, env)));
+  }
+};
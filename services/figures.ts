@@ -0,0 +1,31 @@
+import { FigureVersion, Source } from "../types";
+
+export const ORIGINAL_VERSION = 'original';
+
+/** Every version of a figure source, starting with the upload itself. */
+export const figureVersions = (source: Source): FigureVersion[] => [
+  { id: ORIGINAL_VERSION, data: source.content, mimeType: source.mimeType || 'image/png', prompt: 'Original upload', by: '', at: '' },
+  ...(source.metadata?.figureVersions || [])
+];
+
+export const activeFigure = (source: Source): FigureVersion => {
+  const versions = figureVersions(source);
+  return versions.find(v => v.id === source.metadata?.activeFigureVersion) || versions[versions.length - 1];
+};
+
+export const figureDataUrl = (version: Pick<FigureVersion, 'data' | 'mimeType'>) => `data:${version.mimeType};base64,${version.data}`;
+
+/** Appends an edit and makes it the version shown; earlier versions are never rewritten. */
+export const addFigureVersion = (source: Source, version: FigureVersion): Source => ({
+  ...source,
+  metadata: {
+    ...source.metadata,
+    figureVersions: [...(source.metadata?.figureVersions || []), version],
+    activeFigureVersion: version.id
+  }
+});
+
+export const selectFigureVersion = (source: Source, id: string): Source => ({
+  ...source,
+  metadata: { ...source.metadata, activeFigureVersion: id }
+});
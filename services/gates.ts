@@ -0,0 +1,90 @@
+import { CausalEdge, CausalGraphData, GateOverride, VerificationCheck } from "../types";
+import { stronglyConnectedComponents } from "./scm";
+import { descendantsOf, edgeKey } from "./graph";
+import { identificationChecks } from "./identification";
+import { hashSeed } from "./random";
+
+const check = (id: string, name: string, status: VerificationCheck['status'], message: string): VerificationCheck =>
+  ({ id: `structure:${id}`, name, status, message, origin: 'structural' });
+
+const list = (items: string[], max = 4) =>
+  items.length > max ? `${items.slice(0, max).join(', ')} and ${items.length - max} more` : items.join(', ');
+
+/**
+ * Deterministic rule-based gates over the scaffold exactly as stored in the shared document,
+ * so problems the UI silently repairs are still reported.
+ */
+export const runStructuralGates = (raw: CausalGraphData | null | undefined): VerificationCheck[] => {
+  const nodes = Array.isArray(raw?.nodes) ? raw!.nodes.filter(n => n && typeof n.id === 'string') : [];
+  const edges: CausalEdge[] = Array.isArray(raw?.edges) ? raw!.edges.filter(e => e && typeof e === 'object') : [];
+  const ids = new Set(nodes.map(n => n.id));
+  const label = (id: string) => nodes.find(n => n.id === id)?.label || id;
+  const checks: VerificationCheck[] = [];
+
+  const dangling = edges.filter(e => !ids.has(e.source) || !ids.has(e.target));
+  checks.push(dangling.length
+    ? check('dangling-edges', 'Dangling Edges', 'Fail', `${dangling.length} edge(s) reference missing nodes: ${list(dangling.map(e => edgeKey(e.source, e.target)))}.`)
+    : check('dangling-edges', 'Dangling Edges', 'Pass', 'Every edge connects two existing nodes.'));
+
+  const selfLoops = edges.filter(e => e.source === e.target && ids.has(e.source));
+  checks.push(selfLoops.length
+    ? check('self-loops', 'Self-Loops', 'Fail', `${list(selfLoops.map(e => label(e.source)))} ${selfLoops.length > 1 ? 'cause themselves' : 'causes itself'} directly; model autoregulation through an explicit intermediate.`)
+    : check('self-loops', 'Self-Loops', 'Pass', 'No node causes itself directly.'));
+
+  const valid = edges.filter(e => ids.has(e.source) && ids.has(e.target));
+  const byPair: Record<string, Set<string>> = {};
+  valid.forEach(e => { (byPair[edgeKey(e.source, e.target)] ||= new Set()).add(e.relationship); });
+  valid.forEach(e => (e.conflicts || []).forEach(c => byPair[edgeKey(e.source, e.target)].add(c.relationship)));
+  const contradictory = Object.entries(byPair).filter(([, rels]) => rels.size > 1);
+  checks.push(contradictory.length
+    ? check('contradictory-edges', 'Contradictory Edges', 'Fail', `Conflicting relationships declared for ${list(contradictory.map(([k, rels]) => `${k} (${[...rels].join(' vs ')})`))}.`)
+    : check('contradictory-edges', 'Contradictory Edges', 'Pass', 'No pair of nodes carries conflicting relationships.'));
+
+  const graph: CausalGraphData = { nodes, edges: valid };
+  const interventions = nodes.filter(n => n.type === 'intervention');
+  const inert = interventions.filter(n => !valid.some(e => e.source === n.id));
+  checks.push(inert.length
+    ? check('inert-interventions', 'Inert Interventions', 'Warn', `${list(inert.map(n => n.label))} ${inert.length > 1 ? 'have' : 'has'} no outgoing edges and cannot affect anything.`)
+    : check('inert-interventions', 'Inert Interventions', 'Pass', interventions.length ? 'Every intervention acts on at least one variable.' : 'No interventions declared.'));
+
+  const outcomes = nodes.filter(n => n.type === 'outcome');
+  const reachable = descendantsOf(graph, interventions.map(n => n.id));
+  const unreachable = outcomes.filter(n => !reachable.has(n.id));
+  if (!outcomes.length) {
+    checks.push(check('unreachable-outcomes', 'Outcome Reachability', 'Warn', 'The scaffold declares no outcome nodes.'));
+  } else if (unreachable.length) {
+    const all = unreachable.length === outcomes.length;
+    checks.push(check('unreachable-outcomes', 'Outcome Reachability', all ? 'Fail' : 'Warn',
+      `${list(unreachable.map(n => n.label))} cannot be reached from any intervention${all ? '; the simulation has nothing to measure.' : '.'}`));
+  } else {
+    checks.push(check('unreachable-outcomes', 'Outcome Reachability', 'Pass', 'Every outcome is downstream of an intervention.'));
+  }
+
+  // Feedback loops are allowed, but only when at least one edge in the loop is declared as feedback.
+  const deps: Record<string, string[]> = {};
+  nodes.forEach(n => { deps[n.id] = valid.filter(e => e.target === n.id && e.source !== n.id && e.relationship !== 'correlative').map(e => e.source); });
+  const cycles = stronglyConnectedComponents([...ids], deps).filter(c => c.length > 1);
+  const undeclared = cycles.filter(c => !valid.some(e => e.feedback && c.includes(e.source) && c.includes(e.target)));
+  checks.push(undeclared.length
+    ? check('undeclared-cycles', 'Undeclared Feedback', 'Fail', `${undeclared.length} cycle(s) without a declared feedback edge: ${list(undeclared.map(c => c.map(label).join(' ⇄ ')), 3)}.`)
+    : check('undeclared-cycles', 'Undeclared Feedback', 'Pass', cycles.length ? `${cycles.length} feedback loop(s), all declared.` : 'The scaffold is acyclic.'));
+
+  return [...checks, ...identificationChecks(graph).map(c => ({ ...c, origin: 'identification' as const }))];
+};
+
+export const failingChecks = (checks: VerificationCheck[]) => checks.filter(c => c.status === 'Fail');
+
+// An override only covers the failures that were on screen when it was granted.
+export const isBlocked = (checks: VerificationCheck[], override: GateOverride | null | undefined) =>
+  failingChecks(checks).some(c => !override?.failedChecks.includes(c.id));
+
+// Model audits are shared with a fingerprint of the scaffold they ran on, and lapse when it changes.
+export interface SharedAudit {
+  scaffold: number;
+  checks: VerificationCheck[];
+}
+
+export const scaffoldFingerprint = (graph: CausalGraphData) => hashSeed(JSON.stringify(graph));
+
+export const auditFor = (audit: SharedAudit | null | undefined, graph: CausalGraphData | null | undefined): VerificationCheck[] =>
+  audit && graph && audit.scaffold === scaffoldFingerprint(graph) ? audit.checks : [];
@@ -1,10 +1,19 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { CausalGraphData, RAGSource, SimulationResult, Source, ChatMessage, StructuredReport, VerificationCheck } from "../types";
+import { Type } from "@google/genai";
+import { CausalGraphData, PowerPlan, Protocol, RAGSource, SimulationResult, Source, ChatMessage, StructuredReport, VerificationCheck } from "../types";
+import { getProvider } from "./llm";
+import { generateStructured, graphValidator, protocolDraftValidator, validateCausalGraph, validateStructuredReport, validateVerificationChecks } from "./validation";
+import { describeSynthesis, synthesizeFromScaffold } from "./synthesis";
+import { attachClaimEvidence, sourceText } from "./retrieval";
+import { attachProvenance, attachStepProvenance } from "./provenance";
+import { mergeScaffolds } from "./entities";
+import { buildArtifacts } from "./artifacts";
+import { PROTOCOL_STEP_KINDS, bindSteps, protocolDigest } from "./protocol";
+import { describePowerPlan } from "./power";
+import { analyzeSensitivityOffThread, describeSensitivity } from "./sensitivity";
 
-const getClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
+// Figures are base64 until they have been read; only their extracted text belongs in a prompt.
+const promptText = (source: Source) => sourceText(source) || (source.type === 'image' ? '' : source.content);
 
 export const chatWithNotebook = async (
   message: string, 
@@ -12,10 +21,7 @@ export const chatWithNotebook = async (
   history: ChatMessage[],
   thinking: boolean = false
 ): Promise<ChatMessage> => {
-  const ai = getClient();
-  const model = thinking ? "gemini-3-pro-preview" : "gemini-3-flash-preview";
-  
-  const sourceContext = sources.map(s => `SOURCE TITLE: ${s.title}\nCONTENT: ${s.content}`).join('\n\n---\n\n');
+  const sourceContext = sources.map(s => `SOURCE TITLE: ${s.title}\nCONTENT: ${promptText(s)}`).join('\n\n---\n\n');
   
   const systemInstruction = `
     You are ProofSmith-R, an expert causal scientist within a mechanistic notebook environment.
@@ -32,219 +38,260 @@ export const chatWithNotebook = async (
   `;
 
   // Filter history to fit API constraints if necessary, keeping last 10 turns
-  const conversationHistory = history.slice(-10).map(m => ({ 
-    role: m.role, 
-    parts: [{ text: m.text }] 
-  }));
-
   const contents = [
-    ...conversationHistory,
-    { 
-      role: 'user', 
-      parts: [{ text: message }] 
-    }
+    ...history.slice(-10).map(m => ({ role: m.role, text: m.text })),
+    { role: 'user' as const, text: message }
   ];
 
-  const config: any = {
-    systemInstruction,
-    tools: [{ googleSearch: {} }] // External grounding for scientific context
-  };
-
-  if (thinking) {
-    config.thinkingConfig = { thinkingBudget: 32768 };
-  }
-
-  const response = await ai.models.generateContent({
-    model,
+  const response = await getProvider().generate({
+    task: 'chat',
+    tier: thinking ? 'reasoning' : 'fast',
     contents,
-    config
+    systemInstruction,
+    grounding: true, // External grounding for scientific context
+    thinking
   });
 
   return {
     role: 'model',
     text: response.text || "I was unable to synthesize a response from the current sources.",
-    citations: response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((c: any) => c.web?.uri).filter(Boolean) || []
+    citations: response.citations || []
   };
 };
 
 export const generateNotebookSummary = async (sources: Source[]): Promise<string> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Identify the core mechanistic variables and their interactions across these scientific sources: ${sources.map(s => s.content).join('\n')}`,
-    config: { systemInstruction: "Provide a concise, academic summary of the mechanistic landscape. Focus on what is being measured and what is causing the effects." }
+  const response = await getProvider().generate({
+    task: 'summary',
+    tier: 'fast',
+    contents: `Identify the core mechanistic variables and their interactions across these scientific sources: ${sources.map(promptText).join('\n')}`,
+    systemInstruction: "Provide a concise, academic summary of the mechanistic landscape. Focus on what is being measured and what is causing the effects."
   });
   return response.text || "";
 };
 
-export const extractCausalScaffold = async (input: string): Promise<CausalGraphData> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Extract a mechanistic causal graph (nodes and edges) from this research text. Focus on interventions, variables, and outcomes. RESEARCH: "${input}"`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          nodes: { 
-            type: Type.ARRAY, 
-            items: { 
-              type: Type.OBJECT, 
-              properties: { 
-                id: { type: Type.STRING }, 
-                label: { type: Type.STRING }, 
-                type: { type: Type.STRING, enum: ['variable', 'outcome', 'intervention'] } 
-              },
-              required: ['id', 'label', 'type']
-            } 
-          },
-          edges: { 
-            type: Type.ARRAY, 
-            items: { 
-              type: Type.OBJECT, 
-              properties: { 
-                source: { type: Type.STRING }, 
-                target: { type: Type.STRING }, 
-                relationship: { type: Type.STRING, enum: ['positive', 'negative', 'correlative'] } 
-              },
-              required: ['source', 'target', 'relationship']
-            } 
-          }
+// Keep in sync with services/expression.ts.
+const EQUATION_GUIDE = `Where the text supports a quantitative mechanism, give the node an "equation" over its parents' ids using + - * / ^, min, max, exp, log, sqrt, sigmoid, clamp(x, lo, hi), hill(x, ec50, n) and inhibit(x, ic50, n), plus "min"/"max"/"unit" for its physical range. Omit them otherwise.`;
+
+export const extractCausalScaffold = async (source: Source): Promise<CausalGraphData> => {
+  const input = promptText(source);
+  const graph = await generateStructured({
+    task: 'extractCausalScaffold',
+    tier: 'fast',
+    contents: `Extract a mechanistic causal graph (nodes and edges) from this research text. Focus on interventions, variables, and outcomes. ${EQUATION_GUIDE} Set "feedback": true on an edge only when it closes a genuine regulatory loop. For every node and edge, set "evidence" to the sentence of the research text that supports it, copied verbatim. RESEARCH: "${input}"`,
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        nodes: { 
+          type: Type.ARRAY, 
+          items: { 
+            type: Type.OBJECT, 
+            properties: { 
+              id: { type: Type.STRING }, 
+              label: { type: Type.STRING }, 
+              type: { type: Type.STRING, enum: ['variable', 'outcome', 'intervention'] },
+              equation: { type: Type.STRING },
+              min: { type: Type.NUMBER },
+              max: { type: Type.NUMBER },
+              unit: { type: Type.STRING },
+              evidence: { type: Type.STRING }
+            },
+            required: ['id', 'label', 'type']
+          } 
         },
-        required: ['nodes', 'edges']
-      }
+        edges: { 
+          type: Type.ARRAY, 
+          items: { 
+            type: Type.OBJECT, 
+            properties: { 
+              source: { type: Type.STRING }, 
+              target: { type: Type.STRING }, 
+              relationship: { type: Type.STRING, enum: ['positive', 'negative', 'correlative'] },
+              feedback: { type: Type.BOOLEAN },
+              evidence: { type: Type.STRING }
+            },
+            required: ['source', 'target', 'relationship']
+          } 
+        }
+      },
+      required: ['nodes', 'edges']
     }
-  });
-  return JSON.parse(response.text);
+  }, validateCausalGraph);
+  return attachProvenance(graph, source);
 };
 
-export const mergeGraphs = (base: CausalGraphData, newGraph: CausalGraphData): CausalGraphData => {
-  const result: CausalGraphData = { nodes: [...base.nodes], edges: [...base.edges] };
-  newGraph.nodes.forEach(n => { if (!result.nodes.find(rn => rn.id === n.id)) result.nodes.push(n); });
-  newGraph.edges.forEach(e => {
-    const exists = result.edges.find(re => re.source === e.source && re.target === e.target);
-    if (!exists) result.edges.push(e);
-  });
-  return result;
-};
+export const mergeGraphs = (base: CausalGraphData, newGraph: CausalGraphData): CausalGraphData =>
+  mergeScaffolds(base, newGraph).graph;
 
 export const expandCausalNode = async (nodeId: string, context: CausalGraphData): Promise<CausalGraphData> => {
-  const ai = getClient();
   const node = context.nodes.find(n => n.id === nodeId);
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
+  const expansion = await generateStructured({
+    task: 'expandCausalNode',
+    tier: 'fast',
     contents: `Propose deeper mechanistic sub-steps for the causal node "${node?.label}" within this larger scientific context: ${JSON.stringify(context)}`,
-    config: { 
-      responseMimeType: "application/json", 
-      responseSchema: { 
-        type: Type.OBJECT, 
-        properties: { 
-          nodes: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, label: { type: Type.STRING }, type: { type: Type.STRING, enum: ['variable', 'outcome', 'intervention'] } }, required: ['id', 'label', 'type'] } }, 
-          edges: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { source: { type: Type.STRING }, target: { type: Type.STRING }, relationship: { type: Type.STRING, enum: ['positive', 'negative', 'correlative'] } }, required: ['source', 'target', 'relationship'] } } 
-        },
-        required: ['nodes', 'edges']
-      } 
-    }
-  });
-  return mergeGraphs(context, JSON.parse(response.text));
+    context: { nodeId },
+    responseSchema: { 
+      type: Type.OBJECT, 
+      properties: { 
+        nodes: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, label: { type: Type.STRING }, type: { type: Type.STRING, enum: ['variable', 'outcome', 'intervention'] } }, required: ['id', 'label', 'type'] } }, 
+        edges: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { source: { type: Type.STRING }, target: { type: Type.STRING }, relationship: { type: Type.STRING, enum: ['positive', 'negative', 'correlative'] } }, required: ['source', 'target', 'relationship'] } } 
+      },
+      required: ['nodes', 'edges']
+    } 
+  }, graphValidator(context.nodes.map(n => n.id)));
+  return mergeGraphs(context, expansion);
 };
 
-export const runSynthesis = async (scaffold: CausalGraphData): Promise<SimulationResult> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: `Perform an in-silico synthesis of data based on this causal structure. Generate observed points, synthetic trends, and robustness scores. STRUCTURE: ${JSON.stringify(scaffold)}`,
-    config: { 
-      responseMimeType: "application/json", 
-      responseSchema: { 
-        type: Type.OBJECT, 
-        properties: { 
-          variableName: { type: Type.STRING }, 
-          statistics: { type: Type.OBJECT, properties: { pValue: { type: Type.NUMBER }, effectSize: { type: Type.NUMBER }, sampleSize: { type: Type.NUMBER } }, required: ['pValue', 'effectSize', 'sampleSize'] }, 
-          doseResponseData: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER }, type: { type: Type.STRING } }, required: ['x', 'y', 'type'] } }, 
-          bands: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { x: { type: Type.NUMBER }, lower: { type: Type.NUMBER }, upper: { type: Type.NUMBER } }, required: ['x', 'lower', 'upper'] } }, 
-          timeCourseData: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { t: { type: Type.NUMBER }, control: { type: Type.NUMBER }, treatment: { type: Type.NUMBER } }, required: ['t', 'control', 'treatment'] } }, 
-          heatmapData: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { row: { type: Type.STRING }, col: { type: Type.NUMBER }, value: { type: Type.NUMBER } }, required: ['row', 'col', 'value'] } }, 
-          robustness: { type: Type.OBJECT, properties: { bootstrapStability: { type: Type.NUMBER }, domainShiftResilience: { type: Type.NUMBER } }, required: ['bootstrapStability', 'domainShiftResilience'] }, 
-          robustnessNarrative: { type: Type.STRING } 
-        },
-        required: ['variableName', 'statistics', 'doseResponseData', 'bands', 'timeCourseData', 'heatmapData', 'robustness', 'robustnessNarrative']
-      } 
-    }
-  });
-  return JSON.parse(response.text);
+const STEP_FIELDS_SCHEMA = {
+  reagents: { type: Type.ARRAY, items: { type: Type.STRING } },
+  doses: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+  doseUnit: { type: Type.STRING },
+  timepoints: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+  controls: { type: Type.ARRAY, items: { type: Type.STRING } },
+  n: { type: Type.INTEGER }
 };
+const STEP_KINDS = Object.keys(PROTOCOL_STEP_KINDS);
 
-export const runVerificationGates = async (scaffold: CausalGraphData): Promise<VerificationCheck[]> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Perform a technical audit on this mechanistic model for logical inconsistencies or scientific red flags. MODEL: ${JSON.stringify(scaffold)}`,
-    config: { 
-      responseMimeType: "application/json", 
-      responseSchema: { 
-        type: Type.ARRAY, 
-        items: { 
-          type: Type.OBJECT, 
-          properties: { 
-            id: { type: Type.STRING }, 
-            name: { type: Type.STRING }, 
-            status: { type: Type.STRING, enum: ['Pass', 'Fail', 'Warn'] }, 
-            message: { type: Type.STRING } 
-          }, 
-          required: ['id', 'name', 'status', 'message']
-        } 
-      } 
+/**
+ * Reads the experimental method in a source into protocol steps, bound to the scaffold's
+ * interventions and outcomes where the model or the step's wording names them.
+ */
+export const extractProtocol = async (source: Source, scaffold: CausalGraphData | null): Promise<Pick<Protocol, 'title' | 'steps'>> => {
+  const nodes = (scaffold?.nodes || []).map(n => ({ id: n.id, label: n.label, type: n.type }));
+  const draft = await generateStructured({
+    task: 'extractProtocol',
+    tier: 'fast',
+    contents: `Extract the experimental protocol from this research text as ordered steps. Give each step a "kind" (preparation, treatment, control, measurement or analysis) and an imperative "text". Where stated, list its "reagents", numeric "doses" with one "doseUnit", "timepoints" in hours after treatment, "controls" and "n" replicates per condition. Set "nodeId" to the id of the SCAFFOLD node a treatment or control step sets, or a measurement step reads. Set "evidence" to the sentence of the research text the step comes from, copied verbatim. Do not invent details the text does not give. SCAFFOLD: ${JSON.stringify(nodes)} RESEARCH: "${promptText(source)}"`,
+    context: { nodeIds: nodes.map(n => n.id) },
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        steps: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: STEP_KINDS },
+              text: { type: Type.STRING },
+              ...STEP_FIELDS_SCHEMA,
+              nodeId: { type: Type.STRING },
+              evidence: { type: Type.STRING }
+            },
+            required: ['kind', 'text']
+          }
+        }
+      },
+      required: ['title', 'steps']
     }
-  });
-  return JSON.parse(response.text);
+  }, protocolDraftValidator(nodes.map(n => n.id)));
+  return { title: draft.title, steps: bindSteps(attachStepProvenance(draft.steps, source), scaffold) };
 };
 
-export const generateReviewerReport = async (scaffold: CausalGraphData, rag: any[], sim: SimulationResult): Promise<StructuredReport> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: `Compile a final Reviewer Mode evidence report based on this model and simulation data. MODEL: ${JSON.stringify(scaffold)}, SIM: ${JSON.stringify(sim)}`,
-    config: { 
-      responseMimeType: "application/json", 
-      responseSchema: { 
+// `targets` are the nodes the protocol treats and measures; the synthesis picks its own when they are unset.
+export const runSynthesis = async (scaffold: CausalGraphData, seed?: string, targets: { treatmentId?: string; outcomeId?: string } = {}): Promise<SimulationResult> => {
+  const result = synthesizeFromScaffold(scaffold, { seed, ...targets });
+  result.sensitivity = await analyzeSensitivityOffThread(scaffold, result);
+  const treatment = scaffold.nodes.find(n => n.id === result.treatmentId);
+  const fallback = `${describeSynthesis(result, treatment?.label || 'the intervention')} ${describeSensitivity(result.sensitivity)}`;
+  // The model only narrates; every number above is computed locally from the scaffold.
+  try {
+    const response = await getProvider().generate({
+      task: 'synthesisNarrative',
+      tier: 'reasoning',
+      contents: `Write a 2-3 sentence robustness narrative for these locally computed simulation results. Interpret them mechanistically but do not introduce any numbers that are not given. MODEL: ${JSON.stringify(scaffold)} RESULTS: ${fallback}`,
+      context: { summary: fallback }
+    });
+    result.robustnessNarrative = response.text.trim() || fallback;
+  } catch (e) {
+    console.warn("Narrative generation failed; using computed summary.", e);
+    result.robustnessNarrative = fallback;
+  }
+  return result;
+};
+
+export const runVerificationGates = async (scaffold: CausalGraphData): Promise<VerificationCheck[]> => {
+  const checks = await generateStructured({
+    task: 'runVerificationGates',
+    tier: 'fast',
+    contents: `Perform a technical audit on this mechanistic model for logical inconsistencies or scientific red flags. MODEL: ${JSON.stringify(scaffold)}`,
+    responseSchema: { 
+      type: Type.ARRAY, 
+      items: { 
         type: Type.OBJECT, 
         properties: { 
-          scores: { type: Type.OBJECT, properties: { validity: { type: Type.NUMBER }, reproducibility: { type: Type.NUMBER }, robustness: { type: Type.NUMBER } }, required: ['validity', 'reproducibility', 'robustness'] }, 
-          summary: { type: Type.STRING }, 
-          claims: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { claim: { type: Type.STRING }, verdict: { type: Type.STRING, enum: ['Supported', 'Disputed', 'Pending'] }, citation: { type: Type.STRING } }, required: ['claim', 'verdict', 'citation'] } }, 
-          protocolDiffs: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { stepId: { type: Type.STRING }, original: { type: Type.STRING }, corrected: { type: Type.STRING }, rationale: { type: Type.STRING } }, required: ['stepId', 'original', 'corrected', 'rationale'] } }, 
-          artifacts: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, type: { type: Type.STRING, enum: ['code', 'dataset', 'report'] }, size: { type: Type.STRING } }, required: ['name', 'type', 'size'] } } 
-        },
-        required: ['scores', 'summary', 'claims', 'protocolDiffs', 'artifacts']
+          id: { type: Type.STRING }, 
+          name: { type: Type.STRING }, 
+          status: { type: Type.STRING, enum: ['Pass', 'Fail', 'Warn'] }, 
+          message: { type: Type.STRING } 
+        }, 
+        required: ['id', 'name', 'status', 'message']
       } 
-    }
-  });
-  return JSON.parse(response.text);
+    } 
+  }, validateVerificationChecks);
+  return checks.map(c => ({ ...c, id: `audit:${c.id}`, origin: 'audit' as const }));
+};
+
+// Only the fields the reviewer needs; full passages would crowd out the model and simulation.
+const evidenceDigest = (rag: RAGSource[]) => rag.map(r => ({
+  edge: r.edge, stance: r.stance, source: r.title, confidence: r.confidenceScore, quality: r.methodQuality, snippet: r.snippet.slice(0, 300)
+}));
+
+export const generateReviewerReport = async (scaffold: CausalGraphData, rag: RAGSource[], sim: SimulationResult, protocol: Protocol | null = null, power: PowerPlan | null = null): Promise<StructuredReport> => {
+  const protocolBrief = protocol
+    ? `Correct the PROTOCOL where the model, simulation or evidence show it cannot test the mechanism as written. In protocolDiffs, set "stepId" to the id of the step you correct and "original" to its text, or use "new" and an empty "original" for a step that must be added; put corrected doses, timepoints, controls, reagents or n in "change". PROTOCOL: ${JSON.stringify(protocolDigest(protocol))}`
+    : `No protocol has been written yet; in protocolDiffs, propose the steps an experiment testing this mechanism needs, each with "stepId" "new", an empty "original" and its doses, timepoints, controls and n in "change".`;
+  // The sample size is computed here, not judged by the model; corrections to n should agree with it.
+  const powerBrief = power?.n ? ` Where a correction sets n, use the power analysis: ${describePowerPlan(power)}` : '';
+  // Likewise robustness: it is replaced by the sensitivity score, which the summary should agree with.
+  const { sensitivity, ...simDigest } = sim;
+  const sensitivityBrief = sensitivity ? ` The robustness score is computed as ${sensitivity.score} from the sensitivity analysis: ${describeSensitivity(sensitivity)}` : '';
+  const report = await generateStructured({
+    task: 'generateReviewerReport',
+    tier: 'reasoning',
+    contents: `Compile a final Reviewer Mode evidence report based on this model, simulation data and retrieved source evidence. Judge each claim's verdict against the EVIDENCE passages (weighting by confidence) and set "edge" to the "source->target" key of the edge the claim concerns. ${protocolBrief}${powerBrief}${sensitivityBrief} MODEL: ${JSON.stringify(scaffold)}, SIM: ${JSON.stringify(simDigest)}, EVIDENCE: ${JSON.stringify(evidenceDigest(rag))}`,
+    context: { protocolSteps: protocol?.steps.map(s => s.id) || [] },
+    responseSchema: { 
+      type: Type.OBJECT, 
+      properties: { 
+        scores: { type: Type.OBJECT, properties: { validity: { type: Type.NUMBER }, reproducibility: { type: Type.NUMBER }, robustness: { type: Type.NUMBER } }, required: ['validity', 'reproducibility', 'robustness'] }, 
+        summary: { type: Type.STRING }, 
+        claims: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { claim: { type: Type.STRING }, verdict: { type: Type.STRING, enum: ['Supported', 'Disputed', 'Pending'] }, citation: { type: Type.STRING }, edge: { type: Type.STRING } }, required: ['claim', 'verdict', 'citation'] } }, 
+        protocolDiffs: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { stepId: { type: Type.STRING }, original: { type: Type.STRING }, corrected: { type: Type.STRING }, rationale: { type: Type.STRING }, change: { type: Type.OBJECT, properties: { kind: { type: Type.STRING, enum: STEP_KINDS }, ...STEP_FIELDS_SCHEMA } } }, required: ['stepId', 'original', 'corrected', 'rationale'] } }
+      },
+      required: ['scores', 'summary', 'claims', 'protocolDiffs']
+    } 
+  }, validateStructuredReport);
+  // Artifacts are generated here, not listed by the model, so every file in the bundle exists and reruns.
+  return {
+    ...report,
+    ...(sensitivity ? { scores: { ...report.scores, robustness: sensitivity.score }, sensitivity } : {}),
+    claims: attachClaimEvidence(report.claims, rag, scaffold),
+    artifacts: buildArtifacts(scaffold, sim),
+    protocolVersion: protocol?.id,
+    ...(power ? { power } : {})
+  };
 };
 
 export const speakText = async (text: string): Promise<Uint8Array> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: `Narrate concisely: ${text}` }] }],
-    config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } } }
-  });
-  const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-  if (!data) throw new Error("Audio synthesis failed.");
-  const binary = atob(data);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-  return bytes;
+  return getProvider().speak(`Narrate concisely: ${text}`);
 };
 
-export const editScientificImage = async (base64: string, prompt: string): Promise<string> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts: [{ inlineData: { data: base64, mimeType: 'image/png' } }, { text: prompt }] }
-  });
-  const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+export const editScientificImage = async (base64: string, prompt: string, mimeType: string = 'image/png'): Promise<string> => {
+  const data = await getProvider().editImage(base64, mimeType, prompt);
   return `data:image/png;base64,${data}`;
 };
+
+/**
+ * Reads a figure into prose that scaffolding and retrieval can cite: what is plotted, under which
+ * conditions, and each effect as a sentence naming cause and outcome.
+ */
+export const extractFigureText = async (figure: { data: string; mimeType: string }, title: string): Promise<string> => {
+  const response = await getProvider().generate({
+    task: 'extractFigureText',
+    tier: 'fast',
+    contents: `Describe the scientific figure "${title}" for a researcher who cannot see it. State the figure type, axes with units, groups or conditions, and sample sizes if shown. Then state every effect the figure shows as its own sentence that names the manipulated variable, the measured variable and the direction and approximate size of the change. Do not speculate beyond what is plotted.`,
+    images: [figure],
+    context: { title }
+  });
+  return response.text.trim();
+};
@@ -0,0 +1,48 @@
+import { CausalGraphData } from "../types";
+
+export const edgeKey = (source: string, target: string) => `${source}->${target}`;
+
+export const childrenOf = (graph: CausalGraphData, id: string) =>
+  graph.edges.filter(e => e.source === id).map(e => e.target);
+
+export const parentsOf = (graph: CausalGraphData, id: string) =>
+  graph.edges.filter(e => e.target === id).map(e => e.source);
+
+const walk = (start: string[], next: (id: string) => string[]) => {
+  const seen = new Set<string>();
+  const stack = [...start];
+  while (stack.length) {
+    const id = stack.pop()!;
+    next(id).forEach(n => {
+      if (!seen.has(n)) {
+        seen.add(n);
+        stack.push(n);
+      }
+    });
+  }
+  return seen;
+};
+
+// Strict descendants/ancestors: the start nodes are only included when they sit on a cycle.
+export const descendantsOf = (graph: CausalGraphData, ids: string | string[]) =>
+  walk(Array.isArray(ids) ? ids : [ids], id => childrenOf(graph, id));
+
+export const ancestorsOf = (graph: CausalGraphData, ids: string | string[]) =>
+  walk(Array.isArray(ids) ? ids : [ids], id => parentsOf(graph, id));
+
+// Breadth-first shortest directed path length, or Infinity when unreachable.
+export const pathLength = (graph: CausalGraphData, from: string, to: string) => {
+  const dist: Record<string, number> = { [from]: 0 };
+  const queue = [from];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (id === to) return dist[id];
+    childrenOf(graph, id).forEach(c => {
+      if (dist[c] === undefined) {
+        dist[c] = dist[id] + 1;
+        queue.push(c);
+      }
+    });
+  }
+  return Infinity;
+};
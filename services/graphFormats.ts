@@ -0,0 +1,425 @@
+import { CausalEdge, CausalGraphData, CausalNode, NodePosition } from "../types";
+import { newNodeId } from "./editing";
+import { decodeEntities } from "./html";
+import { effectiveWeight } from "./scm";
+
+/**
+ * Scaffolds in the formats other tools read: Graphviz DOT, GraphML, DAGitty model syntax and
+ * JSON-LD. Each can be read back. What a format has no place for (DAGitty has no link signs, only
+ * path coefficients) is carried as that format's own attributes where it allows them.
+ */
+
+export type GraphFormat = 'dot' | 'graphml' | 'dagitty' | 'jsonld';
+
+export const GRAPH_FORMATS: Record<GraphFormat, { label: string; extension: string; mimeType: string }> = {
+  dot: { label: 'Graphviz DOT', extension: '.dot', mimeType: 'text/vnd.graphviz' },
+  graphml: { label: 'GraphML', extension: '.graphml', mimeType: 'application/graphml+xml' },
+  dagitty: { label: 'DAGitty', extension: '.dagitty', mimeType: 'text/plain' },
+  jsonld: { label: 'JSON-LD', extension: '.jsonld', mimeType: 'application/ld+json' }
+};
+
+export class GraphFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphFormatError';
+  }
+}
+
+export interface GraphFile {
+  graph: CausalGraphData;
+  layout: Record<string, NodePosition>;
+}
+
+const NODE_TYPES: CausalNode['type'][] = ['variable', 'outcome', 'intervention'];
+const RELATIONSHIPS: CausalEdge['relationship'][] = ['positive', 'negative', 'correlative'];
+const NODE_COLORS: Record<CausalNode['type'], string> = { intervention: '#0ea5e9', outcome: '#ef4444', variable: '#64748b' };
+const EDGE_COLORS: Record<CausalEdge['relationship'], string> = { positive: '#10b981', negative: '#ef4444', correlative: '#94a3b8' };
+
+const num = (v: string | undefined) => {
+  const n = v === undefined || v.trim() === '' ? NaN : Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
+const defined = (entries: [string, unknown][]) => entries.filter(([, v]) => v !== undefined && v !== '') as [string, string | number | boolean][];
+
+// Node fields every format carries as plain attributes.
+const nodeFields = (n: CausalNode): [string, unknown][] => [
+  ['equation', n.equation], ['unit', n.unit], ['min', n.min], ['max', n.max], ['noise', n.noise], ['latent', n.latent || undefined]
+];
+// DOT names the weight `beta`, as DAGitty does: Graphviz's own `weight` is a layout setting.
+const edgeFields = (e: CausalEdge, weightKey = 'weight'): [string, unknown][] => [
+  [weightKey, e.weight], ['strength', e.strength], ['feedback', e.feedback || undefined]
+];
+
+const compact = <T extends object>(item: T): T => Object.fromEntries(Object.entries(item).filter(([, v]) => v !== undefined)) as T;
+
+/** Builds a node from attribute strings, whichever format they came from. */
+const readNode = (id: string, attrs: Record<string, string>): CausalNode => {
+  const type = attrs.type as CausalNode['type'];
+  return compact<CausalNode>({
+    id,
+    label: attrs.label || id,
+    type: NODE_TYPES.includes(type) ? type : 'variable',
+    equation: attrs.equation || undefined,
+    unit: attrs.unit || undefined,
+    min: num(attrs.min),
+    max: num(attrs.max),
+    noise: num(attrs.noise),
+    latent: attrs.latent === 'true' || undefined
+  });
+};
+
+const readEdge = (source: string, target: string, attrs: Record<string, string>, undirected = false): CausalEdge => {
+  // DAGitty calls the path coefficient `beta`.
+  const weight = num(attrs.weight ?? attrs.beta);
+  const stated = attrs.relationship as CausalEdge['relationship'];
+  const relationship = RELATIONSHIPS.includes(stated) ? stated
+    : undirected ? 'correlative'
+    : weight !== undefined && weight < 0 ? 'negative' : 'positive';
+  return compact<CausalEdge>({
+    source, target, relationship, weight,
+    strength: num(attrs.strength),
+    feedback: attrs.feedback === 'true' || undefined
+  });
+};
+
+// ---- DOT and DAGitty share a statement grammar: `a -> b [key=value, flag]` ----
+
+type Token = { kind: 'id' | 'op' | 'punct'; value: string };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const re = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|^\s*#[^\n]*|"((?:\\.|[^"\\])*)"|(<->|->|<-|--)|([{}[\]=;,])|((?:-(?![->])|[^\s{}[\]=;,"<>-])+)/gm;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (m[1] !== undefined) tokens.push({ kind: 'id', value: m[1].replace(/\\n/g, '\n').replace(/\\(.)/g, '$1') });
+    else if (m[2]) tokens.push({ kind: 'op', value: m[2] });
+    else if (m[3]) tokens.push({ kind: 'punct', value: m[3] });
+    else if (m[4]) tokens.push({ kind: 'id', value: m[4] });
+  }
+  return tokens;
+};
+
+type Statement =
+  | { kind: 'node'; id: string; attrs: Record<string, string> }
+  | { kind: 'edge'; ids: string[]; ops: string[]; attrs: Record<string, string> };
+
+/** Statements inside the outermost braces; nested subgraph braces are flattened. */
+const parseStatements = (tokens: Token[], format: string): Statement[] => {
+  const open = tokens.findIndex(t => t.value === '{');
+  if (open < 0) throw new GraphFormatError(`This is not a ${format} graph: no opening brace.`);
+  const out: Statement[] = [];
+  let i = open + 1;
+  const peek = () => tokens[i];
+  const readAttrs = () => {
+    const attrs: Record<string, string> = {};
+    while (peek()?.value === '[') {
+      i++;
+      while (peek() && peek().value !== ']') {
+        const key = tokens[i++];
+        if (key.kind !== 'id') continue;
+        if (peek()?.value === '=') {
+          i++;
+          attrs[key.value] = tokens[i++]?.value ?? '';
+        } else attrs[key.value] = 'true';
+      }
+      i++;
+    }
+    return attrs;
+  };
+  while (i < tokens.length) {
+    const t = tokens[i++];
+    if (t.kind === 'punct') continue;
+    if (t.value === 'subgraph') {
+      if (peek()?.kind === 'id') i++;
+      continue;
+    }
+    if (peek()?.value === '=') {
+      i += 2; // graph attribute, e.g. rankdir=LR or bb="..."
+      continue;
+    }
+    if (['graph', 'node', 'edge'].includes(t.value) && peek()?.value === '[') {
+      readAttrs(); // defaults
+      continue;
+    }
+    const ids = [t.value];
+    const ops: string[] = [];
+    while (peek()?.kind === 'op' && tokens[i + 1]?.kind === 'id') {
+      ops.push(tokens[i].value);
+      ids.push(tokens[i + 1].value);
+      i += 2;
+    }
+    const attrs = readAttrs();
+    out.push(ops.length ? { kind: 'edge', ids, ops, attrs } : { kind: 'node', id: t.value, attrs });
+  }
+  return out;
+};
+
+/**
+ * Assembles a graph from statements. `nodeAttrs` maps each format's node attributes onto ours (`id`, `x`, `y` included);
+ * `edgeAttrs` does the same for links.
+ */
+const buildGraph = (
+  statements: Statement[],
+  nodeAttrs: (name: string, attrs: Record<string, string>) => Record<string, string>,
+  edgeAttrs: (attrs: Record<string, string>) => Record<string, string> = attrs => attrs
+) => {
+  const attrsByName = new Map<string, Record<string, string>>();
+  const touch = (name: string, attrs: Record<string, string> = {}) => attrsByName.set(name, { ...attrsByName.get(name), ...attrs });
+  const links: { from: string; to: string; op: string; attrs: Record<string, string> }[] = [];
+  statements.forEach(s => {
+    if (s.kind === 'node') return touch(s.id, s.attrs);
+    s.ids.forEach(id => touch(id));
+    s.ops.forEach((op, k) => {
+      // `a <- b` is `b -> a`
+      const [from, to] = op === '<-' ? [s.ids[k + 1], s.ids[k]] : [s.ids[k], s.ids[k + 1]];
+      links.push({ from, to, op, attrs: s.attrs });
+    });
+  });
+
+  const graph: CausalGraphData = { nodes: [], edges: [] };
+  const layout: Record<string, NodePosition> = {};
+  const ids = new Map<string, string>();
+  attrsByName.forEach((raw, name) => {
+    const attrs = nodeAttrs(name, raw);
+    const id = attrs.id && !graph.nodes.some(n => n.id === attrs.id) ? attrs.id : newNodeId(graph, name);
+    ids.set(name, id);
+    graph.nodes.push(readNode(id, attrs));
+    const x = num(attrs.x);
+    const y = num(attrs.y);
+    if (x !== undefined && y !== undefined) layout[id] = { x: Math.round(x), y: Math.round(y) };
+  });
+  links.forEach(({ from, to, op, attrs }) => {
+    const edge = readEdge(ids.get(from)!, ids.get(to)!, edgeAttrs(attrs), op === '--' || op === '<->' || attrs.dir === 'none' || attrs.dir === 'both');
+    if (edge.source !== edge.target && !graph.edges.some(e => e.source === edge.source && e.target === edge.target)) graph.edges.push(edge);
+  });
+  return { graph, layout };
+};
+
+const dotQuote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+const dotAttrs = (entries: [string, unknown][]) => {
+  const list = defined(entries);
+  return list.length ? ` [${list.map(([k, v]) => `${k}=${dotQuote(String(v))}`).join(', ')}]` : '';
+};
+
+export const toDot = (graph: CausalGraphData, layout: Record<string, NodePosition> = {}) => [
+  'digraph ProofSmith {',
+  '  rankdir=LR;',
+  '  node [shape=ellipse, style=filled, fontname="Helvetica", fontcolor="white"];',
+  '  edge [fontname="Helvetica"];',
+  ...graph.nodes.map(n => `  ${dotQuote(n.id)}${dotAttrs([
+    ['label', n.label], ['type', n.type], ['fillcolor', NODE_COLORS[n.type]], ['style', n.latent ? 'filled,dashed' : undefined],
+    ...nodeFields(n),
+    // Graphviz's y axis points up; `!` keeps neato from moving the node.
+    ['pos', layout[n.id] ? `${layout[n.id].x},${-layout[n.id].y}!` : undefined]
+  ])};`),
+  ...graph.edges.map(e => `  ${dotQuote(e.source)} -> ${dotQuote(e.target)}${dotAttrs([
+    ['relationship', e.relationship], ['color', EDGE_COLORS[e.relationship]],
+    ['label', e.relationship === 'positive' ? '+' : e.relationship === 'negative' ? '−' : undefined],
+    ['style', e.relationship === 'correlative' ? 'dashed' : undefined], ['dir', e.relationship === 'correlative' ? 'both' : undefined],
+    ...edgeFields(e, 'beta')
+  ])};`),
+  '}',
+  ''
+].join('\n');
+
+export const fromDot = (text: string): GraphFile => {
+  if (!/^\s*(strict\s+)?(di)?graph\b/i.test(text.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, ''))) throw new GraphFormatError('This is not a Graphviz DOT graph.');
+  return buildGraph(parseStatements(tokenize(text), 'Graphviz DOT'), (name, attrs) => {
+    const [x, y] = (attrs.pos || '').replace('!', '').split(',');
+    return { ...attrs, id: name, x, y: y === undefined ? '' : String(-Number(y)) };
+  }, ({ weight, ...attrs }) => {
+    // Graphviz's `weight` only straightens edges, so the path coefficient is `beta`. Files this app wrote
+    // before it switched to `beta` carry the coefficient as `weight`, and can be told apart by `relationship`.
+    const beta = attrs.beta ?? (attrs.relationship ? weight : undefined);
+    return beta === undefined ? attrs : { ...attrs, weight: beta };
+  });
+};
+
+// ---- DAGitty ----
+
+// DAGitty positions are in small units with y pointing down, like the canvas.
+const DAGITTY_SCALE = 100;
+
+const dagittyName = (s: string) => /^[A-Za-z_][A-Za-z0-9_.]*$/.test(s) ? s : `"${s.replace(/"/g, '\\"')}"`;
+
+/** Model syntax for dagitty.net and the dagitty R package. Correlative links become `<->` (a latent common cause). */
+export const toDagitty = (graph: CausalGraphData, layout: Record<string, NodePosition> = {}) => {
+  // Labels read best in DAGitty; ids stand in where two nodes share a label.
+  const names = new Map(graph.nodes.map(n => [n.id, graph.nodes.filter(o => o.label === n.label).length > 1 ? n.id : n.label]));
+  return [
+    'dag {',
+    ...graph.nodes.map(n => {
+      const flags = [n.type === 'intervention' && 'exposure', n.type === 'outcome' && 'outcome', n.latent && 'latent'].filter(Boolean) as string[];
+      const pos = layout[n.id] ? `pos="${(layout[n.id].x / DAGITTY_SCALE).toFixed(3)},${(layout[n.id].y / DAGITTY_SCALE).toFixed(3)}"` : '';
+      const attrs = [...flags, pos].filter(Boolean);
+      return `${dagittyName(names.get(n.id)!)}${attrs.length ? ` [${attrs.join(',')}]` : ''}`;
+    }),
+    ...graph.edges.map(e => e.relationship === 'correlative'
+      ? `${dagittyName(names.get(e.source)!)} <-> ${dagittyName(names.get(e.target)!)}`
+      // `beta` is the path coefficient dagitty's simulateSEM reads.
+      : `${dagittyName(names.get(e.source)!)} -> ${dagittyName(names.get(e.target)!)} [beta=${Number(effectiveWeight(e).toFixed(4))}]`),
+    '}',
+    ''
+  ].join('\n');
+};
+
+export const fromDagitty = (text: string): GraphFile => {
+  if (!/^\s*(dag|pdag|mag|pag)\s*\{/i.test(text)) throw new GraphFormatError('This is not a DAGitty model: it should start with "dag {".');
+  return buildGraph(parseStatements(tokenize(text), 'DAGitty'), (name, attrs) => {
+    const [x, y] = (attrs.pos || '').split(',').map(v => num(v));
+    return {
+      label: name,
+      type: attrs.exposure ? 'intervention' : attrs.outcome ? 'outcome' : 'variable',
+      latent: attrs.latent || '',
+      x: x === undefined ? '' : String(x * DAGITTY_SCALE),
+      y: y === undefined ? '' : String(y * DAGITTY_SCALE)
+    };
+  });
+};
+
+// ---- GraphML ----
+
+const xmlEscape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const GRAPHML_KEYS: [string, 'node' | 'edge', string][] = [
+  ['label', 'node', 'string'], ['type', 'node', 'string'], ['equation', 'node', 'string'], ['unit', 'node', 'string'],
+  ['min', 'node', 'double'], ['max', 'node', 'double'], ['noise', 'node', 'double'], ['latent', 'node', 'boolean'],
+  ['x', 'node', 'double'], ['y', 'node', 'double'],
+  ['relationship', 'edge', 'string'], ['weight', 'edge', 'double'], ['strength', 'edge', 'double'], ['feedback', 'edge', 'boolean']
+];
+
+const graphmlData = (entries: [string, unknown][]) =>
+  defined(entries).map(([k, v]) => `<data key="${k}">${xmlEscape(String(v))}</data>`).join('');
+
+export const toGraphML = (graph: CausalGraphData, layout: Record<string, NodePosition> = {}) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+  ...GRAPHML_KEYS.map(([name, kind, type]) => `  <key id="${name}" for="${kind}" attr.name="${name}" attr.type="${type}"/>`),
+  '  <graph id="ProofSmith" edgedefault="directed">',
+  ...graph.nodes.map(n => `    <node id="${xmlEscape(n.id)}">${graphmlData([
+    ['label', n.label], ['type', n.type], ...nodeFields(n), ['x', layout[n.id]?.x], ['y', layout[n.id]?.y]
+  ])}</node>`),
+  ...graph.edges.map(e => `    <edge source="${xmlEscape(e.source)}" target="${xmlEscape(e.target)}">${graphmlData([['relationship', e.relationship], ...edgeFields(e)])}</edge>`),
+  '  </graph>',
+  '</graphml>',
+  ''
+].join('\n');
+
+const xmlAttr = (tag: string, name: string) => {
+  const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return m ? decodeEntities(m[2] ?? m[3]) : undefined;
+};
+
+/** Reads GraphML from any tool; keys are matched by their `attr.name`, since ids like `d0` vary. */
+export const fromGraphML = (text: string): GraphFile => {
+  if (!/<graphml\b/.test(text)) throw new GraphFormatError('This is not a GraphML file.');
+  const keyNames = new Map<string, string>();
+  for (const m of text.matchAll(/<key\b[^>]*>/g)) {
+    const id = xmlAttr(m[0], 'id');
+    if (id) keyNames.set(id, xmlAttr(m[0], 'attr\\.name') || id);
+  }
+  const dataOf = (body: string) => {
+    const attrs: Record<string, string> = {};
+    for (const m of body.matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+      const key = xmlAttr(m[1], 'key');
+      // yEd and others nest markup in data; only plain values are read.
+      if (key && !m[2].includes('<')) attrs[keyNames.get(key) || key] = decodeEntities(m[2].trim());
+    }
+    return attrs;
+  };
+  const undirectedGraph = /<graph\b[^>]*edgedefault\s*=\s*["']undirected/.test(text);
+  const statements: Statement[] = [];
+  for (const m of text.matchAll(/<node\b([^>]*?)(\/>|>([\s\S]*?)<\/node>)/g)) {
+    const id = xmlAttr(m[1], 'id');
+    if (id) statements.push({ kind: 'node', id, attrs: dataOf(m[3] || '') });
+  }
+  for (const m of text.matchAll(/<edge\b([^>]*?)(\/>|>([\s\S]*?)<\/edge>)/g)) {
+    const source = xmlAttr(m[1], 'source');
+    const target = xmlAttr(m[1], 'target');
+    const directed = xmlAttr(m[1], 'directed');
+    if (source && target) statements.push({ kind: 'edge', ids: [source, target], ops: [directed === 'false' || (undirectedGraph && directed !== 'true') ? '--' : '->'], attrs: dataOf(m[3] || '') });
+  }
+  return buildGraph(statements, (name, attrs) => ({ ...attrs, id: name }));
+};
+
+// ---- JSON-LD ----
+
+const NS = 'urn:proofsmith:causal#';
+const NODE_CLASSES: Record<CausalNode['type'], string> = { variable: 'Variable', intervention: 'Intervention', outcome: 'Outcome' };
+const nodeIri = (id: string) => `node:${encodeURIComponent(id)}`;
+
+/** Linked-data form, with evidence quotes, for pipelines that consume RDF. */
+export const toJsonLd = (graph: CausalGraphData, layout: Record<string, NodePosition> = {}) => JSON.stringify({
+  '@context': { '@vocab': NS, source: { '@type': '@id' }, target: { '@type': '@id' } },
+  '@type': 'CausalGraph',
+  nodes: graph.nodes.map(n => ({
+    '@id': nodeIri(n.id),
+    '@type': NODE_CLASSES[n.type],
+    ...Object.fromEntries(defined([['label', n.label], ...nodeFields(n), ['x', layout[n.id]?.x], ['y', layout[n.id]?.y]])),
+    ...(n.aliases?.length ? { alias: n.aliases } : {}),
+    ...(n.provenance?.length ? { evidence: n.provenance } : {})
+  })),
+  edges: graph.edges.map(e => ({
+    '@type': 'CausalLink',
+    source: nodeIri(e.source),
+    target: nodeIri(e.target),
+    relationship: e.relationship,
+    ...Object.fromEntries(defined(edgeFields(e))),
+    ...(e.provenance?.length ? { evidence: e.provenance } : {})
+  }))
+}, null, 2);
+
+export const fromJsonLd = (text: string): GraphFile => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new GraphFormatError('The file is not valid JSON.');
+  }
+  if (!Array.isArray(doc?.nodes) || !Array.isArray(doc?.edges)) throw new GraphFormatError('This JSON-LD has no causal graph nodes and edges.');
+  const idOf = (iri: unknown) => typeof iri === 'string' ? decodeURIComponent(iri.replace(/^node:/, '')) : '';
+  const type = (cls: unknown) => (Object.keys(NODE_CLASSES) as CausalNode['type'][]).find(t => NODE_CLASSES[t] === cls) || 'variable';
+  const asAttrs = (o: any) => Object.fromEntries(Object.entries(o).filter(([, v]) => ['string', 'number', 'boolean'].includes(typeof v)).map(([k, v]) => [k, String(v)]));
+  const statements: Statement[] = [
+    ...doc.nodes.filter((n: any) => idOf(n?.['@id'])).map((n: any) => ({ kind: 'node' as const, id: idOf(n['@id']), attrs: { ...asAttrs(n), type: type(n['@type']) } })),
+    ...doc.edges.filter((e: any) => idOf(e?.source) && idOf(e?.target)).map((e: any) => ({ kind: 'edge' as const, ids: [idOf(e.source), idOf(e.target)], ops: ['->'], attrs: asAttrs(e) }))
+  ];
+  const file = buildGraph(statements, (name, attrs) => ({ ...attrs, id: name }));
+  // Evidence quotes survive the round trip.
+  file.graph.nodes.forEach(n => {
+    const original = doc.nodes.find((o: any) => idOf(o?.['@id']) === n.id);
+    if (Array.isArray(original?.alias)) n.aliases = original.alias.filter((a: unknown) => typeof a === 'string');
+    if (Array.isArray(original?.evidence)) n.provenance = original.evidence;
+  });
+  file.graph.edges.forEach(e => {
+    const original = doc.edges.find((o: any) => idOf(o?.source) === e.source && idOf(o?.target) === e.target);
+    if (Array.isArray(original?.evidence)) e.provenance = original.evidence;
+  });
+  return file;
+};
+
+const WRITERS: Record<GraphFormat, (graph: CausalGraphData, layout?: Record<string, NodePosition>) => string> = {
+  dot: toDot, graphml: toGraphML, dagitty: toDagitty, jsonld: toJsonLd
+};
+const READERS: Record<GraphFormat, (text: string) => GraphFile> = {
+  dot: fromDot, graphml: fromGraphML, dagitty: fromDagitty, jsonld: fromJsonLd
+};
+
+export const writeGraph = (format: GraphFormat, graph: CausalGraphData, layout?: Record<string, NodePosition>) => WRITERS[format](graph, layout);
+
+/** Picks the reader from the file extension, or from the content when the extension says nothing. */
+export const readGraphFile = (name: string, text: string): GraphFile => {
+  const ext = name.toLowerCase().slice(name.lastIndexOf('.'));
+  const byExtension = (Object.keys(GRAPH_FORMATS) as GraphFormat[]).find(f => GRAPH_FORMATS[f].extension === ext)
+    || (ext === '.gv' ? 'dot' : ext === '.xml' ? 'graphml' : undefined);
+  const trimmed = text.trimStart();
+  const format = byExtension
+    || (trimmed.startsWith('{') ? 'jsonld'
+      : trimmed.startsWith('<') ? 'graphml'
+      : /^(dag|pdag|mag|pag)\s*\{/i.test(trimmed) ? 'dagitty'
+      : /^(strict\s+)?(di)?graph\b/i.test(trimmed) ? 'dot' : undefined);
+  if (!format) throw new GraphFormatError('Unrecognised graph file: use DOT, GraphML, DAGitty or JSON-LD.');
+  const file = READERS[format](text);
+  if (!file.graph.nodes.length) throw new GraphFormatError(`The ${GRAPH_FORMATS[format].label} file has no nodes.`);
+  return file;
+};
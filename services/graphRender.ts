@@ -0,0 +1,337 @@
+// Drawing for the causal canvas. The view reduces the graph to a scene of styled circles and lines,
+// which is painted to a <canvas> on screen and serialised to SVG for figures.
+
+export interface SceneNode {
+  id: string;
+  x: number;
+  y: number;
+  r: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  dashed?: boolean;
+  opacity: number;
+  label: string;
+  bold?: boolean;
+  value?: string; // simulation readout, drawn inside the circle
+  priority: number; // labels are placed in priority order; LABEL_ALWAYS and above are never dropped
+  ring?: { color: string; dashed: boolean; caption: string }; // collaborator presence
+}
+
+export interface SceneLink {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  targetRadius: number;
+  stroke: string;
+  width: number;
+  opacity: number;
+  dashed?: boolean;
+}
+
+export interface Scene {
+  nodes: SceneNode[];
+  links: SceneLink[];
+  connector?: { x1: number; y1: number; x2: number; y2: number } | null;
+}
+
+export interface View {
+  x: number;
+  y: number;
+  k: number;
+  width: number;
+  height: number;
+}
+
+export interface LegendItem {
+  label: string;
+  color: string;
+  shape: 'node' | 'ring' | 'line';
+  dashed?: boolean;
+}
+
+export const LABEL_ALWAYS = 2;
+
+// Below these zoom levels the detail is unreadable and only costs frame time.
+const LABEL_ZOOM = 0.65;
+const ARROW_ZOOM = 0.4;
+const VALUE_ZOOM = 0.8;
+
+const FONT_SIZE = 11;
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const LABEL_OFFSET = 25;
+const ARROW_LENGTH = 9;
+const LABEL_CELL = 64;
+
+const PADDING = 40;
+const LEGEND_ROW = 24;
+const LEGEND_ITEM = 150;
+
+const widths = new Map<string, number>();
+const labelWidth = (ctx: CanvasRenderingContext2D | null, label: string, bold?: boolean) => {
+  const key = `${bold ? 'b' : 'n'}|${label}`;
+  let w = widths.get(key);
+  if (w === undefined) {
+    // Without a context (SVG export) an average glyph width is close enough for layout.
+    w = ctx ? ctx.measureText(label).width : label.length * FONT_SIZE * (bold ? 0.62 : 0.56);
+    widths.set(key, w);
+  }
+  return w;
+};
+
+/** Distance from (px, py) to the segment from (x1, y1) to (x2, y2), for picking links. */
+export const distanceToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / len2)) : 0;
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+};
+
+/** The tip of a link stops at the edge of its target circle, where the arrowhead sits. */
+const linkEnd = (l: SceneLink) => {
+  const dx = l.x2 - l.x1;
+  const dy = l.y2 - l.y1;
+  const len = Math.hypot(dx, dy) || 1;
+  const ux = dx / len;
+  const uy = dy / len;
+  const tipX = l.x2 - ux * (l.targetRadius + 2);
+  const tipY = l.y2 - uy * (l.targetRadius + 2);
+  const baseX = tipX - ux * ARROW_LENGTH;
+  const baseY = tipY - uy * ARROW_LENGTH;
+  const half = ARROW_LENGTH * 0.5;
+  return {
+    tip: [tipX, tipY],
+    left: [baseX - uy * half, baseY + ux * half],
+    right: [baseX + uy * half, baseY - ux * half],
+    short: len <= l.targetRadius + ARROW_LENGTH
+  };
+};
+
+/**
+ * Labels that fit, highest priority first. Boxes are tested against a coarse grid of the ones already
+ * placed, so a dense zoomed-out graph shows its hubs and outcomes instead of a smear of text.
+ */
+export const pickLabels = (nodes: SceneNode[], k: number, measure: (n: SceneNode) => number): SceneNode[] => {
+  const candidates = (k >= LABEL_ZOOM ? nodes : nodes.filter(n => n.priority >= LABEL_ALWAYS))
+    .slice().sort((a, b) => b.priority - a.priority);
+  const grid = new Map<string, [number, number, number, number][]>();
+  const placed: SceneNode[] = [];
+  const cell = LABEL_CELL / k;
+  candidates.forEach(n => {
+    const box: [number, number, number, number] = [n.x + LABEL_OFFSET, n.y - FONT_SIZE, n.x + LABEL_OFFSET + measure(n), n.y + 5];
+    const keys: string[] = [];
+    for (let gx = Math.floor(box[0] / cell); gx <= Math.floor(box[2] / cell); gx++) {
+      for (let gy = Math.floor(box[1] / cell); gy <= Math.floor(box[3] / cell); gy++) keys.push(`${gx},${gy}`);
+    }
+    const hit = keys.some(key => (grid.get(key) || []).some(b => b[0] < box[2] && box[0] < b[2] && b[1] < box[3] && box[1] < b[3]));
+    if (hit && n.priority < LABEL_ALWAYS) return;
+    keys.forEach(key => {
+      const boxes = grid.get(key);
+      if (boxes) boxes.push(box);
+      else grid.set(key, [box]);
+    });
+    placed.push(n);
+  });
+  return placed;
+};
+
+/** Paints `scene` under the pan and zoom in `view`, skipping whatever lies outside it. */
+export const drawScene = (ctx: CanvasRenderingContext2D, scene: Scene, view: View, pixelRatio = 1) => {
+  const { k } = view;
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, view.width, view.height);
+  ctx.setTransform(pixelRatio * k, 0, 0, pixelRatio * k, pixelRatio * view.x, pixelRatio * view.y);
+
+  const margin = 40 / k;
+  const minX = -view.x / k - margin;
+  const minY = -view.y / k - margin;
+  const maxX = (view.width - view.x) / k + margin;
+  const maxY = (view.height - view.y) / k + margin;
+  const inView = (x: number, y: number, r: number) => x + r >= minX && x - r <= maxX && y + r >= minY && y - r <= maxY;
+
+  // Links sharing a style go out in one path; a large graph has only a handful of styles.
+  const batches = new Map<string, SceneLink[]>();
+  scene.links.forEach(l => {
+    if (Math.max(l.x1, l.x2) < minX || Math.min(l.x1, l.x2) > maxX || Math.max(l.y1, l.y2) < minY || Math.min(l.y1, l.y2) > maxY) return;
+    const key = `${l.stroke}|${l.width}|${l.opacity}|${l.dashed ? 1 : 0}`;
+    const batch = batches.get(key);
+    if (batch) batch.push(l);
+    else batches.set(key, [l]);
+  });
+  batches.forEach(links => {
+    const { stroke, width, opacity, dashed } = links[0];
+    ctx.globalAlpha = opacity;
+    ctx.strokeStyle = stroke;
+    ctx.fillStyle = stroke;
+    ctx.lineWidth = width;
+    ctx.setLineDash(dashed ? [4, 2] : []);
+    ctx.beginPath();
+    links.forEach(l => { ctx.moveTo(l.x1, l.y1); ctx.lineTo(l.x2, l.y2); });
+    ctx.stroke();
+    if (k >= ARROW_ZOOM) {
+      ctx.beginPath();
+      links.forEach(l => {
+        const end = linkEnd(l);
+        if (end.short) return;
+        ctx.moveTo(end.tip[0], end.tip[1]);
+        ctx.lineTo(end.left[0], end.left[1]);
+        ctx.lineTo(end.right[0], end.right[1]);
+        ctx.closePath();
+      });
+      ctx.fill();
+    }
+  });
+  ctx.setLineDash([]);
+
+  const visible = scene.nodes.filter(n => inView(n.x, n.y, n.r + LABEL_OFFSET));
+  visible.forEach(n => {
+    ctx.globalAlpha = n.opacity;
+    ctx.beginPath();
+    ctx.arc(n.x, n.y, n.r, 0, 2 * Math.PI);
+    ctx.fillStyle = n.fill;
+    ctx.fill();
+    ctx.lineWidth = n.strokeWidth;
+    ctx.strokeStyle = n.stroke;
+    ctx.setLineDash(n.dashed ? [4, 2] : []);
+    ctx.stroke();
+    if (n.ring) {
+      ctx.beginPath();
+      ctx.arc(n.x, n.y, n.r + 7, 0, 2 * Math.PI);
+      ctx.lineWidth = n.ring.dashed ? 2 : 3;
+      ctx.strokeStyle = n.ring.color;
+      ctx.setLineDash(n.ring.dashed ? [4, 3] : []);
+      ctx.stroke();
+    }
+  });
+  ctx.setLineDash([]);
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.lineJoin = 'round';
+  if (k >= VALUE_ZOOM) {
+    ctx.font = `bold 9px ${FONT_FAMILY}`;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#ffffff';
+    visible.forEach(n => {
+      if (n.value === undefined) return;
+      ctx.globalAlpha = n.opacity;
+      ctx.fillText(n.value, n.x, n.y + 4);
+    });
+  }
+  ctx.font = `800 9px ${FONT_FAMILY}`;
+  ctx.textAlign = 'center';
+  visible.forEach(n => {
+    if (!n.ring?.caption) return;
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = n.ring.color;
+    ctx.fillText(n.ring.caption, n.x, n.y - n.r - 11);
+  });
+
+  ctx.textAlign = 'left';
+  const measure = (n: SceneNode) => {
+    ctx.font = `${n.bold ? 800 : 600} ${FONT_SIZE}px ${FONT_FAMILY}`;
+    return labelWidth(ctx, n.label, n.bold);
+  };
+  pickLabels(visible, k, measure).forEach(n => {
+    ctx.font = `${n.bold ? 800 : 600} ${FONT_SIZE}px ${FONT_FAMILY}`;
+    ctx.globalAlpha = n.opacity;
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(255,255,255,0.85)';
+    ctx.strokeText(n.label, n.x + LABEL_OFFSET, n.y + 5);
+    ctx.fillStyle = '#334155';
+    ctx.fillText(n.label, n.x + LABEL_OFFSET, n.y + 5);
+  });
+
+  if (scene.connector) {
+    const c = scene.connector;
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = '#6366f1';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([5, 4]);
+    ctx.beginPath();
+    ctx.moveTo(c.x1, c.y1);
+    ctx.lineTo(c.x2, c.y2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+  ctx.globalAlpha = 1;
+};
+
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+const attrs = (a: Record<string, string | number | undefined>) =>
+  Object.entries(a).filter(([, v]) => v !== undefined).map(([k, v]) => `${k}="${typeof v === 'number' ? +v.toFixed(2) : escapeXml(v!)}"`).join(' ');
+const dash = (dashed?: boolean) => dashed ? '4 2' : undefined;
+
+/**
+ * A standalone SVG document of `scene` cropped to its content, unzoomed, with every label and a
+ * legend. Presence rings and the connector describe this session, not the model, and are left out.
+ */
+export const sceneToSvg = (scene: Scene, legend: LegendItem[]) => {
+  if (!scene.nodes.length) throw new Error('Nothing is drawn yet.');
+  const x0 = Math.min(...scene.nodes.map(n => n.x - n.r));
+  const y0 = Math.min(...scene.nodes.map(n => n.y - n.r));
+  const x1 = Math.max(...scene.nodes.map(n => n.x + LABEL_OFFSET + labelWidth(null, n.label, n.bold)));
+  const y1 = Math.max(...scene.nodes.map(n => n.y + n.r));
+  const boxWidth = x1 - x0;
+  const boxHeight = y1 - y0;
+  const width = Math.ceil(Math.max(boxWidth + 2 * PADDING, 320));
+  const perRow = Math.max(1, Math.floor((width - 2 * PADDING) / LEGEND_ITEM));
+  const legendHeight = legend.length ? Math.ceil(legend.length / perRow) * LEGEND_ROW + PADDING / 2 : 0;
+  const height = Math.ceil(boxHeight + 2 * PADDING + legendHeight);
+  const left = x0 - (width - boxWidth) / 2;
+  const top = y0 - PADDING;
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" ${attrs({ width, height, viewBox: `${+left.toFixed(2)} ${+top.toFixed(2)} ${width} ${height}`, 'font-family': FONT_FAMILY })}>`,
+    `<rect ${attrs({ x: left, y: top, width, height, fill: '#ffffff' })}/>`,
+    '<g class="links">'
+  ];
+  scene.links.forEach(l => {
+    out.push(`<line ${attrs({ x1: l.x1, y1: l.y1, x2: l.x2, y2: l.y2, stroke: l.stroke, 'stroke-width': l.width, 'stroke-opacity': l.opacity, 'stroke-dasharray': dash(l.dashed) })}/>`);
+    const end = linkEnd(l);
+    if (!end.short) out.push(`<polygon ${attrs({ points: [end.tip, end.left, end.right].map(p => p.map(v => +v.toFixed(2)).join(',')).join(' '), fill: l.stroke, 'fill-opacity': l.opacity })}/>`);
+  });
+  out.push('</g>', '<g class="nodes">');
+  scene.nodes.forEach(n => {
+    out.push(`<g ${attrs({ opacity: n.opacity < 1 ? n.opacity : undefined })}>`);
+    out.push(`<circle ${attrs({ cx: n.x, cy: n.y, r: n.r, fill: n.fill, stroke: n.stroke, 'stroke-width': n.strokeWidth, 'stroke-dasharray': dash(n.dashed) })}/>`);
+    if (n.value !== undefined) out.push(`<text ${attrs({ x: n.x, y: n.y + 4, 'text-anchor': 'middle', fill: '#ffffff', 'font-size': 9, 'font-weight': 'bold' })}>${escapeXml(n.value)}</text>`);
+    out.push(`<text ${attrs({ x: n.x + LABEL_OFFSET, y: n.y + 5, 'font-size': FONT_SIZE, 'font-weight': 600, fill: '#334155' })}>${escapeXml(n.label)}</text>`);
+    out.push('</g>');
+  });
+  out.push('</g>', '<g class="legend">');
+  legend.forEach((item, i) => {
+    const x = left + PADDING + (i % perRow) * LEGEND_ITEM;
+    const y = top + boxHeight + 2 * PADDING + Math.floor(i / perRow) * LEGEND_ROW;
+    const itemDash = item.dashed ? '4 2' : undefined;
+    if (item.shape === 'line') out.push(`<line ${attrs({ x1: x, y1: y, x2: x + 22, y2: y, stroke: item.color, 'stroke-width': 3, 'stroke-dasharray': itemDash })}/>`);
+    else if (item.shape === 'ring') out.push(`<circle ${attrs({ cx: x + 11, cy: y, r: 7, fill: '#ffffff', stroke: item.color, 'stroke-width': 3, 'stroke-dasharray': itemDash })}/>`);
+    else out.push(`<circle ${attrs({ cx: x + 11, cy: y, r: 7, fill: item.color })}/>`);
+    out.push(`<text ${attrs({ x: x + 30, y: y + 4, 'font-size': 11, fill: '#334155' })}>${escapeXml(item.label)}</text>`);
+  });
+  out.push('</g>', '</svg>');
+
+  return { svg: out.join('\n'), width, height };
+};
+
+/** Rasterises an SVG document at `scale`× its size (3× suits print). */
+export const svgToPng = (svg: string, width: number, height: number, scale = 3) => new Promise<Blob>((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+    URL.revokeObjectURL(url);
+    if (!ctx) return reject(new Error('Canvas is not available.'));
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed.')), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The figure could not be rendered.'));
+  };
+  image.src = url;
+});
@@ -0,0 +1,130 @@
+import { CausalEdge, CausalGraphData, CausalNode, RevisionOrigin, ScaffoldBranch, ScaffoldRevision } from "../types";
+import { edgeKey } from "./graph";
+
+export const MAIN_BRANCH = 'main';
+
+export const REVISION_ORIGINS: Record<RevisionOrigin, string> = {
+  source: 'New source',
+  expansion: 'Node expansion',
+  edit: 'Manual edit',
+  'entity-merge': 'Entity merge',
+  estimate: 'Data estimate',
+  restore: 'Restore',
+  import: 'Import'
+};
+
+// Fields that change what the model says; provenance and layout are bookkeeping.
+const NODE_FIELDS: (keyof CausalNode)[] = ['label', 'type', 'equation', 'min', 'max', 'unit', 'noise', 'latent', 'value'];
+const EDGE_FIELDS: (keyof CausalEdge)[] = ['relationship', 'weight', 'strength', 'feedback'];
+
+export interface ScaffoldDiff {
+  addedNodes: string[];
+  removedNodes: CausalNode[];
+  changedNodes: Record<string, string[]>; // node id -> changed fields
+  addedEdges: string[]; // edge keys
+  removedEdges: CausalEdge[];
+  changedEdges: Record<string, string[]>; // edge key -> changed fields
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+const changedFields = <T>(before: T, after: T, fields: (keyof T)[]) =>
+  fields.filter(f => JSON.stringify(before[f]) !== JSON.stringify(after[f])).map(String);
+
+/** What it takes to get from `before` to `after`; removed items keep their old data so they can be drawn. */
+export const diffScaffolds = (before: CausalGraphData | null | undefined, after: CausalGraphData | null | undefined): ScaffoldDiff => {
+  const oldNodes = new Map((before?.nodes || []).map(n => [n.id, n]));
+  const newNodes = new Map((after?.nodes || []).map(n => [n.id, n]));
+  const oldEdges = new Map((before?.edges || []).map(e => [edgeKey(e.source, e.target), e]));
+  const newEdges = new Map((after?.edges || []).map(e => [edgeKey(e.source, e.target), e]));
+
+  const changedNodes: Record<string, string[]> = {};
+  newNodes.forEach((n, id) => {
+    const old = oldNodes.get(id);
+    const fields = old ? changedFields(old, n, NODE_FIELDS) : [];
+    if (fields.length) changedNodes[id] = fields;
+  });
+  const changedEdges: Record<string, string[]> = {};
+  newEdges.forEach((e, key) => {
+    const old = oldEdges.get(key);
+    const fields = old ? changedFields(old, e, EDGE_FIELDS) : [];
+    if (fields.length) changedEdges[key] = fields;
+  });
+
+  return {
+    addedNodes: [...newNodes.keys()].filter(id => !oldNodes.has(id)),
+    removedNodes: [...oldNodes.values()].filter(n => !newNodes.has(n.id)),
+    changedNodes,
+    addedEdges: [...newEdges.keys()].filter(key => !oldEdges.has(key)),
+    removedEdges: [...oldEdges.entries()].filter(([key]) => !newEdges.has(key)).map(([, e]) => e),
+    changedEdges
+  };
+};
+
+export const isEmptyDiff = (diff: ScaffoldDiff) =>
+  !diff.addedNodes.length && !diff.removedNodes.length && !Object.keys(diff.changedNodes).length
+  && !diff.addedEdges.length && !diff.removedEdges.length && !Object.keys(diff.changedEdges).length;
+
+export const summarizeDiff = (diff: ScaffoldDiff) => {
+  const count = (n: number, what: string, verb: string) => (n ? `${n} ${what}${n === 1 ? '' : 's'} ${verb}` : '');
+  const parts = [
+    count(diff.addedNodes.length, 'node', 'added'),
+    count(diff.removedNodes.length, 'node', 'removed'),
+    count(Object.keys(diff.changedNodes).length, 'node', 'changed'),
+    count(diff.addedEdges.length, 'link', 'added'),
+    count(diff.removedEdges.length, 'link', 'removed'),
+    count(Object.keys(diff.changedEdges).length, 'link', 'changed')
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'no changes';
+};
+
+/** Every node's and link's status in `diff`, by id and edge key, so the canvas can look each one up as it draws. */
+export const diffStatuses = (diff: ScaffoldDiff) => {
+  const nodes = new Map<string, DiffStatus>();
+  const edges = new Map<string, DiffStatus>();
+  Object.keys(diff.changedNodes).forEach(id => nodes.set(id, 'changed'));
+  diff.removedNodes.forEach(n => nodes.set(n.id, 'removed'));
+  diff.addedNodes.forEach(id => nodes.set(id, 'added'));
+  Object.keys(diff.changedEdges).forEach(key => edges.set(key, 'changed'));
+  diff.removedEdges.forEach(e => edges.set(edgeKey(e.source, e.target), 'removed'));
+  diff.addedEdges.forEach(key => edges.set(key, 'added'));
+  return { nodes, edges };
+};
+
+/** `after` plus the nodes and links `diff` removed, so a comparison can show both. */
+export const overlayRemoved = (after: CausalGraphData, diff: ScaffoldDiff): CausalGraphData => {
+  const nodes = [...after.nodes, ...diff.removedNodes];
+  const ids = new Set(nodes.map(n => n.id));
+  return { nodes, edges: [...after.edges, ...diff.removedEdges.filter(e => ids.has(e.source) && ids.has(e.target))] };
+};
+
+export const createRevision = (graph: CausalGraphData, fields: Omit<ScaffoldRevision, 'id' | 'graph' | 'at'>): ScaffoldRevision => ({
+  id: Math.random().toString(36).substring(2, 10),
+  graph,
+  at: new Date().toISOString(),
+  ...fields
+});
+
+/** Revisions leading to `head`, newest first. */
+export const lineage = (revisions: ScaffoldRevision[], head: string | undefined): ScaffoldRevision[] => {
+  const byId = new Map(revisions.map(r => [r.id, r]));
+  const out: ScaffoldRevision[] = [];
+  const seen = new Set<string>();
+  let id = head;
+  while (id && !seen.has(id)) {
+    const rev = byId.get(id);
+    if (!rev) break;
+    out.push(rev);
+    seen.add(id);
+    id = rev.parent;
+  }
+  return out;
+};
+
+/** A branch name that is not taken yet, derived from `wanted`. */
+export const uniqueBranchName = (branches: Record<string, ScaffoldBranch>, wanted: string) => {
+  const base = wanted.trim() || 'branch';
+  let name = base;
+  for (let i = 2; branches[name]; i++) name = `${base}-${i}`;
+  return name;
+};
@@ -0,0 +1,85 @@
+// Readable-text extraction from HTML without a DOM, so it also runs in workers and tests.
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', middot: '·', deg: '°', plusmn: '±', times: '×',
+  micro: 'µ', alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', kappa: 'κ', mu: 'μ', le: '≤', ge: '≥'
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n < 0x110000 ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+
+// Elements whose contents are never part of the reading text.
+const DROP = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'iframe'];
+const BLOCK = /<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|tr|table|blockquote|br|hr|dd|dt|pre|figcaption|caption)\b[^>]*>/gi;
+
+const attr = (tag: string, name: string) => {
+  const m = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return m ? decodeEntities(m[2] ?? m[3] ?? m[4] ?? '') : undefined;
+};
+
+const innerOf = (html: string, tag: string) => {
+  const m = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i'));
+  return m?.[1];
+};
+
+export interface HtmlMetadata {
+  title?: string;
+  authors: string[];
+  doi?: string;
+  year?: number;
+  journal?: string;
+  siteName?: string;
+}
+
+/**
+ * Bibliographic metadata from the tags publishers emit for indexers: Highwire `citation_*`,
+ * Dublin Core and Open Graph, falling back to `<title>`.
+ */
+export const extractHtmlMetadata = (html: string): HtmlMetadata => {
+  const meta: Record<string, string[]> = {};
+  (html.match(/<meta\b[^>]*>/gi) || []).forEach(tag => {
+    const key = (attr(tag, 'name') || attr(tag, 'property'))?.toLowerCase();
+    const content = attr(tag, 'content')?.trim();
+    if (key && content) (meta[key] ||= []).push(content);
+  });
+  const first = (...keys: string[]) => keys.map(k => meta[k]?.[0]).find(Boolean);
+  const all = (...keys: string[]) => keys.map(k => meta[k] || []).find(v => v.length) || [];
+
+  const date = first('citation_publication_date', 'citation_date', 'citation_online_date', 'dc.date', 'article:published_time');
+  const year = date?.match(/\b(1[89]|20)\d{2}\b/)?.[0];
+  const doi = first('citation_doi', 'dc.identifier', 'prism.doi')?.replace(/^(doi:|https?:\/\/(dx\.)?doi\.org\/)/i, '');
+  const rawTitle = innerOf(html, 'title');
+
+  return {
+    title: first('citation_title', 'dc.title', 'og:title') || (rawTitle ? decodeEntities(rawTitle).replace(/\s+/g, ' ').trim() : undefined),
+    authors: all('citation_author', 'dc.creator', 'author'),
+    doi: doi && /^10\.\d{4,9}\//.test(doi) ? doi : undefined,
+    year: year ? Number(year) : undefined,
+    journal: first('citation_journal_title', 'prism.publicationname', 'citation_conference_title'),
+    siteName: first('og:site_name')
+  };
+};
+
+/**
+ * Main reading text of a page: the `<article>` or `<main>` element when present, with navigation,
+ * scripts and chrome removed, block elements turned into paragraph breaks and entities decoded.
+ */
+export const extractHtmlText = (html: string): string => {
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+  body = innerOf(body, 'article') ?? innerOf(body, 'main') ?? innerOf(body, 'body') ?? body;
+  DROP.forEach(tag => { body = body.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' '); });
+  return decodeEntities(
+    body.replace(BLOCK, '\n\n').replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\f\v\r]+/g, ' ')
+    .split('\n').map(l => l.trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,244 @@
+import { CausalGraphData, VerificationCheck } from "../types";
+import { stronglyConnectedComponents } from "./scm";
+import { descendantsOf } from "./graph";
+
+// Internal DAG view: correlative edges become a latent common cause, as in a bidirected edge.
+interface Dag {
+  nodes: string[];
+  observed: Set<string>;
+  parents: Record<string, string[]>;
+}
+
+const LATENT_PREFIX = '__latent__';
+
+export const toDag = (graph: CausalGraphData): Dag => {
+  const parents: Record<string, string[]> = {};
+  const observed = new Set<string>();
+  graph.nodes.forEach(n => {
+    parents[n.id] = [];
+    if (!n.latent) observed.add(n.id);
+  });
+  graph.edges.forEach(e => {
+    if (!(e.source in parents) || !(e.target in parents)) return;
+    if (e.relationship === 'correlative') {
+      const u = `${LATENT_PREFIX}${[e.source, e.target].sort().join('|')}`;
+      parents[u] = [];
+      if (!parents[e.source].includes(u)) parents[e.source].push(u);
+      if (!parents[e.target].includes(u)) parents[e.target].push(u);
+    } else if (!parents[e.target].includes(e.source)) {
+      parents[e.target].push(e.source);
+    }
+  });
+  return { nodes: Object.keys(parents), observed, parents };
+};
+
+const ancestorsIncl = (dag: Dag, ids: Iterable<string>) => {
+  const out = new Set<string>(ids);
+  const stack = [...out];
+  while (stack.length) {
+    const id = stack.pop()!;
+    (dag.parents[id] || []).forEach(p => { if (!out.has(p)) { out.add(p); stack.push(p); } });
+  }
+  return out;
+};
+
+const descendantsIncl = (dag: Dag, ids: Iterable<string>) => {
+  const children: Record<string, string[]> = {};
+  dag.nodes.forEach(n => { children[n] = []; });
+  dag.nodes.forEach(n => dag.parents[n].forEach(p => children[p].push(n)));
+  const out = new Set<string>(ids);
+  const stack = [...out];
+  while (stack.length) {
+    const id = stack.pop()!;
+    children[id].forEach(c => { if (!out.has(c)) { out.add(c); stack.push(c); } });
+  }
+  return out;
+};
+
+const withoutOutgoing = (dag: Dag, ids: string[]): Dag => ({
+  ...dag,
+  parents: Object.fromEntries(dag.nodes.map(n => [n, dag.parents[n].filter(p => !ids.includes(p))]))
+});
+
+/** d-separation via the moralised ancestral graph (Lauritzen et al.). */
+export const dSeparated = (dag: Dag, xs: string[], ys: string[], zs: string[]): boolean => {
+  const relevant = ancestorsIncl(dag, [...xs, ...ys, ...zs]);
+  const adj: Record<string, Set<string>> = {};
+  relevant.forEach(n => { adj[n] = new Set(); });
+  const link = (a: string, b: string) => { adj[a].add(b); adj[b].add(a); };
+  relevant.forEach(n => {
+    const ps = dag.parents[n].filter(p => relevant.has(p));
+    ps.forEach(p => link(n, p));
+    for (let i = 0; i < ps.length; i++) for (let j = i + 1; j < ps.length; j++) link(ps[i], ps[j]);
+  });
+  const blocked = new Set(zs);
+  const targets = new Set(ys);
+  const seen = new Set(xs.filter(x => !blocked.has(x)));
+  const stack = [...seen];
+  while (stack.length) {
+    const n = stack.pop()!;
+    if (targets.has(n)) return false;
+    adj[n].forEach(m => { if (!seen.has(m) && !blocked.has(m)) { seen.add(m); stack.push(m); } });
+  }
+  return true;
+};
+
+export const satisfiesBackdoor = (dag: Dag, x: string, y: string, zs: string[]) => {
+  const forbidden = descendantsIncl(dag, [x]);
+  if (zs.some(z => forbidden.has(z))) return false;
+  return dSeparated(withoutOutgoing(dag, [x]), [x], [y], zs);
+};
+
+function* subsets<T>(items: T[], maxSize: number): Generator<T[]> {
+  for (let size = 0; size <= Math.min(maxSize, items.length); size++) {
+    const idx = Array.from({ length: size }, (_, i) => i);
+    while (true) {
+      yield idx.map(i => items[i]);
+      let k = size - 1;
+      while (k >= 0 && idx[k] === items.length - size + k) k--;
+      if (k < 0) break;
+      idx[k]++;
+      for (let j = k + 1; j < size; j++) idx[j] = idx[j - 1] + 1;
+    }
+  }
+}
+
+const MAX_CANDIDATES = 16;
+const MAX_SET_SIZE = 4;
+
+/** Minimal back-door adjustment sets among observed non-descendants of the treatment. */
+export const minimalBackdoorSets = (dag: Dag, x: string, y: string, limit = 5): string[][] => {
+  const forbidden = descendantsIncl(dag, [x]);
+  const candidates = [...ancestorsIncl(dag, [x, y])].filter(n => dag.observed.has(n) && !forbidden.has(n) && n !== y);
+  const found: string[][] = [];
+
+  if (candidates.length <= MAX_CANDIDATES) {
+    for (const set of subsets(candidates, MAX_SET_SIZE)) {
+      if (found.some(f => f.every(n => set.includes(n)))) continue;
+      if (satisfiesBackdoor(dag, x, y, set)) found.push(set);
+      if (found.length >= limit) break;
+    }
+    if (found.length) return found;
+  }
+
+  // Large graphs: start from every candidate and prune greedily to a minimal valid set.
+  if (!satisfiesBackdoor(dag, x, y, candidates)) return found;
+  const set = [...candidates];
+  for (const n of candidates) {
+    const trial = set.filter(m => m !== n);
+    if (satisfiesBackdoor(dag, x, y, trial)) set.splice(set.indexOf(n), 1);
+  }
+  return [set];
+};
+
+export const satisfiesFrontdoor = (dag: Dag, x: string, y: string, ms: string[]) => {
+  // (1) M intercepts every directed path from X to Y.
+  if (descendantsIncl(withoutOutgoing(dag, ms), [x]).has(y)) return false;
+  // (2) No unblocked back-door path from X to M.
+  if (!ms.every(m => dSeparated(withoutOutgoing(dag, [x]), [x], [m], []))) return false;
+  // (3) Every back-door path from M to Y is blocked by X.
+  return ms.every(m => dSeparated(withoutOutgoing(dag, [m]), [m], [y], [x]));
+};
+
+export const findFrontdoorSet = (dag: Dag, x: string, y: string): string[] | null => {
+  const onPath = [...descendantsIncl(dag, [x])].filter(n => n !== x && n !== y && dag.observed.has(n) && ancestorsIncl(dag, [y]).has(n));
+  if (!onPath.length) return null;
+  for (const set of subsets(onPath.slice(0, MAX_CANDIDATES), 3)) {
+    if (set.length && satisfiesFrontdoor(dag, x, y, set)) return set;
+  }
+  return satisfiesFrontdoor(dag, x, y, onPath) ? onPath : null;
+};
+
+/** Unconditional instruments: relevant to X and connected to Y only through X. */
+export const findInstruments = (dag: Dag, x: string, y: string): string[] =>
+  dag.nodes.filter(z => z !== x && z !== y && dag.observed.has(z)
+    && !dSeparated(dag, [z], [x], [])
+    && dSeparated(withoutOutgoing(dag, [x]), [z], [y], []));
+
+export interface IdentificationResult {
+  treatment: string;
+  outcome: string;
+  identifiable: boolean;
+  strategy: 'backdoor' | 'frontdoor' | 'instrument' | 'none';
+  backdoorSets: string[][];
+  frontdoorSet: string[] | null;
+  instruments: string[];
+  confounders: string[];
+  mediators: string[];
+  colliders: string[];
+  cyclic: boolean;
+  notes: string[];
+}
+
+export const identifyEffect = (graph: CausalGraphData, treatment: string, outcome: string): IdentificationResult => {
+  const base: IdentificationResult = {
+    treatment, outcome, identifiable: false, strategy: 'none', backdoorSets: [], frontdoorSet: null,
+    instruments: [], confounders: [], mediators: [], colliders: [], cyclic: false, notes: []
+  };
+  const ids = graph.nodes.map(n => n.id);
+  const deps = Object.fromEntries(ids.map(id => [id, graph.edges.filter(e => e.target === id && e.relationship !== 'correlative').map(e => e.source)]));
+  const cycles = stronglyConnectedComponents(ids, deps).filter(c => c.length > 1 || deps[c[0]].includes(c[0]));
+  if (cycles.length) {
+    return { ...base, cyclic: true, notes: [`Graph contains ${cycles.length} feedback loop(s); graphical identification assumes an acyclic scaffold.`] };
+  }
+
+  const dag = toDag(graph);
+  const anX = ancestorsIncl(dag, [treatment]);
+  const anY = ancestorsIncl(dag, [outcome]);
+  const deX = descendantsIncl(dag, [treatment]);
+  const isObservedNode = (n: string) => n !== treatment && n !== outcome && !n.startsWith(LATENT_PREFIX);
+
+  const mediators = [...deX].filter(n => isObservedNode(n) && anY.has(n));
+  const anYWithoutX = ancestorsIncl(withoutOutgoing(dag, [treatment]), [outcome]);
+  const confounders = [...anX].filter(n => isObservedNode(n) && anYWithoutX.has(n));
+  const colliders = dag.nodes.filter(n => isObservedNode(n) && !mediators.includes(n)
+    && dag.parents[n].some(p => anX.has(p)) && dag.parents[n].some(p => anY.has(p) && !anX.has(p)));
+
+  const backdoorSets = minimalBackdoorSets(dag, treatment, outcome);
+  const frontdoorSet = backdoorSets.length ? null : findFrontdoorSet(dag, treatment, outcome);
+  const instruments = findInstruments(dag, treatment, outcome);
+  const notes: string[] = [];
+  if (!deX.has(outcome)) notes.push('There is no directed path from the intervention to the outcome; the causal effect is zero by the scaffold.');
+  if (confounders.some(c => !dag.observed.has(c))) notes.push('Some confounders are marked latent and cannot be adjusted for.');
+  if ([...anX].some(n => n.startsWith(LATENT_PREFIX) && anYWithoutX.has(n))) notes.push('A correlative edge implies an unmeasured common cause of the intervention and the outcome.');
+
+  const strategy = backdoorSets.length ? 'backdoor' : frontdoorSet ? 'frontdoor' : instruments.length ? 'instrument' : 'none';
+  if (strategy === 'instrument') notes.push('Only instrumental variables are available; point identification additionally requires linear or monotone mechanisms.');
+
+  return {
+    ...base,
+    identifiable: strategy === 'backdoor' || strategy === 'frontdoor',
+    strategy, backdoorSets, frontdoorSet, instruments,
+    confounders: confounders.filter(c => dag.observed.has(c)),
+    mediators, colliders, notes
+  };
+};
+
+const labelOf = (graph: CausalGraphData, id: string) => graph.nodes.find(n => n.id === id)?.label || id;
+
+/** One gate per intervention/outcome pair connected by a directed path. */
+export const identificationChecks = (graph: CausalGraphData): VerificationCheck[] => {
+  const checks: VerificationCheck[] = [];
+  graph.nodes.filter(n => n.type === 'intervention').forEach(x => {
+    const reachable = descendantsOf(graph, x.id);
+    graph.nodes.filter(n => n.type === 'outcome' && reachable.has(n.id)).forEach(y => {
+      const r = identifyEffect(graph, x.id, y.id);
+      const pair = `${x.label} → ${y.label}`;
+      const id = `identification:${x.id}:${y.id}`;
+      if (r.strategy === 'backdoor') {
+        const set = r.backdoorSets[0];
+        checks.push({ id, name: `Identifiable: ${pair}`, status: 'Pass', message: set.length ? `Adjust for {${set.map(s => labelOf(graph, s)).join(', ')}} (back-door).` : 'No adjustment needed: no open back-door paths.' });
+      } else if (r.strategy === 'frontdoor') {
+        checks.push({ id, name: `Identifiable: ${pair}`, status: 'Pass', message: `Identified by front-door through {${r.frontdoorSet!.map(s => labelOf(graph, s)).join(', ')}}.` });
+      } else if (r.strategy === 'instrument') {
+        checks.push({ id, name: `Partially identifiable: ${pair}`, status: 'Warn', message: `Only instruments available: {${r.instruments.map(s => labelOf(graph, s)).join(', ')}}.` });
+      } else if (r.cyclic) {
+        // Loops are gated separately; here they only mean the graphical criteria do not apply.
+        checks.push({ id, name: `Not graphically identifiable: ${pair}`, status: 'Warn', message: r.notes[0] });
+      } else {
+        checks.push({ id, name: `Not identifiable: ${pair}`, status: 'Fail', message: r.notes[0] || 'No back-door, front-door or instrumental strategy exists; measure a confounder or a mediator.' });
+      }
+    });
+  });
+  return checks;
+};
@@ -0,0 +1,189 @@
+import { Source, SourceMetadata, SourceSnapshot } from "../types";
+import { extractHtmlMetadata, extractHtmlText } from "./html";
+import { bytesToLatin1, extractPdf } from "./pdf";
+import { describeDataset, parseCsv } from "./dataset";
+
+export interface FetchedDocument {
+  url: string; // final URL after redirects
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+// Anything that can turn a URL into bytes: the network, a CORS proxy, or a saved copy on disk.
+export type Fetcher = (url: string) => Promise<FetchedDocument>;
+
+export interface IngestedDocument {
+  title?: string;
+  text: string;
+  metadata: SourceMetadata;
+}
+
+export class IngestError extends Error {
+  constructor(public url: string, message: string) {
+    super(`Could not ingest ${url}: ${message}`);
+    this.name = 'IngestError';
+  }
+}
+
+// Snapshots above this size keep only their hash; the bytes would be replicated to every peer.
+const MAX_SNAPSHOT_BYTES = 1_500_000;
+
+/**
+ * Fetches over HTTP. Most publishers do not send CORS headers, so a `proxy` prefix
+ * (e.g. "https://proxy.example/?url=") can be configured through FETCH_PROXY.
+ */
+export const createHttpFetcher = (proxy = process.env.FETCH_PROXY): Fetcher => async (url) => {
+  let response: Response;
+  try {
+    response = await fetch(proxy ? `${proxy}${encodeURIComponent(url)}` : url, { redirect: 'follow' });
+  } catch (e) {
+    throw new IngestError(url, `the request was blocked or the network is unavailable (${(e as Error).message}). Attach a saved copy of the page instead.`);
+  }
+  if (!response.ok) throw new IngestError(url, `the server answered ${response.status} ${response.statusText}`);
+  return {
+    url: proxy ? url : (response.url || url),
+    contentType: response.headers.get('content-type') || '',
+    bytes: new Uint8Array(await response.arrayBuffer())
+  };
+};
+
+/** Serves a locally saved HTML or PDF file in place of the URL, for offline or paywalled pages. */
+export const createLocalFetcher = (file: Blob & { name?: string }): Fetcher => async (url) => ({
+  url,
+  contentType: file.type || (/\.pdf$/i.test(file.name || '') ? 'application/pdf' : /\.html?$/i.test(file.name || '') ? 'text/html' : ''),
+  bytes: new Uint8Array(await file.arrayBuffer())
+});
+
+let activeFetcher: Fetcher = createHttpFetcher();
+
+export const getFetcher = (): Fetcher => activeFetcher;
+
+export const setFetcher = (fetcher: Fetcher) => {
+  activeFetcher = fetcher;
+};
+
+export const detectKind = (doc: FetchedDocument): 'pdf' | 'html' | 'text' => {
+  const head = bytesToLatin1(doc.bytes.subarray(0, 1024));
+  if (head.startsWith('%PDF-') || /application\/pdf/i.test(doc.contentType)) return 'pdf';
+  if (/html|xml/i.test(doc.contentType) || /<(!doctype html|html|head|body)\b/i.test(head)) return 'html';
+  return 'text';
+};
+
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+[^\s"<>.,;)\]])/;
+
+const toBase64 = (bytes: Uint8Array) => btoa(bytesToLatin1(bytes));
+
+export const sha256 = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const snapshotOf = async (doc: FetchedDocument): Promise<SourceSnapshot> => ({
+  url: doc.url,
+  fetchedAt: new Date().toISOString(),
+  contentType: doc.contentType,
+  bytes: doc.bytes.length,
+  sha256: await sha256(doc.bytes),
+  data: doc.bytes.length <= MAX_SNAPSHOT_BYTES ? toBase64(doc.bytes) : undefined
+});
+
+/** Extracts reading text and bibliographic metadata from an already fetched document. */
+export const parseDocument = async (doc: FetchedDocument): Promise<IngestedDocument> => {
+  const kind = detectKind(doc);
+  let title: string | undefined;
+  let text: string;
+  const metadata: SourceMetadata = { url: doc.url };
+
+  if (kind === 'pdf') {
+    const { text: pdfText, info } = await extractPdf(doc.bytes);
+    text = pdfText;
+    title = info.title;
+    Object.assign(metadata, {
+      authors: info.author ? info.author.split(/\s*(?:;|,\s*and\s+|\band\b)\s*/).filter(Boolean) : undefined,
+      year: info.year,
+      pageCount: info.pageCount
+    });
+  } else {
+    const raw = new TextDecoder().decode(doc.bytes);
+    if (kind === 'html') {
+      const meta = extractHtmlMetadata(raw);
+      text = extractHtmlText(raw);
+      title = meta.title;
+      Object.assign(metadata, {
+        authors: meta.authors.length ? meta.authors : undefined,
+        doi: meta.doi,
+        year: meta.year,
+        journal: meta.journal,
+        siteName: meta.siteName
+      });
+    } else {
+      text = raw.trim();
+    }
+  }
+
+  metadata.doi ||= (doc.url.match(DOI) || text.slice(0, 5000).match(DOI))?.[1];
+  Object.keys(metadata).forEach(k => metadata[k] === undefined && delete metadata[k]);
+  return { title, text, metadata: { ...metadata, text } };
+};
+
+/** Fetches a URL through the active (or given) fetcher and returns its text, metadata and a snapshot. */
+export const ingestUrl = async (url: string, fetcher: Fetcher = getFetcher()): Promise<IngestedDocument> => {
+  if (!/^https?:\/\//i.test(url.trim())) throw new IngestError(url, 'only http(s) URLs can be fetched');
+  const doc = await fetcher(url.trim());
+  const parsed = await parseDocument(doc);
+  if (!parsed.text) {
+    throw new IngestError(url, detectKind(doc) === 'pdf'
+      ? 'the PDF contains no extractable text (it may be a scan)'
+      : 'no readable text was found');
+  }
+  return { ...parsed, metadata: { ...parsed.metadata, snapshot: await snapshotOf(doc) } };
+};
+
+/** Short "Doe et al. · J Gastro · 2020" line for source cards. */
+export const formatCitation = (metadata?: SourceMetadata) => {
+  if (!metadata) return '';
+  const [first, ...rest] = metadata.authors || [];
+  const surname = first?.includes(',') ? first.split(',')[0] : first?.split(' ').pop();
+  const who = surname ? `${surname}${rest.length ? ' et al.' : ''}` : '';
+  return [who, metadata.journal || metadata.siteName, metadata.year].filter(Boolean).join(' · ');
+};
+
+const FIGURE_TYPES = /^image\/(png|jpe?g|webp|gif)$/i;
+
+const mimeOf = (file: File) => {
+  if (file.type) return file.type;
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  return ({ pdf: 'application/pdf', csv: 'text/csv', tsv: 'text/tab-separated-values', html: 'text/html', htm: 'text/html', txt: 'text/plain', md: 'text/markdown', png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif' } as Record<string, string>)[ext || ''] || '';
+};
+
+/**
+ * Turns a dropped or picked file into a source. PDFs, HTML and plain text are read locally;
+ * datasets keep their raw CSV; figures keep their bytes and are read by the model separately.
+ */
+export const ingestFile = async (file: File): Promise<Omit<Source, 'id'>> => {
+  const mimeType = mimeOf(file);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const title = file.name.replace(/\.[^.]+$/, '');
+  const doc: FetchedDocument = { url: file.name, contentType: mimeType, bytes };
+
+  if (FIGURE_TYPES.test(mimeType)) {
+    return { type: 'image', title, mimeType, content: btoa(bytesToLatin1(bytes)), metadata: { fileName: file.name } };
+  }
+  if (/csv|tab-separated/.test(mimeType)) {
+    const raw = new TextDecoder().decode(bytes);
+    return { type: 'dataset', title, mimeType, content: raw, metadata: { fileName: file.name, text: describeDataset(file.name, parseCsv(raw)) } };
+  }
+  if (/pdf|html|text\//.test(mimeType) || detectKind(doc) !== 'text') {
+    const parsed = await parseDocument(doc);
+    if (!parsed.text) throw new IngestError(file.name, detectKind(doc) === 'pdf' ? 'the PDF contains no extractable text (it may be a scan)' : 'the file is empty');
+    const { url, ...metadata } = parsed.metadata;
+    return {
+      type: 'file',
+      title: parsed.title || title,
+      mimeType,
+      content: parsed.text,
+      metadata: { ...metadata, fileName: file.name, snapshot: await snapshotOf(doc) }
+    };
+  }
+  throw new IngestError(file.name, `${mimeType || 'this file type'} is not supported; upload a PDF, CSV, HTML, text file or figure`);
+};
@@ -0,0 +1,166 @@
+import { CausalGraphData, LayoutMode, NodePosition } from "../types";
+
+export const LAYOUT_MODES: Record<LayoutMode, string> = {
+  force: 'Force',
+  layered: 'Layered',
+  radial: 'Radial'
+};
+
+const LAYER_GAP = 220;
+const ROW_GAP = 110;
+const RING_GAP = 170;
+
+const TYPE_ORDER = { intervention: 0, variable: 1, outcome: 2 };
+
+/** Edges with feedback links and DFS back edges dropped, so layering has a DAG to work on. */
+const acyclicEdges = (graph: CausalGraphData) => {
+  const out = new Map<string, string[]>();
+  graph.edges.forEach(e => { if (!e.feedback) out.set(e.source, [...(out.get(e.source) || []), e.target]); });
+  const state = new Map<string, 'open' | 'done'>();
+  const kept: [string, string][] = [];
+  const visit = (id: string) => {
+    state.set(id, 'open');
+    (out.get(id) || []).forEach(t => {
+      if (state.get(t) === 'open') return;
+      kept.push([id, t]);
+      if (!state.has(t)) visit(t);
+    });
+    state.set(id, 'done');
+  };
+  // Starting from interventions makes the links that close a loop back towards them the ones dropped.
+  [...graph.nodes].sort((a, b) => TYPE_ORDER[a.type] - TYPE_ORDER[b.type]).forEach(n => { if (!state.has(n.id)) visit(n.id); });
+  return kept;
+};
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+/**
+ * A Sugiyama-style layered drawing, left to right: longest-path layering with outcomes in the last
+ * layer, dummy nodes along links that skip layers, and barycentre sweeps to cut crossings.
+ */
+export const layeredLayout = (graph: CausalGraphData, center: NodePosition): Record<string, NodePosition> => {
+  if (!graph.nodes.length) return {};
+  const edges = acyclicEdges(graph);
+  const parents = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  edges.forEach(([s, t]) => parents.get(t)?.push(s));
+
+  const layer = new Map<string, number>();
+  const layerOf = (id: string, seen = new Set<string>()): number => {
+    if (layer.has(id)) return layer.get(id)!;
+    seen.add(id);
+    const ps = (parents.get(id) || []).filter(p => !seen.has(p));
+    const l = ps.length ? Math.max(...ps.map(p => layerOf(p, seen))) + 1 : 0;
+    layer.set(id, l);
+    return l;
+  };
+  graph.nodes.forEach(n => layerOf(n.id));
+  const last = Math.max(...layer.values());
+  const hasChildren = new Set(edges.map(([s]) => s));
+  graph.nodes.forEach(n => { if (n.type === 'outcome' && !hasChildren.has(n.id)) layer.set(n.id, last); });
+
+  // Links spanning several layers are routed through one dummy per skipped layer. Imported ids can hold
+  // any character, so dummies are tracked by name rather than recognised by one.
+  const dummies = new Set<string>();
+  const newDummy = () => {
+    let id = `dummy:${dummies.size}`;
+    for (let k = 1; layer.has(id) || dummies.has(id); k++) id = `dummy:${dummies.size}:${k}`;
+    dummies.add(id);
+    return id;
+  };
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    down.set(a, [...(down.get(a) || []), b]);
+    up.set(b, [...(up.get(b) || []), a]);
+  };
+  edges.forEach(([s, t]) => {
+    let prev = s;
+    for (let l = layer.get(s)! + 1; l < layer.get(t)!; l++) {
+      const dummy = newDummy();
+      layer.set(dummy, l);
+      link(prev, dummy);
+      prev = dummy;
+    }
+    if (layer.get(t)! > layer.get(s)!) link(prev, t);
+  });
+
+  const rows: string[][] = Array.from({ length: last + 1 }, () => []);
+  layer.forEach((l, id) => rows[l].push(id));
+  const index = new Map<string, number>();
+  const reindex = (row: string[]) => row.forEach((id, i) => index.set(id, i));
+  rows.forEach(reindex);
+  const sweep = (row: string[], neighbours: Map<string, string[]>) => {
+    const weight = new Map(row.map(id => {
+      const ns = (neighbours.get(id) || []).map(n => index.get(n)!);
+      return [id, ns.length ? mean(ns) : index.get(id)!];
+    }));
+    row.sort((a, b) => weight.get(a)! - weight.get(b)!);
+    reindex(row);
+  };
+  for (let pass = 0; pass < 4; pass++) {
+    for (let l = 1; l < rows.length; l++) sweep(rows[l], up);
+    for (let l = rows.length - 2; l >= 0; l--) sweep(rows[l], down);
+  }
+
+  const out: Record<string, NodePosition> = {};
+  rows.forEach((row, l) => row.forEach((id, i) => {
+    if (dummies.has(id)) return;
+    out[id] = {
+      x: Math.round(center.x + (l - last / 2) * LAYER_GAP),
+      y: Math.round(center.y + (i - (row.length - 1) / 2) * ROW_GAP)
+    };
+  }));
+  return out;
+};
+
+export const defaultRadialFocus = (graph: CausalGraphData) =>
+  (graph.nodes.find(n => n.type === 'outcome') || graph.nodes[0])?.id;
+
+/**
+ * `focus` in the middle and every other node on a ring by its link distance from it, ignoring
+ * direction. Each ring is ordered by the angles of its neighbours on the ring inside it.
+ */
+export const radialLayout = (graph: CausalGraphData, focus: string | undefined, center: NodePosition): Record<string, NodePosition> => {
+  const root = graph.nodes.some(n => n.id === focus) ? focus! : defaultRadialFocus(graph);
+  if (!root) return {};
+  const neighbours = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  graph.edges.forEach(e => {
+    neighbours.get(e.source)?.push(e.target);
+    neighbours.get(e.target)?.push(e.source);
+  });
+
+  const ring = new Map<string, number>([[root, 0]]);
+  const queue = [root];
+  while (queue.length) {
+    const id = queue.shift()!;
+    (neighbours.get(id) || []).forEach(n => {
+      if (ring.has(n)) return;
+      ring.set(n, ring.get(id)! + 1);
+      queue.push(n);
+    });
+  }
+  // Nodes not connected to the focus go on one extra outer ring.
+  const outer = Math.max(...ring.values()) + 1;
+  graph.nodes.forEach(n => { if (!ring.has(n.id)) ring.set(n.id, outer); });
+
+  const turn = (a: number) => ((a % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  const angle = new Map<string, number>();
+  const out: Record<string, NodePosition> = { [root]: { x: Math.round(center.x), y: Math.round(center.y) } };
+  for (let r = 1; r <= outer; r++) {
+    const members = graph.nodes.map(n => n.id).filter(id => ring.get(id) === r);
+    // Ring positions start at the top, so pulls are measured from there too.
+    const pull = new Map(members.map((id, i) => {
+      const inner = r > 1 ? (neighbours.get(id) || []).filter(n => ring.get(n) === r - 1).map(n => angle.get(n)!) : [];
+      // Circular mean, so neighbours either side of the seam do not average to the opposite side.
+      const a = inner.length ? Math.atan2(mean(inner.map(Math.sin)), mean(inner.map(Math.cos))) + Math.PI / 2 : (2 * Math.PI * i) / members.length;
+      return [id, turn(a)];
+    }));
+    members.sort((a, b) => pull.get(a)! - pull.get(b)!);
+    members.forEach((id, i) => {
+      const a = (2 * Math.PI * i) / members.length - Math.PI / 2;
+      angle.set(id, a);
+      out[id] = { x: Math.round(center.x + Math.cos(a) * r * RING_GAP), y: Math.round(center.y + Math.sin(a) * r * RING_GAP) };
+    });
+  }
+  return out;
+};
@@ -0,0 +1,132 @@
+import type { Schema } from "@google/genai";
+import { createGeminiProvider } from "./providers/gemini";
+import { createOpenAICompatibleProvider } from "./providers/openai";
+import { createMockProvider } from "./providers/mock";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// 'fast' is used for extraction and chat, 'reasoning' for synthesis, reports and deep-thinking turns.
+export type ModelTier = 'fast' | 'reasoning';
+
+export interface ProviderConfig {
+  id: ProviderId;
+  baseUrl?: string;
+  model?: string;
+  fastModel?: string;
+  apiKey?: string;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface GenerateRequest {
+  // Stable name of the pipeline step; the mock provider resolves fixtures by it.
+  task: string;
+  tier: ModelTier;
+  contents: string | LLMMessage[];
+  systemInstruction?: string;
+  responseSchema?: Schema;
+  images?: InlineImage[];
+  grounding?: boolean;
+  thinking?: boolean;
+  // Structured inputs that fixtures may use instead of parsing the prompt.
+  context?: Record<string, unknown>;
+}
+
+export interface GenerateResponse {
+  text: string;
+  citations?: string[];
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+  speak(text: string): Promise<Uint8Array>;
+  editImage(base64: string, mimeType: string, prompt: string): Promise<string>;
+}
+
+export class ProviderCapabilityError extends Error {
+  constructor(provider: ProviderId, capability: string) {
+    super(`The "${provider}" provider does not support ${capability}.`);
+    this.name = 'ProviderCapabilityError';
+  }
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible / Local',
+  mock: 'Offline Mock'
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  value === 'gemini' || value === 'openai' || value === 'mock';
+
+export const defaultProviderConfig = (): ProviderConfig => {
+  const envProvider = process.env.LLM_PROVIDER;
+  return { id: isProviderId(envProvider) ? envProvider : 'gemini' };
+};
+
+// The room shares which backend and model to use. Where the backend is reached, and with which key,
+// stays on each client: a base URL from a peer would otherwise receive this client's key and prompts.
+export type SharedProviderConfig = Pick<ProviderConfig, 'id' | 'model' | 'fastModel'>;
+
+export const sharedProviderConfig = (config: ProviderConfig): SharedProviderConfig => ({
+  id: config.id,
+  ...(typeof config.model === 'string' && config.model ? { model: config.model } : {}),
+  ...(typeof config.fastModel === 'string' && config.fastModel ? { fastModel: config.fastModel } : {})
+});
+
+export type ProviderConnection = Pick<ProviderConfig, 'baseUrl' | 'apiKey'>;
+
+const CONNECTION_KEY = 'proofsmith:provider-connection';
+
+export const loadProviderConnection = (): ProviderConnection => {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONNECTION_KEY) || '{}');
+    return {
+      ...(typeof stored?.baseUrl === 'string' && stored.baseUrl ? { baseUrl: stored.baseUrl } : {}),
+      ...(typeof stored?.apiKey === 'string' && stored.apiKey ? { apiKey: stored.apiKey } : {})
+    };
+  } catch {
+    return {};
+  }
+};
+
+export const saveProviderConnection = (connection: ProviderConnection) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(CONNECTION_KEY, JSON.stringify({ baseUrl: connection.baseUrl || undefined, apiKey: connection.apiKey || undefined }));
+};
+
+/** The config this client runs: the room's choice of backend and model, with this client's own connection. */
+export const localProviderConfig = (shared: ProviderConfig): ProviderConfig => ({ ...sharedProviderConfig(shared), ...loadProviderConnection() });
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.id) {
+    case 'openai': return createOpenAICompatibleProvider(config);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(config);
+  }
+};
+
+let activeConfig: ProviderConfig = localProviderConfig(defaultProviderConfig());
+let activeProvider: LLMProvider | null = null;
+
+export const getProviderConfig = (): ProviderConfig => activeConfig;
+
+export const setProviderConfig = (config: ProviderConfig) => {
+  activeConfig = config;
+  activeProvider = null;
+};
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) activeProvider = createProvider(activeConfig);
+  return activeProvider;
+};
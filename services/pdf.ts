@@ -0,0 +1,495 @@
+// Dependency-free PDF text extraction: enough of the object model to walk the page tree, inflate
+// content streams and map glyph codes through each font's ToUnicode CMap. Scanned (image-only)
+// PDFs yield no text; those need the figure/OCR path instead.
+
+interface PdfName { kind: 'name'; value: string }
+interface PdfString { kind: 'string'; value: string } // raw bytes as a latin1 string
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfDict { kind: 'dict'; entries: Record<string, PdfValue> }
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: string;
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  year?: number;
+  pageCount: number;
+}
+
+const WS = /[\0\t\n\f\r ]/;
+const DELIM = /[()<>[\]{}/%]/;
+
+const isDict = (v: PdfValue | undefined): v is PdfDict => !!v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'dict';
+const nameOf = (v: PdfValue | undefined) => v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'name' ? v.value : undefined;
+
+export const bytesToLatin1 = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+};
+
+const latin1ToBytes = (s: string) => Uint8Array.from(s, ch => ch.charCodeAt(0));
+
+const skipWs = (s: string, i: number) => {
+  while (i < s.length) {
+    if (WS.test(s[i])) i++;
+    else if (s[i] === '%') { while (i < s.length && s[i] !== '\n' && s[i] !== '\r') i++; }
+    else break;
+  }
+  return i;
+};
+
+const readLiteral = (s: string, i: number): [PdfString, number] => {
+  let depth = 1, out = '';
+  i++;
+  while (i < s.length && depth > 0) {
+    const ch = s[i];
+    if (ch === '\\') {
+      const nx = s[i + 1];
+      const esc: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+      if (nx in esc) { out += esc[nx]; i += 2; }
+      else if (/[0-7]/.test(nx)) {
+        const oct = s.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+        i += 1 + oct.length;
+      } else if (nx === '\r' || nx === '\n') {
+        i += s[i + 2] === '\n' && nx === '\r' ? 3 : 2;
+      } else { i++; }
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth === 0) { i++; break; }
+    out += ch;
+    i++;
+  }
+  return [{ kind: 'string', value: out }, i];
+};
+
+const readHex = (s: string, i: number): [PdfString, number] => {
+  const end = s.indexOf('>', i);
+  let hex = s.slice(i + 1, end < 0 ? s.length : end).replace(/[^0-9a-f]/gi, '');
+  if (hex.length % 2) hex += '0';
+  let out = '';
+  for (let k = 0; k < hex.length; k += 2) out += String.fromCharCode(parseInt(hex.slice(k, k + 2), 16));
+  return [{ kind: 'string', value: out }, end < 0 ? s.length : end + 1];
+};
+
+const readToken = (s: string, i: number) => {
+  let j = i;
+  while (j < s.length && !WS.test(s[j]) && !DELIM.test(s[j])) j++;
+  return s.slice(i, j);
+};
+
+/** Parses one PDF object at `i`; returns `undefined` for a bare keyword (an operator in content streams). */
+const parseValue = (s: string, i: number): [PdfValue | undefined, number, string?] => {
+  i = skipWs(s, i);
+  const ch = s[i];
+  if (ch === '/') {
+    const raw = readToken(s, i + 1);
+    return [{ kind: 'name', value: raw.replace(/#([0-9a-f]{2})/gi, (_, h) => String.fromCharCode(parseInt(h, 16))) }, i + 1 + raw.length];
+  }
+  if (ch === '(') return readLiteral(s, i);
+  if (ch === '<' && s[i + 1] === '<') {
+    const entries: Record<string, PdfValue> = {};
+    i += 2;
+    for (;;) {
+      i = skipWs(s, i);
+      if (i >= s.length) break;
+      if (s[i] === '>' && s[i + 1] === '>') { i += 2; break; }
+      const [key, afterKey] = parseValue(s, i);
+      const [value, afterValue] = parseValue(s, afterKey);
+      if (afterValue <= i) { i++; continue; }
+      const k = nameOf(key);
+      if (k !== undefined && value !== undefined) entries[k] = value;
+      i = afterValue;
+    }
+    return [{ kind: 'dict', entries }, i];
+  }
+  if (ch === '<') return readHex(s, i);
+  if (ch === '[') {
+    const items: PdfValue[] = [];
+    i++;
+    for (;;) {
+      i = skipWs(s, i);
+      if (i >= s.length) break;
+      if (s[i] === ']') { i++; break; }
+      const [value, next] = parseValue(s, i);
+      if (next <= i) { i++; continue; }
+      if (value !== undefined) items.push(value);
+      i = next;
+    }
+    return [items, i];
+  }
+  const num = s.slice(i, i + 32).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+  if (num) {
+    const end = i + num[0].length;
+    const ref = s.slice(end, end + 32).match(/^\s+(\d+)\s+R(?![^\0\t\n\f\r ()<>[\]{}/%])/);
+    if (ref && /^\d+$/.test(num[0])) return [{ kind: 'ref', num: Number(num[0]) }, end + ref[0].length];
+    return [Number(num[0]), end];
+  }
+  if (ch === ')' || ch === '>' || ch === ']' || ch === '{' || ch === '}') return [undefined, i + 1];
+  const word = readToken(s, i);
+  if (word === 'true' || word === 'false') return [word === 'true', i + word.length];
+  if (word === 'null') return [null, i + word.length];
+  return [undefined, i + word.length, word];
+};
+
+// --- Stream filters ---
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Many writers pad or truncate the zlib trailer; keep whatever inflated cleanly.
+  }
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => { out.set(c, offset); offset += c.length; });
+  return out;
+};
+
+const asciiHex = (s: string) => readHex(`<${s.replace(/>.*$/s, '')}>`, 0)[0].value;
+
+const ascii85 = (s: string) => {
+  const body = s.replace(/^<~/, '').replace(/~>[\s\S]*$/, '').replace(/\s+/g, '').replace(/z/g, '!!!!!');
+  let out = '';
+  for (let i = 0; i < body.length; i += 5) {
+    const group = body.slice(i, i + 5);
+    const padded = group.padEnd(5, 'u');
+    let n = 0;
+    for (const ch of padded) n = n * 85 + (ch.charCodeAt(0) - 33);
+    const bytes = [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff].slice(0, group.length - 1);
+    out += String.fromCharCode(...bytes);
+  }
+  return out;
+};
+
+// --- Document model ---
+
+class PdfDocument {
+  objects = new Map<number, PdfObject>();
+  trailers: PdfDict[] = [];
+  private decoded = new Map<number, Promise<string | null>>();
+
+  constructor(src: string) {
+    const re = /(\d+)\s+(\d+)\s+obj\b/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(src))) {
+      const [value, after] = parseValue(src, m.index + m[0].length);
+      if (value === undefined) continue;
+      const obj: PdfObject = { value };
+      let end = after;
+      const streamAt = skipWs(src, after);
+      if (src.startsWith('stream', streamAt)) {
+        let start = streamAt + 6;
+        if (src[start] === '\r') start++;
+        if (src[start] === '\n') start++;
+        const length = isDict(value) ? value.entries.Length : undefined;
+        let stop = typeof length === 'number' && src.startsWith('endstream', skipWs(src, start + length)) ? start + length : src.indexOf('endstream', start);
+        if (stop < 0) stop = src.length;
+        obj.stream = src.slice(start, stop);
+        end = stop + 9;
+      }
+      this.objects.set(Number(m[1]), obj);
+      if (isDict(value) && nameOf(value.entries.Type) === 'XRef') this.trailers.push(value);
+      re.lastIndex = Math.max(end, re.lastIndex);
+    }
+    const tr = /trailer\s*<</g;
+    while ((m = tr.exec(src))) {
+      const [value] = parseValue(src, m.index + 7);
+      if (isDict(value)) this.trailers.push(value);
+    }
+  }
+
+  resolve(v: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'ref' && depth < 16) {
+      return this.resolve(this.objects.get(v.num)?.value, depth + 1);
+    }
+    return v;
+  }
+
+  dict(v: PdfValue | undefined): PdfDict | undefined {
+    const r = this.resolve(v);
+    return isDict(r) ? r : undefined;
+  }
+
+  get(d: PdfDict | undefined, key: string) {
+    return this.resolve(d?.entries[key]);
+  }
+
+  /** Decoded stream data of the object `v` refers to, or null for unsupported filters (images). */
+  streamOf(v: PdfValue | undefined): Promise<string | null> {
+    const num = v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'ref' ? v.num : undefined;
+    if (num === undefined) return Promise.resolve(null);
+    if (!this.decoded.has(num)) this.decoded.set(num, this.decode(this.objects.get(num)));
+    return this.decoded.get(num)!;
+  }
+
+  async decode(obj: PdfObject | undefined): Promise<string | null> {
+    if (!obj?.stream || !isDict(obj.value)) return null;
+    const filter = this.resolve(obj.value.entries.Filter);
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => nameOf(this.resolve(f)));
+    let data = obj.stream;
+    for (const f of filters) {
+      if (f === 'FlateDecode' || f === 'Fl') data = bytesToLatin1(await inflate(latin1ToBytes(data)));
+      else if (f === 'ASCIIHexDecode' || f === 'AHx') data = asciiHex(data);
+      else if (f === 'ASCII85Decode' || f === 'A85') data = ascii85(data);
+      else return null;
+    }
+    return data;
+  }
+
+  /** Objects packed into compressed object streams (PDF 1.5+), where most page and font dictionaries live. */
+  async expandObjectStreams() {
+    for (const obj of [...this.objects.values()]) {
+      if (!isDict(obj.value) || nameOf(obj.value.entries.Type) !== 'ObjStm') continue;
+      const data = await this.decode(obj);
+      const first = this.resolve(obj.value.entries.First);
+      if (!data || typeof first !== 'number') continue;
+      const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let k = 0; k + 1 < header.length; k += 2) {
+        if (this.objects.has(header[k])) continue;
+        const [value] = parseValue(data, first + header[k + 1]);
+        if (value !== undefined) this.objects.set(header[k], { value });
+      }
+    }
+  }
+
+  pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const root = this.trailers.map(t => this.dict(t.entries.Root)).find(Boolean)
+      ?? [...this.objects.values()].map(o => o.value).find((v): v is PdfDict => isDict(v) && nameOf(v.entries.Type) === 'Catalog');
+    const out: { page: PdfDict; resources?: PdfDict }[] = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited?: PdfDict) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const resources = this.dict(node.entries.Resources) ?? inherited;
+      const kids = this.resolve(node.entries.Kids);
+      if (nameOf(node.entries.Type) === 'Page' || !Array.isArray(kids)) out.push({ page: node, resources });
+      else kids.forEach(k => walk(this.dict(k), resources));
+    };
+    walk(this.dict(this.get(root, 'Pages')));
+    if (out.length) return out;
+    // No usable page tree: fall back to every page object in file order.
+    return [...this.objects.values()]
+      .map(o => o.value)
+      .filter((v): v is PdfDict => isDict(v) && nameOf(v.entries.Type) === 'Page')
+      .map(page => ({ page, resources: this.dict(page.entries.Resources) }));
+  }
+}
+
+// --- Fonts ---
+
+interface FontDecoder {
+  bytes: number;
+  decode: (raw: string) => string;
+}
+
+const WIN_ANSI: Record<number, string> = {
+  0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x99: '™'
+};
+
+const GLYPHS: Record<string, string> = {
+  fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', quoteright: '’', quoteleft: '‘', quotedblleft: '“', quotedblright: '”',
+  endash: '–', emdash: '—', bullet: '•', hyphen: '-', minus: '−', space: ' ', period: '.', comma: ',', colon: ':', semicolon: ';',
+  parenleft: '(', parenright: ')', plusminus: '±', multiply: '×', degree: '°', mu: 'µ', alpha: 'α', beta: 'β', gamma: 'γ', kappa: 'κ'
+};
+
+const utf16be = (s: string) => {
+  let out = '';
+  for (let i = 0; i + 1 < s.length; i += 2) out += String.fromCharCode((s.charCodeAt(i) << 8) | s.charCodeAt(i + 1));
+  return out;
+};
+
+const codeOf = (raw: string) => [...raw].reduce((n, ch) => n * 256 + ch.charCodeAt(0), 0);
+
+const parseCMap = (cmap: string) => {
+  const map = new Map<number, string>();
+  const space = cmap.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+  const bytes = space ? Math.max(1, space[1].length / 2) : 2;
+  const hex = (h: string) => readHex(`<${h}>`, 0)[0].value;
+  for (const block of cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || []) {
+    for (const m of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) map.set(codeOf(hex(m[1])), utf16be(hex(m[2])));
+  }
+  for (const block of cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || []) {
+    for (const m of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const lo = codeOf(hex(m[1])), hi = Math.min(codeOf(hex(m[2])), lo + 0xffff);
+      if (m[3].startsWith('[')) {
+        [...m[3].matchAll(/<([0-9a-f]*)>/gi)].forEach((d, k) => map.set(lo + k, utf16be(hex(d[1]))));
+      } else {
+        const base = utf16be(hex(m[3].slice(1, -1)));
+        for (let c = lo; c <= hi; c++) {
+          map.set(c, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + (c - lo)));
+        }
+      }
+    }
+  }
+  return { map, bytes };
+};
+
+const buildFont = async (doc: PdfDocument, fontRef: PdfValue | undefined): Promise<FontDecoder> => {
+  const font = doc.dict(fontRef);
+  const composite = nameOf(font?.entries.Subtype) === 'Type0';
+  const cmapText = await doc.streamOf(font?.entries.ToUnicode);
+  if (cmapText) {
+    const { map, bytes } = parseCMap(cmapText);
+    return {
+      bytes,
+      decode: raw => {
+        let out = '';
+        for (let i = 0; i + bytes <= raw.length; i += bytes) {
+          const code = codeOf(raw.slice(i, i + bytes));
+          out += map.get(code) ?? (bytes === 1 ? String.fromCharCode(code) : '');
+        }
+        return out;
+      }
+    };
+  }
+  // Composite fonts without a ToUnicode map encode glyph ids, which carry no text.
+  if (composite) return { bytes: 2, decode: () => '' };
+
+  const differences: Record<number, string> = {};
+  const encoding = doc.resolve(font?.entries.Encoding);
+  const diffs = isDict(encoding) ? doc.resolve(encoding.entries.Differences) : undefined;
+  if (Array.isArray(diffs)) {
+    let code = 0;
+    diffs.forEach(d => {
+      if (typeof d === 'number') code = d;
+      else {
+        const glyph = nameOf(d);
+        if (glyph) {
+          const uni = glyph.match(/^uni([0-9A-F]{4})$/);
+          differences[code] = GLYPHS[glyph] ?? (uni ? String.fromCharCode(parseInt(uni[1], 16)) : glyph.length === 1 ? glyph : '');
+        }
+        code++;
+      }
+    });
+  }
+  return {
+    bytes: 1,
+    decode: raw => [...raw].map(ch => {
+      const c = ch.charCodeAt(0);
+      return differences[c] ?? WIN_ANSI[c] ?? ch;
+    }).join('')
+  };
+};
+
+// --- Content streams ---
+
+const textOfContent = (content: string, fonts: Record<string, FontDecoder>) => {
+  let out = '';
+  let font: FontDecoder = { bytes: 1, decode: s => s };
+  let operands: (PdfValue | undefined)[] = [];
+  let lastY: number | undefined;
+  const newline = () => { if (out && !out.endsWith('\n')) out += '\n'; };
+  const space = () => { if (out && !/\s$/.test(out)) out += ' '; };
+  const show = (v: PdfValue | undefined) => {
+    if (v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'string') out += font.decode(v.value);
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const [value, next, op] = parseValue(content, i);
+    if (next <= i) { i++; continue; }
+    i = next;
+    if (op === undefined) { operands.push(value); continue; }
+    const nums = operands.filter((o): o is number => typeof o === 'number');
+    switch (op) {
+      case 'BI': {
+        // Inline image data is binary; resume after its EI marker.
+        const ei = content.slice(i).search(/\sEI(?=[\s]|$)/);
+        i = ei < 0 ? content.length : i + ei + 3;
+        break;
+      }
+      case 'BT': lastY = undefined; break;
+      case 'ET': newline(); break;
+      case 'Tf': {
+        const name = nameOf(operands[0]);
+        if (name && fonts[name]) font = fonts[name];
+        break;
+      }
+      case 'Td': case 'TD':
+        if (nums.length >= 2 && Math.abs(nums[1]) > 0.01) newline();
+        else if (nums.length >= 1 && nums[0] > 0) space();
+        break;
+      case 'Tm':
+        if (nums.length >= 6) {
+          if (lastY !== undefined && Math.abs(nums[5] - lastY) > 0.5) newline();
+          else space();
+          lastY = nums[5];
+        }
+        break;
+      case 'T*': newline(); break;
+      case 'Tj': show(operands[operands.length - 1]); break;
+      case "'": case '"': newline(); show(operands[operands.length - 1]); break;
+      case 'TJ': {
+        const arr = operands[operands.length - 1];
+        if (Array.isArray(arr)) arr.forEach(part => typeof part === 'number' ? (part < -200 && space()) : show(part));
+        break;
+      }
+    }
+    operands = [];
+  }
+  return out;
+};
+
+const decodeTextString = (v: PdfValue | undefined) => {
+  if (!v || typeof v !== 'object' || Array.isArray(v) || v.kind !== 'string') return undefined;
+  const s = v.value.startsWith('\xfe\xff') ? utf16be(v.value.slice(2)) : v.value;
+  return s.replace(/\0/g, '').trim() || undefined;
+};
+
+/** Reading text and document-info metadata of a PDF. */
+export const extractPdf = async (bytes: Uint8Array): Promise<{ text: string; info: PdfInfo }> => {
+  const doc = new PdfDocument(bytesToLatin1(bytes));
+  await doc.expandObjectStreams();
+  const pages = doc.pages();
+  const fontCache = new Map<PdfValue | string, Promise<FontDecoder>>();
+  const pageTexts: string[] = [];
+
+  for (const { page, resources } of pages) {
+    const fontDict = doc.dict(resources?.entries.Font);
+    const fonts: Record<string, FontDecoder> = {};
+    for (const [name, ref] of Object.entries(fontDict?.entries || {})) {
+      const key = (ref && typeof ref === 'object' && !Array.isArray(ref) && ref.kind === 'ref' ? doc.objects.get(ref.num)?.value : ref) ?? name;
+      if (!fontCache.has(key)) fontCache.set(key, buildFont(doc, ref));
+      fonts[name] = await fontCache.get(key)!;
+    }
+    const contents = page.entries.Contents;
+    const resolved = doc.resolve(contents);
+    const refs = Array.isArray(resolved) ? resolved : [contents];
+    const streams = await Promise.all(refs.map(r => doc.streamOf(r)));
+    pageTexts.push(textOfContent(streams.filter(Boolean).join('\n'), fonts));
+  }
+
+  const text = pageTexts
+    .map(t => t.replace(/[ \t]+/g, ' ').split('\n').map(l => l.trim()).filter(Boolean).join('\n'))
+    .join('\n\n')
+    .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+    .trim();
+
+  const info = doc.trailers.map(t => doc.dict(t.entries.Info)).find(Boolean);
+  const created = decodeTextString(doc.get(info, 'CreationDate'))?.match(/^(?:D:)?(\d{4})/)?.[1];
+  return {
+    text,
+    info: {
+      title: decodeTextString(doc.get(info, 'Title')),
+      author: decodeTextString(doc.get(info, 'Author')),
+      subject: decodeTextString(doc.get(info, 'Subject')),
+      year: created ? Number(created) : undefined,
+      pageCount: pages.length
+    }
+  };
+};
@@ -0,0 +1,230 @@
+import { CausalGraphData, PlateFormat, PlateLayout, PlateReads, PlateWell, Protocol, SimulationResult, WellRole } from "../types";
+import { parseCsv } from "./dataset";
+import { createRNG } from "./random";
+import { nodeBounds } from "./scm";
+import { linearRegression, linspace, mean, sd, welchTTest } from "./stats";
+import { pickTreatmentAndOutcome } from "./synthesis";
+
+export const PLATE_FORMATS: Record<PlateFormat, { rows: number; cols: number }> = {
+  24: { rows: 4, cols: 6 },
+  96: { rows: 8, cols: 12 },
+  384: { rows: 16, cols: 24 }
+};
+
+export const WELL_ROLES: Record<WellRole, string> = {
+  treatment: 'Treatment',
+  control: 'Control',
+  blank: 'Blank',
+  edge: 'Edge (medium)',
+  empty: 'Empty'
+};
+
+export class PlateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlateError';
+  }
+}
+
+export type PlateSpec = Pick<PlateLayout, 'format' | 'doses' | 'doseUnit' | 'replicates' | 'controls' | 'blanks' | 'excludeEdges' | 'seed' | 'treatmentId' | 'outcomeId'>;
+
+export const rowLabel = (row: number) => String.fromCharCode(65 + row);
+
+export const wellName = (row: number, col: number) => `${rowLabel(row)}${col + 1}`;
+
+/** Row and column of a well name such as "B7" or "B07"; null when the plate has no such well. */
+export const parseWell = (name: string, format: PlateFormat): { row: number; col: number } | null => {
+  const m = name.trim().toUpperCase().match(/^([A-Z])\s*0*(\d+)$/);
+  if (!m) return null;
+  const { rows, cols } = PLATE_FORMATS[format];
+  const row = m[1].charCodeAt(0) - 65;
+  const col = Number(m[2]) - 1;
+  return row < rows && col >= 0 && col < cols ? { row, col } : null;
+};
+
+export const isEdgeWell = (format: PlateFormat, row: number, col: number) => {
+  const { rows, cols } = PLATE_FORMATS[format];
+  return row === 0 || col === 0 || row === rows - 1 || col === cols - 1;
+};
+
+// Row-major, which is also the order blocks are laid down in.
+export const plateWellNames = (format: PlateFormat) => {
+  const { rows, cols } = PLATE_FORMATS[format];
+  return Array.from({ length: rows * cols }, (_, i) => wellName(Math.floor(i / cols), i % cols));
+};
+
+export const usableWells = (format: PlateFormat, excludeEdges: boolean) => plateWellNames(format).filter(name => {
+  const { row, col } = parseWell(name, format)!;
+  return !excludeEdges || !isEdgeWell(format, row, col);
+});
+
+export const wellsPerBlock = (spec: Pick<PlateSpec, 'doses' | 'controls' | 'blanks'>) => spec.doses.length + spec.controls + spec.blanks;
+
+/**
+ * Blocked randomization: block b takes the next run of usable wells and holds one replicate of every
+ * dose plus its controls and blanks, shuffled by a seeded RNG. A position effect then falls on whole
+ * blocks rather than on particular doses, and the same seed always gives the same plate.
+ */
+export const designPlate = (spec: PlateSpec, by: string): PlateLayout => {
+  const perBlock = wellsPerBlock(spec);
+  if (!spec.doses.length && !spec.controls) throw new PlateError('Add at least one dose or control well.');
+  if (spec.replicates < 1) throw new PlateError('At least one replicate is needed.');
+  const usable = usableWells(spec.format, spec.excludeEdges);
+  const needed = perBlock * spec.replicates;
+  if (needed > usable.length) {
+    throw new PlateError(`${needed} wells are needed but a ${spec.format}-well plate has ${usable.length}${spec.excludeEdges ? ' away from its edges' : ''}.`);
+  }
+
+  const rng = createRNG(`${spec.seed}:plate`);
+  const assigned: Record<string, PlateWell> = {};
+  for (let b = 0; b < spec.replicates; b++) {
+    const conditions: Omit<PlateWell, 'well'>[] = [
+      ...spec.doses.map(dose => ({ role: 'treatment' as const, dose })),
+      ...Array.from({ length: spec.controls }, () => ({ role: 'control' as const })),
+      ...Array.from({ length: spec.blanks }, () => ({ role: 'blank' as const }))
+    ];
+    for (let i = conditions.length - 1; i > 0; i--) {
+      const j = rng.int(i + 1);
+      [conditions[i], conditions[j]] = [conditions[j], conditions[i]];
+    }
+    usable.slice(b * perBlock, (b + 1) * perBlock).forEach((well, i) => {
+      assigned[well] = { well, ...conditions[i], replicate: b + 1, block: b + 1 };
+    });
+  }
+  const usableSet = new Set(usable);
+  return {
+    ...spec,
+    wells: plateWellNames(spec.format).map(well => assigned[well] ?? { well, role: usableSet.has(well) ? 'empty' : 'edge' }),
+    by,
+    at: new Date().toISOString()
+  };
+};
+
+/**
+ * A first design from what the notebook already says: the protocol's doses and replicates (or the
+ * power analysis's n), two controls and a blank per block, and the smallest plate that fits.
+ */
+export const suggestPlateSpec = (scaffold: CausalGraphData, result: SimulationResult, protocol: Protocol | null, replicates?: number | null): PlateSpec => {
+  const { treatment, outcome } = pickTreatmentAndOutcome(scaffold, result.treatmentId, result.outcomeId);
+  const { min, max } = nodeBounds(treatment);
+  const steps = (protocol?.steps || []).filter(s => s.kind === 'treatment' && s.doses?.length);
+  const step = steps.find(s => s.nodeId === treatment.id) ?? steps[0];
+  const doses = step?.doses?.filter(d => d !== min) ?? linspace(min, max, 6).slice(1).map(d => Number(d.toPrecision(3)));
+  const spec: PlateSpec = {
+    format: 96,
+    doses,
+    ...(step?.doseUnit ? { doseUnit: step.doseUnit } : {}),
+    replicates: Math.max(1, replicates || step?.n || 3),
+    controls: 2,
+    blanks: 1,
+    excludeEdges: true,
+    seed: Math.random().toString(36).substring(2, 10),
+    treatmentId: treatment.id,
+    outcomeId: outcome.id
+  };
+  const fits = ([24, 96, 384] as PlateFormat[]).find(f => wellsPerBlock(spec) * spec.replicates <= usableWells(f, true).length);
+  return { ...spec, format: fits ?? 384 };
+};
+
+const csvField = (v: string | number | undefined) => {
+  const s = v === undefined ? '' : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** The plate map as one row per well, in the well order liquid handlers expect. */
+export const plateMapCsv = (layout: PlateLayout, treatment = '') => {
+  const rows = layout.wells.map(w => {
+    const { row, col } = parseWell(w.well, layout.format)!;
+    return [w.well, rowLabel(row), col + 1, w.role, w.role === 'treatment' || w.role === 'control' ? treatment : '',
+      w.dose, w.dose !== undefined ? layout.doseUnit : '', w.replicate, w.block].map(csvField).join(',');
+  });
+  return ['well,row,column,role,treatment,dose,unit,replicate,block', ...rows].join('\n') + '\n';
+};
+
+// Prefixes, so OD600, Absorbance 450 and Fluorescence (RFU) all count.
+const VALUE_COLUMNS = /^(value|read|signal|od|abs|fluor|rfu|rlu|lum|intensity|measure)/i;
+
+/**
+ * Plate reader output, either as a well/value list or as the plate grid most readers export
+ * (row letters down the side, column numbers across the top). Wells not on the plate are ignored.
+ */
+export const parsePlateReads = (text: string, format: PlateFormat, name: string, by: string): PlateReads => {
+  const table = parseCsv(text);
+  const values: Record<string, number> = {};
+  const put = (well: string, raw: string | undefined) => {
+    const pos = parseWell(well, format);
+    const v = Number((raw ?? '').trim());
+    if (pos && (raw ?? '').trim() !== '' && Number.isFinite(v)) values[wellName(pos.row, pos.col)] = v;
+  };
+
+  const wellColumn = table.columns.findIndex(c => /^well/i.test(c));
+  if (wellColumn >= 0) {
+    const numeric = table.columns.map((_, i) => i !== wellColumn && table.rows.some(r => Number.isFinite(Number(r[i])) && (r[i] ?? '').trim() !== ''));
+    const valueColumn = table.columns.findIndex((c, i) => numeric[i] && VALUE_COLUMNS.test(c));
+    const column = valueColumn >= 0 ? valueColumn : numeric.lastIndexOf(true);
+    if (column < 0) throw new PlateError(`${name} has a well column but no numeric reads.`);
+    table.rows.forEach(r => put(r[wellColumn] ?? '', r[column]));
+  } else {
+    const colNumbers = table.columns.slice(1).map(c => Number(c));
+    if (!colNumbers.length || !colNumbers.every(n => Number.isInteger(n) && n > 0)) {
+      throw new PlateError(`${name} is neither a well/value list nor a plate grid with column numbers across the top.`);
+    }
+    table.rows.forEach(r => colNumbers.forEach((c, i) => put(`${(r[0] ?? '').trim()}${c}`, r[i + 1])));
+  }
+  if (!Object.keys(values).length) throw new PlateError(`No reads in ${name} fall on a ${format}-well plate.`);
+  return { name, values, by, at: new Date().toISOString() };
+};
+
+export interface DoseComparison {
+  dose: number | null; // null for controls
+  predicted: number;
+  measured: number;
+  wells: number;
+}
+
+export interface PlateComparison {
+  matched: number;
+  background: number; // mean blank read, subtracted from every read
+  slope: number; // measured ≈ intercept + slope · predicted
+  intercept: number;
+  r2: number;
+  residuals: Record<string, number>; // standardized, by well
+  byDose: DoseComparison[];
+  edgeEffect?: { difference: number; pValue: number }; // mean standardized residual, edge wells minus interior
+}
+
+/**
+ * Measured reads against the synthesized plate. Reads are on the instrument's scale, so they are
+ * calibrated onto the prediction by least squares; what is left over shows wells and regions that
+ * disagree with the model, such as an edge effect.
+ */
+export const comparePlate = (layout: PlateLayout, predicted: Record<string, number>, reads: PlateReads): PlateComparison | null => {
+  const blanks = layout.wells.filter(w => w.role === 'blank' && reads.values[w.well] !== undefined).map(w => reads.values[w.well]);
+  const background = blanks.length ? mean(blanks) : 0;
+  const wells = layout.wells.filter(w => (w.role === 'treatment' || w.role === 'control') && predicted[w.well] !== undefined && reads.values[w.well] !== undefined);
+  if (wells.length < 3) return null;
+  const xs = wells.map(w => predicted[w.well]);
+  const ys = wells.map(w => reads.values[w.well] - background);
+  const fit = linearRegression(xs, ys);
+  const raw = wells.map((w, i) => ys[i] - fit.intercept - fit.slope * xs[i]);
+  const scale = sd(raw) || 1;
+  const residuals = Object.fromEntries(wells.map((w, i) => [w.well, raw[i] / scale]));
+
+  const groups = new Map<number | null, number[]>();
+  wells.forEach((w, i) => {
+    const key = w.role === 'control' ? null : w.dose!;
+    groups.set(key, [...(groups.get(key) || []), i]);
+  });
+  const byDose = [...groups.entries()]
+    .sort(([a], [b]) => (a ?? -Infinity) - (b ?? -Infinity))
+    .map(([dose, idx]) => ({ dose, predicted: mean(idx.map(i => xs[i])), measured: mean(idx.map(i => ys[i])), wells: idx.length }));
+
+  const onEdge = (w: PlateWell) => { const { row, col } = parseWell(w.well, layout.format)!; return isEdgeWell(layout.format, row, col); };
+  const edge = wells.filter(onEdge).map(w => residuals[w.well]);
+  const interior = wells.filter(w => !onEdge(w)).map(w => residuals[w.well]);
+  const edgeEffect = edge.length >= 2 && interior.length >= 2
+    ? (() => { const t = welchTTest(interior, edge); return { difference: t.meanDifference, pValue: t.pValue }; })()
+    : undefined;
+
+  return { matched: wells.length, background, slope: fit.slope, intercept: fit.intercept, r2: fit.r2, residuals, byDose, ...(edgeEffect ? { edgeEffect } : {}) };
+};
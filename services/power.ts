@@ -0,0 +1,184 @@
+import { PowerDesign, PowerPlan, PowerSettings, Protocol, SimulationResult } from "../types";
+import { fQuantile, mean, noncentralFCdf, sum, variance } from "./stats";
+
+export const POWER_DESIGNS: Record<PowerDesign, string> = {
+  ttest: 'Two-group t-test',
+  anova: 'One-way ANOVA',
+  trend: 'Dose-response trend',
+  timecourse: 'Time-course (repeated measures)'
+};
+
+export const POWER_DEFAULTS: PowerSettings = { design: 'ttest', alpha: 0.05, target: 0.8, effectScale: 1, correlation: 0.5 };
+
+const within = (v: unknown, lo: number, hi: number, fallback: number) => typeof v === 'number' && v >= lo && v <= hi ? v : fallback;
+
+/** Settings as shared in the room or a bundle, with anything missing or out of range at its default. */
+export const readPowerSettings = (raw: any): PowerSettings => ({
+  design: raw?.design in POWER_DESIGNS ? raw.design : POWER_DEFAULTS.design,
+  alpha: within(raw?.alpha, 0.0001, 0.5, POWER_DEFAULTS.alpha),
+  target: within(raw?.target, 0.5, 0.999, POWER_DEFAULTS.target),
+  effectScale: within(raw?.effectScale, 0.05, 5, POWER_DEFAULTS.effectScale),
+  correlation: within(raw?.correlation, 0, 0.99, POWER_DEFAULTS.correlation)
+});
+
+// Beyond this many units per group the effect is too small to plan for.
+export const MAX_N = 1000;
+
+export interface PowerInputs {
+  doses: number[];
+  means: number[]; // outcome at each dose, lowest dose first
+  sd: number; // pooled within-dose SD
+  timepoints: number[];
+  differences: number[]; // treatment minus control at each timepoint, at the highest dose
+}
+
+const interpolate = (points: { t: number; v: number }[], t: number) => {
+  if (t <= points[0].t) return points[0].v;
+  const i = points.findIndex(p => p.t >= t);
+  if (i < 0) return points[points.length - 1].v;
+  const a = points[i - 1], b = points[i];
+  return a.v + (b.v - a.v) * (t - a.t) / (b.t - a.t);
+};
+
+/**
+ * Group means and pooled variance of the synthesized units, and the treatment effect along the
+ * time course at `timepoints` (hours). Null when the simulation has too little spread to plan from.
+ */
+export const powerInputs = (result: SimulationResult, timepoints: number[] = []): PowerInputs | null => {
+  const byDose = new Map<number, number[]>();
+  (result.doseResponseData || []).filter(d => d.type === 'Synthetic').forEach(d => byDose.set(d.x, [...(byDose.get(d.x) || []), d.y]));
+  const levels = [...byDose.entries()].sort((a, b) => a[0] - b[0]);
+  const dfWithin = sum(levels.map(([, ys]) => ys.length - 1));
+  if (levels.length < 2 || dfWithin <= 0) return null;
+  const sd = Math.sqrt(sum(levels.map(([, ys]) => (ys.length - 1) * variance(ys))) / dfWithin);
+  if (!(sd > 0)) return null;
+
+  const course = (result.timeCourseData || []).map(p => ({ t: p.t, v: p.treatment - p.control })).sort((a, b) => a.t - b.t);
+  const times = timepoints.length ? timepoints : course.map(p => p.t).filter(t => t > 0);
+  return {
+    doses: levels.map(([x]) => x),
+    means: levels.map(([, ys]) => mean(ys)),
+    sd,
+    timepoints: course.length ? times : [],
+    differences: course.length ? times.map(t => interpolate(course, t)) : []
+  };
+};
+
+interface DesignTest {
+  effectSize: number;
+  effectMeasure: 'd' | 'f';
+  groups: number;
+  // Numerator and denominator df and noncentrality of the F test with n units per group.
+  at(n: number): { d1: number; d2: number; lambda: number };
+}
+
+/** The test each design runs, with the effect scaled from the control dose by `effectScale`. */
+export const designTest = (inputs: PowerInputs, settings: PowerSettings): DesignTest | null => {
+  const { doses, sd } = inputs;
+  const means = inputs.means.map(m => inputs.means[0] + settings.effectScale * (m - inputs.means[0]));
+  const k = doses.length;
+  switch (settings.design) {
+    case 'ttest': {
+      const d = Math.abs(means[k - 1] - means[0]) / sd;
+      return { effectSize: d, effectMeasure: 'd', groups: 2, at: n => ({ d1: 1, d2: 2 * n - 2, lambda: n * d * d / 2 }) };
+    }
+    case 'anova': {
+      const grand = mean(means);
+      const f = Math.sqrt(mean(means.map(m => (m - grand) ** 2))) / sd;
+      return { effectSize: f, effectMeasure: 'f', groups: k, at: n => ({ d1: k - 1, d2: k * (n - 1), lambda: f * f * k * n }) };
+    }
+    case 'trend': {
+      // Linear contrast over the dose levels, with weights proportional to the centred doses.
+      const mx = mean(doses);
+      const c = doses.map(x => x - mx);
+      const contrast = sum(c.map((ci, i) => ci * means[i]));
+      const perUnit = contrast ** 2 / (sd * sd * sum(c.map(ci => ci * ci)));
+      return { effectSize: Math.sqrt(perUnit / k), effectMeasure: 'f', groups: k, at: n => ({ d1: 1, d2: k * n - 2, lambda: n * perUnit }) };
+    }
+    case 'timecourse': {
+      // Group effect on each unit's mean over T measurements with compound-symmetric correlation.
+      const t = inputs.timepoints.length;
+      if (!t) return null;
+      const unitSd = sd * Math.sqrt((1 + (t - 1) * settings.correlation) / t);
+      const d = Math.abs(settings.effectScale * mean(inputs.differences)) / unitSd;
+      return { effectSize: d, effectMeasure: 'd', groups: 2, at: n => ({ d1: 1, d2: 2 * n - 2, lambda: n * d * d / 2 }) };
+    }
+  }
+};
+
+export const powerAt = (test: DesignTest, n: number, alpha: number) => {
+  const { d1, d2, lambda } = test.at(n);
+  if (d2 <= 0) return 0;
+  return 1 - noncentralFCdf(fQuantile(1 - alpha, d1, d2), d1, d2, lambda);
+};
+
+/** Smallest n per group reaching `target`, by doubling then bisection; power rises with n. */
+export const requiredN = (test: DesignTest, alpha: number, target: number): number | null => {
+  let lo = 1, hi = 2;
+  while (powerAt(test, hi, alpha) < target) {
+    if (hi >= MAX_N) return null;
+    lo = hi;
+    hi = Math.min(MAX_N, hi * 2);
+  }
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (powerAt(test, mid, alpha) >= target) hi = mid; else lo = mid;
+  }
+  return hi;
+};
+
+export interface PowerCurvePoint {
+  n: number;
+  [design: string]: number;
+}
+
+/** Power against n per group for every design the inputs support, as chart rows. */
+export const powerCurves = (inputs: PowerInputs, settings: PowerSettings, maxN: number): PowerCurvePoint[] => {
+  const tests = (Object.keys(POWER_DESIGNS) as PowerDesign[])
+    .map(design => [design, designTest(inputs, { ...settings, design })] as const)
+    .filter((entry): entry is readonly [PowerDesign, DesignTest] => !!entry[1]);
+  const step = Math.max(1, Math.ceil((maxN - 2) / 40));
+  const ns: number[] = [];
+  for (let n = 2; n < maxN; n += step) ns.push(n);
+  ns.push(maxN);
+  return ns.map(n => ({ n, ...Object.fromEntries(tests.map(([design, test]) => [design, Number(powerAt(test, n, settings.alpha).toFixed(4))])) }));
+};
+
+// The protocol's replicate count and measurement times, read from the steps bound to what synthesis simulated.
+export const protocolSampling = (protocol: Protocol | null, result: SimulationResult) => {
+  const steps = protocol?.steps || [];
+  const treatment = steps.find(s => s.kind === 'treatment' && s.nodeId === result.treatmentId && s.n)
+    ?? steps.find(s => s.kind === 'treatment' && s.n);
+  const measured = steps.filter(s => s.kind === 'measurement' && (!s.nodeId || s.nodeId === result.outcomeId));
+  const timepoints = [...new Set(measured.flatMap(s => s.timepoints || []))].filter(t => t > 0).sort((a, b) => a - b);
+  return { n: treatment?.n, timepoints };
+};
+
+export const planPower = (result: SimulationResult, settings: PowerSettings, protocol: Protocol | null = null): PowerPlan | null => {
+  const sampling = protocolSampling(protocol, result);
+  const inputs = powerInputs(result, sampling.timepoints);
+  const test = inputs && designTest(inputs, settings);
+  if (!inputs || !test) return null;
+  const n = requiredN(test, settings.alpha, settings.target);
+  return {
+    ...settings,
+    effectSize: Number(test.effectSize.toFixed(3)),
+    effectMeasure: test.effectMeasure,
+    sd: Number(inputs.sd.toPrecision(4)),
+    groups: test.groups,
+    ...(settings.design === 'timecourse' ? { timepoints: inputs.timepoints } : {}),
+    n,
+    achieved: n ? powerAt(test, n, settings.alpha) : powerAt(test, MAX_N, settings.alpha),
+    ...(sampling.n ? { protocolN: sampling.n, protocolPower: powerAt(test, sampling.n, settings.alpha) } : {})
+  };
+};
+
+const percent = (p: number) => `${Math.round(100 * p)}%`;
+
+/** One sentence for the report, e.g. "Two-group t-test needs n = 8 per group (16 units) to detect d = 1.52 with 80% power at α = 0.05." */
+export const describePowerPlan = (plan: PowerPlan) => {
+  const effect = `${plan.effectMeasure} = ${plan.effectSize}${plan.effectScale !== 1 ? ` (${percent(plan.effectScale)} of the simulated effect)` : ''}`;
+  return plan.n
+    ? `${POWER_DESIGNS[plan.design]} needs n = ${plan.n} per group (${plan.n * plan.groups} units) to detect ${effect} with ${percent(plan.target)} power at α = ${plan.alpha}.`
+    : `${POWER_DESIGNS[plan.design]} cannot detect ${effect} with ${percent(plan.target)} power at α = ${plan.alpha} with up to ${MAX_N} units per group.`;
+};
@@ -0,0 +1,211 @@
+import { CausalGraphData, CausalNode, Protocol, ProtocolCorrection, ProtocolOrigin, ProtocolStep, ProtocolStepChange, ProtocolStepKind } from "../types";
+import { tokenize } from "./retrieval";
+
+export const PROTOCOL_STEP_KINDS: Record<ProtocolStepKind, string> = {
+  preparation: 'Preparation',
+  treatment: 'Treatment',
+  control: 'Control',
+  measurement: 'Measurement',
+  analysis: 'Analysis'
+};
+
+export const PROTOCOL_ORIGINS: Record<ProtocolOrigin, string> = {
+  authored: 'Edit',
+  extracted: 'Extracted',
+  correction: 'Reviewer corrections',
+  restore: 'Restore'
+};
+
+// Steps bind to the scaffold by role: treatments and controls set an intervention, measurements read a variable.
+export const BINDABLE_TYPES: Partial<Record<ProtocolStepKind, CausalNode['type'][]>> = {
+  treatment: ['intervention'],
+  control: ['intervention'],
+  measurement: ['outcome', 'variable']
+};
+
+export const currentProtocol = (versions: Protocol[]): Protocol | null => versions[versions.length - 1] || null;
+
+export const createProtocolVersion = (versions: Protocol[], fields: Pick<Protocol, 'title' | 'steps' | 'origin' | 'note' | 'by'>): Protocol => ({
+  id: Math.random().toString(36).substring(2, 10),
+  version: versions.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+  parent: currentProtocol(versions)?.id,
+  at: new Date().toISOString(),
+  ...fields
+});
+
+export const nextStepId = (steps: ProtocolStep[]) =>
+  `s${steps.reduce((max, s) => Math.max(max, Number(s.id.match(/^s(\d+)$/)?.[1] || 0)), 0) + 1}`;
+
+export const newStep = (steps: ProtocolStep[], kind: ProtocolStepKind = 'preparation'): ProtocolStep => ({ id: nextStepId(steps), kind, text: '' });
+
+// Empty lists and blank fields are left off, so clearing a field does not read as a change.
+export const tidyStep = (step: ProtocolStep): ProtocolStep => Object.fromEntries(Object.entries(step).filter(([key, v]) =>
+  key === 'text' || (v !== undefined && v !== '' && !(Array.isArray(v) && !v.length)))) as unknown as ProtocolStep;
+
+export const parseNumberList = (text: string) =>
+  text.split(/[,;\s]+/).map(Number).filter((v, i, all) => Number.isFinite(v) && all.indexOf(v) === i && v >= 0);
+
+export const parseList = (text: string) => text.split(/[,;]/).map(s => s.trim()).filter(Boolean);
+
+const formatNumber = (v: number) => Number(v.toPrecision(6)).toString();
+
+export const formatNumberList = (values: number[] = []) => values.map(formatNumber).join(', ');
+
+/** The structured fields of a step as one line, e.g. "0.5, 4, 16 mg/kg · at 6, 24 h · n = 6 · vs vehicle". */
+export const describeStep = (step: ProtocolStep, labelOf: (id: string) => string = id => id) => [
+  step.doses?.length ? `${formatNumberList(step.doses)}${step.doseUnit ? ` ${step.doseUnit}` : ''}` : '',
+  step.timepoints?.length ? `at ${formatNumberList(step.timepoints)} h` : '',
+  step.n ? `n = ${step.n}` : '',
+  step.controls?.length ? `vs ${step.controls.join(', ')}` : '',
+  step.reagents?.length ? step.reagents.join(', ') : '',
+  step.nodeId ? `→ ${labelOf(step.nodeId)}` : ''
+].filter(Boolean).join(' · ');
+
+const overlap = (a: string[], b: Set<string>) => a.length ? a.filter(t => b.has(t)).length / a.length : 0;
+
+/** The scaffold node a step most plausibly sets or measures, judged by the words its label shares with the step. */
+export const suggestBinding = (step: ProtocolStep, graph: CausalGraphData): string | undefined => {
+  const types = BINDABLE_TYPES[step.kind];
+  if (!types) return undefined;
+  const words = new Set(tokenize([step.text, ...(step.reagents || [])].join(' ')));
+  let best: string | undefined;
+  let bestScore = 0;
+  // Candidates in the order their types are listed, so ties go to measured outcomes over other variables.
+  for (const n of types.flatMap(t => graph.nodes.filter(node => node.type === t))) {
+    const score = Math.max(...[n.label, ...(n.aliases || [])].map(name => overlap(tokenize(name), words)));
+    if (score >= 0.5 && score > bestScore) {
+      best = n.id;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/** Binds every unbound step it can; steps already bound are left to their author. */
+export const bindSteps = (steps: ProtocolStep[], graph: CausalGraphData | null): ProtocolStep[] => graph
+  ? steps.map(s => {
+    if (s.nodeId) return s;
+    const nodeId = suggestBinding(s, graph);
+    return nodeId ? { ...s, nodeId } : s;
+  })
+  : steps;
+
+/** Which scaffold nodes the protocol treats and measures, for synthesis to simulate the experiment as written. */
+export const protocolTargets = (protocol: Protocol | null, graph: CausalGraphData) => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  const bound = (kind: ProtocolStepKind) => protocol?.steps.find(s => s.kind === kind && s.nodeId && ids.has(s.nodeId))?.nodeId;
+  return { treatmentId: bound('treatment'), outcomeId: bound('measurement') };
+};
+
+export interface ProtocolIssue {
+  stepId?: string;
+  message: string;
+}
+
+/** What keeps the protocol from testing the scaffold: broken bindings, and treatments without doses, controls or replicates. */
+export const protocolIssues = (protocol: Pick<Protocol, 'steps'> | null, graph: CausalGraphData | null): ProtocolIssue[] => {
+  if (!protocol || !graph) return [];
+  const byId = new Map(graph.nodes.map(n => [n.id, n]));
+  const issues: ProtocolIssue[] = [];
+  protocol.steps.forEach(s => {
+    const node = s.nodeId ? byId.get(s.nodeId) : undefined;
+    if (s.nodeId && !node) issues.push({ stepId: s.id, message: `bound to "${s.nodeId}", which is no longer in the scaffold` });
+    else if (node && !BINDABLE_TYPES[s.kind]?.includes(node.type)) issues.push({ stepId: s.id, message: `a ${PROTOCOL_STEP_KINDS[s.kind].toLowerCase()} step bound to ${node.type} "${node.label}"` });
+    if (s.kind === 'treatment') {
+      if (!s.doses?.length) issues.push({ stepId: s.id, message: 'treatment has no doses' });
+      if (!s.n) issues.push({ stepId: s.id, message: 'replicates per dose (n) not set' });
+    }
+    if (s.kind === 'measurement' && !s.timepoints?.length) issues.push({ stepId: s.id, message: 'measurement has no timepoints' });
+  });
+  const steps = protocol.steps;
+  if (steps.some(s => s.kind === 'treatment') && !steps.some(s => s.kind === 'control' || s.controls?.length)) {
+    issues.push({ message: 'No control condition' });
+  }
+  const boundTo = (types: CausalNode['type'][]) => steps.some(s => s.nodeId && types.includes(byId.get(s.nodeId)?.type as CausalNode['type']));
+  if (!boundTo(['intervention'])) issues.push({ message: 'No step sets an intervention of the scaffold' });
+  if (!boundTo(['outcome'])) issues.push({ message: 'No step measures an outcome of the scaffold' });
+  return issues;
+};
+
+// Fields that change what the experiment does; provenance is bookkeeping.
+const STEP_FIELDS: (keyof ProtocolStep)[] = ['kind', 'text', 'reagents', 'doses', 'doseUnit', 'timepoints', 'controls', 'n', 'nodeId'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export interface ProtocolDiff {
+  added: string[];
+  removed: ProtocolStep[];
+  changed: Record<string, string[]>; // step id -> changed fields
+  reordered: boolean;
+  retitled: boolean;
+}
+
+export type StepDiffStatus = 'added' | 'removed' | 'changed';
+
+export const diffProtocols = (before: Pick<Protocol, 'title' | 'steps'> | null | undefined, after: Pick<Protocol, 'title' | 'steps'> | null | undefined): ProtocolDiff => {
+  const oldSteps = new Map((before?.steps || []).map(s => [s.id, s]));
+  const newSteps = new Map((after?.steps || []).map(s => [s.id, s]));
+  const changed: Record<string, string[]> = {};
+  newSteps.forEach((s, id) => {
+    const old = oldSteps.get(id);
+    const fields = old ? STEP_FIELDS.filter(f => !sameValue(old[f], s[f])).map(String) : [];
+    if (fields.length) changed[id] = fields;
+  });
+  const kept = (steps: ProtocolStep[], other: Map<string, ProtocolStep>) => steps.filter(s => other.has(s.id)).map(s => s.id).join();
+  return {
+    added: [...newSteps.keys()].filter(id => !oldSteps.has(id)),
+    removed: [...oldSteps.values()].filter(s => !newSteps.has(s.id)),
+    changed,
+    reordered: kept(before?.steps || [], newSteps) !== kept(after?.steps || [], oldSteps),
+    retitled: !!before && !!after && before.title !== after.title
+  };
+};
+
+export const isEmptyProtocolDiff = (diff: ProtocolDiff) =>
+  !diff.added.length && !diff.removed.length && !Object.keys(diff.changed).length && !diff.reordered && !diff.retitled;
+
+export const summarizeProtocolDiff = (diff: ProtocolDiff) => {
+  const count = (n: number, verb: string) => (n ? `${n} step${n === 1 ? '' : 's'} ${verb}` : '');
+  const parts = [
+    diff.retitled ? 'retitled' : '',
+    count(diff.added.length, 'added'),
+    count(diff.removed.length, 'removed'),
+    count(Object.keys(diff.changed).length, 'changed'),
+    diff.reordered ? 'reordered' : ''
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'no changes';
+};
+
+export const stepDiffStatus = (diff: ProtocolDiff, id: string): StepDiffStatus | undefined =>
+  diff.added.includes(id) ? 'added'
+    : diff.removed.some(s => s.id === id) ? 'removed'
+    : diff.changed[id] ? 'changed' : undefined;
+
+// Decisions are keyed by the step and the suggested text, so a later report's different advice is decided afresh.
+export const correctionKey = (c: ProtocolCorrection) => `${c.stepId}→${c.corrected}`;
+
+const applyChange = (step: ProtocolStep, c: ProtocolCorrection): ProtocolStep => tidyStep({ ...step, ...c.change, text: c.corrected });
+
+/** Whether the protocol already reads as the correction asks. An added step is found by its text, as it was given a fresh id. */
+export const isCorrectionApplied = (protocol: Protocol | null, c: ProtocolCorrection) => {
+  const step = protocol?.steps.find(s => s.id === c.stepId) || protocol?.steps.find(s => s.text === c.corrected);
+  if (!step) return false;
+  const corrected = applyChange(step, c);
+  return STEP_FIELDS.every(f => sameValue(step[f], corrected[f]));
+};
+
+/** Steps with the corrections applied in order; corrections naming a step that does not exist add one at the end. */
+export const applyCorrections = (steps: ProtocolStep[], corrections: ProtocolCorrection[]): ProtocolStep[] =>
+  corrections.reduce((out, c) => out.some(s => s.id === c.stepId)
+    ? out.map(s => s.id === c.stepId ? applyChange(s, c) : s)
+    : [...out, applyChange(newStep(out, c.change?.kind), c)], steps);
+
+export const correctionSummary = (change: ProtocolStepChange | undefined) => change
+  ? describeStep({ id: '', kind: change.kind || 'preparation', text: '', ...change })
+  : '';
+
+// What the reviewer needs to cite and correct steps; provenance would only crowd the prompt.
+export const protocolDigest = (protocol: Protocol) => ({
+  title: protocol.title,
+  steps: protocol.steps.map(({ provenance, ...s }) => s)
+});
@@ -0,0 +1,106 @@
+import { CausalEdge, CausalGraphData, CausalNode, ProtocolStep, Provenance, Source } from "../types";
+import { sentenceSpans, sourceText, tokenize } from "./retrieval";
+
+type Span = [number, number];
+
+// Lower-cased text with runs of whitespace collapsed, plus a map back to original offsets.
+const normalizeWithMap = (text: string) => {
+  let out = '';
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (out.endsWith(' ') || out === '') continue;
+      out += ' ';
+    } else {
+      out += ch.toLowerCase();
+    }
+    map.push(i);
+  }
+  return { out, map };
+};
+
+const overlap = (a: string[], b: Set<string>) => a.length ? a.filter(t => b.has(t)).length / a.length : 0;
+
+/**
+ * Finds a model-supplied quote in the source: exactly, then ignoring case and whitespace, then as
+ * the sentence sharing most of its words. Models paraphrase, so the returned span is what we trust.
+ */
+export const locateQuote = (text: string, quote: string): Span | null => {
+  const q = quote.trim().replace(/^["'“”]+|["'“”]+$/g, '');
+  if (!q) return null;
+  const exact = text.indexOf(q);
+  if (exact >= 0) return [exact, exact + q.length];
+
+  const { out, map } = normalizeWithMap(text);
+  const nq = normalizeWithMap(q).out.trim();
+  const loose = out.indexOf(nq);
+  if (loose >= 0) return [map[loose], map[loose + nq.length - 1] + 1];
+
+  const qTokens = tokenize(q);
+  let best: { span: Span; score: number } | null = null;
+  for (const s of sentenceSpans(text)) {
+    const score = overlap(qTokens, new Set(tokenize(text.slice(s.start, s.end))));
+    if (score >= 0.6 && (!best || score > best.score)) best = { span: [s.start, s.end], score };
+  }
+  return best?.span ?? null;
+};
+
+/** First sentence that names every label, for elements the model gave no quote for. */
+export const findMention = (text: string, labels: string[]): Span | null => {
+  const wanted = labels.map(l => tokenize(l));
+  for (const s of sentenceSpans(text)) {
+    const tokens = new Set(tokenize(text.slice(s.start, s.end)));
+    if (wanted.every(w => overlap(w, tokens) >= 0.5)) return [s.start, s.end];
+  }
+  return null;
+};
+
+const trimSpan = (text: string, [start, end]: Span): Span => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+};
+
+const toProvenance = (source: Source, text: string, span: Span | null): Provenance[] => {
+  if (!span) return [];
+  const [start, end] = trimSpan(text, span);
+  return [{ sourceId: source.id, start, end, quote: text.slice(start, end) }];
+};
+
+export const mergeProvenance = (a: Provenance[] = [], b: Provenance[] = []): Provenance[] => {
+  const out = [...a];
+  b.forEach(p => { if (!out.some(q => q.sourceId === p.sourceId && q.start === p.start && q.end === p.end)) out.push(p); });
+  return out;
+};
+
+/**
+ * Resolves the `evidence` quotes returned by extraction into character spans of `source`.
+ * The quote stored is always the source's own text, never the model's rendering of it.
+ */
+export const attachProvenance = (graph: CausalGraphData, source: Source): CausalGraphData => {
+  const text = sourceText(source) || source.content;
+  const label = (id: string) => graph.nodes.find(n => n.id === id)?.label || id;
+  const resolve = (evidence: unknown, labels: string[]) =>
+    (typeof evidence === 'string' && locateQuote(text, evidence)) || findMention(text, labels);
+
+  const withProvenance = <T extends { provenance?: Provenance[] }>(item: T, found: Provenance[]): T => {
+    const provenance = mergeProvenance(item.provenance, found);
+    return provenance.length ? { ...item, provenance } : item;
+  };
+
+  const nodes = graph.nodes.map(({ evidence, ...n }: CausalNode & { evidence?: unknown }) =>
+    withProvenance(n, toProvenance(source, text, resolve(evidence, [n.label]))));
+  const edges = graph.edges.map(({ evidence, ...e }: CausalEdge & { evidence?: unknown }) =>
+    withProvenance(e, toProvenance(source, text, resolve(evidence, [label(e.source), label(e.target)]))));
+  return { ...graph, nodes, edges };
+};
+
+/** The same for extracted protocol steps. Steps paraphrase their method, so only quoted evidence is located. */
+export const attachStepProvenance = (steps: ProtocolStep[], source: Source): ProtocolStep[] => {
+  const text = sourceText(source) || source.content;
+  return steps.map(({ evidence, ...s }: ProtocolStep & { evidence?: unknown }) => {
+    const provenance = toProvenance(source, text, typeof evidence === 'string' ? locateQuote(text, evidence) : null);
+    return provenance.length ? { ...s, provenance } : s;
+  });
+};
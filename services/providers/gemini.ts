@@ -0,0 +1,68 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { GenerateRequest, GenerateResponse, LLMProvider, ProviderConfig } from "../llm";
+
+const DEFAULT_MODELS = {
+  fast: "gemini-3-flash-preview",
+  reasoning: "gemini-3-pro-preview",
+  speech: "gemini-2.5-flash-preview-tts",
+  image: "gemini-2.5-flash-image"
+};
+
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+  const getClient = () => new GoogleGenAI({ apiKey: config.apiKey || process.env.API_KEY });
+
+  const modelFor = (request: GenerateRequest) => request.tier === 'reasoning'
+    ? (config.model || DEFAULT_MODELS.reasoning)
+    : (config.fastModel || DEFAULT_MODELS.fast);
+
+  const generate = async (request: GenerateRequest): Promise<GenerateResponse> => {
+    const ai = getClient();
+    const imageParts = (request.images || []).map(img => ({ inlineData: { data: img.data, mimeType: img.mimeType } }));
+    const contents = typeof request.contents === 'string'
+      ? (imageParts.length ? { parts: [...imageParts, { text: request.contents }] } : request.contents)
+      : request.contents.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+    const config: any = {};
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    if (request.grounding) config.tools = [{ googleSearch: {} }];
+    if (request.thinking) config.thinkingConfig = { thinkingBudget: 32768 };
+    if (request.responseSchema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = request.responseSchema;
+    }
+
+    const response = await ai.models.generateContent({ model: modelFor(request), contents, config });
+    return {
+      text: response.text || "",
+      citations: response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((c: any) => c.web?.uri).filter(Boolean) || []
+    };
+  };
+
+  const speak = async (text: string): Promise<Uint8Array> => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: DEFAULT_MODELS.speech,
+      contents: [{ parts: [{ text }] }],
+      config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } } }
+    });
+    const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+    if (!data) throw new Error("Audio synthesis failed.");
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  };
+
+  const editImage = async (base64: string, mimeType: string, prompt: string): Promise<string> => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: DEFAULT_MODELS.image,
+      contents: { parts: [{ inlineData: { data: base64, mimeType } }, { text: prompt }] }
+    });
+    const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+    if (!data) throw new Error("Image editing returned no image.");
+    return data;
+  };
+
+  return { id: 'gemini', generate, speak, editImage };
+};
@@ -0,0 +1,67 @@
+import type { Schema } from "@google/genai";
+import { GenerateRequest, GenerateResponse, LLMProvider, ProviderCapabilityError, ProviderConfig, loadProviderConnection } from "../llm";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema expects lower-case.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+  }
+  return out;
+};
+
+export const createOpenAICompatibleProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  // The build's key only goes to the server this client was configured for, never to a URL that arrived from elsewhere.
+  const localBaseUrl = (loadProviderConnection().baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = config.apiKey || (baseUrl === localBaseUrl ? process.env.OPENAI_API_KEY : undefined);
+
+  const modelFor = (request: GenerateRequest) => request.tier === 'reasoning'
+    ? (config.model || config.fastModel || 'default')
+    : (config.fastModel || config.model || 'default');
+
+  const generate = async (request: GenerateRequest): Promise<GenerateResponse> => {
+    const messages: any[] = [];
+    let system = request.systemInstruction || '';
+    if (request.responseSchema) {
+      system += `\nRespond ONLY with JSON matching this schema: ${JSON.stringify(toJsonSchema(request.responseSchema))}`;
+    }
+    if (system.trim()) messages.push({ role: 'system', content: system.trim() });
+
+    if (typeof request.contents === 'string') {
+      const images = (request.images || []).map(img => ({ type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } }));
+      messages.push({
+        role: 'user',
+        content: images.length ? [...images, { type: 'text', text: request.contents }] : request.contents
+      });
+    } else {
+      request.contents.forEach(m => messages.push({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }));
+    }
+
+    const body: any = { model: modelFor(request), messages };
+    if (request.responseSchema) {
+      body.response_format = { type: 'json_schema', json_schema: { name: request.task, schema: toJsonSchema(request.responseSchema) } };
+    }
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error(`Model server responded ${res.status}: ${await res.text()}`);
+    const json = await res.json();
+    return { text: json.choices?.[0]?.message?.content || "", citations: [] };
+  };
+
+  const speak = async (): Promise<Uint8Array> => { throw new ProviderCapabilityError('openai', 'speech synthesis'); };
+  const editImage = async (): Promise<string> => { throw new ProviderCapabilityError('openai', 'image editing'); };
+
+  return { id: 'openai', generate, speak, editImage };
+};
@@ -0,0 +1,47 @@
+export interface RNG {
+  next(): number;
+  normal(mean?: number, sd?: number): number;
+  int(maxExclusive: number): number;
+}
+
+// Hashes arbitrary seeds (e.g. notebook ids) into a 32-bit state.
+export const hashSeed = (seed: string | number): number => {
+  const s = String(seed);
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// mulberry32: small, fast and good enough for simulation; not for cryptography.
+export const createRNG = (seed: string | number): RNG => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  let spare: number | null = null;
+
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller, caching the second variate.
+  const normal = (mean = 0, sd = 1) => {
+    if (spare !== null) {
+      const v = spare;
+      spare = null;
+      return mean + sd * v;
+    }
+    let u = 0;
+    while (u === 0) u = next();
+    const v = next();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return mean + sd * r * Math.cos(2 * Math.PI * v);
+  };
+
+  return { next, normal, int: (maxExclusive) => Math.floor(next() * maxExclusive) };
+};
@@ -0,0 +1,312 @@
+import { CausalEdge, CausalGraphData, ClaimCard, RAGSource, Source } from "../types";
+import { edgeKey } from "./graph";
+
+export interface Chunk {
+  id: string;
+  sourceId: string;
+  title: string;
+  url: string;
+  text: string;
+  start: number; // character offsets into the source text
+  end: number;
+}
+
+export type Embedder = (text: string) => number[];
+
+export interface RetrievalIndex {
+  chunks: Chunk[];
+  tokens: string[][];
+  docFreq: Record<string, number>;
+  avgLength: number;
+  vectors: number[][];
+  embed: Embedder;
+}
+
+export interface Hit {
+  chunk: Chunk;
+  bm25: number;
+  cosine: number;
+  score: number; // reciprocal-rank fusion of the two rankings
+  rank: number;
+}
+
+// URL, image and file sources only become searchable once their text has been extracted into metadata.text.
+export const sourceText = (source: Source): string => {
+  if (typeof source.metadata?.text === 'string') return source.metadata.text;
+  return source.type === 'text' ? source.content : '';
+};
+
+const STOPWORDS = new Set('a an and are as at be by for from has have in into is it its of on or that the this to was were which with within via'.split(' '));
+
+const stem = (t: string) => t.length > 5 && t.endsWith('ing') ? t.slice(0, -3)
+  : t.length > 4 && t.endsWith('ed') ? t.slice(0, -2)
+  : t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1)
+  : t;
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) || [])
+    .flatMap(t => t.includes('-') ? [t, ...t.split('-')] : [t])
+    .filter(t => !STOPWORDS.has(t))
+    .map(stem);
+
+// Sentences end at terminal punctuation followed by whitespace, or at a blank line; single line
+// breaks are treated as wrapping so that text pasted from PDFs keeps its sentences whole.
+export const sentenceSpans = (text: string) => {
+  const spans: { start: number; end: number }[] = [];
+  const re = /[.!?]+(?=\s|$)|\n\s*\n/g;
+  let start = 0;
+  let m: RegExpExecArray | null;
+  const push = (end: number) => {
+    let s = start;
+    let e = end;
+    while (s < e && /\s/.test(text[s])) s++;
+    while (e > s && /\s/.test(text[e - 1])) e--;
+    if (e > s) spans.push({ start: s, end: e });
+    start = end;
+  };
+  while ((m = re.exec(text))) push(m.index + m[0].length);
+  push(text.length);
+  return spans;
+};
+
+/** Sentence-aligned chunks of roughly `maxChars`, each overlapping the previous one by a sentence. */
+export const chunkSource = (source: Source, maxChars = 600): Chunk[] => {
+  const text = sourceText(source);
+  const sentences = sentenceSpans(text);
+  const url = source.type === 'url' ? (source.metadata?.url || source.content) : '';
+  const chunks: Chunk[] = [];
+  let i = 0;
+  while (i < sentences.length) {
+    let j = i;
+    while (j + 1 < sentences.length && sentences[j + 1].end - sentences[i].start <= maxChars) j++;
+    const start = sentences[i].start;
+    const end = sentences[j].end;
+    chunks.push({ id: `${source.id}#${chunks.length}`, sourceId: source.id, title: source.title, url, text: text.slice(start, end), start, end });
+    if (j === sentences.length - 1) break;
+    i = j > i && sentences[j + 1].end - sentences[j].start <= maxChars ? j : j + 1;
+  }
+  return chunks;
+};
+
+const DIMENSIONS = 256;
+
+const hashString = (s: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+/** Feature-hashed character-trigram vector: a dependency-free embedding that tolerates spelling variants. */
+export const hashedEmbedding: Embedder = (text) => {
+  const v = new Array(DIMENSIONS).fill(0);
+  tokenize(text).forEach(t => {
+    const padded = `#${t}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const h = hashString(padded.slice(i, i + 3));
+      v[h % DIMENSIONS] += (h & 0x80000000) ? -1 : 1;
+    }
+  });
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0)) || 1;
+  return v.map(x => x / norm);
+};
+
+const dot = (a: number[], b: number[]) => a.reduce((s, x, i) => s + x * b[i], 0);
+
+export const buildIndex = (sources: Source[], embed: Embedder = hashedEmbedding): RetrievalIndex => {
+  const chunks = sources.flatMap(s => chunkSource(s));
+  const tokens = chunks.map(c => tokenize(c.text));
+  const docFreq: Record<string, number> = {};
+  tokens.forEach(ts => new Set(ts).forEach(t => { docFreq[t] = (docFreq[t] || 0) + 1; }));
+  const avgLength = tokens.length ? tokens.reduce((s, ts) => s + ts.length, 0) / tokens.length : 0;
+  return { chunks, tokens, docFreq, avgLength, vectors: chunks.map(c => embed(c.text)), embed };
+};
+
+const K1 = 1.2;
+const B = 0.75;
+const RRF_K = 60;
+
+const bm25 = (index: RetrievalIndex, query: string[], doc: number) => {
+  const ts = index.tokens[doc];
+  const n = index.chunks.length;
+  return [...new Set(query)].reduce((score, q) => {
+    const tf = ts.filter(t => t === q).length;
+    if (!tf) return score;
+    const df = index.docFreq[q] || 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    return score + idf * tf * (K1 + 1) / (tf + K1 * (1 - B + B * ts.length / (index.avgLength || 1)));
+  }, 0);
+};
+
+/** Hybrid lexical + dense retrieval, fused by reciprocal rank. */
+export const search = (index: RetrievalIndex, query: string, k = 8): Hit[] => {
+  if (!index.chunks.length) return [];
+  const q = tokenize(query);
+  const qv = index.embed(query);
+  const scored = index.chunks.map((chunk, i) => ({ chunk, bm25: bm25(index, q, i), cosine: dot(qv, index.vectors[i]) }));
+  const rankOf = (key: 'bm25' | 'cosine') => {
+    const order = scored.map((_, i) => i).sort((a, b) => scored[b][key] - scored[a][key]);
+    const ranks: number[] = [];
+    order.forEach((doc, r) => { ranks[doc] = r; });
+    return ranks;
+  };
+  const lexical = rankOf('bm25');
+  const dense = rankOf('cosine');
+  return scored
+    .map((s, i) => ({ ...s, score: 1 / (RRF_K + lexical[i] + 1) + 1 / (RRF_K + dense[i] + 1), rank: 0 }))
+    .filter(s => s.bm25 > 0 || s.cosine > 0.2)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((s, r) => ({ ...s, rank: r + 1 }));
+};
+
+const POSITIVE_CUES = ['increase', 'activat', 'induc', 'promot', 'upregulat', 'enhanc', 'stimulat', 'elevat', 'rais', 'driv', 'trigger', 'potentiat', 'augment'];
+const NEGATIVE_CUES = ['decreas', 'inhibit', 'reduc', 'suppress', 'block', 'downregulat', 'attenuat', 'lower', 'prevent', 'abolish', 'antagoni', 'diminish', 'impair'];
+const ASSOCIATION_CUES = ['associat', 'correlat', 'link', 'relat'];
+const NULL_PATTERNS = /\b(no (significant )?(effect|change|association|difference)|did not|does not|failed to|was not|were not|not (associated|correlated|affect))/i;
+const HEDGES = /\b(may|might|could|possibly|suggest|hypothes|putative|unclear|preliminary)/i;
+
+const DESIGNS: { quality: RAGSource['methodQuality']; pattern: RegExp; label: string }[] = [
+  { quality: 'High', pattern: /\b(randomi[sz]ed|double[- ]blind|placebo[- ]controlled|meta-analys|systematic review|clinical trial)/i, label: 'controlled or pooled design' },
+  { quality: 'Medium', pattern: /\b(in vivo|cohort|knock-?out|knock-?down|mice|rats|murine|xenograft|case-control|dose[- ]dependent)/i, label: 'in vivo or observational design' },
+  { quality: 'Low', pattern: /\b(in vitro|cell line|in silico|case report|anecdot|review)/i, label: 'in vitro or anecdotal design' }
+];
+
+const mentionCoverage = (label: string, tokens: Set<string>) => {
+  const ts = tokenize(label);
+  return ts.length ? ts.filter(t => tokens.has(t)).length / ts.length : 0;
+};
+
+export type Stance = NonNullable<RAGSource['stance']>;
+
+const cueSign = (token: string) =>
+  POSITIVE_CUES.some(c => token.startsWith(c)) ? 1 : NEGATIVE_CUES.some(c => token.startsWith(c)) ? -1 : 0;
+
+// Signed effect stated in one sentence: cues between (and just before) the two mentions compose,
+// so "reduced COX-2 lowered PGE2" reads as a positive COX-2 -> PGE2 link.
+const sentenceDirection = (tokens: string[], sourceTokens: Set<string>, targetTokens: Set<string>) => {
+  const s = tokens.findIndex(t => sourceTokens.has(t));
+  const t = tokens.findIndex(x => targetTokens.has(x));
+  if (s < 0 || t < 0) return 0;
+  const window = tokens.slice(Math.max(0, Math.min(s, t) - 3), Math.max(s, t) + 1)
+    .filter(x => !sourceTokens.has(x) && !targetTokens.has(x));
+  const signs = window.map(cueSign).filter(Boolean);
+  return signs.length ? signs.reduce((a, b) => a * b, 1) : 0;
+};
+
+/** Lexical stance of a passage towards an edge, judged on the sentences that name both endpoints. */
+export const classifyStance = (text: string, sourceLabel: string, targetLabel: string, relationship: CausalEdge['relationship']) => {
+  const sourceTokens = new Set(tokenize(sourceLabel));
+  const targetTokens = new Set(tokenize(targetLabel));
+  const sentences = sentenceSpans(text).map(s => text.slice(s.start, s.end));
+  const relevant = sentences.filter(s => {
+    const ts = new Set(tokenize(s));
+    return mentionCoverage(sourceLabel, ts) >= 0.5 && mentionCoverage(targetLabel, ts) >= 0.5;
+  });
+  // A passage that never names both variables together cannot take a side on the edge.
+  if (!relevant.length) return { stance: 'neutral' as Stance, cue: 'no sentence links the two variables', explicit: false, hedged: HEDGES.test(text) };
+  const scope = relevant.join(' ');
+  const direction = relevant.reduce((sum, sentence) => sum + sentenceDirection(tokenize(sentence), sourceTokens, targetTokens), 0);
+  const associated = tokenize(scope).some(t => ASSOCIATION_CUES.some(c => t.startsWith(c)));
+  const observed: CausalEdge['relationship'] | null = direction > 0 ? 'positive' : direction < 0 ? 'negative' : associated ? 'correlative' : null;
+
+  let stance: Stance = 'neutral';
+  let cue = 'no directional language';
+  if (NULL_PATTERNS.test(scope)) {
+    stance = 'contradicting';
+    cue = 'reports a null finding';
+  } else if (observed) {
+    const agrees = relationship === 'correlative' || observed === relationship;
+    stance = agrees ? 'supporting' : observed === 'correlative' ? 'neutral' : 'contradicting';
+    cue = observed === 'correlative' ? 'describes an association' : `describes a ${observed} effect`;
+  }
+  return { stance, cue, explicit: true, hedged: HEDGES.test(scope) };
+};
+
+export const methodQuality = (text: string) =>
+  DESIGNS.find(d => d.pattern.test(text)) || { quality: 'Low' as const, label: 'no stated design' };
+
+// Platt-style logistic over retrieval features. The coefficients are priors chosen so that a
+// top-ranked, explicit, directional passage from a controlled study lands near 0.9 and a
+// co-mention in hedged in-vitro text stays below 0.3; they are not fitted to labelled data.
+const CALIBRATION = { bias: -2.4, relevance: 1.6, explicit: 1.2, directional: 1.0, quality: { High: 1.0, Medium: 0.4, Low: -0.2 }, hedged: -0.8 };
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export interface EvidenceOptions {
+  perStance?: number;
+  candidates?: number;
+  embed?: Embedder;
+}
+
+/** Supporting and contradicting passages for every edge, each with a calibrated confidence in [0, 1]. */
+export const retrieveEdgeEvidence = (sources: Source[], graph: CausalGraphData, options: EvidenceOptions = {}): RAGSource[] => {
+  const { perStance = 2, candidates = 8, embed } = options;
+  const index = buildIndex(sources, embed);
+  if (!index.chunks.length) return [];
+  const label = (id: string) => graph.nodes.find(n => n.id === id)?.label || id;
+
+  return graph.edges.flatMap(edge => {
+    const src = label(edge.source);
+    const tgt = label(edge.target);
+    const hits = search(index, `${src} ${tgt}`, candidates);
+    const topBm25 = Math.max(...hits.map(h => h.bm25), 1e-9);
+
+    const evidence = hits.map(hit => {
+      const tokens = new Set(tokenize(hit.chunk.text));
+      const coverage = Math.min(mentionCoverage(src, tokens), mentionCoverage(tgt, tokens));
+      const stance = classifyStance(hit.chunk.text, src, tgt, edge.relationship);
+      const design = methodQuality(hit.chunk.text);
+      const relevance = 0.5 * hit.bm25 / topBm25 + 0.5 * Math.max(0, hit.cosine);
+      const z = CALIBRATION.bias + CALIBRATION.relevance * relevance
+        + (stance.explicit ? CALIBRATION.explicit : 0)
+        + (stance.stance !== 'neutral' ? CALIBRATION.directional : 0)
+        + CALIBRATION.quality[design.quality]
+        + (stance.hedged ? CALIBRATION.hedged : 0);
+      const reason = [
+        `rank ${hit.rank} of ${hits.length}`,
+        ...(stance.explicit ? ['names both variables in one sentence'] : []),
+        stance.cue,
+        design.label,
+        ...(stance.hedged ? ['hedged language'] : [])
+      ].join('; ');
+      return {
+        coverage,
+        rag: {
+          title: hit.chunk.title,
+          url: hit.chunk.url,
+          snippet: hit.chunk.text,
+          confidenceScore: Number(sigmoid(z).toFixed(3)),
+          confidenceReason: reason,
+          methodQuality: design.quality,
+          sourceId: hit.chunk.sourceId,
+          span: [hit.chunk.start, hit.chunk.end] as [number, number],
+          edge: edgeKey(edge.source, edge.target),
+          stance: stance.stance
+        } as RAGSource
+      };
+    }).filter(e => e.coverage >= 0.5);
+
+    const pick = (stance: Stance) => evidence.filter(e => e.rag.stance === stance)
+      .sort((a, b) => b.rag.confidenceScore - a.rag.confidenceScore).slice(0, perStance).map(e => e.rag);
+    const directional = [...pick('supporting'), ...pick('contradicting')];
+    // Bare co-mentions are only worth showing when nothing states a direction.
+    return directional.length ? directional : pick('neutral').slice(0, 1);
+  });
+};
+
+/** Attach retrieved evidence to report claims, by the edge the model named or by label overlap. */
+export const attachClaimEvidence = (claims: ClaimCard[], rag: RAGSource[], graph: CausalGraphData): ClaimCard[] => {
+  const label = (id: string) => graph.nodes.find(n => n.id === id)?.label || id;
+  return claims.map(claim => {
+    let edge = claim.edge && rag.some(r => r.edge === claim.edge) ? claim.edge : undefined;
+    if (!edge) {
+      const tokens = new Set(tokenize(claim.claim));
+      const best = graph.edges
+        .map(e => ({ key: edgeKey(e.source, e.target), score: Math.min(mentionCoverage(label(e.source), tokens), mentionCoverage(label(e.target), tokens)) }))
+        .filter(e => e.score >= 0.5)
+        .sort((a, b) => b.score - a.score)[0];
+      edge = best?.key;
+    }
+    return edge ? { ...claim, edge, evidence: rag.filter(r => r.edge === edge) } : claim;
+  });
+};
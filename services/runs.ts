@@ -0,0 +1,106 @@
+import * as Y from "yjs";
+import { RunKind, RunLock } from "../types";
+
+/**
+ * Ownership of in-flight LLM calls in a shared notebook.
+ *
+ * A run is claimed by writing a lock under its kind in the shared `runs` map. While the lock is
+ * live nobody else starts a run of that kind; the owner heartbeats it and deletes it when done.
+ * Two peers can claim at the same moment before they sync: Yjs keeps one of the writes, and the
+ * peer whose lock lost discards its results, because results are only committed while the
+ * committer still holds the lock. A lock that stops heartbeating (closed tab, crash) lapses and the
+ * next claim overwrites it; only its owner ever deletes a lock.
+ *
+ * Peers' clocks can disagree by minutes, so a lock's heartbeat is never compared with this client's
+ * clock. It lapses once this client has seen it unchanged for RUN_TTL_MS by its own clock.
+ */
+
+export const RUN_HEARTBEAT_MS = 10_000;
+export const RUN_TTL_MS = 45_000;
+
+export const RUN_LABELS: Record<RunKind, string> = {
+  chat: 'answering a question',
+  scaffold: 'scaffolding a source',
+  synthesis: 'running synthesis'
+};
+
+// Per shared map, each kind's last seen lock and heartbeat, and when this client saw them change.
+const sightings = new WeakMap<Y.Map<RunLock>, Map<RunKind, { id: string; heartbeat: number; seenAt: number }>>();
+
+/** The lock held on `kind`, unless this client has not seen its heartbeat change for RUN_TTL_MS. */
+export const liveRun = (yRuns: Y.Map<RunLock>, kind: RunKind, now = Date.now()): RunLock | undefined => {
+  const lock = yRuns.get(kind);
+  if (!lock) return undefined;
+  let seen = sightings.get(yRuns);
+  if (!seen) sightings.set(yRuns, seen = new Map());
+  const last = seen.get(kind);
+  if (last && last.id === lock.id && last.heartbeat === lock.heartbeat) return now - last.seenAt < RUN_TTL_MS ? lock : undefined;
+  seen.set(kind, { id: lock.id, heartbeat: lock.heartbeat, seenAt: now });
+  return lock;
+};
+
+export const activeRuns = (yRuns: Y.Map<RunLock>, now = Date.now()): Partial<Record<RunKind, RunLock>> =>
+  Object.fromEntries([...yRuns.keys()].flatMap(kind => {
+    const lock = liveRun(yRuns, kind as RunKind, now);
+    return lock ? [[kind, lock]] : [];
+  }));
+
+export const ownsRun = (yRuns: Y.Map<RunLock>, lock: RunLock) => yRuns.get(lock.kind)?.id === lock.id;
+
+export const releaseOwnRuns = (yRuns: Y.Map<RunLock>, owner: string) => {
+  const own = [...yRuns.entries()].filter(([, lock]) => lock.owner === owner).map(([kind]) => kind);
+  if (own.length) yRuns.doc?.transact(() => own.forEach(kind => yRuns.delete(kind)));
+};
+
+/** Resolves once no live run of `kind` is held by anyone (immediately if none is). */
+export const waitForRun = (yRuns: Y.Map<RunLock>, kind: RunKind) => new Promise<void>(resolve => {
+  const check = () => {
+    if (liveRun(yRuns, kind)) return;
+    yRuns.unobserve(check);
+    clearInterval(timer);
+    resolve();
+  };
+  const timer = setInterval(check, RUN_HEARTBEAT_MS);
+  yRuns.observe(check);
+  check();
+});
+
+export interface RunOwner {
+  id: string;
+  name: string;
+}
+
+/**
+ * Runs `work` under a lock of `kind` and resolves to null, or resolves to the live lock someone else
+ * holds without running it. `commit` applies shared writes in one transaction and is a no-op
+ * (returning false) once the lock is lost.
+ */
+export const runExclusive = async (
+  yRuns: Y.Map<RunLock>,
+  kind: RunKind,
+  owner: RunOwner,
+  work: (commit: (apply: () => void) => boolean) => Promise<void>
+): Promise<RunLock | null> => {
+  const held = liveRun(yRuns, kind);
+  if (held) return held;
+
+  const now = Date.now();
+  const lock: RunLock = { id: Math.random().toString(36).substring(2, 10), kind, owner: owner.id, ownerName: owner.name, startedAt: now, heartbeat: now };
+  yRuns.set(kind, lock);
+  const beat = setInterval(() => {
+    if (ownsRun(yRuns, lock)) yRuns.set(kind, { ...yRuns.get(kind)!, heartbeat: Date.now() });
+  }, RUN_HEARTBEAT_MS);
+
+  const commit = (apply: () => void) => {
+    if (!ownsRun(yRuns, lock)) return false;
+    yRuns.doc ? yRuns.doc.transact(apply) : apply();
+    return true;
+  };
+  try {
+    await work(commit);
+  } finally {
+    clearInterval(beat);
+    if (ownsRun(yRuns, lock)) yRuns.delete(kind);
+  }
+  return null;
+};
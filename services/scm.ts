@@ -0,0 +1,218 @@
+import { CausalEdge, CausalGraphData, CausalNode } from "../types";
+import { Expr, collectVariables, evaluateExpression, parseExpression } from "./expression";
+import { RNG } from "./random";
+import { edgeKey } from "./graph";
+
+// Variables without declared bounds live on a normalised [0, 1] scale.
+export const nodeBounds = (node: CausalNode) => {
+  const min = node.min ?? 0;
+  const max = node.max ?? (node.min !== undefined ? node.min + 1 : 1);
+  return { min, max: max > min ? max : min + 1 };
+};
+
+export const normalizeValue = (node: CausalNode, value: number) => {
+  const { min, max } = nodeBounds(node);
+  return (value - min) / (max - min);
+};
+
+export const denormalizeValue = (node: CausalNode, norm: number) => {
+  const { min, max } = nodeBounds(node);
+  return min + norm * (max - min);
+};
+
+// Correlative edges express association, not mechanism, so they carry no causal effect.
+export const effectiveWeight = (edge: CausalEdge) =>
+  edge.weight ?? (edge.relationship === 'positive' ? 0.5 : edge.relationship === 'negative' ? -0.5 : 0);
+
+export const baselineValue = (node: CausalNode) => {
+  const { min, max } = nodeBounds(node);
+  return node.value ?? node.currentValue ?? (min + max) / 2;
+};
+
+const DEFAULT_NOISE_SD = 0.05;
+
+export interface SCMOptions {
+  // do(): nodes listed here are fixed and their structural equations are cut.
+  interventions?: Record<string, number>;
+  // When provided, exogenous noise terms are sampled; otherwise the model is deterministic.
+  rng?: RNG;
+  // Edge weights by "source->target" key, used in place of the scaffold's without recompiling.
+  weights?: Record<string, number>;
+  maxIterations?: number;
+  tolerance?: number;
+  damping?: number;
+}
+
+export interface SCMResult {
+  values: Record<string, number>;
+  normalized: Record<string, number>;
+  converged: boolean;
+  iterations: number;
+}
+
+export interface CompiledSCM {
+  order: string[][];
+  cycles: string[][];
+  errors: Record<string, string>;
+  dependencies: Record<string, string[]>;
+  evaluate(options?: SCMOptions): SCMResult;
+}
+
+interface CompiledNode {
+  node: CausalNode;
+  equation: Expr | null;
+  usesNoise: boolean;
+  parents: { id: string; weight: number; key: string }[];
+  bounded: boolean;
+}
+
+// Tarjan's algorithm; components come out in reverse topological order.
+export const stronglyConnectedComponents = (ids: string[], deps: Record<string, string[]>): string[][] => {
+  const children: Record<string, string[]> = {};
+  ids.forEach(id => { children[id] = []; });
+  ids.forEach(id => (deps[id] || []).forEach(p => children[p]?.push(id)));
+
+  let index = 0;
+  const idx: Record<string, number> = {};
+  const low: Record<string, number> = {};
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const out: string[][] = [];
+
+  const strongConnect = (v: string) => {
+    idx[v] = low[v] = index++;
+    stack.push(v);
+    onStack.add(v);
+    for (const w of children[v]) {
+      if (idx[w] === undefined) {
+        strongConnect(w);
+        low[v] = Math.min(low[v], low[w]);
+      } else if (onStack.has(w)) {
+        low[v] = Math.min(low[v], idx[w]);
+      }
+    }
+    if (low[v] === idx[v]) {
+      const comp: string[] = [];
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        comp.push(w);
+      } while (w !== v);
+      out.push(comp);
+    }
+  };
+
+  ids.forEach(id => { if (idx[id] === undefined) strongConnect(id); });
+  return out;
+};
+
+export const compileSCM = (graph: CausalGraphData): CompiledSCM => {
+  const ids = graph.nodes.map(n => n.id);
+  const known = new Set(ids);
+  const errors: Record<string, string> = {};
+  const compiled: Record<string, CompiledNode> = {};
+  const deps: Record<string, string[]> = {};
+
+  graph.nodes.forEach(node => {
+    const parents = graph.edges
+      .filter(e => e.target === node.id && known.has(e.source))
+      .map(e => ({ id: e.source, weight: effectiveWeight(e), key: edgeKey(e.source, node.id) }));
+    const depSet = new Set(parents.map(p => p.id));
+
+    let equation: Expr | null = null;
+    let usesNoise = false;
+    if (node.equation?.trim()) {
+      try {
+        const expr = parseExpression(node.equation);
+        const vars = collectVariables(expr);
+        const unknown = [...vars].filter(v => !known.has(v) && v !== 'U' && v !== 'base');
+        if (unknown.length) throw new Error(`Unknown variable(s): ${unknown.join(', ')}`);
+        vars.forEach(v => { if (known.has(v)) depSet.add(v); });
+        usesNoise = vars.has('U');
+        equation = expr;
+      } catch (e) {
+        errors[node.id] = (e as Error).message;
+      }
+    }
+
+    deps[node.id] = [...depSet];
+    compiled[node.id] = { node, equation, usesNoise, parents, bounded: !equation || node.min !== undefined || node.max !== undefined };
+  });
+
+  const order = stronglyConnectedComponents(ids, deps).reverse();
+  const cycles = order.filter(c => c.length > 1 || deps[c[0]].includes(c[0]));
+
+  const evaluate = (options: SCMOptions = {}): SCMResult => {
+    const { interventions = {}, rng, weights, maxIterations = 500, tolerance = 1e-6, damping = 0.5 } = options;
+    const values: Record<string, number> = {};
+    const noise: Record<string, number> = {};
+
+    ids.forEach(id => {
+      const c = compiled[id];
+      values[id] = id in interventions ? interventions[id] : baselineValue(c.node);
+      noise[id] = rng ? rng.normal(0, c.node.noise ?? DEFAULT_NOISE_SD) : 0;
+    });
+
+    const clampTo = (c: CompiledNode, v: number) => {
+      if (!c.bounded || !Number.isFinite(v)) return Number.isFinite(v) ? v : baselineValue(c.node);
+      const { min, max } = nodeBounds(c.node);
+      return Math.max(min, Math.min(max, v));
+    };
+
+    const structural = (id: string): number => {
+      const c = compiled[id];
+      if (c.equation) {
+        const raw = evaluateExpression(c.equation, { ...values, U: noise[id], base: baselineValue(c.node) });
+        return clampTo(c, c.usesNoise ? raw : raw + noise[id] * (nodeBounds(c.node).max - nodeBounds(c.node).min));
+      }
+      if (c.parents.length === 0) {
+        return clampTo(c, baselineValue(c.node) + noise[id] * (nodeBounds(c.node).max - nodeBounds(c.node).min));
+      }
+      // Default mechanism: linear in how far each parent sits from its own baseline, so a node is at its
+      // baseline when its parents are and several parents do not push it against a bound.
+      const baseNorm = c.node.value !== undefined ? normalizeValue(c.node, c.node.value) : 0.5;
+      const norm = c.parents.reduce((acc, p) => {
+        const parent = compiled[p.id].node;
+        return acc + (weights?.[p.key] ?? p.weight) * (normalizeValue(parent, values[p.id]) - normalizeValue(parent, baselineValue(parent)));
+      }, baseNorm) + noise[id];
+      return clampTo(c, denormalizeValue(c.node, norm));
+    };
+
+    let converged = true;
+    let iterations = 0;
+    order.forEach(component => {
+      const free = component.filter(id => !(id in interventions));
+      if (free.length === 0) return;
+      const isCycle = cycles.includes(component);
+      if (!isCycle) {
+        values[free[0]] = structural(free[0]);
+        return;
+      }
+      // Feedback loop: damped fixed-point iteration until the loop settles.
+      let settled = false;
+      for (let it = 0; it < maxIterations; it++) {
+        let delta = 0;
+        free.forEach(id => {
+          const next = structural(id);
+          const blended = (1 - damping) * values[id] + damping * next;
+          const { min, max } = nodeBounds(compiled[id].node);
+          delta = Math.max(delta, Math.abs(blended - values[id]) / (max - min));
+          values[id] = blended;
+        });
+        iterations = Math.max(iterations, it + 1);
+        if (delta < tolerance) { settled = true; break; }
+      }
+      if (!settled) converged = false;
+    });
+
+    const normalized: Record<string, number> = {};
+    ids.forEach(id => { normalized[id] = Math.max(0, Math.min(1, normalizeValue(compiled[id].node, values[id]))); });
+    return { values, normalized, converged, iterations };
+  };
+
+  return { order, cycles, errors, dependencies: deps, evaluate };
+};
+
+export const simulateSCM = (graph: CausalGraphData, options?: SCMOptions): SCMResult =>
+  compileSCM(graph).evaluate(options);
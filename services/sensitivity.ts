@@ -0,0 +1,157 @@
+import { CausalGraphData, EdgeSensitivity, SensitivityAnalysis, SimulationResult, TippingPoint } from "../types";
+import { compileSCM, effectiveWeight, nodeBounds } from "./scm";
+import { ancestorsOf, descendantsOf, edgeKey } from "./graph";
+import { mean } from "./stats";
+import { pickTreatmentAndOutcome } from "./synthesis";
+
+// Multiples of each edge's weight; 0 removes the edge, 0.5 and 1.5 are the tornado's ends.
+export const SWEEP_SCALES = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+const LOW = SWEEP_SCALES.indexOf(0.5);
+const HIGH = SWEEP_SCALES.indexOf(1.5);
+const REMOVED = SWEEP_SCALES.indexOf(0);
+
+const IMBALANCES = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+const Z_975 = 1.959964;
+
+const round = (v: number, digits = 4) => Number(v.toFixed(digits));
+
+/**
+ * E-value for a standardized mean difference (VanderWeele & Ding): d is converted to an approximate
+ * risk ratio with RR = exp(0.91 d), and the E-value is the strength, on the risk-ratio scale, that an
+ * unmeasured confounder would need with both treatment and outcome to explain the effect away.
+ */
+export const eValue = (d: number) => {
+  const rr = Math.exp(0.91 * Math.abs(d));
+  return rr + Math.sqrt(rr * (rr - 1));
+};
+
+export const edgeLabel = (graph: CausalGraphData, edge: string) => {
+  const label = (id: string) => graph.nodes.find(n => n.id === id)?.label ?? id;
+  const [source, target] = edge.split('->');
+  return `${label(source)} → ${label(target)}`;
+};
+
+// Signed change from the base effect, as a fraction of its size.
+export const relativeChange = (effect: number, base: number) => base === 0 ? 0 : (effect - base) / Math.abs(base);
+
+/**
+ * How far the simulated effect of the treatment on the outcome can be pushed, by a confounder the
+ * scaffold leaves out (E-values and tipping points) and by the scaffold's own mechanisms (every edge
+ * removed and rescaled in turn). The score summarizes these with the bootstrap and weight-shift
+ * checks from synthesis, so the reported robustness follows from the analyses rather than a judgement.
+ */
+export const analyzeSensitivity = (scaffold: CausalGraphData, result: SimulationResult): SensitivityAnalysis => {
+  const { treatment, outcome } = pickTreatmentAndOutcome(scaffold, result.treatmentId, result.outcomeId);
+  const { min, max } = nodeBounds(treatment);
+  // One compiled model serves every perturbation; each sweep point only overrides one edge's weight.
+  const model = compileSCM(scaffold);
+  const effectOf = (weights?: Record<string, number>) => {
+    const at = (dose: number) => model.evaluate({ interventions: { [treatment.id]: dose }, weights }).values[outcome.id];
+    return at(max) - at(min);
+  };
+  const baseEffect = round(effectOf());
+
+  // Arm sizes at the lowest and highest dose, which is what the reported d compares.
+  const synthetic = (result.doseResponseData || []).filter(p => p.type === 'Synthetic');
+  const xs = synthetic.map(p => p.x);
+  const n1 = xs.filter(x => x === Math.min(...xs)).length;
+  const n2 = xs.filter(x => x === Math.max(...xs)).length;
+  const d = Math.abs(result.statistics?.effectSize ?? 0);
+  const se = n1 && n2 ? Math.sqrt(1 / n1 + 1 / n2 + d * d / (2 * (n1 + n2))) : Infinity;
+  const lower = d - Z_975 * se;
+
+  const tipping: TippingPoint[] = IMBALANCES.map(imbalance => ({
+    imbalance,
+    nullifying: round(d / imbalance, 3),
+    insignificant: round(Math.max(0, lower / imbalance), 3)
+  }));
+
+  // What each node actually reads, equation variables included. The effect is the difference between two
+  // settings of the treatment, so an edge changes it only on a path from the treatment to the outcome.
+  const reads: CausalGraphData = {
+    nodes: scaffold.nodes,
+    edges: Object.entries(model.dependencies).flatMap(([target, sources]) => sources.map(source => ({ source, target, relationship: 'positive' as const })))
+  };
+  const downstream = descendantsOf(reads, treatment.id).add(treatment.id);
+  const upstream = ancestorsOf(reads, outcome.id).add(outcome.id);
+  const byId = new Map(scaffold.nodes.map(n => [n.id, n]));
+  const flat = () => SWEEP_SCALES.map(() => baseEffect);
+  const edges: EdgeSensitivity[] = scaffold.edges.map(e => {
+    const target = byId.get(e.target);
+    const edge = edgeKey(e.source, e.target);
+    const label = edgeLabel(scaffold, edge);
+    if (target?.equation?.trim() && !model.errors[target.id]) return { edge, label, sweep: flat(), fixedByEquation: true };
+    if (!downstream.has(e.source) || !upstream.has(e.target) || e.target === treatment.id) return { edge, label, sweep: flat() };
+    const weight = effectiveWeight(e);
+    const sweep = SWEEP_SCALES.map(scale => scale === 1 ? baseEffect : round(effectOf({ [edge]: weight * scale })));
+    return { edge, label, sweep };
+  });
+  const swing = (e: EdgeSensitivity) => Math.abs(e.sweep[HIGH] - e.sweep[LOW]) + Math.abs(e.sweep[REMOVED] - baseEffect);
+  edges.sort((a, b) => swing(b) - swing(a));
+
+  const perturbed = edges.filter(e => !e.fixedByEquation);
+  const keepsSign = (effect: number) => baseEffect !== 0 && Math.sign(effect) === Math.sign(baseEffect);
+  const signStable = perturbed.length ? 100 * perturbed.filter(e => keepsSign(e.sweep[REMOVED])).length / perturbed.length : null;
+  const ends = perturbed.flatMap(e => [e.sweep[LOW], e.sweep[HIGH]]);
+  const sweepStable = ends.length
+    ? 100 * ends.filter(effect => keepsSign(effect) && Math.abs(effect - baseEffect) <= 0.5 * Math.abs(baseEffect)).length / ends.length
+    : null;
+
+  const eValueCI = lower > 0 ? eValue(lower) : 1;
+  // An E-value of 3 or more for the confidence limit counts as fully robust to confounding.
+  const components = [
+    Math.min(1, (eValueCI - 1) / 2),
+    signStable === null ? null : signStable / 100,
+    sweepStable === null ? null : sweepStable / 100,
+    typeof result.robustness?.bootstrapStability === 'number' ? result.robustness.bootstrapStability / 100 : null,
+    typeof result.robustness?.domainShiftResilience === 'number' ? result.robustness.domainShiftResilience / 100 : null
+  ].filter((c): c is number => c !== null);
+
+  return {
+    baseEffect,
+    eValue: round(eValue(d), 3),
+    eValueCI: round(eValueCI, 3),
+    tipping,
+    scales: SWEEP_SCALES,
+    edges,
+    signStable: Math.round(signStable ?? 100),
+    sweepStable: Math.round(sweepStable ?? 100),
+    score: Math.round(100 * mean(components))
+  };
+};
+
+/**
+ * analyzeSensitivity in a worker, since large scaffolds with many edges on the treatment–outcome path
+ * take seconds. Falls back to the main thread where workers are unavailable or the worker fails to start.
+ */
+export const analyzeSensitivityOffThread = (scaffold: CausalGraphData, result: SimulationResult): Promise<SensitivityAnalysis> => {
+  if (typeof Worker === 'undefined') return Promise.resolve(analyzeSensitivity(scaffold, result));
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./sensitivity.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ analysis?: SensitivityAnalysis; error?: string }>) => {
+      worker.terminate();
+      if (event.data.analysis) resolve(event.data.analysis);
+      else reject(new Error(event.data.error || 'Sensitivity analysis failed'));
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      worker.terminate();
+      resolve(analyzeSensitivity(scaffold, result));
+    };
+    worker.postMessage({ scaffold, result });
+  });
+};
+
+// The weakest confounder, at full imbalance between the arms, that would leave the effect indistinguishable from none.
+export const tippingPoint = (analysis: SensitivityAnalysis) => analysis.tipping[analysis.tipping.length - 1];
+
+/** A short paragraph for the report: the E-values, the tipping point and the edge the effect leans on most. */
+export const describeSensitivity = (analysis: SensitivityAnalysis) => {
+  const top = analysis.edges.find(e => !e.fixedByEquation);
+  const tip = tippingPoint(analysis);
+  return `An unmeasured confounder would need a risk ratio of ${analysis.eValue.toFixed(2)} with both treatment and outcome to explain the effect away ` +
+    `(${analysis.eValueCI.toFixed(2)} to move the confidence interval to the null); one present in every treated unit and no control ` +
+    `would need to shift the outcome by ${tip.insignificant.toFixed(2)} SD to make it insignificant. ` +
+    `${analysis.signStable}% of single-edge removals keep the effect's sign` +
+    (top ? `, and it is most sensitive to ${top.label}.` : '.');
+};
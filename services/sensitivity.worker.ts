@@ -0,0 +1,11 @@
+import { CausalGraphData, SimulationResult } from "../types";
+import { analyzeSensitivity } from "./sensitivity";
+
+self.onmessage = (event: MessageEvent<{ scaffold: CausalGraphData; result: SimulationResult }>) => {
+  const { scaffold, result } = event.data;
+  try {
+    postMessage({ analysis: analyzeSensitivity(scaffold, result) });
+  } catch (e) {
+    postMessage({ error: (e as Error).message });
+  }
+};
@@ -0,0 +1,103 @@
+import * as Y from "yjs";
+import { CausalEdge, CausalGraphData, CausalNode } from "../types";
+import { edgeKey } from "./graph";
+
+/**
+ * The shared scaffold as CRDT structures rather than one opaque value: every node and edge is its
+ * own Y.Map of fields, keyed by node id or "source->target". Changes are written as field-level
+ * patches, so collaborators editing different nodes, or different fields of one node, both keep
+ * their edits; only concurrent writes to the same field fall back to last-writer-wins.
+ *
+ * Both collections are root types, because two peers creating the same nested map at once would
+ * each replace the other's.
+ */
+
+type Item = Record<string, unknown>;
+type Items = Y.Map<Y.Map<unknown>>;
+
+// Stored beside the fields so every peer lists nodes in the same order; stripped on read.
+const RANK = '__rank';
+
+// Whole-graph value written by clients from before the CRDT model, kept under the scaffold map.
+const LEGACY_KEY = 'data';
+
+const nodeItems = (doc: Y.Doc): Items => doc.getMap('scaffoldNodes');
+const edgeItems = (doc: Y.Doc): Items => doc.getMap('scaffoldEdges');
+
+const readItems = <T>(items: Items): T[] =>
+  [...items.entries()]
+    .map(([key, entry]) => ({ key, rank: Number(entry.get(RANK)) || 0, value: Object.fromEntries([...entry.entries()].filter(([f]) => f !== RANK)) }))
+    .sort((a, b) => a.rank - b.rank || a.key.localeCompare(b.key))
+    .map(({ value }) => value as T);
+
+export const readScaffold = (doc: Y.Doc): CausalGraphData | null => {
+  const nodes = nodeItems(doc);
+  const edges = edgeItems(doc);
+  if (!nodes.size && !edges.size) return null;
+  return { nodes: readItems<CausalNode>(nodes), edges: readItems<CausalEdge>(edges) };
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Writes only the fields that differ between `before` and `after`, onto whatever the entries hold now.
+const patchItems = (items: Items, before: Map<string, Item>, after: Map<string, Item>) => {
+  before.forEach((_, key) => { if (!after.has(key) && items.has(key)) items.delete(key); });
+  let nextRank = Math.max(0, ...[...items.values()].map(e => Number(e.get(RANK)) || 0)) + 1;
+  after.forEach((item, key) => {
+    let entry = items.get(key);
+    const prev = before.get(key);
+    // Another peer deleted it meanwhile: leave it deleted unless this edit changed it, since an edit outranks a delete.
+    if (!entry && prev && same(prev, item)) return;
+    const base = entry ? prev || {} : {};
+    if (!entry) {
+      entry = items.set(key, new Y.Map<unknown>());
+      entry.set(RANK, nextRank++);
+    }
+    new Set([...Object.keys(base), ...Object.keys(item)]).forEach(field => {
+      if (field === RANK || same(base[field], item[field])) return;
+      if (item[field] === undefined) entry!.delete(field);
+      else entry!.set(field, item[field]);
+    });
+  });
+};
+
+const keyed = <T extends object>(list: T[] | undefined, key: (item: T) => string) =>
+  new Map((list || []).map(item => [key(item), item as unknown as Item]));
+
+/**
+ * Applies the edit that turned `before` into `after`. Passing the graph the edit was made from,
+ * rather than the latest shared one, is what keeps concurrent edits elsewhere from being reverted.
+ */
+export const applyScaffoldChange = (doc: Y.Doc, before: CausalGraphData | null | undefined, after: CausalGraphData) => {
+  doc.transact(() => {
+    patchItems(nodeItems(doc), keyed(before?.nodes, n => n.id), keyed(after.nodes, n => n.id));
+    patchItems(edgeItems(doc), keyed(before?.edges, e => edgeKey(e.source, e.target)), keyed(after.edges, e => edgeKey(e.source, e.target)));
+  });
+};
+
+/** Makes the shared scaffold exactly `graph` (restores, branch switches, imports). */
+export const replaceScaffold = (doc: Y.Doc, graph: CausalGraphData) => applyScaffoldChange(doc, readScaffold(doc), graph);
+
+/** Moves a whole-graph value written by an older client into the CRDT model. Returns whether it did. */
+export const migrateLegacyScaffold = (doc: Y.Doc) => {
+  const scaffold = doc.getMap('scaffold');
+  const legacy = scaffold.get(LEGACY_KEY) as CausalGraphData | undefined;
+  if (!legacy) return false;
+  doc.transact(() => {
+    if (Array.isArray(legacy.nodes) && Array.isArray(legacy.edges)) replaceScaffold(doc, legacy);
+    scaffold.delete(LEGACY_KEY);
+  });
+  return true;
+};
+
+/** Calls `listener` on any change to the shared scaffold's nodes, edges or settings. */
+export const observeScaffold = (doc: Y.Doc, listener: () => void) => {
+  const maps = [nodeItems(doc), edgeItems(doc)];
+  const scaffold = doc.getMap('scaffold');
+  maps.forEach(m => m.observeDeep(listener));
+  scaffold.observe(listener);
+  return () => {
+    maps.forEach(m => m.unobserveDeep(listener));
+    scaffold.unobserve(listener);
+  };
+};
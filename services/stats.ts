@@ -0,0 +1,261 @@
+export const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+export const mean = (xs: number[]) => xs.length ? sum(xs) / xs.length : NaN;
+
+export const variance = (xs: number[]) => {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return sum(xs.map(x => (x - m) ** 2)) / (xs.length - 1);
+};
+
+export const sd = (xs: number[]) => Math.sqrt(variance(xs));
+
+export const quantile = (xs: number[], q: number) => {
+  if (!xs.length) return NaN;
+  const sorted = [...xs].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const linspace = (start: number, end: number, n: number) =>
+  n <= 1 ? [start] : Array.from({ length: n }, (_, i) => start + (end - start) * i / (n - 1));
+
+export const logGamma = (x: number): number => {
+  // Lanczos approximation (g = 7, n = 9).
+  const c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+// Continued fraction for the regularised incomplete beta function (Numerical Recipes betacf).
+const betaContinuedFraction = (a: number, b: number, x: number) => {
+  const EPS = 1e-12;
+  const FPMIN = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d; if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c; if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d; if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c; if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return h;
+};
+
+export const regularizedIncompleteBeta = (x: number, a: number, b: number) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const lnFront = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  return x < (a + 1) / (a + b + 2)
+    ? Math.exp(lnFront) * betaContinuedFraction(a, b, x) / a
+    : 1 - Math.exp(lnFront) * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+export const normalCdf = (z: number) => {
+  // Abramowitz & Stegun 7.1.26 on erf.
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z / 2);
+  return z >= 0 ? 0.5 * (1 + y) : 0.5 * (1 - y);
+};
+
+// Acklam's rational approximation of the standard normal quantile.
+export const normalQuantile = (p: number) => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+export const studentTCdf = (t: number, df: number) => {
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+export const fCdf = (f: number, d1: number, d2: number) =>
+  f <= 0 ? 0 : regularizedIncompleteBeta(d1 * f / (d1 * f + d2), d1 / 2, d2 / 2);
+
+// Bisection on the beta scale, where the F quantile is bounded.
+export const fQuantile = (p: number, d1: number, d2: number) => {
+  let lo = 0, hi = 1;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (regularizedIncompleteBeta(mid, d1 / 2, d2 / 2) < p) lo = mid; else hi = mid;
+  }
+  const x = (lo + hi) / 2;
+  return d2 * x / (d1 * (1 - x));
+};
+
+/** Noncentral F as a Poisson mixture of central betas, summed over the terms that carry the weight. */
+export const noncentralFCdf = (f: number, d1: number, d2: number, lambda: number) => {
+  if (f <= 0) return 0;
+  if (lambda <= 0) return fCdf(f, d1, d2);
+  const x = d1 * f / (d1 * f + d2);
+  const h = lambda / 2;
+  const spread = 10 * Math.sqrt(h) + 10;
+  let total = 0;
+  for (let j = Math.max(0, Math.floor(h - spread)); j <= h + spread; j++) {
+    const weight = Math.exp(-h + j * Math.log(h) - logGamma(j + 1));
+    if (weight > 1e-14) total += weight * regularizedIncompleteBeta(x, d1 / 2 + j, d2 / 2);
+  }
+  return Math.min(1, total);
+};
+
+export interface TTestResult {
+  t: number;
+  df: number;
+  pValue: number;
+  meanDifference: number;
+  cohensD: number;
+}
+
+export const welchTTest = (a: number[], b: number[]): TTestResult => {
+  const va = variance(a);
+  const vb = variance(b);
+  const se2 = va / a.length + vb / b.length;
+  const diff = mean(b) - mean(a);
+  const pooled = Math.sqrt(((a.length - 1) * va + (b.length - 1) * vb) / Math.max(1, a.length + b.length - 2));
+  const cohensD = pooled > 0 ? diff / pooled : 0;
+  if (se2 === 0) return { t: diff === 0 ? 0 : Infinity * Math.sign(diff), df: a.length + b.length - 2, pValue: diff === 0 ? 1 : 0, meanDifference: diff, cohensD };
+  const t = diff / Math.sqrt(se2);
+  const df = se2 ** 2 / ((va / a.length) ** 2 / Math.max(1, a.length - 1) + (vb / b.length) ** 2 / Math.max(1, b.length - 1));
+  return { t, df, pValue: 2 * (1 - studentTCdf(Math.abs(t), df)), meanDifference: diff, cohensD };
+};
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  slopeSE: number;
+  pValue: number;
+  r2: number;
+}
+
+export const linearRegression = (xs: number[], ys: number[]): LinearFit => {
+  const n = xs.length;
+  const mx = mean(xs);
+  const my = mean(ys);
+  const sxx = sum(xs.map(x => (x - mx) ** 2));
+  const sxy = sum(xs.map((x, i) => (x - mx) * (ys[i] - my)));
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = my - slope * mx;
+  const rss = sum(ys.map((y, i) => (y - intercept - slope * xs[i]) ** 2));
+  const tss = sum(ys.map(y => (y - my) ** 2));
+  const slopeSE = n > 2 && sxx > 0 ? Math.sqrt(rss / (n - 2) / sxx) : 0;
+  const t = slopeSE > 0 ? slope / slopeSE : 0;
+  return { slope, intercept, slopeSE, pValue: n > 2 && slopeSE > 0 ? 2 * (1 - studentTCdf(Math.abs(t), n - 2)) : 1, r2: tss > 0 ? 1 - rss / tss : 0 };
+};
+
+// Bisection on the CDF; accurate to ~1e-8, which is plenty for confidence intervals.
+export const studentTQuantile = (p: number, df: number) => {
+  if (!Number.isFinite(df) || df > 1e6) return normalQuantile(p);
+  let lo = -1e3, hi = 1e3;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/** Inverse of a symmetric positive-definite matrix by Gauss–Jordan; null when singular. */
+export const invertMatrix = (a: number[][]): number[][] | null => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const p = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      if (f !== 0) for (let j = 0; j < 2 * n; j++) m[r][j] -= f * m[col][j];
+    }
+  }
+  return m.map(row => row.slice(n));
+};
+
+const crossProduct = (x: number[][], w?: number[]) => {
+  const p = x[0].length;
+  const xtx = Array.from({ length: p }, () => new Array(p).fill(0));
+  x.forEach((row, i) => {
+    const wi = w ? w[i] : 1;
+    for (let a = 0; a < p; a++) for (let b = a; b < p; b++) xtx[a][b] += wi * row[a] * row[b];
+  });
+  for (let a = 0; a < p; a++) for (let b = 0; b < a; b++) xtx[a][b] = xtx[b][a];
+  return xtx;
+};
+
+export interface OLSFit {
+  coef: number[];
+  se: number[];
+  df: number;
+  r2: number;
+}
+
+/** Ordinary least squares; `x` rows must already include an intercept column if one is wanted. */
+export const olsFit = (x: number[][], y: number[]): OLSFit | null => {
+  const n = x.length;
+  const p = x[0]?.length ?? 0;
+  if (n <= p || p === 0) return null;
+  const inv = invertMatrix(crossProduct(x));
+  if (!inv) return null;
+  const xty = Array.from({ length: p }, (_, a) => sum(x.map((row, i) => row[a] * y[i])));
+  const coef = inv.map(row => sum(row.map((v, b) => v * xty[b])));
+  const resid = y.map((yi, i) => yi - sum(x[i].map((v, a) => v * coef[a])));
+  const rss = sum(resid.map(r => r * r));
+  const my = mean(y);
+  const tss = sum(y.map(v => (v - my) ** 2));
+  const sigma2 = rss / (n - p);
+  return { coef, se: inv.map((row, a) => Math.sqrt(Math.max(0, row[a] * sigma2))), df: n - p, r2: tss > 0 ? 1 - rss / tss : 0 };
+};
+
+/** Logistic regression by iteratively reweighted least squares, with a small ridge for separable data. */
+export const logisticFit = (x: number[][], t: number[], iterations = 25): number[] | null => {
+  const p = x[0]?.length ?? 0;
+  if (!p) return null;
+  let coef = new Array(p).fill(0);
+  for (let it = 0; it < iterations; it++) {
+    const mu = x.map(row => 1 / (1 + Math.exp(-sum(row.map((v, a) => v * coef[a])))));
+    const w = mu.map(m => Math.max(1e-6, m * (1 - m)));
+    const h = crossProduct(x, w);
+    for (let a = 0; a < p; a++) h[a][a] += 1e-4;
+    const inv = invertMatrix(h);
+    if (!inv) return null;
+    const grad = Array.from({ length: p }, (_, a) => sum(x.map((row, i) => row[a] * (t[i] - mu[i]))) - 1e-4 * coef[a]);
+    const step = inv.map(row => sum(row.map((v, b) => v * grad[b])));
+    coef = coef.map((c, a) => c + step[a]);
+    if (Math.max(...step.map(Math.abs)) < 1e-8) break;
+  }
+  return coef;
+};
@@ -0,0 +1,196 @@
+import { CausalGraphData, CausalNode, DoseResponseFit, HeatmapCell, PlateLayout, SimulationResult } from "../types";
+import { CompiledSCM, compileSCM, effectiveWeight, nodeBounds, normalizeValue } from "./scm";
+import { createRNG } from "./random";
+import { descendantsOf, pathLength } from "./graph";
+import { linspace, mean, quantile, sum, welchTTest } from "./stats";
+
+export interface SynthesisOptions {
+  seed?: string;
+  treatmentId?: string;
+  outcomeId?: string;
+  doseLevels?: number;
+  replicates?: number;
+  bootstrapSamples?: number;
+  shiftSamples?: number;
+}
+
+export const SYNTHESIS_DEFAULTS = { seed: 'proofsmith', doseLevels: 8, replicates: 6, bootstrapSamples: 200, shiftSamples: 40 };
+const PLATE_ROWS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+const PLATE_COLS = 12;
+const HOURS_PER_STEP = 2;
+
+export const hillResponse = (fit: DoseResponseFit, dose: number) => {
+  const x = Math.max(0, dose - fit.xOffset);
+  const xn = Math.pow(x, fit.hill);
+  return fit.bottom + (fit.top - fit.bottom) * xn / (Math.pow(fit.ec50, fit.hill) + xn);
+};
+
+const HILL_GRID = [0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3, 4];
+
+/**
+ * Four-parameter logistic fit. For fixed EC50 and Hill slope the model is linear in
+ * bottom/top, so those are solved exactly and EC50/slope are grid-searched.
+ */
+export const fitDoseResponse = (xs: number[], ys: number[]): DoseResponseFit => {
+  const xOffset = Math.min(...xs);
+  const shifted = xs.map(x => x - xOffset);
+  const span = Math.max(...shifted) || 1;
+  const ec50Grid = linspace(Math.log(span / 50), Math.log(span * 4), 40).map(Math.exp);
+  const my = mean(ys);
+  const tss = sum(ys.map(y => (y - my) ** 2));
+
+  let best: DoseResponseFit = { bottom: my, top: my, ec50: span / 2, hill: 1, xOffset, r2: 0 };
+  let bestRss = Infinity;
+  for (const ec50 of ec50Grid) {
+    for (const hill of HILL_GRID) {
+      const h = shifted.map(x => { const xn = Math.pow(x, hill); return xn / (Math.pow(ec50, hill) + xn); });
+      const mh = mean(h);
+      const shh = sum(h.map(v => (v - mh) ** 2));
+      const beta = shh > 0 ? sum(h.map((v, i) => (v - mh) * (ys[i] - my))) / shh : 0;
+      const alpha = my - beta * mh;
+      const rss = sum(ys.map((y, i) => (y - alpha - beta * h[i]) ** 2));
+      if (rss < bestRss) {
+        bestRss = rss;
+        best = { bottom: alpha, top: alpha + beta, ec50, hill, xOffset, r2: tss > 0 ? 1 - rss / tss : 1 };
+      }
+    }
+  }
+  return best;
+};
+
+export const pickTreatmentAndOutcome = (graph: CausalGraphData, treatmentId?: string, outcomeId?: string) => {
+  const byId = (id?: string) => graph.nodes.find(n => n.id === id);
+  const outDegree = (n: CausalNode) => graph.edges.filter(e => e.source === n.id).length;
+  const treatment = byId(treatmentId)
+    ?? graph.nodes.find(n => n.type === 'intervention' && outDegree(n) > 0)
+    ?? [...graph.nodes].sort((a, b) => outDegree(b) - outDegree(a))[0];
+  if (!treatment) throw new Error("Scaffold has no nodes to synthesize from.");
+  const reachable = descendantsOf(graph, treatment.id);
+  const outcome = byId(outcomeId)
+    ?? graph.nodes.find(n => n.type === 'outcome' && reachable.has(n.id))
+    ?? graph.nodes.find(n => reachable.has(n.id))
+    ?? graph.nodes.find(n => n.type === 'outcome');
+  if (!outcome) throw new Error(`No outcome is reachable from "${treatment.label}".`);
+  return { treatment, outcome };
+};
+
+const round = (v: number, digits = 4) => Number(v.toFixed(digits));
+
+interface Draw {
+  dose: number;
+  factual: number;
+  counterfactual: number;
+}
+
+// Each simulated unit gets its own noise stream; the counterfactual replays it with the treatment at control.
+const drawUnit = (model: CompiledSCM, treatmentId: string, outcomeId: string, dose: number, control: number, unitSeed: string): Draw => ({
+  dose,
+  factual: model.evaluate({ interventions: { [treatmentId]: dose }, rng: createRNG(unitSeed) }).values[outcomeId],
+  counterfactual: model.evaluate({ interventions: { [treatmentId]: control }, rng: createRNG(unitSeed) }).values[outcomeId]
+});
+
+const deterministicEffect = (graph: CausalGraphData, treatmentId: string, outcomeId: string, control: number, high: number) => {
+  const model = compileSCM(graph);
+  const at = (dose: number) => model.evaluate({ interventions: { [treatmentId]: dose } }).values[outcomeId];
+  return at(high) - at(control);
+};
+
+/**
+ * Monte Carlo synthesis from the scaffold's structural equations. Every number in the
+ * result is reproducible from the scaffold and the seed; the narrative is left to the caller.
+ */
+export const synthesizeFromScaffold = (scaffold: CausalGraphData, options: SynthesisOptions = {}): SimulationResult => {
+  const opts = { ...SYNTHESIS_DEFAULTS, ...options };
+  const { treatment, outcome } = pickTreatmentAndOutcome(scaffold, opts.treatmentId, opts.outcomeId);
+  const model = compileSCM(scaffold);
+  const { min, max } = nodeBounds(treatment);
+  const control = min;
+  const doses = linspace(min, max, opts.doseLevels);
+
+  const draws: Draw[][] = doses.map((dose, i) =>
+    Array.from({ length: opts.replicates }, (_, r) => drawUnit(model, treatment.id, outcome.id, dose, control, `${opts.seed}:dose:${i}:${r}`)));
+  const flat = draws.flat();
+  const fit = fitDoseResponse(flat.map(d => d.dose), flat.map(d => d.factual));
+
+  // Bootstrap: resample replicates within each dose level and refit.
+  const rng = createRNG(`${opts.seed}:bootstrap`);
+  const bandXs = linspace(min, max, 25);
+  const curves: number[][] = bandXs.map(() => []);
+  const fullEffect = mean(draws[draws.length - 1].map(d => d.factual)) - mean(draws[0].map(d => d.factual));
+  let sameSign = 0;
+  for (let b = 0; b < opts.bootstrapSamples; b++) {
+    const sample = draws.map(level => level.map(() => level[rng.int(level.length)]));
+    const flatSample = sample.flat();
+    const bootFit = fitDoseResponse(flatSample.map(d => d.dose), flatSample.map(d => d.factual));
+    bandXs.forEach((x, i) => curves[i].push(hillResponse(bootFit, x)));
+    const effect = mean(sample[sample.length - 1].map(d => d.factual)) - mean(sample[0].map(d => d.factual));
+    // With no effect there is no direction to hold, so nothing counts as stable.
+    if (fullEffect !== 0 && Math.sign(effect) === Math.sign(fullEffect)) sameSign++;
+  }
+
+  // Domain shift: rescale every mechanism weight by a random factor in [0.5, 1.5].
+  const shiftRng = createRNG(`${opts.seed}:shift`);
+  const baseEffect = deterministicEffect(scaffold, treatment.id, outcome.id, control, max);
+  let resilient = 0;
+  for (let k = 0; k < opts.shiftSamples; k++) {
+    const shifted = { ...scaffold, edges: scaffold.edges.map(e => ({ ...e, weight: effectiveWeight(e) * (0.5 + shiftRng.next()) })) };
+    const effect = deterministicEffect(shifted, treatment.id, outcome.id, control, max);
+    if (baseEffect !== 0 && Math.sign(effect) === Math.sign(baseEffect) && Math.abs(effect - baseEffect) <= 0.5 * Math.abs(baseEffect)) resilient++;
+  }
+
+  const test = welchTTest(draws[0].map(d => d.factual), draws[draws.length - 1].map(d => d.factual));
+
+  // Time course: first-order relaxation to the SCM equilibrium, slower for longer mechanistic chains.
+  const tau = HOURS_PER_STEP * Math.max(1, Math.min(pathLength(scaffold, treatment.id, outcome.id), scaffold.nodes.length));
+  const top = draws[draws.length - 1];
+  const timeCourseData = linspace(0, 24, 9).map(t => ({
+    t,
+    control: round(mean(top.map(d => d.counterfactual))),
+    treatment: round(mean(top.map(d => d.counterfactual + (d.factual - d.counterfactual) * (1 - Math.exp(-t / tau)))))
+  }));
+
+  const plateDoses = linspace(min, max, PLATE_COLS);
+  const heatmapData: HeatmapCell[] = PLATE_ROWS.flatMap(row => plateDoses.map((dose, c) => {
+    const unit = drawUnit(model, treatment.id, outcome.id, dose, control, `${opts.seed}:plate:${row}:${c}`);
+    return { row, col: c + 1, value: round(Math.max(0, Math.min(1, normalizeValue(outcome, unit.factual))), 3) };
+  }));
+
+  return {
+    variableName: outcome.label,
+    doseResponseData: [
+      ...flat.map(d => ({ x: round(d.dose), y: round(d.factual), type: 'Synthetic' })),
+      ...flat.map(d => ({ x: round(d.dose), y: round(d.counterfactual), type: 'Counterfactual' }))
+    ],
+    bands: bandXs.map((x, i) => ({ x: round(x), lower: round(quantile(curves[i], 0.025)), upper: round(quantile(curves[i], 0.975)) })),
+    timeCourseData,
+    heatmapData,
+    statistics: { pValue: test.pValue, effectSize: round(test.cohensD, 3), sampleSize: flat.length },
+    robustness: {
+      bootstrapStability: Math.round(100 * sameSign / opts.bootstrapSamples),
+      domainShiftResilience: Math.round(100 * resilient / opts.shiftSamples)
+    },
+    seed: opts.seed,
+    treatmentId: treatment.id,
+    outcomeId: outcome.id,
+    fit
+  };
+};
+
+/**
+ * The outcome a designed plate should read: every treatment and control well is its own simulated
+ * unit, seeded by the synthesis seed and the well, so the prediction is as reproducible as the figures.
+ */
+export const synthesizePlate = (scaffold: CausalGraphData, layout: PlateLayout, seed = SYNTHESIS_DEFAULTS.seed): Record<string, number> => {
+  const { treatment, outcome } = pickTreatmentAndOutcome(scaffold, layout.treatmentId, layout.outcomeId);
+  const model = compileSCM(scaffold);
+  const control = nodeBounds(treatment).min;
+  return Object.fromEntries(layout.wells
+    .filter(w => w.role === 'treatment' || w.role === 'control')
+    .map(w => [w.well, round(drawUnit(model, treatment.id, outcome.id, w.dose ?? control, control, `${seed}:plate:${layout.seed}:${w.well}`).factual)]));
+};
+
+// Plain-language fallback used when no model is available to write the narrative.
+export const describeSynthesis = (result: SimulationResult, treatmentLabel: string) =>
+  `Raising ${treatmentLabel} across its range shifts ${result.variableName} by ${result.fit ? round(result.fit.top - result.fit.bottom, 3) : 'an unresolved amount'} ` +
+  `(Cohen's d = ${result.statistics.effectSize}, p = ${result.statistics.pValue.toExponential(2)}, n = ${result.statistics.sampleSize}). ` +
+  `The effect direction held in ${result.robustness.bootstrapStability}% of bootstrap resamples and ${result.robustness.domainShiftResilience}% of weight-shift scenarios.`;
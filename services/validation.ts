@@ -0,0 +1,618 @@
+import {
+  Artifact, CausalEdge, CausalGraphData, CausalNode, ChatMessage, ClaimCard, HeatmapCell, PlateFormat, PlateLayout, PlateReads, PlateWell,
+  Protocol, ProtocolCorrection, ProtocolStep, ProtocolStepChange, Provenance, RAGSource, SimulationResult, Source, StructuredReport,
+  VerificationCheck, WellRole
+} from "../types";
+import { GenerateRequest, getProvider } from "./llm";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// `errors` make the value unusable; `repairs` record what was dropped or coerced to keep it usable.
+export interface Validated<T> {
+  value: T | null;
+  errors: ValidationIssue[];
+  repairs: ValidationIssue[];
+}
+
+export type Validator<T> = (input: unknown, path?: string) => Validated<T>;
+
+export class StructuredResponseError extends Error {
+  constructor(public task: string, public issues: ValidationIssue[], public attempts: number) {
+    super(`"${task}" returned invalid data after ${attempts} attempt(s): ${formatIssues(issues)}`);
+    this.name = 'StructuredResponseError';
+  }
+}
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(i => `${i.path || '$'}: ${i.message}`).join('; ');
+
+interface Ctx {
+  errors: ValidationIssue[];
+  repairs: ValidationIssue[];
+}
+
+const newCtx = (): Ctx => ({ errors: [], repairs: [] });
+const done = <T>(value: T | null, ctx: Ctx): Validated<T> => ({ value: ctx.errors.length ? null : value, ...ctx });
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const describe = (v: unknown) => v === null ? 'null' : Array.isArray(v) ? 'array' : typeof v;
+
+const requireObject = (v: unknown, path: string, ctx: Ctx): v is Record<string, any> => {
+  if (isObject(v)) return true;
+  ctx.errors.push({ path, message: `expected object, got ${describe(v)}` });
+  return false;
+};
+
+const requireString = (obj: Record<string, any>, key: string, path: string, ctx: Ctx, allowEmpty = false): string | null => {
+  const v = obj[key];
+  if (typeof v === 'string' && (allowEmpty || v.trim() !== '')) return v;
+  ctx.errors.push({ path: `${path}.${key}`, message: typeof v === 'string' ? 'must not be empty' : `expected string, got ${describe(v)}` });
+  return null;
+};
+
+const optionalString = (obj: Record<string, any>, key: string, path: string, ctx: Ctx): string | undefined => {
+  const v = obj[key];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v === 'string') return v;
+  ctx.repairs.push({ path: `${path}.${key}`, message: `dropped non-string value (${describe(v)})` });
+  return undefined;
+};
+
+const requireNumber = (obj: Record<string, any>, key: string, path: string, ctx: Ctx): number | null => {
+  const v = obj[key];
+  if (isFiniteNumber(v)) return v;
+  if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))) {
+    ctx.repairs.push({ path: `${path}.${key}`, message: 'coerced numeric string to number' });
+    return Number(v);
+  }
+  ctx.errors.push({ path: `${path}.${key}`, message: `expected finite number, got ${describe(v)}` });
+  return null;
+};
+
+const optionalNumber = (obj: Record<string, any>, key: string, path: string, ctx: Ctx): number | undefined => {
+  const v = obj[key];
+  if (v === undefined || v === null) return undefined;
+  if (isFiniteNumber(v)) return v;
+  ctx.repairs.push({ path: `${path}.${key}`, message: `dropped non-numeric value (${describe(v)})` });
+  return undefined;
+};
+
+const requireEnum = <E extends string>(obj: Record<string, any>, key: string, allowed: readonly E[], path: string, ctx: Ctx): E | null => {
+  const v = obj[key];
+  if (allowed.includes(v)) return v;
+  ctx.errors.push({ path: `${path}.${key}`, message: `expected one of ${allowed.join(' | ')}, got ${JSON.stringify(v)}` });
+  return null;
+};
+
+const clampPercent = (n: number, path: string, ctx: Ctx) => {
+  // Models sometimes answer 0.82 for 82%.
+  const scaled = n > 0 && n <= 1 ? n * 100 : n;
+  const clamped = Math.max(0, Math.min(100, scaled));
+  if (clamped !== n) ctx.repairs.push({ path, message: `rescaled ${n} to ${Math.round(clamped)}` });
+  return Math.round(clamped);
+};
+
+// Validates each element independently; invalid elements are dropped and reported as repairs.
+const filterArray = <T>(input: unknown, path: string, ctx: Ctx, item: Validator<T>, keptIndices?: number[]): T[] | null => {
+  if (!Array.isArray(input)) {
+    ctx.errors.push({ path, message: `expected array, got ${describe(input)}` });
+    return null;
+  }
+  const out: T[] = [];
+  input.forEach((raw, i) => {
+    const r = item(raw, `${path}[${i}]`);
+    ctx.repairs.push(...r.repairs);
+    if (r.value !== null) {
+      out.push(r.value);
+      keptIndices?.push(i);
+    } else ctx.repairs.push({ path: `${path}[${i}]`, message: `dropped invalid item (${formatIssues(r.errors)})` });
+  });
+  return out;
+};
+
+const compact = <T extends Record<string, any>>(obj: T): T =>
+  Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+
+export const validateProvenance: Validator<Provenance> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const sourceId = requireString(input, 'sourceId', path, ctx);
+  const start = requireNumber(input, 'start', path, ctx);
+  const end = requireNumber(input, 'end', path, ctx);
+  const quote = requireString(input, 'quote', path, ctx, true);
+  if (start !== null && end !== null && (start < 0 || end < start)) ctx.errors.push({ path, message: `invalid span [${start}, ${end}]` });
+  return done({ sourceId, start, end, quote } as Provenance, ctx);
+};
+
+// Provenance is advisory: a malformed list is dropped rather than invalidating its node or edge.
+const optionalProvenance = (obj: Record<string, any>, path: string, ctx: Ctx): Provenance[] | undefined => {
+  if (obj.provenance === undefined) return undefined;
+  if (!Array.isArray(obj.provenance)) {
+    ctx.repairs.push({ path: `${path}.provenance`, message: `expected array, got ${describe(obj.provenance)}; dropped` });
+    return undefined;
+  }
+  return filterArray(obj.provenance, `${path}.provenance`, ctx, validateProvenance) ?? undefined;
+};
+
+const NODE_TYPES = ['variable', 'outcome', 'intervention'] as const;
+const RELATIONSHIPS = ['positive', 'negative', 'correlative'] as const;
+
+export const validateSource: Validator<Source> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const id = requireString(input, 'id', path, ctx);
+  const type = requireEnum(input, 'type', ['text', 'url', 'image', 'file', 'dataset'] as const, path, ctx);
+  const title = requireString(input, 'title', path, ctx);
+  const content = requireString(input, 'content', path, ctx, true);
+  const mimeType = optionalString(input, 'mimeType', path, ctx);
+  return done({ ...input, id, type, title, content, mimeType } as Source, ctx);
+};
+
+export const validateChatMessage: Validator<ChatMessage> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const role = requireEnum(input, 'role', ['user', 'model'] as const, path, ctx);
+  const text = requireString(input, 'text', path, ctx, true);
+  const citations = Array.isArray(input.citations) ? input.citations.filter((c: unknown) => typeof c === 'string') : undefined;
+  const author = optionalString(input, 'author', path, ctx);
+  return done({ role, text, citations, isThinking: input.isThinking === true || undefined, author } as ChatMessage, ctx);
+};
+
+export const validateCausalNode: Validator<CausalNode> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const id = requireString(input, 'id', path, ctx);
+  const label = typeof input.label === 'string' && input.label.trim() ? input.label : id;
+  if (label !== input.label && id) ctx.repairs.push({ path: `${path}.label`, message: 'missing label, used id' });
+  let type = input.type;
+  if (!NODE_TYPES.includes(type)) {
+    ctx.repairs.push({ path: `${path}.type`, message: `unknown node type ${JSON.stringify(type)}, used "variable"` });
+    type = 'variable';
+  }
+  const node: CausalNode = {
+    ...input,
+    id: id as string,
+    label: label as string,
+    type,
+    value: optionalNumber(input, 'value', path, ctx),
+    equation: optionalString(input, 'equation', path, ctx),
+    currentValue: optionalNumber(input, 'currentValue', path, ctx),
+    min: optionalNumber(input, 'min', path, ctx),
+    max: optionalNumber(input, 'max', path, ctx),
+    unit: optionalString(input, 'unit', path, ctx),
+    provenance: optionalProvenance(input, path, ctx)
+  };
+  if (node.min !== undefined && node.max !== undefined && node.min > node.max) {
+    ctx.repairs.push({ path: `${path}.min`, message: `min ${node.min} exceeds max ${node.max}, swapped` });
+    [node.min, node.max] = [node.max, node.min];
+  }
+  return done(compact(node), ctx);
+};
+
+export const validateCausalEdge: Validator<CausalEdge> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const source = requireString(input, 'source', path, ctx);
+  const target = requireString(input, 'target', path, ctx);
+  const relationship = requireEnum(input, 'relationship', RELATIONSHIPS, path, ctx);
+  const edge: CausalEdge = {
+    ...input,
+    source: source as string,
+    target: target as string,
+    relationship: relationship as CausalEdge['relationship'],
+    strength: optionalNumber(input, 'strength', path, ctx),
+    weight: optionalNumber(input, 'weight', path, ctx),
+    provenance: optionalProvenance(input, path, ctx)
+  };
+  return done(compact(edge), ctx);
+};
+
+// `externalIds` lets partial graphs (e.g. node expansions) reference nodes that live in the base scaffold.
+export const graphValidator = (externalIds: string[] = []): Validator<CausalGraphData> => (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const nodeIndices: number[] = [];
+  const edgeIndices: number[] = [];
+  const rawNodes = filterArray(input.nodes, `${path}.nodes`, ctx, validateCausalNode, nodeIndices);
+  const rawEdges = filterArray(input.edges ?? [], `${path}.edges`, ctx, validateCausalEdge, edgeIndices);
+  if (!rawNodes || !rawEdges) return done(null, ctx);
+
+  const seen = new Set<string>();
+  const nodes = rawNodes.filter((n, i) => {
+    if (seen.has(n.id)) {
+      ctx.repairs.push({ path: `${path}.nodes[${nodeIndices[i]}]`, message: `dropped duplicate node id "${n.id}"` });
+      return false;
+    }
+    seen.add(n.id);
+    return true;
+  });
+
+  const known = new Set([...seen, ...externalIds]);
+  const edgeKeys = new Set<string>();
+  const edges = rawEdges.filter((e, i) => {
+    const at = `${path}.edges[${edgeIndices[i]}]`;
+    if (!known.has(e.source) || !known.has(e.target)) {
+      const missing = [e.source, e.target].filter(id => !known.has(id)).map(id => `"${id}"`).join(', ');
+      ctx.repairs.push({ path: at, message: `dropped edge referencing unknown node ${missing}` });
+      return false;
+    }
+    const key = `${e.source}->${e.target}`;
+    if (edgeKeys.has(key)) {
+      ctx.repairs.push({ path: at, message: `dropped duplicate edge ${key}` });
+      return false;
+    }
+    edgeKeys.add(key);
+    return true;
+  });
+
+  return done({ ...input, nodes, edges } as CausalGraphData, ctx);
+};
+
+export const validateCausalGraph = graphValidator();
+
+export const validateRAGSource: Validator<RAGSource> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const title = requireString(input, 'title', path, ctx);
+  const snippet = requireString(input, 'snippet', path, ctx, true);
+  const confidence = requireNumber(input, 'confidenceScore', path, ctx);
+  const methodQuality = requireEnum(input, 'methodQuality', ['High', 'Medium', 'Low'] as const, path, ctx);
+  return done({
+    ...input,
+    title,
+    url: typeof input.url === 'string' ? input.url : '',
+    snippet,
+    confidenceScore: confidence === null ? 0 : Math.max(0, Math.min(1, confidence)),
+    confidenceReason: typeof input.confidenceReason === 'string' ? input.confidenceReason : '',
+    methodQuality
+  } as RAGSource, ctx);
+};
+
+export const validateHeatmapCell: Validator<HeatmapCell> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const row = requireString(input, 'row', path, ctx);
+  const col = requireNumber(input, 'col', path, ctx);
+  const value = requireNumber(input, 'value', path, ctx);
+  return done({ row, col, value } as HeatmapCell, ctx);
+};
+
+const pointValidator = (keys: string[], stringKeys: string[] = []): Validator<Record<string, any>> => (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const out: Record<string, any> = { ...input };
+  keys.forEach(k => { out[k] = requireNumber(input, k, path, ctx); });
+  stringKeys.forEach(k => { out[k] = requireString(input, k, path, ctx); });
+  return done(out, ctx);
+};
+
+const validateDosePoint = pointValidator(['x', 'y'], ['type']);
+const validateBand = pointValidator(['x', 'lower', 'upper']);
+const validateTimePoint = pointValidator(['t', 'control', 'treatment']);
+
+export const validateSimulationResult: Validator<SimulationResult> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const variableName = requireString(input, 'variableName', path, ctx);
+  const doseResponseData = filterArray(input.doseResponseData, `${path}.doseResponseData`, ctx, validateDosePoint);
+  const bands = filterArray(input.bands, `${path}.bands`, ctx, validateBand);
+  const timeCourseData = filterArray(input.timeCourseData, `${path}.timeCourseData`, ctx, validateTimePoint);
+  const heatmapData = filterArray(input.heatmapData, `${path}.heatmapData`, ctx, validateHeatmapCell);
+
+  let statistics: SimulationResult['statistics'] | null = null;
+  if (requireObject(input.statistics, `${path}.statistics`, ctx)) {
+    const s = input.statistics;
+    const pValue = requireNumber(s, 'pValue', `${path}.statistics`, ctx);
+    const effectSize = requireNumber(s, 'effectSize', `${path}.statistics`, ctx);
+    const sampleSize = requireNumber(s, 'sampleSize', `${path}.statistics`, ctx);
+    if (pValue !== null && (pValue < 0 || pValue > 1)) ctx.errors.push({ path: `${path}.statistics.pValue`, message: `p-value ${pValue} outside [0, 1]` });
+    statistics = { pValue: pValue as number, effectSize: effectSize as number, sampleSize: sampleSize as number };
+  }
+
+  let robustness: any = input.robustness;
+  if (requireObject(input.robustness, `${path}.robustness`, ctx)) {
+    const r = input.robustness;
+    const at = `${path}.robustness`;
+    const bootstrap = requireNumber(r, 'bootstrapStability', at, ctx);
+    const shift = requireNumber(r, 'domainShiftResilience', at, ctx);
+    robustness = {
+      ...r,
+      bootstrapStability: bootstrap === null ? null : clampPercent(bootstrap, `${at}.bootstrapStability`, ctx),
+      domainShiftResilience: shift === null ? null : clampPercent(shift, `${at}.domainShiftResilience`, ctx)
+    };
+  }
+
+  return done({
+    ...input,
+    variableName,
+    doseResponseData,
+    bands,
+    timeCourseData,
+    heatmapData,
+    statistics,
+    robustness,
+    robustnessNarrative: optionalString(input, 'robustnessNarrative', path, ctx)
+  } as SimulationResult, ctx);
+};
+
+export const validateClaimCard: Validator<ClaimCard> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const claim = requireString(input, 'claim', path, ctx);
+  const verdict = requireEnum(input, 'verdict', ['Supported', 'Disputed', 'Pending'] as const, path, ctx);
+  const citation = typeof input.citation === 'string' ? input.citation : '';
+  return done({ ...input, claim, verdict, citation } as ClaimCard, ctx);
+};
+
+export const validateArtifact: Validator<Artifact> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const name = requireString(input, 'name', path, ctx);
+  const type = requireEnum(input, 'type', ['code', 'dataset', 'report'] as const, path, ctx);
+  const size = typeof input.size === 'string' ? input.size : '';
+  return done({ ...input, name, type, size, content: optionalString(input, 'content', path, ctx) } as Artifact, ctx);
+};
+
+const STEP_KINDS = ['preparation', 'treatment', 'control', 'measurement', 'analysis'] as const;
+const PROTOCOL_ORIGINS = ['authored', 'extracted', 'correction', 'restore'] as const;
+
+const optionalList = <T>(obj: Record<string, any>, key: string, path: string, ctx: Ctx, item: (v: unknown) => T | undefined): T[] | undefined => {
+  const v = obj[key];
+  if (v === undefined || v === null) return undefined;
+  if (!Array.isArray(v)) {
+    ctx.repairs.push({ path: `${path}.${key}`, message: `expected array, got ${describe(v)}; dropped` });
+    return undefined;
+  }
+  const out = v.map(item).filter((x): x is T => x !== undefined);
+  if (out.length < v.length) ctx.repairs.push({ path: `${path}.${key}`, message: `dropped ${v.length - out.length} invalid item(s)` });
+  return out.length ? out : undefined;
+};
+
+const toAmount = (v: unknown) => {
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+  return isFiniteNumber(n) && n >= 0 ? n : undefined;
+};
+const toText = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+
+// Doses, timepoints, controls, reagents and replicates, shared by steps and the corrections to them.
+const stepFields = (input: Record<string, any>, path: string, ctx: Ctx): ProtocolStepChange => {
+  let n = optionalNumber(input, 'n', path, ctx);
+  if (n !== undefined && (n < 1 || !Number.isInteger(n))) {
+    ctx.repairs.push({ path: `${path}.n`, message: n < 1 ? `dropped replicate count ${n}` : `rounded replicate count ${n}` });
+    n = n < 1 ? undefined : Math.round(n);
+  }
+  return {
+    reagents: optionalList(input, 'reagents', path, ctx, toText),
+    doses: optionalList(input, 'doses', path, ctx, toAmount),
+    doseUnit: optionalString(input, 'doseUnit', path, ctx),
+    timepoints: optionalList(input, 'timepoints', path, ctx, toAmount),
+    controls: optionalList(input, 'controls', path, ctx, toText),
+    n
+  };
+};
+
+export const validateProtocolStep: Validator<ProtocolStep> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const id = requireString(input, 'id', path, ctx);
+  let kind = input.kind;
+  if (!STEP_KINDS.includes(kind)) {
+    ctx.repairs.push({ path: `${path}.kind`, message: `unknown step kind ${JSON.stringify(kind)}, used "preparation"` });
+    kind = 'preparation';
+  }
+  const text = requireString(input, 'text', path, ctx, true);
+  return done(compact({
+    ...input,
+    id: id as string,
+    kind,
+    text: text as string,
+    ...stepFields(input, path, ctx),
+    nodeId: optionalString(input, 'nodeId', path, ctx),
+    provenance: optionalProvenance(input, path, ctx)
+  }), ctx);
+};
+
+// Step ids must be unique, and bindings must name a scaffold node when `nodeIds` is given.
+const validateSteps = (input: unknown, path: string, ctx: Ctx, nodeIds?: Set<string>): ProtocolStep[] | null => {
+  const steps = filterArray(input, path, ctx, validateProtocolStep);
+  if (!steps) return null;
+  const seen = new Set<string>();
+  return steps.filter(s => {
+    if (seen.has(s.id)) {
+      ctx.repairs.push({ path, message: `dropped duplicate step id "${s.id}"` });
+      return false;
+    }
+    seen.add(s.id);
+    return true;
+  }).map(s => {
+    if (!nodeIds || !s.nodeId || nodeIds.has(s.nodeId)) return s;
+    ctx.repairs.push({ path, message: `unbound step "${s.id}" from unknown node "${s.nodeId}"` });
+    const { nodeId, ...rest } = s;
+    return rest;
+  });
+};
+
+export const validateProtocol: Validator<Protocol> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const id = requireString(input, 'id', path, ctx);
+  const version = requireNumber(input, 'version', path, ctx);
+  const steps = validateSteps(input.steps, `${path}.steps`, ctx);
+  const origin = PROTOCOL_ORIGINS.includes(input.origin) ? input.origin : 'authored';
+  return done(compact({
+    id: id as string,
+    version: version as number,
+    parent: optionalString(input, 'parent', path, ctx),
+    title: typeof input.title === 'string' ? input.title : '',
+    steps: steps as ProtocolStep[],
+    origin,
+    note: typeof input.note === 'string' ? input.note : '',
+    by: typeof input.by === 'string' ? input.by : '',
+    at: typeof input.at === 'string' ? input.at : ''
+  }), ctx);
+};
+
+/**
+ * A protocol as extracted from a source: a title and steps. Steps are numbered s1, s2, … in order,
+ * whatever ids the model gave them, and bindings to nodes outside the scaffold are dropped.
+ */
+export const protocolDraftValidator = (nodeIds: string[]): Validator<Pick<Protocol, 'title' | 'steps'>> => (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const title = typeof input.title === 'string' && input.title.trim() ? input.title.trim() : 'Extracted protocol';
+  const raw = Array.isArray(input.steps) ? input.steps.map((s: unknown, i: number) => isObject(s) ? { ...s, id: `s${i + 1}` } : s) : input.steps;
+  const steps = validateSteps(raw, `${path}.steps`, ctx, new Set(nodeIds));
+  if (steps && !steps.length) ctx.errors.push({ path: `${path}.steps`, message: 'no usable steps' });
+  return done({ title, steps: (steps || []).map((s, i) => ({ ...s, id: `s${i + 1}` })) }, ctx);
+};
+
+export const validateProtocolCorrection: Validator<ProtocolCorrection> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  // Older reports and some models number steps.
+  const stepId = typeof input.stepId === 'number' ? String(input.stepId) : typeof input.stepId === 'string' ? input.stepId : 'new';
+  const original = typeof input.original === 'string' ? input.original : '';
+  const corrected = requireString(input, 'corrected', path, ctx);
+  let change: ProtocolStepChange | undefined;
+  if (isObject(input.change)) {
+    const at = `${path}.change`;
+    change = compact({ ...stepFields(input.change, at, ctx), kind: STEP_KINDS.includes(input.change.kind) ? input.change.kind : undefined });
+    if (!Object.keys(change).length) change = undefined;
+  }
+  return done(compact({ stepId, original, corrected: corrected as string, rationale: typeof input.rationale === 'string' ? input.rationale : '', change }), ctx);
+};
+
+export const validateStructuredReport: Validator<StructuredReport> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  let scores: StructuredReport['scores'] | null = null;
+  if (requireObject(input.scores, `${path}.scores`, ctx)) {
+    const at = `${path}.scores`;
+    const pct = (key: string) => {
+      const n = requireNumber(input.scores, key, at, ctx);
+      return n === null ? 0 : clampPercent(n, `${at}.${key}`, ctx);
+    };
+    scores = { validity: pct('validity'), reproducibility: pct('reproducibility'), robustness: pct('robustness') };
+  }
+  const summary = requireString(input, 'summary', path, ctx, true);
+  const claims = filterArray(input.claims, `${path}.claims`, ctx, validateClaimCard);
+  const protocolDiffs = filterArray(input.protocolDiffs ?? [], `${path}.protocolDiffs`, ctx, validateProtocolCorrection);
+  const artifacts = filterArray(input.artifacts ?? [], `${path}.artifacts`, ctx, validateArtifact);
+  return done({ ...input, scores, summary, claims, protocolDiffs, artifacts } as StructuredReport, ctx);
+};
+
+const PLATE_FORMATS = [24, 96, 384] as const;
+const WELL_ROLES = ['treatment', 'control', 'blank', 'edge', 'empty'] as const;
+const WELL_NAME = /^[A-P]\d{1,2}$/;
+
+export const validatePlateWell: Validator<PlateWell> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const well = requireString(input, 'well', path, ctx);
+  if (well !== null && !WELL_NAME.test(well)) ctx.errors.push({ path: `${path}.well`, message: `not a well name: "${well}"` });
+  const role = requireEnum(input, 'role', WELL_ROLES, path, ctx);
+  return done(compact({
+    well: well as string,
+    role: role as WellRole,
+    dose: optionalNumber(input, 'dose', path, ctx),
+    replicate: optionalNumber(input, 'replicate', path, ctx),
+    block: optionalNumber(input, 'block', path, ctx)
+  }), ctx);
+};
+
+export const validatePlateLayout: Validator<PlateLayout> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const format = PLATE_FORMATS.includes(input.format) ? input.format as PlateFormat : null;
+  if (format === null) ctx.errors.push({ path: `${path}.format`, message: `expected one of ${PLATE_FORMATS.join(' | ')}, got ${JSON.stringify(input.format)}` });
+  const count = (key: string) => { const n = requireNumber(input, key, path, ctx); return n === null ? 0 : Math.max(0, Math.round(n)); };
+  const wells = filterArray(input.wells, `${path}.wells`, ctx, validatePlateWell);
+  return done(compact({
+    format: format as PlateFormat,
+    doses: optionalList(input, 'doses', path, ctx, toAmount) || [],
+    doseUnit: optionalString(input, 'doseUnit', path, ctx),
+    replicates: count('replicates'),
+    controls: count('controls'),
+    blanks: count('blanks'),
+    excludeEdges: input.excludeEdges === true,
+    seed: requireString(input, 'seed', path, ctx) as string,
+    treatmentId: optionalString(input, 'treatmentId', path, ctx),
+    outcomeId: optionalString(input, 'outcomeId', path, ctx),
+    wells: wells as PlateWell[],
+    by: typeof input.by === 'string' ? input.by : '',
+    at: typeof input.at === 'string' ? input.at : ''
+  }), ctx);
+};
+
+export const validatePlateReads: Validator<PlateReads> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const name = requireString(input, 'name', path, ctx);
+  const values: Record<string, number> = {};
+  if (requireObject(input.values, `${path}.values`, ctx)) {
+    Object.entries(input.values).forEach(([well, v]) => {
+      if (WELL_NAME.test(well) && isFiniteNumber(v)) values[well] = v;
+      else ctx.repairs.push({ path: `${path}.values.${well}`, message: 'dropped read that is not a number for a well' });
+    });
+  }
+  return done({ name: name as string, values, by: typeof input.by === 'string' ? input.by : '', at: typeof input.at === 'string' ? input.at : '' }, ctx);
+};
+
+export const validateVerificationCheck: Validator<VerificationCheck> = (input, path = '$') => {
+  const ctx = newCtx();
+  if (!requireObject(input, path, ctx)) return done(null, ctx);
+  const id = requireString(input, 'id', path, ctx);
+  const name = requireString(input, 'name', path, ctx);
+  const status = requireEnum(input, 'status', ['Pass', 'Fail', 'Warn'] as const, path, ctx);
+  const message = requireString(input, 'message', path, ctx, true);
+  return done({ ...input, id, name, status, message } as VerificationCheck, ctx);
+};
+
+export const arrayOf = <T>(item: Validator<T>): Validator<T[]> => (input, path = '$') => {
+  const ctx = newCtx();
+  return done(filterArray(input, path, ctx, item), ctx);
+};
+
+export const validateVerificationChecks = arrayOf(validateVerificationCheck);
+
+// Models occasionally wrap JSON in markdown fences despite the response MIME type.
+const parseJson = (text: string): { value?: unknown; error?: string } => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return { value: JSON.parse(trimmed) };
+  } catch (e) {
+    return { error: `response is not valid JSON (${(e as Error).message})` };
+  }
+};
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Requests structured output and validates it. Fatal validation errors are fed back to the
+ * model for another attempt; repairable problems are accepted and logged.
+ */
+export const generateStructured = async <T>(request: GenerateRequest, validate: Validator<T>, maxAttempts = MAX_ATTEMPTS): Promise<T> => {
+  let feedback = '';
+  let issues: ValidationIssue[] = [];
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const contents = feedback && typeof request.contents === 'string' ? `${request.contents}\n\n${feedback}` : request.contents;
+    const response = await getProvider().generate({ ...request, contents });
+    const parsed = parseJson(response.text);
+    const result: Validated<T> = parsed.error
+      ? { value: null, errors: [{ path: '$', message: parsed.error }], repairs: [] }
+      : validate(parsed.value);
+
+    if (result.value !== null) {
+      if (result.repairs.length) console.warn(`[${request.task}] accepted with repairs: ${formatIssues(result.repairs)}`);
+      return result.value;
+    }
+    issues = result.errors;
+    feedback = `Your previous response was rejected by the schema validator. Fix these problems and respond again with the complete JSON:\n${issues.map(i => `- ${i.path}: ${i.message}`).join('\n')}`;
+  }
+  throw new StructuredResponseError(request.task, issues, maxAttempts);
+};
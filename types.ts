@@ -4,16 +4,53 @@ export enum AppStage {
   DESIGN = 'DESIGN', 
   VALIDATE = 'VALIDATE', 
   PROVE = 'PROVE', 
-  JOINING = 'JOINING' 
+  JOINING = 'JOINING',
+  PROTOCOL = 'PROTOCOL'
 }
 
 export interface Source {
   id: string;
-  type: 'text' | 'url' | 'image' | 'file';
+  type: 'text' | 'url' | 'image' | 'file' | 'dataset';
   title: string;
   content: string; // base64 for image, raw text for others
   mimeType?: string;
-  metadata?: any;
+  metadata?: SourceMetadata;
+}
+
+// Bytes as fetched, so a notebook stays reproducible after the page changes or disappears.
+export interface SourceSnapshot {
+  url: string;
+  fetchedAt: string;
+  contentType: string;
+  bytes: number;
+  sha256: string;
+  data?: string; // base64, omitted for documents too large to share over the room
+}
+
+export interface FigureVersion {
+  id: string;
+  data: string; // base64
+  mimeType: string;
+  prompt: string;
+  by: string;
+  at: string;
+}
+
+export interface SourceMetadata {
+  text?: string; // extracted reading text; what chat, scaffolding and retrieval see
+  url?: string;
+  authors?: string[];
+  doi?: string;
+  year?: number;
+  journal?: string;
+  siteName?: string;
+  pageCount?: number;
+  snapshot?: SourceSnapshot;
+  fileName?: string;
+  figureVersions?: FigureVersion[]; // edits of an image source, oldest first; the upload itself is `content`
+  activeFigureVersion?: string;
+  columnMap?: Record<string, string>; // dataset column -> CausalNode id
+  [key: string]: unknown;
 }
 
 export interface ChatMessage {
@@ -21,6 +58,40 @@ export interface ChatMessage {
   text: string;
   citations?: string[];
   isThinking?: boolean;
+  author?: string; // collaborator who asked; user messages only
+}
+
+export type RunKind = 'chat' | 'scaffold' | 'synthesis';
+
+// Claim on a shared LLM run. Only the owner writes its results; the claim lapses if heartbeats stop.
+export interface RunLock {
+  id: string;
+  kind: RunKind;
+  owner: string;
+  ownerName: string;
+  startedAt: number;
+  heartbeat: number;
+}
+
+// What a collaborator is doing on the canvas, shared through awareness rather than the document.
+export interface PeerFocus {
+  nodeId: string;
+  dragging?: boolean;
+}
+
+export interface Collaborator {
+  id: string;
+  name: string;
+  color: string;
+  focus?: PeerFocus;
+}
+
+// Where in a source a node or edge was read from; offsets index into the source's extracted text.
+export interface Provenance {
+  sourceId: string;
+  start: number;
+  end: number;
+  quote: string;
 }
 
 export interface CausalNode {
@@ -33,6 +104,10 @@ export interface CausalNode {
   min?: number;
   max?: number;
   unit?: string;
+  noise?: number; // SD of the exogenous noise term U; normalised units unless the equation uses U
+  latent?: boolean; // unmeasured: cannot be adjusted for
+  aliases?: string[]; // other names the entity goes by across sources
+  provenance?: Provenance[];
 }
 
 export interface CausalEdge {
@@ -41,6 +116,29 @@ export interface CausalEdge {
   relationship: 'positive' | 'negative' | 'correlative';
   strength?: number;
   weight?: number;
+  feedback?: boolean; // declared feedback edge: cycles through it are intentional
+  provenance?: Provenance[];
+  conflicts?: EdgeReading[]; // readings from other sources that disagree with `relationship`
+  estimate?: EdgeEstimate; // fitted from a dataset source; `weight` holds its point estimate
+}
+
+export type EstimationMethod = 'regression' | 'ipw' | 'stratification';
+
+// Weights are on the SCM's normalised scale: change in the target's [0, 1] position per unit of the source's.
+export interface EdgeEstimate {
+  method: EstimationMethod;
+  weight: number;
+  ci: [number, number]; // 95%
+  n: number;
+  sourceId: string;
+  adjustedFor: string[];
+  unadjusted?: string[]; // parents of the target with no mapped column
+  note?: string;
+}
+
+export interface EdgeReading {
+  relationship: CausalEdge['relationship'];
+  provenance?: Provenance[];
 }
 
 export interface CausalGraphData {
@@ -48,6 +146,86 @@ export interface CausalGraphData {
   edges: CausalEdge[];
 }
 
+export type RevisionOrigin = 'source' | 'expansion' | 'edit' | 'entity-merge' | 'estimate' | 'restore' | 'import';
+
+// One saved state of the scaffold. Revisions form a tree through `parent`; branches point at a head.
+export interface ScaffoldRevision {
+  id: string;
+  parent?: string;
+  branch: string;
+  graph: CausalGraphData;
+  origin: RevisionOrigin;
+  note: string;
+  by: string;
+  at: string;
+}
+
+export interface ScaffoldBranch {
+  name: string;
+  head: string; // revision id
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+  pinned?: boolean; // held in place by every layout until unpinned
+}
+
+export type LayoutMode = 'force' | 'layered' | 'radial';
+
+// Shared so everyone in the room sees the same arrangement.
+export interface LayoutSettings {
+  mode: LayoutMode;
+  focus?: string; // node at the centre of the radial layout
+}
+
+export type ProtocolStepKind = 'preparation' | 'treatment' | 'control' | 'measurement' | 'analysis';
+
+// Doses are in `doseUnit`; timepoints are hours after treatment.
+export interface ProtocolStep {
+  id: string;
+  kind: ProtocolStepKind;
+  text: string;
+  reagents?: string[];
+  doses?: number[];
+  doseUnit?: string;
+  timepoints?: number[];
+  controls?: string[];
+  n?: number; // replicates per condition
+  nodeId?: string; // scaffold intervention the step sets, or variable it measures
+  provenance?: Provenance[];
+}
+
+export type ProtocolOrigin = 'authored' | 'extracted' | 'correction' | 'restore';
+
+// One saved version of the notebook's protocol. Versions are only ever appended; the newest is current.
+export interface Protocol {
+  id: string;
+  version: number;
+  parent?: string;
+  title: string;
+  steps: ProtocolStep[];
+  origin: ProtocolOrigin;
+  note: string;
+  by: string;
+  at: string;
+}
+
+export type ProtocolStepChange = Partial<Pick<ProtocolStep, 'kind' | 'reagents' | 'doses' | 'doseUnit' | 'timepoints' | 'controls' | 'n'>>;
+
+// A reviewer's suggested edit to one step; `stepId` names a step that does not exist yet for additions.
+export interface ProtocolCorrection {
+  stepId: string;
+  original: string;
+  corrected: string;
+  rationale: string;
+  change?: ProtocolStepChange;
+}
+
+export type CorrectionDecision = 'accept' | 'reject';
+
 export interface RAGSource {
   title: string;
   url: string;
@@ -55,6 +233,10 @@ export interface RAGSource {
   confidenceScore: number;
   confidenceReason: string;
   methodQuality: 'High' | 'Medium' | 'Low';
+  sourceId?: string;
+  span?: [number, number]; // character offsets of the snippet in the source text
+  edge?: string; // "source->target" of the edge this passage bears on
+  stance?: 'supporting' | 'contradicting' | 'neutral';
 }
 
 // Fix: Added missing export for HeatmapCell
@@ -64,6 +246,15 @@ export interface HeatmapCell {
   value: number;
 }
 
+export interface DoseResponseFit {
+  bottom: number;
+  top: number;
+  ec50: number;
+  hill: number;
+  xOffset: number;
+  r2: number;
+}
+
 export interface SimulationResult {
   variableName: string;
   doseResponseData: any[];
@@ -77,6 +268,98 @@ export interface SimulationResult {
   };
   robustness: any;
   robustnessNarrative?: string; 
+  seed?: string;
+  treatmentId?: string;
+  outcomeId?: string;
+  fit?: DoseResponseFit;
+  sensitivity?: SensitivityAnalysis;
+}
+
+// Effects are the deterministic change in the outcome from control to the top dose.
+export interface EdgeSensitivity {
+  edge: string; // "source->target"
+  label: string;
+  sweep: number[]; // effect at each of SWEEP_SCALES times the edge weight
+  fixedByEquation?: boolean; // the target's own equation ignores the weight, so the sweep is flat
+}
+
+// Strength of an unmeasured confounder, per unit of imbalance between arms, that erases the effect or its significance.
+export interface TippingPoint {
+  imbalance: number; // difference in the confounder's prevalence between treated and control
+  nullifying: number; // confounder -> outcome effect, in outcome SDs
+  insignificant: number;
+}
+
+export interface SensitivityAnalysis {
+  baseEffect: number;
+  eValue: number;
+  eValueCI: number; // for the confidence limit nearer the null
+  tipping: TippingPoint[];
+  scales: number[];
+  edges: EdgeSensitivity[]; // largest swing first
+  signStable: number; // % of single-edge removals that keep the effect's sign
+  sweepStable: number; // % of halved or 1.5x edge weights that keep the effect within half of its size
+  score: number; // robustness, 0-100
+}
+
+export type PowerDesign = 'ttest' | 'anova' | 'trend' | 'timecourse';
+
+// Shared like the layout, so the report records the plan the room agreed on.
+export interface PowerSettings {
+  design: PowerDesign;
+  alpha: number;
+  target: number; // power the sample size must reach
+  effectScale: number; // fraction of the simulated effect the experiment must detect
+  correlation: number; // between repeated measures of a unit, for time-course designs
+}
+
+export interface PowerPlan extends PowerSettings {
+  effectSize: number; // Cohen's d for two-group designs, Cohen's f otherwise
+  effectMeasure: 'd' | 'f';
+  sd: number; // within-group SD of the outcome in the synthesized data
+  groups: number;
+  timepoints?: number[];
+  n: number | null; // per group; null when no n up to the search limit reaches the target
+  achieved: number; // power at n
+  protocolN?: number;
+  protocolPower?: number;
+}
+
+export type PlateFormat = 24 | 96 | 384;
+
+// Edge wells left out of the design are filled with medium to buffer evaporation.
+export type WellRole = 'treatment' | 'control' | 'blank' | 'edge' | 'empty';
+
+export interface PlateWell {
+  well: string; // e.g. "B7"
+  role: WellRole;
+  dose?: number; // treatment wells; controls sit at the control dose
+  replicate?: number;
+  block?: number;
+}
+
+// One replicate of every condition per block; conditions are shuffled within each block.
+export interface PlateLayout {
+  format: PlateFormat;
+  doses: number[];
+  doseUnit?: string;
+  replicates: number;
+  controls: number; // control wells per block
+  blanks: number; // blank wells per block
+  excludeEdges: boolean;
+  seed: string;
+  treatmentId?: string;
+  outcomeId?: string;
+  wells: PlateWell[];
+  by: string;
+  at: string;
+}
+
+export interface PlateReads {
+  name: string;
+  values: Record<string, number>; // well -> measured value
+  by: string;
+  at: string;
 }
 
 // Fix: Added missing export for ClaimCard
@@ -84,6 +367,8 @@ export interface ClaimCard {
   claim: string;
   verdict: 'Supported' | 'Disputed' | 'Pending';
   citation: string;
+  edge?: string;
+  evidence?: RAGSource[];
 }
 
 // Fix: Added missing export for Artifact
@@ -100,10 +385,15 @@ export interface StructuredReport {
     reproducibility: number;
     robustness: number;
   };
-  protocolDiffs: any[];
+  protocolDiffs: ProtocolCorrection[];
+  protocolVersion?: string; // id of the protocol version the corrections were written against
+  power?: PowerPlan;
+  sensitivity?: SensitivityAnalysis;
   claims: ClaimCard[];
   artifacts: Artifact[];
   summary: string;
+  gates?: VerificationCheck[];
+  gateOverride?: GateOverride;
 }
 
 export interface VerificationCheck {
@@ -111,4 +401,13 @@ export interface VerificationCheck {
   name: string;
   status: 'Pass' | 'Fail' | 'Warn';
   message: string;
+  origin?: 'structural' | 'identification' | 'audit';
+}
+
+// Recorded when a synthesis run proceeds despite failing gates.
+export interface GateOverride {
+  by: string;
+  at: string;
+  reason: string;
+  failedChecks: string[];
 }